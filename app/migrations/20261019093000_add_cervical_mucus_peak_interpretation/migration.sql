@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "InterpretationType" ADD VALUE 'CERVICAL_MUCUS_PEAK';
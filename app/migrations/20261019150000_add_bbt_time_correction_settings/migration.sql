@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "bbtTimeCorrection" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "bbtCorrectionPerHour" DOUBLE PRECISION NOT NULL DEFAULT 0.1;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "ExclusionDecisionKind" AS ENUM ('ACCEPTED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "exclusionRules" JSONB;
+
+-- CreateTable
+CREATE TABLE "ExclusionDecision" (
+    "id" TEXT NOT NULL,
+    "decidedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cycleId" TEXT NOT NULL,
+    "dayNumber" INTEGER NOT NULL,
+    "decision" "ExclusionDecisionKind" NOT NULL,
+    "factors" TEXT[],
+    "bbt" DOUBLE PRECISION,
+
+    CONSTRAINT "ExclusionDecision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ExclusionDecision_cycleId_dayNumber_key" ON "ExclusionDecision"("cycleId", "dayNumber");
+
+-- AddForeignKey
+ALTER TABLE "ExclusionDecision" ADD CONSTRAINT "ExclusionDecision_cycleId_fkey" FOREIGN KEY ("cycleId") REFERENCES "Cycle"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "CycleInterpretation" ADD COLUMN     "engineId" TEXT,
+ADD COLUMN     "engineVersion" INTEGER;
+
+-- AlterTable
+ALTER TABLE "UserSettings" ADD COLUMN     "interpretationEngine" TEXT NOT NULL DEFAULT 'sensiplan';
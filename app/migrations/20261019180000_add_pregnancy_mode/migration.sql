@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Cycle" ADD COLUMN     "pregnancyIndicationDismissedAt" TIMESTAMP(3),
+ADD COLUMN     "pregnancyModeAt" TIMESTAMP(3);
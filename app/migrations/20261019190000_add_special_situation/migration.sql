@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "SpecialSituation" AS ENUM ('POSTPARTUM', 'BREASTFEEDING', 'PERIMENOPAUSE');
+
+-- AlterTable
+ALTER TABLE "Cycle" ADD COLUMN     "specialSituation" "SpecialSituation";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Cycle" ADD COLUMN     "postPillCycle" INTEGER,
+ADD COLUMN     "postPillCycles" INTEGER;
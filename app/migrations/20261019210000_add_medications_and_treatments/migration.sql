@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CycleDay" ADD COLUMN     "medications" JSONB,
+ADD COLUMN     "treatments" JSONB;
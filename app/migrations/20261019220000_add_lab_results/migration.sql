@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "LabHormone" AS ENUM ('LH', 'FSH', 'PROLACTIN', 'PROGESTERONE', 'HCG');
+
+-- CreateTable
+CREATE TABLE "LabResult" (
+    "id" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cycleDayId" TEXT NOT NULL,
+    "hormone" "LabHormone" NOT NULL,
+    "value" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL,
+    "referenceLow" DOUBLE PRECISION,
+    "referenceHigh" DOUBLE PRECISION,
+
+    CONSTRAINT "LabResult_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LabResult_cycleDayId_hormone_key" ON "LabResult"("cycleDayId", "hormone");
+
+-- AddForeignKey
+ALTER TABLE "LabResult" ADD CONSTRAINT "LabResult_cycleDayId_fkey" FOREIGN KEY ("cycleDayId") REFERENCES "CycleDay"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -11,6 +11,20 @@ import { Info } from 'lucide-react';
 import { formatDateForInput, toDisplayTemperature, formatTemperature } from './utils';
 import { computeBbtForStorage } from './computeBbtForStorage';
 import { NOTE_MAX_LENGTH } from './notesValidation';
+import {
+  ENTRY_DETAIL_MAX_LENGTH,
+  MEDICATION_LABELS,
+  MEDICATION_TYPES,
+  readMedications,
+  readTreatments,
+  TREATMENT_LABELS,
+  TREATMENT_TYPES,
+  type MedicationEntry,
+  type MedicationType,
+  type TreatmentEntry,
+  type TreatmentType,
+} from './medications';
+import { LabResultsCard } from './components/LabResultsCard';
 import SideNav from './SideNav';
 
 export default function AddCycleDayPage() {
@@ -52,6 +66,8 @@ export default function AddCycleDayPage() {
   const [disturbanceFactors, setDisturbanceFactors] = useState<string[]>([]);
   const [travelTimeDiff, setTravelTimeDiff] = useState<number>(0);
   const [notes, setNotes] = useState<string>('');
+  const [medications, setMedications] = useState<MedicationEntry[]>([]);
+  const [treatments, setTreatments] = useState<TreatmentEntry[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Find the existing day if we're editing
@@ -85,6 +101,8 @@ export default function AddCycleDayPage() {
       setDisturbanceFactors(existingDay.disturbanceFactors ?? []);
       setTravelTimeDiff(existingDay.travelTimeDiff ?? 0);
       setNotes(existingDay.notes ?? '');
+      setMedications(readMedications(existingDay.medications));
+      setTreatments(readTreatments(existingDay.treatments));
     }
   }, [existingDay, settings]);
 
@@ -130,6 +148,8 @@ export default function AddCycleDayPage() {
         disturbanceFactors,
         travelTimeDiff: disturbanceFactors.includes('TRAVEL') ? travelTimeDiff : null,
         notes: notes.trim() || null,
+        medications,
+        treatments,
       });
 
       // Reset form (only if adding, not editing)
@@ -145,6 +165,8 @@ export default function AddCycleDayPage() {
         setDisturbanceFactors([]);
         setTravelTimeDiff(0);
         setNotes('');
+        setMedications([]);
+        setTreatments([]);
       }
       
       // Redirect back to chart if that's where the edit was initiated, otherwise days page
@@ -282,6 +304,26 @@ export default function AddCycleDayPage() {
     );
   };
 
+  const toggleMedication = (type: MedicationType) => {
+    setMedications((prev) =>
+      prev.some((m) => m.type === type) ? prev.filter((m) => m.type !== type) : [...prev, { type, dose: null }]
+    );
+  };
+
+  const setMedicationDose = (type: MedicationType, dose: string) => {
+    setMedications((prev) => prev.map((m) => (m.type === type ? { ...m, dose: dose || null } : m)));
+  };
+
+  const toggleTreatment = (type: TreatmentType) => {
+    setTreatments((prev) =>
+      prev.some((t) => t.type === type) ? prev.filter((t) => t.type !== type) : [...prev, { type, detail: null }]
+    );
+  };
+
+  const setTreatmentDetail = (type: TreatmentType, detail: string) => {
+    setTreatments((prev) => prev.map((t) => (t.type === type ? { ...t, detail: detail || null } : t)));
+  };
+
   const opkOptions: { value: OpkStatusOption; label: string; description: string }[] = [
     {
       value: 'low',
@@ -537,7 +579,7 @@ export default function AddCycleDayPage() {
                     </div>
                     {option.key === 'TRAVEL' && disturbanceFactors.includes('TRAVEL') && (
                       <div className="col-span-1 sm:col-span-2 flex flex-wrap items-center gap-2 pl-6 mt-1 mb-1">
-                        <span className="text-sm text-muted-foreground">Time difference (optional):</span>
+                        <span className="text-sm text-muted-foreground">Time difference from home (optional):</span>
                         <div className="flex items-center gap-1">
                           <button
                             type="button"
@@ -565,6 +607,80 @@ export default function AddCycleDayPage() {
               </div>
             </div>
 
+            <div className="space-y-3">
+              <h3 className="text-lg font-semibold cursor-default">Medication &amp; Treatment</h3>
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Medications</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {MEDICATION_TYPES.map((type) => {
+                    const entry = medications.find((m) => m.type === type);
+                    return (
+                      <div key={type} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`medication-${type}`}
+                            checked={!!entry}
+                            onCheckedChange={() => toggleMedication(type)}
+                          />
+                          <Label htmlFor={`medication-${type}`} className="cursor-pointer">
+                            {MEDICATION_LABELS[type]}
+                          </Label>
+                        </div>
+                        {entry && (
+                          <Input
+                            aria-label={`${MEDICATION_LABELS[type]} dose`}
+                            className="ml-6 h-8 w-auto text-sm"
+                            maxLength={ENTRY_DETAIL_MAX_LENGTH}
+                            placeholder="Dose (optional), e.g. 200 mg"
+                            value={entry.dose ?? ''}
+                            onChange={(e) => setMedicationDose(type, e.target.value)}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                {medications.some((m) => m.type === 'PROGESTERONE') && (
+                  <p className="text-xs text-amber-700">
+                    Progesterone raises your waking temperature, so a temperature shift in this cycle is shown
+                    with low confidence.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Treatments &amp; tests</p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {TREATMENT_TYPES.map((type) => {
+                    const entry = treatments.find((t) => t.type === type);
+                    return (
+                      <div key={type} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`treatment-${type}`}
+                            checked={!!entry}
+                            onCheckedChange={() => toggleTreatment(type)}
+                          />
+                          <Label htmlFor={`treatment-${type}`} className="cursor-pointer">
+                            {TREATMENT_LABELS[type]}
+                          </Label>
+                        </div>
+                        {entry && (
+                          <Input
+                            aria-label={`${TREATMENT_LABELS[type]} details`}
+                            className="ml-6 h-8 w-auto text-sm"
+                            maxLength={ENTRY_DETAIL_MAX_LENGTH}
+                            placeholder="Details (optional)"
+                            value={entry.detail ?? ''}
+                            onChange={(e) => setTreatmentDetail(type, e.target.value)}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            </div>
+
             <div className="space-y-3">
               <h3 className="text-lg font-semibold cursor-default">Notes</h3>
               <div className="space-y-1">
@@ -601,6 +717,10 @@ export default function AddCycleDayPage() {
         </CardContent>
       </Card>
 
+      <div className="mt-6">
+        <LabResultsCard cycleId={cycle.id} cycleDayId={existingDay?.id ?? null} />
+      </div>
+
       {cycle.days.length > 0 && (
         <div className="mt-6">
           <Card>
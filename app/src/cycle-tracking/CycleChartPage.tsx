@@ -1,9 +1,10 @@
-import { useMemo, useRef, useEffect, useState, Fragment } from 'react';
+import { useMemo, useRef, useEffect, useState, Fragment, type ReactNode } from 'react';
 import { useQuery } from 'wasp/client/operations';
 import { getCycleById, getUserSettings, getUserCycles } from 'wasp/client/operations';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { Button } from '../components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../components/ui/dropdown-menu';
 import ReactApexChart from 'react-apexcharts';
 import { toDisplayTemperature, formatTemperature, formatDate, formatDateLong, formatDateDDMMMYYYY, resolveCycleDayIsoDate, getDayOfWeekAbbreviationChip, getDayOfWeek, getCycleDayCount, getTempNodeLabel, computeContainerMinWidth, buildMonthSpans, isCycleDayInTail, getCFBarColor, getCFBarHeight } from './utils';
 import type { ApexOptions } from 'apexcharts';
@@ -14,13 +15,43 @@ import { PropositionCard } from './interpretation/components/PropositionCard';
 import { AnovulatoryCard } from './interpretation/components/AnovulatoryCard';
 import { UninterpretableCard } from './interpretation/components/UninterpretableCard';
 import { CycleBadge } from './interpretation/components/CycleBadge';
+import { FertileWindowCard } from './interpretation/components/FertileWindowCard';
+import { MucusPeakCard } from './interpretation/components/MucusPeakCard';
 import { CrossCycleAnovulatoryBanner } from './interpretation/components/CrossCycleAnovulatoryBanner';
 import { NudgeIcon } from './interpretation/components/NudgeIcon';
 import { NudgeMessage } from './interpretation/components/NudgeMessage';
 import { NoteEditorSheet } from './components/NoteEditorSheet';
-import { getPreviousCycleSummary } from 'wasp/client/operations';
+import {
+  getPreviousCycleSummary,
+  getExclusionDecisions,
+  resolveExclusionSuggestions,
+  setPregnancyMode,
+  dismissPregnancyIndication,
+  setSpecialSituation,
+  getCycleLabResults,
+} from 'wasp/client/operations';
 import { getActiveCoverline } from './interpretation/getActiveCoverline';
 import { getChartAnnotations } from './interpretation/getChartAnnotations';
+import { collectHistoricalShiftDays } from './interpretation/historicalShiftDays';
+import { calculateEarlyInfertilePhase } from './interpretation/sensiplan/earlyInfertile';
+import { correctForMeasurementTime } from './interpretation/sensiplan/measurementTime';
+import { resolveExclusionRules, suggestExclusions, type ExclusionDecisionKind } from './interpretation/sensiplan/exclusionSuggestions';
+import { ExclusionSuggestionsCard } from './interpretation/components/ExclusionSuggestionsCard';
+import { getEngineForCycle, usesConservativeFallback } from './interpretation/engines';
+import { SPECIAL_SITUATIONS, SPECIAL_SITUATION_LABELS, type SpecialSituation } from './interpretation/specialSituations';
+import { detectLhSurge, type OpkStatus } from './interpretation/lhSurge';
+import { LhSurgeWarningCard } from './interpretation/components/LhSurgeWarningCard';
+import { MidLutealProgesteroneCard } from './interpretation/components/MidLutealProgesteroneCard';
+import { PregnancyCard } from './interpretation/components/PregnancyCard';
+import { forecastCycle, forecastGhostColumns } from './cycleForecast';
+import { getPostPillTag } from './postPill';
+import { describeMedication, describeTreatment, MEDICATION_SHORT_LABELS, readMedications, readTreatments, takesProgesterone } from './medications';
+import { PostPillNotice } from './components/PostPillNotice';
+import { LabSparklineRows, LAB_ROW_HEIGHT } from './components/LabSparklineRows';
+import { checkMidLutealProgesterone, hormonesWithResults } from './labResults';
+import { layoutChartPdf, type PaperSize } from './chartPdfLayout';
+import { renderPdf } from './pdfWriter';
+import { downloadFile } from './dataDownload';
 import {
   ThermalShiftBackgroundLayer,
   ThermalShiftForegroundLayer,
@@ -73,6 +104,8 @@ export default function CycleChartPage() {
   const { data: allCycles } = useQuery(getUserCycles);
   const { data: cycle, isLoading: cycleLoading } = useQuery(getCycleById, { cycleId: cycleId || '' }, { enabled: !!cycleId });
   const { data: settings, isLoading: settingsLoading } = useQuery(getUserSettings);
+  const { data: exclusionDecisions } = useQuery(getExclusionDecisions, { cycleId: cycleId || '' }, { enabled: !!cycleId });
+  const { data: labResults } = useQuery(getCycleLabResults, { cycleId: cycleId || '' }, { enabled: !!cycleId });
   const { data: previousCycle } = useQuery(
     getPreviousCycleSummary,
     { cycleNumber: cycle?.cycleNumber ?? 0 },
@@ -155,11 +188,105 @@ export default function CycleChartPage() {
     }
   }, [cycleId, allCycles]);
 
+  // Engine input exactly as recorded.
+  const recordedDayInputs: CycleDayInput[] = useMemo(() => {
+    if (!cycle) return [];
+    return cycle.days.map((d: any) => ({
+      dayNumber: d.dayNumber,
+      bbt: d.bbt,
+      bbtTime: d.bbtTime,
+      excludeFromInterpretation: d.excludeFromInterpretation,
+      disturbanceFactors: d.disturbanceFactors ?? [],
+      travelTimeDiff: d.travelTimeDiff,
+      cervicalAppearance: d.cervicalAppearance,
+      cervicalSensation: d.cervicalSensation,
+      progesterone: takesProgesterone(d.medications),
+    }));
+  }, [cycle]);
+
+  // Opt-in measurement-time correction (Settings). When on, the corrected
+  // temperatures are what the engine, annotations and curve all use; the
+  // recorded values are drawn alongside as hollow diamonds.
+  const measurementCorrection = useMemo(() => {
+    if (!settings?.bbtTimeCorrection) return null;
+    return correctForMeasurementTime(recordedDayInputs, settings.bbtCorrectionPerHour);
+  }, [recordedDayInputs, settings]);
+
+  const correctionsByDay = useMemo(
+    () => new Map((measurementCorrection?.corrections ?? []).map((c) => [c.dayNumber, c])),
+    [measurementCorrection]
+  );
+
+  // Disturbance-based exclusion suggestions. Judged on the recorded values —
+  // the stored decisions snapshot those, so a correction recomputed from
+  // other days never re-opens an answered suggestion.
+  const exclusionSuggestions = useMemo(() => {
+    if (!settings || !exclusionDecisions) return [];
+    return suggestExclusions(recordedDayInputs, resolveExclusionRules(settings.exclusionRules), exclusionDecisions);
+  }, [recordedDayInputs, settings, exclusionDecisions]);
+
+  const handleResolveExclusions = async (decisions: { dayNumber: number; decision: ExclusionDecisionKind }[]) => {
+    if (!cycle) return;
+    try {
+      await resolveExclusionSuggestions({ cycleId: cycle.id, decisions });
+      const excluded = decisions.filter((d) => d.decision === 'ACCEPTED').length;
+      toast.success(excluded > 0
+        ? `Excluded ${excluded} day${excluded === 1 ? '' : 's'} from interpretation`
+        : 'Kept the selected days');
+    } catch (e: any) {
+      console.error('Failed to resolve exclusion suggestions:', e);
+      toast.error(e?.message || 'Could not save your choice. Try again.');
+    }
+  };
+
+  const handleSetPregnancyMode = async (enabled: boolean) => {
+    if (!cycle) return;
+    try {
+      await setPregnancyMode({ cycleId: cycle.id, enabled });
+      toast.success(enabled ? 'Switched to pregnancy mode' : 'Left pregnancy mode');
+    } catch (e: any) {
+      console.error('Failed to change pregnancy mode:', e);
+      toast.error(e?.message || 'Could not change pregnancy mode. Try again.');
+    }
+  };
+
+  const handleSetSpecialSituation = async (situation: SpecialSituation | null) => {
+    if (!cycle) return;
+    try {
+      await setSpecialSituation({ cycleId: cycle.id, situation });
+      toast.success(
+        !situation
+          ? 'Using your standard rules'
+          : usesConservativeFallback(situation)
+            ? `${SPECIAL_SITUATION_LABELS[situation]}: using a conservative fallback, not Sensiplan's rules for this situation`
+            : `Using the temperature rules for: ${SPECIAL_SITUATION_LABELS[situation]}`
+      );
+    } catch (e: any) {
+      console.error('Failed to change special situation:', e);
+      toast.error(e?.message || 'Could not change the rules for this cycle. Try again.');
+    }
+  };
+
+  const handleDismissPregnancy = async () => {
+    if (!cycle) return;
+    try {
+      await dismissPregnancyIndication({ cycleId: cycle.id });
+    } catch (e: any) {
+      console.error('Failed to dismiss pregnancy indication:', e);
+      toast.error(e?.message || 'Could not save your choice. Try again.');
+    }
+  };
+
   // Separate included and excluded BBT days
   const allDaysWithBBT = useMemo(() => {
     if (!cycle) return [];
-    return cycle.days.filter((day: any) => day.bbt !== null);
-  }, [cycle]);
+    return cycle.days
+      .filter((day: any) => day.bbt !== null)
+      .map((day: any) => {
+        const correction = correctionsByDay.get(day.dayNumber);
+        return correction ? { ...day, bbt: correction.correctedBbt } : day;
+      });
+  }, [cycle, correctionsByDay]);
 
   const includedBBTDays = useMemo(() => {
     return allDaysWithBBT.filter((day: any) => !day.excludeFromInterpretation);
@@ -169,18 +296,18 @@ export default function CycleChartPage() {
     return allDaysWithBBT.filter((day: any) => day.excludeFromInterpretation);
   }, [allDaysWithBBT]);
 
-  // Convert cycle days to engine input format
+  // Rule set chosen in Settings, or the cycle's special-situation rules;
+  // registry entries are constants, so this is referentially stable.
+  const specialSituation: SpecialSituation | null = (cycle as any)?.specialSituation ?? null;
+  const engine = getEngineForCycle(settings?.interpretationEngine, specialSituation);
+  const postPillTag = useMemo(() => (cycle ? getPostPillTag(cycle as any) : null), [cycle]);
+
+  // Convert cycle days to engine input format. Held back until settings load
+  // so the engine never runs (and persists) on uncorrected values first.
   const cycleDayInputs: CycleDayInput[] = useMemo(() => {
-    if (!cycle) return [];
-    return cycle.days.map((d: any) => ({
-      dayNumber: d.dayNumber,
-      bbt: d.bbt,
-      bbtTime: d.bbtTime,
-      excludeFromInterpretation: d.excludeFromInterpretation,
-      disturbanceFactors: d.disturbanceFactors ?? [],
-      travelTimeDiff: d.travelTimeDiff,
-    }));
-  }, [cycle]);
+    if (!settings) return [];
+    return measurementCorrection?.days ?? recordedDayInputs;
+  }, [settings, measurementCorrection, recordedDayInputs]);
 
   const maxDayNumber = useMemo(() => {
     if (cycleDayInputs.length === 0) return 0;
@@ -191,24 +318,46 @@ export default function CycleChartPage() {
     engineResult,
     interpretation,
     postShiftMonitoring,
+    fertileWindow,
     isLoading: interpretationLoading,
     keepWatchingDismissed,
     onKeepWatching,
     actions: interpretationActions,
+    mucusInterpretation,
+    mucusActions,
   } = useInterpretation({
     cycleId,
     days: cycleDayInputs,
     cycleIsActive: cycle?.isActive ?? false,
     markedAnovulatoryAt: (cycle as any)?.markedAnovulatoryAt ?? null,
     markedUninterpretableAt: (cycle as any)?.markedUninterpretableAt ?? null,
+    engine,
   });
 
+  // Start-of-cycle infertile days (5-day / minus-8 rule). Depends on past
+  // cycles' thermal-shift interpretations via getUserCycles, which Wasp
+  // invalidates whenever an interpretation action runs — so a confirm/adjust/
+  // dismiss on an earlier cycle recomputes this band. Off under special-
+  // situation rules and in post-pill wash-out cycles.
+  const earlyInfertile = useMemo(() => {
+    if (!cycle || !allCycles || !engine.startOfCycleRules || postPillTag) return null;
+    const history = collectHistoricalShiftDays(allCycles as any[], cycle);
+    const result = calculateEarlyInfertilePhase(history, cycleDayInputs);
+    return result.lastInfertileDay > 0 ? result : null;
+  }, [cycle, allCycles, cycleDayInputs, engine, postPillTag]);
+
   // Determine how many days to show on the chart.
   const recordedMaxDay = useMemo(() => {
     if (!cycle || cycle.days.length === 0) return 0;
     return Math.max(...cycle.days.map((day: any) => day.dayNumber));
   }, [cycle]);
 
+  // Calendar forecast from completed cycles, shown on the active cycle only.
+  const forecast = useMemo(() => {
+    if (!cycle?.isActive || !allCycles) return null;
+    return forecastCycle(allCycles, new Date());
+  }, [cycle, allCycles]);
+
   const displayDayRange = useMemo(() => {
     if (!cycle) {
       return { minDay: 1, maxDay: 28 };
@@ -217,8 +366,17 @@ export default function CycleChartPage() {
     // For ended cycles where recordedMaxDay < 28, cells [recordedMaxDay+1..28]
     // form the gray tail (see isCycleDayInTail). For long cycles
     // (recordedMaxDay > 28), the range expands naturally to recordedMaxDay.
-    return { minDay: 1, maxDay: Math.max(28, recordedMaxDay) };
-  }, [cycle, recordedMaxDay]);
+    // In pregnancy mode the chart stays open a week past the last entry,
+    // since the high phase no longer ends in a new cycle; likewise for an
+    // active cycle in a special situation, which can run for months.
+    if (cycle.pregnancyModeAt || (cycle.isActive && specialSituation)) {
+      return { minDay: 1, maxDay: Math.max(28, recordedMaxDay + 7) };
+    }
+    // The active cycle also reaches the latest expected period day, so the
+    // forecast's ghost columns fit.
+    const forecastDay = forecast?.status === 'forecast' ? forecast.nextPeriod.latestDay : 0;
+    return { minDay: 1, maxDay: Math.max(28, recordedMaxDay, forecastDay) };
+  }, [cycle, recordedMaxDay, forecast, specialSituation]);
 
   const chartData = useMemo(() => {
     if (!settings || !cycle) return null;
@@ -308,8 +466,38 @@ export default function CycleChartPage() {
       cycleDayInputs,
       interpretation,
       engineResult?.thermalShift ?? null,
+      engine.thermalRules,
     );
-  }, [cycleDayInputs, interpretation, engineResult]);
+  }, [cycleDayInputs, interpretation, engineResult, engine]);
+
+  // Fertile ghosts give way to the cycle's own shift once there is one.
+  const ghostColumns = useMemo(
+    () => (forecast ? forecastGhostColumns(forecast, recordedMaxDay, annotationData !== null) : []),
+    [forecast, recordedMaxDay, annotationData]
+  );
+
+  // Ovulation tests as a third signal, related to the shift the chart shows.
+  const shownShiftDay = annotationData?.confirmingDays[0] ?? null;
+  const lhSurge = useMemo(() => {
+    if (!cycle) return null;
+    return detectLhSurge(
+      cycle.days.map((d: any) => ({ dayNumber: d.dayNumber, opkStatus: (d.opkStatus ?? null) as OpkStatus | null })),
+      shownShiftDay,
+    );
+  }, [cycle, shownShiftDay]);
+
+  // Mid-luteal progesterone blood test as a check on the same shift.
+  const midLutealCheck = useMemo(
+    () => checkMidLutealProgesterone(labResults ?? [], shownShiftDay, {
+      supplemented: recordedDayInputs.some((d) => d.progesterone),
+    }),
+    [labResults, shownShiftDay, recordedDayInputs]
+  );
+
+  const lhSurgeDays = useMemo(
+    () => new Set(lhSurge?.status === 'detected' ? lhSurge.surge.days : []),
+    [lhSurge]
+  );
 
   // Coverline data for the custom React overlay (replaces the
   // annotations.yaxis entry, which spanned the full plot width and
@@ -346,6 +534,39 @@ export default function CycleChartPage() {
     };
   }, [settings, cycle, interpretation, engineResult, cycleDayInputs]);
 
+  // Printable chart for instructors: same curve, coverline and annotations
+  // as the screen, rendered to PDF in the browser with no network round trip.
+  const handleDownloadPdf = (paper: PaperSize) => {
+    if (!cycle || !settings) return;
+    const isMarked =
+      !!(cycle as any).markedAnovulatoryAt || !!(cycle as any).markedUninterpretableAt;
+    const coverlineTemp = interpretation && engineResult && interpretation.state !== 'DISMISSED' && !isMarked
+      ? getActiveCoverline(cycleDayInputs, interpretation, engineResult.thermalShift)
+      : null;
+    const title = `Cycle #${cycle.cycleNumber}`;
+
+    const pages = layoutChartPdf({
+      title,
+      cycleStartDate: new Date(cycle.startDate),
+      unit: settings.temperatureUnit,
+      days: cycle.days.map((d: any) => ({
+        dayNumber: d.dayNumber,
+        date: new Date(d.date),
+        bbt: correctionsByDay.get(d.dayNumber)?.correctedBbt ?? d.bbt,
+        excludeFromInterpretation: d.excludeFromInterpretation,
+        cervicalAppearance: d.cervicalAppearance,
+        cervicalSensation: d.cervicalSensation,
+        menstrualFlow: d.menstrualFlow,
+        disturbanceFactors: d.disturbanceFactors ?? [],
+        notes: d.notes,
+      })),
+      annotations: annotationData,
+      coverlineTemp,
+    }, paper);
+
+    downloadFile(renderPdf(pages, title), `cycle-${cycle.cycleNumber}.pdf`, 'application/pdf');
+  };
+
   // Calculate dynamic Y-axis range based on actual data (including excluded points)
   const yAxisRange = useMemo(() => {
     if (!chartData || !settings) return null;
@@ -354,6 +575,10 @@ export default function CycleChartPage() {
     const allTemperatures = chartData.series.flatMap(series => 
       series.data.map((point: {x: number, y: number}) => point.y)
     );
+    // Recorded values of time-corrected readings are drawn too; keep them in view.
+    for (const correction of measurementCorrection?.corrections ?? []) {
+      allTemperatures.push(toDisplayTemperature(correction.rawBbt, settings.temperatureUnit));
+    }
 
     // Default ranges
     const defaultRange = settings.temperatureUnit === 'CELSIUS' 
@@ -408,7 +633,7 @@ export default function CycleChartPage() {
     }
 
     return { min, max };
-  }, [chartData, settings, annotationData, plotAreaHeight]);
+  }, [chartData, settings, annotationData, plotAreaHeight, measurementCorrection]);
 
   // Compute days with no BBT recording that fall between two consecutive included BBT points.
   // Used to render a small × on the connecting line at the interpolated temperature position.
@@ -542,7 +767,9 @@ export default function CycleChartPage() {
 
   // Notes row sizing (cervical-fluid bar helpers now live in ./utils)
   const NOTES_ROW_HEIGHT = notesRowExpanded ? 120 : 28;
-  const LOWER_TABLE_PADDING_BOTTOM = 262 + NOTES_ROW_HEIGHT;
+  // Lab sparkline rows follow the Notes row, one per hormone with results.
+  const labHormones = useMemo(() => hormonesWithResults(labResults ?? []), [labResults]);
+  const LOWER_TABLE_PADDING_BOTTOM = 290 + NOTES_ROW_HEIGHT + labHormones.length * LAB_ROW_HEIGHT;
 
   // Create a map of day numbers to disturbance factors
   const disturbanceMap = useMemo(() => {
@@ -609,7 +836,8 @@ export default function CycleChartPage() {
       const hasCF = !!cfData?.cervicalAppearance;
       const hasMenstrual = !!cfData?.menstrualFlow;
       const hasDisturbance = (day?.disturbanceFactors?.length ?? 0) > 0;
-      map.set(dayNumber, hasBBT || hasTime || hasOPK || hasIntercourse || hasCF || hasMenstrual || hasDisturbance);
+      const hasTreatment = readMedications(day?.medications).length > 0 || readTreatments(day?.treatments).length > 0;
+      map.set(dayNumber, hasBBT || hasTime || hasOPK || hasIntercourse || hasCF || hasMenstrual || hasDisturbance || hasTreatment);
     }
     return map;
   }, [cycle, chartData, allCycleDaysMap, timeStampsMap, opkStatusMap, cervicalMenstrualMap, displayDayRange]);
@@ -1185,22 +1413,36 @@ export default function CycleChartPage() {
             <CycleBadge
               markedAnovulatoryAt={(cycle as any).markedAnovulatoryAt ?? null}
               markedUninterpretableAt={(cycle as any).markedUninterpretableAt ?? null}
+              fertileWindow={fertileWindow}
             />
           </h1>
           <p className="text-muted-foreground">
             Started: {formatDateLong(new Date(cycle.startDate))}
             {cycle.endDate && ` - Ended: ${formatDateLong(new Date(cycle.endDate))}`}
           </p>
+          {specialSituation && (
+            <p className="text-sm text-muted-foreground mt-1">
+              <span className="font-medium text-foreground">{SPECIAL_SITUATION_LABELS[specialSituation]}:</span>{' '}
+              {usesConservativeFallback(specialSituation)
+                ? 'interpreted with a conservative fallback. '
+                : `interpreted with the ${engine.name} rules. `}
+              {engine.description}
+            </p>
+          )}
         </div>
-        <Link to="/cycles/new">
-          <Button variant="default">
-            <span className="sm:hidden">Cycle +</span>
-            <span className="hidden sm:inline">Begin new cycle</span>
-          </Button>
-        </Link>
+        {!cycle.pregnancyModeAt && (
+          <Link to="/cycles/new">
+            <Button variant="default">
+              <span className="sm:hidden">Cycle +</span>
+              <span className="hidden sm:inline">Begin new cycle</span>
+            </Button>
+          </Link>
+        )}
       </div>
 
-      {cycle.isActive && (
+      {postPillTag && <PostPillNotice tag={postPillTag} />}
+
+      {cycle.isActive && !specialSituation && (
         <CrossCycleAnovulatoryBanner previousCycle={previousCycle ?? null} />
       )}
 
@@ -1208,6 +1450,41 @@ export default function CycleChartPage() {
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Temperature Chart</CardTitle>
           <div className="flex items-center gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" aria-label="Download PDF">
+                  <svg className="w-4 h-4 sm:mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v12m0 0l-4-4m4 4l4-4M4 20h16" />
+                  </svg>
+                  <span className="hidden sm:inline">PDF</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => handleDownloadPdf('A4')}>A4</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleDownloadPdf('LETTER')}>US Letter</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" aria-label="Special situation">
+                  {specialSituation ? SPECIAL_SITUATION_LABELS[specialSituation] : 'Special situation'}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {SPECIAL_SITUATIONS.map((situation) => (
+                  <DropdownMenuItem
+                    key={situation}
+                    disabled={situation === specialSituation}
+                    onSelect={() => handleSetSpecialSituation(situation)}
+                  >
+                    {SPECIAL_SITUATION_LABELS[situation]}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuItem disabled={!specialSituation} onSelect={() => handleSetSpecialSituation(null)}>
+                  None (standard rules)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Link to={`/cycles/${cycle.id}/days`}>
               <Button variant="outline" size="sm" className="hover:bg-[#002142] hover:text-white" aria-label="View Days">
                 <svg className="w-4 h-4 sm:mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1229,6 +1506,13 @@ export default function CycleChartPage() {
           </div>
         </CardHeader>
         <CardContent>
+          {measurementCorrection && measurementCorrection.corrections.length > 0 && (
+            <p className="mb-2 text-xs text-amber-700">
+              <span aria-hidden="true">◇</span> {measurementCorrection.corrections.length} reading
+              {measurementCorrection.corrections.length === 1 ? ' was' : 's were'} adjusted for measurement time;
+              the diamond shows the recorded value.
+            </p>
+          )}
           <style>{`
             .apexcharts-yaxis-label,
             .apexcharts-yaxis-title-text {
@@ -1657,6 +1941,91 @@ export default function CycleChartPage() {
                 );
               })()}
 
+              {/* Forecast ghost columns (future days only) - positioned behind chart */}
+              {ghostColumns.length > 0 && chartData && plotAreaWidth > 0 && plotAreaTop > 0 && plotAreaHeight > 0 && (() => {
+                const numDays = chartData.maxDay - chartData.minDay + 1;
+                const cellWidth = plotAreaWidth / numDays;
+                const visible = ghostColumns.filter((c) => c.dayNumber >= chartData.minDay && c.dayNumber <= chartData.maxDay);
+
+                return visible.map((column, i) => {
+                  const isPeriod = column.kind === 'period';
+                  const startsRun = i === 0 || visible[i - 1].kind !== column.kind;
+                  return (
+                    <div
+                      key={`ghost-${column.kind}-${column.dayNumber}`}
+                      className="absolute pointer-events-none"
+                      style={{
+                        left: `${plotAreaOffset + (column.dayNumber - chartData.minDay) * cellWidth}px`,
+                        top: `${plotAreaTop}px`,
+                        width: `${cellWidth}px`,
+                        height: `${plotAreaHeight}px`,
+                        backgroundColor: isPeriod ? 'rgba(225, 29, 72, 0.06)' : 'rgba(16, 185, 129, 0.06)',
+                        borderLeft: startsRun ? `1px dashed ${isPeriod ? 'rgba(225, 29, 72, 0.4)' : 'rgba(16, 185, 129, 0.4)'}` : undefined,
+                        zIndex: 0
+                      }}
+                    >
+                      {startsRun && (
+                        <span style={{
+                          position: 'absolute',
+                          bottom: '4px',
+                          left: '3px',
+                          whiteSpace: 'nowrap',
+                          fontSize: '10px',
+                          fontWeight: 500,
+                          color: isPeriod ? '#9f1239' : '#047857',
+                          fontFamily: "'Montserrat', sans-serif",
+                          textShadow: '0 1px 2px rgba(255,255,255,0.8)'
+                        }}>
+                          {isPeriod ? 'Period expected' : 'Fertile (forecast)'}
+                        </span>
+                      )}
+                    </div>
+                  );
+                });
+              })()}
+
+              {/* Early infertile band (5-day / minus-8 rule) - positioned behind chart */}
+              {earlyInfertile && chartData && plotAreaWidth > 0 && plotAreaTop > 0 && plotAreaHeight > 0 && (() => {
+                const numDays = chartData.maxDay - chartData.minDay + 1;
+                const cellWidth = plotAreaWidth / numDays;
+                const lastDay = Math.min(earlyInfertile.lastInfertileDay, chartData.maxDay);
+                const bandWidth = (lastDay - chartData.minDay + 1) * cellWidth;
+                if (bandWidth <= 0) return null;
+                const ruleLabel = earlyInfertile.rule === 'minus_8' ? 'minus-8' : '5-day rule';
+
+                return (
+                  <div
+                    className="absolute pointer-events-none"
+                    style={{
+                      left: `${plotAreaOffset}px`,
+                      top: `${plotAreaTop}px`,
+                      width: `${bandWidth}px`,
+                      height: `${plotAreaHeight}px`,
+                      backgroundColor: 'rgba(100, 116, 139, 0.10)',
+                      borderRight: '1px dashed rgba(100, 116, 139, 0.5)',
+                      zIndex: 0
+                    }}
+                  >
+                    <span style={{
+                      position: 'absolute',
+                      top: '4px',
+                      left: '50%',
+                      transform: 'translateX(-50%)',
+                      whiteSpace: 'nowrap',
+                      fontSize: '11px',
+                      fontWeight: 600,
+                      color: '#475569',
+                      fontFamily: "'Montserrat', sans-serif",
+                      textShadow: '0 1px 2px rgba(255,255,255,0.8)',
+                      textAlign: 'center'
+                    }}>
+                      Infertile
+                      <span style={{ display: 'block', fontSize: '10px', fontWeight: 500 }}>{ruleLabel}</span>
+                    </span>
+                  </div>
+                );
+              })()}
+
               {/* Thermal-shift annotations: BACKGROUND layer (band + halos) */}
               {annotationData && chartData && plotAreaWidth > 0 && plotAreaTop > 0 && plotAreaHeight > 0 && yAxisRange && settings && (
                 <ThermalShiftBackgroundLayer
@@ -1745,6 +2114,18 @@ export default function CycleChartPage() {
                       <div className="text-xs text-gray-500 mb-2">Cycle Day {tooltipDayNumber}</div>
                       {temp && <div className="font-semibold">{temp}{tempUnit}</div>}
                       {bbtDay?.bbtTime && <div className="text-xs">Time: {bbtDay.bbtTime}</div>}
+                      {correctionsByDay.has(tooltipDayNumber) && (() => {
+                        const correction = correctionsByDay.get(tooltipDayNumber)!;
+                        const recorded = toDisplayTemperature(correction.rawBbt, settings?.temperatureUnit ?? 'FAHRENHEIT').toFixed(2);
+                        const hours = Math.floor(Math.abs(correction.minutesOff) / 60);
+                        const minutes = Math.abs(correction.minutesOff) % 60;
+                        const offBy = hours > 0 ? `${hours}h${minutes > 0 ? ` ${minutes}m` : ''}` : `${minutes}m`;
+                        return (
+                          <div className="text-xs text-amber-700">
+                            Recorded {recorded}{tempUnit}, {offBy} {correction.minutesOff > 0 ? 'later' : 'earlier'} than usual
+                          </div>
+                        );
+                      })()}
                       {day.hadIntercourse && <div className="text-xs text-pink-600">Intercourse</div>}
                       {day.excludeFromInterpretation && (
                         <div className="text-xs text-gray-500">Excluded from interpretation</div>
@@ -1770,6 +2151,16 @@ export default function CycleChartPage() {
                           })}
                         </div>
                       )}
+                      {readMedications(day.medications).length > 0 && (
+                        <div className="text-xs text-gray-600">
+                          💊 {readMedications(day.medications).map(describeMedication).join(', ')}
+                        </div>
+                      )}
+                      {readTreatments(day.treatments).length > 0 && (
+                        <div className="text-xs text-gray-600">
+                          🩺 {readTreatments(day.treatments).map(describeTreatment).join(', ')}
+                        </div>
+                      )}
                       {day.id && (
                         <div className="mt-2 pt-2 border-t border-gray-100 flex pointer-events-auto">
                           <Link to={`/cycles/${cycleId}/add-day?dayId=${day.id}&returnTo=chart`}>
@@ -1880,6 +2271,55 @@ export default function CycleChartPage() {
                 );
               })()}
 
+              {/* Measurement-time correction: recorded value (hollow diamond) joined
+                  to the corrected point the curve uses. */}
+              {measurementCorrection && measurementCorrection.corrections.length > 0 && chartData && settings &&
+                plotAreaWidth > 0 && plotAreaTop > 0 && plotAreaHeight > 0 && yAxisRange && (() => {
+                const numDays = chartData.maxDay - chartData.minDay + 1;
+                const cellWidth = plotAreaWidth / numDays;
+                const toY = (celsius: number) =>
+                  plotAreaTop +
+                  ((yAxisRange.max - toDisplayTemperature(celsius, settings.temperatureUnit)) /
+                    (yAxisRange.max - yAxisRange.min)) * plotAreaHeight;
+
+                return (
+                  <svg
+                    aria-hidden="true"
+                    style={{
+                      position: 'absolute',
+                      left: 0,
+                      top: 0,
+                      width: '100%',
+                      height: '100%',
+                      pointerEvents: 'none',
+                      zIndex: 2,
+                    }}
+                  >
+                    {measurementCorrection.corrections
+                      .filter((c) => c.dayNumber >= chartData.minDay && c.dayNumber <= chartData.maxDay)
+                      .map((c) => {
+                        const x = plotAreaOffset + (c.dayNumber - chartData.minDay + 0.5) * cellWidth;
+                        const rawY = toY(c.rawBbt);
+                        return (
+                          <g key={`raw-${c.dayNumber}`}>
+                            <line x1={x} x2={x} y1={rawY} y2={toY(c.correctedBbt)} stroke="#d97706" strokeWidth={1} strokeDasharray="2 2" />
+                            <rect
+                              x={x - 3.5}
+                              y={rawY - 3.5}
+                              width={7}
+                              height={7}
+                              transform={`rotate(45 ${x} ${rawY})`}
+                              fill="#ffffff"
+                              stroke="#d97706"
+                              strokeWidth={1.5}
+                            />
+                          </g>
+                        );
+                      })}
+                  </svg>
+                );
+              })()}
+
               {/* ApexChart */}
               <ReactApexChart
                 options={chartOptions}
@@ -2088,6 +2528,7 @@ export default function CycleChartPage() {
                       const opkStatus = opkStatusMap.get(dayNumber);
                       const isHovered = hoveredDayNumber === dayNumber;
                       const isTail = cycle ? isCycleDayInTail(cycle, dayNumber, recordedMaxDay) : false;
+                      const inSurge = lhSurgeDays.has(dayNumber);
 
                       // Calculate cell position within plot area
                       const numDays = chartData.maxDay - chartData.minDay + 1;
@@ -2134,7 +2575,9 @@ export default function CycleChartPage() {
                           style={{ left: `${leftEdge}px`, width: `${cellWidth}px`, top: 0, height: '28px', pointerEvents: 'none' }}>
                           <div className="absolute flex items-center justify-center text-xs transition-colors"
                             style={{ inset: '1.5px', borderRadius: '3px',
-                              backgroundColor: isTail ? '#f1f5f9' : (isHovered ? '#c8e6c9' : '#e8f5e9') }}>
+                              backgroundColor: isTail ? '#f1f5f9' : (isHovered ? '#c8e6c9' : '#e8f5e9'),
+                              // Detected LH surge: outlined so it reads as one block
+                              boxShadow: inSurge && !isTail ? 'inset 0 0 0 1.5px #16a34a' : undefined }}>
                             {!isTail && symbol}
                           </div>
                         </div>
@@ -2400,7 +2843,7 @@ export default function CycleChartPage() {
                     </div>
                   </div>
 
-                  {/* Notes Row Label - positioned below Disturbance (+262px) */}
+                  {/* Treatment Row Label - positioned below Disturbance (+262px) */}
                   <div
                     className="absolute left-0"
                     style={{
@@ -2408,6 +2851,25 @@ export default function CycleChartPage() {
                       top: `${plotAreaTop + chartHeight + 262}px`,
                       zIndex: 2
                     }}
+                  >
+                    <div style={{ position: 'relative', height: '28px' }}>
+                      <div className="absolute flex items-center justify-end px-3 font-montserrat"
+                        style={{ inset: '1.5px', borderRadius: '3px', backgroundColor: '#fdf2f8',
+                          color: '#002142', fontWeight: 600, fontSize: '11px', letterSpacing: '0.02em', textAlign: 'right' }}>
+                        <span>Treatment</span>
+                        <span className="ml-1 text-slate-400 cursor-help" title="Medications (P4 = progesterone) and treatments or tests recorded for this day. Hover a day for details.">ⓘ</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Notes Row Label - positioned below Treatment (+290px) */}
+                  <div
+                    className="absolute left-0"
+                    style={{
+                      width: `${plotAreaOffset}px`,
+                      top: `${plotAreaTop + chartHeight + 290}px`,
+                      zIndex: 2
+                    }}
                   >
                     {/* Label height is fixed at 28px; only the grid row below expands when notesRowExpanded. */}
                     <div
@@ -2466,7 +2928,7 @@ export default function CycleChartPage() {
                       const isHovered = hoveredDayNumber === dayNumber;
                       const isTail = cycle ? isCycleDayInTail(cycle, dayNumber, recordedMaxDay) : false;
 
-                      let cellContent: React.ReactNode = null;
+                      let cellContent: ReactNode = null;
                       if (factors.length === 1) {
                         const factor = factors[0];
                         if (factor === 'TRAVEL') {
@@ -2494,13 +2956,63 @@ export default function CycleChartPage() {
                     })}
                   </div>
 
-                  {/* Notes Grid Row - positioned below Disturbance (+262px) */}
+                  {/* Treatment Grid Row - positioned below Disturbance (+262px) */}
                   <div
                     className="absolute"
                     style={{
                       left: 0,
                       right: 0,
                       top: `${plotAreaTop + chartHeight + 262}px`,
+                      height: '28px',
+                      zIndex: 1
+                    }}
+                  >
+                    {Array.from({ length: chartData.maxDay - chartData.minDay + 1 }, (_, i) => {
+                      const dayNumber = chartData.minDay + i;
+                      const dayData = allCycleDaysMap.get(dayNumber);
+                      const medications = readMedications(dayData?.medications);
+                      const treatments = readTreatments(dayData?.treatments);
+
+                      const numDays = chartData.maxDay - chartData.minDay + 1;
+                      const cellWidth = plotAreaWidth / numDays;
+                      const leftEdge = plotAreaOffset + (i * cellWidth);
+                      const isHovered = hoveredDayNumber === dayNumber;
+                      const isTail = cycle ? isCycleDayInTail(cycle, dayNumber, recordedMaxDay) : false;
+
+                      // Progesterone first: it is the one that changes the interpretation.
+                      const lead = medications.find((m) => m.type === 'PROGESTERONE') ?? medications[0];
+                      const more = medications.length + treatments.length - (lead ? 1 : 0);
+                      let cellContent: ReactNode = null;
+                      if (lead) {
+                        cellContent = (
+                          <span style={{ fontSize: '9.5px', fontWeight: 700, color: lead.type === 'PROGESTERONE' ? '#be185d' : '#475569' }}>
+                            {MEDICATION_SHORT_LABELS[lead.type]}{more > 0 && '+'}
+                          </span>
+                        );
+                      } else if (treatments.length > 0) {
+                        cellContent = <span>🩺</span>;
+                      }
+
+                      return (
+                        <div key={dayNumber} className="absolute"
+                          style={{ left: `${leftEdge}px`, width: `${cellWidth}px`, top: 0, height: '28px', pointerEvents: 'none' }}>
+                          <div className="absolute flex items-center justify-center text-sm transition-colors"
+                            style={{ inset: '1.5px', borderRadius: '3px',
+                              backgroundColor: isTail ? '#f1f5f9' : (isHovered ? '#fbcfe8' : '#fdf2f8') }}>
+                            {!isTail && <span className="relative z-10">{cellContent}</span>}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {/* Notes Grid Row - positioned below Treatment (+290px) */}
+                  <div
+                    className="absolute"
+                    style={{
+                      left: 0,
+                      right: 0,
+                      top: `${plotAreaTop + chartHeight + 290}px`,
                       height: `${NOTES_ROW_HEIGHT}px`,
                       zIndex: 1
                     }}
@@ -2584,6 +3096,17 @@ export default function CycleChartPage() {
                       );
                     })}
                   </div>
+
+                  {/* Lab Result Rows - positioned below Notes */}
+                  <LabSparklineRows
+                    results={labResults ?? []}
+                    hormones={labHormones}
+                    top={plotAreaTop + chartHeight + 290 + NOTES_ROW_HEIGHT}
+                    plotAreaOffset={plotAreaOffset}
+                    plotAreaWidth={plotAreaWidth}
+                    minDay={chartData.minDay}
+                    maxDay={chartData.maxDay}
+                  />
                 </>
               )}
             </div>
@@ -2598,27 +3121,71 @@ export default function CycleChartPage() {
           )}
             {/* Interpretation Proposition Card */}
             <div className="px-4 pb-4">
+              {exclusionSuggestions.length > 0 && settings && (
+                <ExclusionSuggestionsCard
+                  key={exclusionSuggestions.map((x) => x.dayNumber).join(',')}
+                  suggestions={exclusionSuggestions}
+                  cycleStartDate={new Date(cycle.startDate)}
+                  temperatureUnit={settings.temperatureUnit}
+                  onResolve={handleResolveExclusions}
+                />
+              )}
+              {cycle.isActive && (cycle.pregnancyModeAt || (
+                postShiftMonitoring?.pregnancyIndication && !cycle.pregnancyIndicationDismissedAt
+              )) && (
+                <PregnancyCard
+                  pregnancyModeAt={cycle.pregnancyModeAt ? new Date(cycle.pregnancyModeAt) : null}
+                  highTemps={postShiftMonitoring?.highTemps ?? 0}
+                  shiftDay={shownShiftDay}
+                  onSetPregnancyMode={handleSetPregnancyMode}
+                  onDismiss={handleDismissPregnancy}
+                />
+              )}
+              {lhSurge?.status === 'detected' && lhSurge.relation && shownShiftDay !== null && (
+                <LhSurgeWarningCard surge={lhSurge.surge} shiftDay={shownShiftDay} relation={lhSurge.relation} />
+              )}
+              {shownShiftDay !== null && (
+                <MidLutealProgesteroneCard check={midLutealCheck} shiftDay={shownShiftDay} />
+              )}
               {(cycle as any).markedAnovulatoryAt ? (
                 <AnovulatoryCard onRemoveMark={interpretationActions.unmarkClassification} />
               ) : (cycle as any).markedUninterpretableAt ? (
                 <UninterpretableCard onRemoveMark={interpretationActions.unmarkClassification} />
               ) : engineResult ? (
-                <PropositionCard
-                  engineResult={engineResult}
-                  interpretation={interpretation}
-                  postShiftMonitoring={postShiftMonitoring}
-                  changeNotice={null}
-                  keepWatchingDismissed={keepWatchingDismissed}
-                  onKeepWatching={onKeepWatching}
-                  actions={interpretationActions}
-                  cycleIsActive={cycle.isActive}
-                  maxDayNumber={maxDayNumber}
-                  onReEvaluate={interpretationActions.reEvaluate}
-                  onMarkAnovulatory={interpretationActions.markAnovulatory}
-                  onMarkUninterpretable={interpretationActions.markUninterpretable}
-                  days={cycleDayInputs}
-                  cycleStartDate={new Date(cycle.startDate)}
-                />
+                <div className="grid gap-3 lg:grid-cols-[2fr_1fr] items-start">
+                  <PropositionCard
+                    engineResult={engineResult}
+                    interpretation={interpretation}
+                    postShiftMonitoring={postShiftMonitoring}
+                    changeNotice={null}
+                    keepWatchingDismissed={keepWatchingDismissed}
+                    onKeepWatching={onKeepWatching}
+                    actions={interpretationActions}
+                    cycleIsActive={cycle.isActive}
+                    maxDayNumber={maxDayNumber}
+                    onReEvaluate={interpretationActions.reEvaluate}
+                    onMarkAnovulatory={interpretationActions.markAnovulatory}
+                    onMarkUninterpretable={interpretationActions.markUninterpretable}
+                    days={cycleDayInputs}
+                    cycleStartDate={new Date(cycle.startDate)}
+                    engine={engine}
+                    temperatureUnit={settings?.temperatureUnit ?? 'FAHRENHEIT'}
+                  />
+                  <div className="space-y-3">
+                    <MucusPeakCard
+                      peak={engineResult.mucusPeak}
+                      interpretation={mucusInterpretation}
+                      actions={mucusActions}
+                      maxDayNumber={maxDayNumber}
+                    />
+                    {fertileWindow && (
+                      <FertileWindowCard
+                        closure={fertileWindow}
+                        cycleStartDate={new Date(cycle.startDate)}
+                      />
+                    )}
+                  </div>
+                </div>
               ) : null}
             </div>
         </CardContent>
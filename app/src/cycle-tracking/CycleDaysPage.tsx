@@ -67,12 +67,14 @@ export default function CycleDaysPage() {
             {cycle.endDate && ` - Ended: ${new Date(cycle.endDate).toLocaleDateString()}`}
           </p>
         </div>
-        <Link to="/cycles/new">
-          <Button variant="default">
-            <span className="sm:hidden">Cycle +</span>
-            <span className="hidden sm:inline">Begin new cycle</span>
-          </Button>
-        </Link>
+        {!cycle.pregnancyModeAt && (
+          <Link to="/cycles/new">
+            <Button variant="default">
+              <span className="sm:hidden">Cycle +</span>
+              <span className="hidden sm:inline">Begin new cycle</span>
+            </Button>
+          </Link>
+        )}
       </div>
 
       <Card className="mb-6">
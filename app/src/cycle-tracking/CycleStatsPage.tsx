@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { useQuery } from 'wasp/client/operations';
+import { getCycleStats, getUserSettings } from 'wasp/client/operations';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Checkbox } from '../components/ui/checkbox';
+import { Label } from '../components/ui/label';
+import { formatDate, formatTemperature } from './utils';
+import { SHORT_LUTEAL_MAX_DAYS, type NumericSummary } from './cycleStats';
+import SideNav from './SideNav';
+
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+function SummaryGrid({ summary, unit }: { summary: NumericSummary | null; unit: string }) {
+  if (!summary) {
+    return <p className="text-sm text-muted-foreground">Not enough data yet.</p>;
+  }
+  const suffix = unit ? ` ${unit}` : '';
+  return (
+    <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+      <span className="text-gray-500">Average:</span>
+      <span className="font-medium">{summary.mean.toFixed(1)}{suffix}</span>
+      <span className="text-gray-500">Median:</span>
+      <span className="font-medium">{summary.median}{suffix}</span>
+      <span className="text-gray-500">Range:</span>
+      <span className="font-medium">{summary.min}–{summary.max}{suffix}</span>
+      <span className="text-gray-500">Spread (SD):</span>
+      <span className="font-medium">±{summary.stdDev.toFixed(1)}{suffix}</span>
+      <span className="text-gray-500">Based on:</span>
+      <span className="font-medium">{summary.count} cycle{summary.count === 1 ? '' : 's'}</span>
+    </div>
+  );
+}
+
+export default function CycleStatsPage() {
+  const [includePostPill, setIncludePostPill] = useState(false);
+  const { data: stats, isLoading, error } = useQuery(getCycleStats, { includePostPill });
+  const { data: settings } = useQuery(getUserSettings);
+  const unit = settings?.temperatureUnit ?? 'FAHRENHEIT';
+
+  if (isLoading) {
+    return (
+      <div className="flex">
+        <SideNav />
+        <div className="flex-1 p-4 md:p-8">
+          <div className="text-center">Loading...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <div className="flex">
+        <SideNav />
+        <div className="flex-1 p-4 md:p-8">
+          <div className="text-center text-red-600">Error loading statistics: {error?.message}</div>
+        </div>
+      </div>
+    );
+  }
+
+  const maxBucket = Math.max(1, ...stats.lengthDistribution.map((b) => b.count));
+
+  return (
+    <div className="flex">
+      <SideNav />
+      <div className="flex-1 p-4 md:p-8 max-w-4xl">
+        <h1 className="text-xl md:text-3xl font-bold mb-4 md:mb-8">Cycle Statistics</h1>
+
+        {stats.rows.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <p>No cycles recorded yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Overview</CardTitle>
+                <CardDescription>
+                  {stats.totalCycles} cycle{stats.totalCycles === 1 ? '' : 's'} tracked, {stats.completedCycles} completed
+                  {!stats.includesPostPill && stats.postPillCount > 0 && ` (${stats.postPillCount} post-pill not counted)`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {stats.postPillCount > 0 && (
+                  <div className="flex items-center space-x-2 mb-3">
+                    <Checkbox
+                      id="includePostPill"
+                      checked={includePostPill}
+                      onCheckedChange={(checked) => setIncludePostPill(checked as boolean)}
+                    />
+                    <Label htmlFor="includePostPill" className="cursor-pointer">
+                      Include post-pill wash-out cycles
+                    </Label>
+                  </div>
+                )}
+                <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+                  <span className="text-gray-500">Anovulatory:</span>
+                  <span className="font-medium">{stats.anovulatoryCount} ({formatShare(stats.anovulatoryShare)})</span>
+                  <span className="text-gray-500">Unreliable data:</span>
+                  <span className="font-medium">{stats.uninterpretableCount} ({formatShare(stats.uninterpretableShare)})</span>
+                  <span className="text-gray-500">Average coverline:</span>
+                  <span className="font-medium">
+                    {stats.averageCoverlineTemp != null ? formatTemperature(stats.averageCoverlineTemp, unit) : '—'}
+                  </span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Cycle Length</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SummaryGrid summary={stats.cycleLength} unit="days" />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Luteal Phase</CardTitle>
+                  <CardDescription>Cycle end minus shift day</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SummaryGrid summary={stats.lutealLength} unit="days" />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Shift Day</CardTitle>
+                  <CardDescription>First higher temperature</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <SummaryGrid summary={stats.shiftDay} unit="" />
+                </CardContent>
+              </Card>
+            </div>
+
+            {stats.lengthDistribution.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Cycle Length Distribution</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-1">
+                    {stats.lengthDistribution.map((bucket) => (
+                      <div key={bucket.length} className="flex items-center gap-2 text-sm">
+                        <span className="w-16 text-right text-gray-500">{bucket.length} days</span>
+                        <div
+                          className="h-4 rounded bg-violet-300"
+                          style={{ width: `${(bucket.count / maxBucket) * 100}%`, maxWidth: 'calc(100% - 6rem)' }}
+                        />
+                        <span className="font-medium">{bucket.count}</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Cycle History</CardTitle>
+                {stats.shortLutealCycleIds.length > 0 && (
+                  <CardDescription className="text-amber-700">
+                    {stats.shortLutealCycleIds.length} cycle{stats.shortLutealCycleIds.length === 1 ? ' has' : 's have'} a
+                    luteal phase of {SHORT_LUTEAL_MAX_DAYS} days or fewer.
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-3">Cycle</th>
+                        <th className="py-2 pr-3">Started</th>
+                        <th className="py-2 pr-3">Length</th>
+                        <th className="py-2 pr-3">Shift day</th>
+                        <th className="py-2 pr-3">Luteal</th>
+                        <th className="py-2 pr-3">Coverline</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {stats.rows.map((row) => (
+                        <tr key={row.cycleId} className="border-b last:border-b-0">
+                          <td className="py-2 pr-3">
+                            <Link to={`/cycles/${row.cycleId}/chart`} className="underline">#{row.cycleNumber}</Link>
+                            {row.postPill && (
+                              <span className="ml-2 inline-block rounded-full bg-sky-100 px-2 py-0.5 text-xs text-sky-800">
+                                Post-pill
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-3">{formatDate(new Date(row.startDate))}</td>
+                          <td className="py-2 pr-3">{row.length ?? 'Ongoing'}</td>
+                          <td className="py-2 pr-3">
+                            {row.classification === 'anovulatory'
+                              ? 'Anovulatory'
+                              : row.classification === 'uninterpretable'
+                                ? 'Unreliable data'
+                                : row.shiftDay ?? '—'}
+                          </td>
+                          <td className="py-2 pr-3">
+                            {row.lutealLength ?? '—'}
+                            {row.isShortLuteal && (
+                              <span className="ml-2 inline-block rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
+                                Short
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-3">
+                            {row.coverlineTemp != null ? formatTemperature(row.coverlineTemp, unit) : '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
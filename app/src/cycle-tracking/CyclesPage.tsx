@@ -6,29 +6,87 @@ import { Button } from '../components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { formatDateForInput, getCycleDayCount } from './utils';
 import { CycleBadge } from './interpretation/components/CycleBadge';
+import { BulkImportSummaryTable } from './components/BulkImportSummaryTable';
+import { CsvImportPreviewTable } from './components/CsvImportPreviewTable';
+import type { BulkImportFileSummary } from './csvBulkImport';
+import type { CsvImportPreview } from './csvImportPreview';
+import { readCsvFiles } from './csvFiles';
+import {
+  CSV_DATE_ORDER_LABELS,
+  CSV_DECIMAL_SEPARATOR_LABELS,
+  type CsvDateOrder,
+  type CsvDecimalSeparator,
+  type CsvLocaleOverrides,
+} from './csvLocale';
+import { forecastCycle } from './cycleForecast';
+import { CycleForecastSummary } from './components/CycleForecastSummary';
 import SideNav from './SideNav';
 
 export default function CyclesPage() {
   const navigate = useNavigate();
   const { data: cycles, isLoading, error } = useQuery(getUserCycles);
   const [startDate, setStartDate] = useState(formatDateForInput(new Date()));
-  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importFiles, setImportFiles] = useState<File[]>([]);
   const [isImporting, setIsImporting] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
   const [importSuccess, setImportSuccess] = useState<string | null>(null);
+  const [importDateOrder, setImportDateOrder] = useState<CsvDateOrder | ''>('');
+  const [importDecimalSeparator, setImportDecimalSeparator] = useState<CsvDecimalSeparator | ''>('');
+  const [pendingImport, setPendingImport] = useState<{
+    csvText: string;
+    locale: CsvLocaleOverrides;
+    preview: CsvImportPreview;
+  } | null>(null);
+  const [bulkSummary, setBulkSummary] = useState<BulkImportFileSummary[] | null>(null);
 
   const handleImportCsv = async () => {
-    if (!importFile) return;
+    if (!importFiles.length) return;
     setIsImporting(true);
     setImportError(null);
     setImportSuccess(null);
+    setPendingImport(null);
+    setBulkSummary(null);
+    // Empty choices leave date order and decimals to detection.
+    const locale: CsvLocaleOverrides = {
+      dateOrder: importDateOrder || null,
+      decimalSeparator: importDecimalSeparator || null,
+    };
+    try {
+      const csvFiles = await readCsvFiles(importFiles);
+      if (!csvFiles.length) {
+        setImportError('No CSV files found in the selection.');
+        return;
+      }
+      if (csvFiles.length > 1 || importFiles.length > 1) {
+        const { importCycleCsvBulk } = await import('wasp/client/operations');
+        const result = await importCycleCsvBulk({ files: csvFiles, locale });
+        const totalDays = result.files.reduce((sum, f) => sum + f.updatedDays, 0);
+        setImportSuccess(`Imported ${result.files.length} cycle(s), ${totalDays} day(s) in total.`);
+        setBulkSummary(result.files);
+        return;
+      }
+
+      // A single CSV is previewed first; nothing is written until the user confirms.
+      const { csvText } = csvFiles[0];
+      const { previewCycleCsv } = await import('wasp/client/operations');
+      const preview = await previewCycleCsv({ csvText, locale });
+      setPendingImport({ csvText, locale, preview });
+    } catch (err: any) {
+      console.error('Failed to import CSV:', err);
+      setImportError(err.message || 'Failed to import CSV');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+    setImportError(null);
     try {
-      const csvText = await importFile.text();
       const { importCycleCsv } = await import('wasp/client/operations');
-      const result = await importCycleCsv({ csvText });
-      setImportSuccess(
-        `Imported ${result.updatedDays} day(s). Temp unit: ${result.detectedUnit}. ${result.createdCycle ? 'Created a new cycle.' : 'Updated existing cycle.'}`
-      );
+      const result = await importCycleCsv({ csvText: pendingImport.csvText, locale: pendingImport.locale });
+      setPendingImport(null);
       navigate(`/cycles/${result.cycleId}/chart`);
     } catch (err: any) {
       console.error('Failed to import CSV:', err);
@@ -72,6 +130,7 @@ export default function CyclesPage() {
   }
 
   const activeCycle = cycles?.find(c => c.isActive);
+  const forecast = cycles ? forecastCycle(cycles, new Date()) : null;
   const pastCycles = (cycles?.filter(c => !c.isActive) || []).sort((a, b) => {
     // Sort by startDate ascending (earliest first), then by createdAt if dates are equal
     const dateCompare = new Date(a.startDate).getTime() - new Date(b.startDate).getTime();
@@ -85,38 +144,85 @@ export default function CyclesPage() {
       <div className="flex-1 p-4 md:p-8 max-w-4xl">
         <div className="flex items-center justify-between mb-4 md:mb-8">
           <h1 className="text-xl md:text-3xl font-bold">My Cycles</h1>
-          <Link to="/cycles/new">
-            <Button variant="default">
-              <span className="sm:hidden">Cycle +</span>
-              <span className="hidden sm:inline">Begin new cycle</span>
-            </Button>
-          </Link>
+          {!activeCycle?.pregnancyModeAt && (
+            <Link to="/cycles/new">
+              <Button variant="default">
+                <span className="sm:hidden">Cycle +</span>
+                <span className="hidden sm:inline">Begin new cycle</span>
+              </Button>
+            </Link>
+          )}
         </div>
 
       <Card className="mb-8">
         <CardHeader>
-          <CardTitle>Import cycle from CSV</CardTitle>
+          <CardTitle>Import cycles from CSV</CardTitle>
           <CardDescription>
-            Upload a CSV export to create or update a cycle by date. We auto-detect temperature unit and overwrite matching days.
+            Upload a CSV export to create or update a cycle by date. We auto-detect temperature unit, date order and decimal
+            separator, and show which days would be added or overwritten before anything is saved.
+            Select several CSVs, or a zip of them, to import many cycles at once.
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col sm:flex-row gap-4 items-center">
             <input
               type="file"
-              accept=".csv,text/csv"
-              onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+              accept=".csv,text/csv,.zip,application/zip"
+              multiple
+              onChange={(e) => setImportFiles(Array.from(e.target.files ?? []))}
               className="w-full sm:w-auto"
             />
-            <Button onClick={handleImportCsv} disabled={!importFile || isImporting}>
-              {isImporting ? 'Importing...' : 'Import CSV'}
+            <Button onClick={handleImportCsv} disabled={!importFiles.length || isImporting || pendingImport !== null}>
+              {isImporting && !pendingImport ? 'Reading...' : 'Import CSV'}
             </Button>
           </div>
+          <div className="flex flex-col sm:flex-row gap-4 mt-3 text-sm">
+            <label className="flex items-center gap-2">
+              <span className="text-gray-500">Date order</span>
+              <select
+                value={importDateOrder}
+                onChange={(e) => setImportDateOrder(e.target.value as CsvDateOrder | '')}
+                className="rounded-md border border-slate-300 px-2 py-1"
+              >
+                <option value="">Detect</option>
+                {(Object.keys(CSV_DATE_ORDER_LABELS) as CsvDateOrder[]).map((order) => (
+                  <option key={order} value={order}>{CSV_DATE_ORDER_LABELS[order]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-gray-500">Decimals</span>
+              <select
+                value={importDecimalSeparator}
+                onChange={(e) => setImportDecimalSeparator(e.target.value as CsvDecimalSeparator | '')}
+                className="rounded-md border border-slate-300 px-2 py-1"
+              >
+                <option value="">Detect</option>
+                {(Object.keys(CSV_DECIMAL_SEPARATOR_LABELS) as CsvDecimalSeparator[]).map((separator) => (
+                  <option key={separator} value={separator}>{CSV_DECIMAL_SEPARATOR_LABELS[separator]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
           {importSuccess && (
             <p className="text-sm text-green-700 mt-2">
               {importSuccess}
             </p>
           )}
+          {bulkSummary && <BulkImportSummaryTable files={bulkSummary} />}
+          {pendingImport && (
+            <>
+              <CsvImportPreviewTable preview={pendingImport.preview} />
+              <div className="flex gap-3 mt-4">
+                <Button onClick={handleConfirmImport} disabled={isImporting}>
+                  {isImporting ? 'Importing...' : 'Confirm import'}
+                </Button>
+                <Button variant="outline" onClick={() => setPendingImport(null)} disabled={isImporting}>
+                  Cancel
+                </Button>
+              </div>
+            </>
+          )}
           {importError && (
             <p className="text-sm text-red-600 mt-2">
               {importError}
@@ -167,6 +273,7 @@ export default function CyclesPage() {
             </CardDescription>
           </CardHeader>
           <CardContent>
+            {forecast && <CycleForecastSummary forecast={forecast} />}
             <div className="flex flex-wrap gap-2">
               <Link to={`/cycles/${activeCycle.id}/add-day`}>
                 <Button aria-label="Add Day">
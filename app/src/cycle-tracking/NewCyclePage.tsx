@@ -9,6 +9,7 @@ import { Checkbox } from '../components/ui/checkbox';
 import { Label } from '../components/ui/label';
 import { Info } from 'lucide-react';
 import { formatDateForInput, convertToCelsiusForStorage } from './utils';
+import { DEFAULT_POST_PILL_CYCLES, MAX_POST_PILL_CYCLES, isValidPostPillCycles } from './postPill';
 import SideNav from './SideNav';
 
 export default function NewCyclePage() {
@@ -30,6 +31,9 @@ export default function NewCyclePage() {
   const [menstrualFlow, setMenstrualFlow] = useState<MenstrualFlowOption | ''>('');
   const [disturbanceFactors, setDisturbanceFactors] = useState<string[]>([]);
   const [travelTimeDiff, setTravelTimeDiff] = useState<number>(0);
+  const [postPill, setPostPill] = useState(false);
+  const [postPillCycles, setPostPillCycles] = useState(String(DEFAULT_POST_PILL_CYCLES));
+  const [newPeriodStarted, setNewPeriodStarted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -177,8 +181,19 @@ export default function NewCyclePage() {
         }
       }
 
+      const postPillCount = Number(postPillCycles);
+      if (postPill && !isValidPostPillCycles(postPillCount)) {
+        setError(`Post-pill cycles must be a whole number from 1 to ${MAX_POST_PILL_CYCLES}`);
+        setIsSubmitting(false);
+        return;
+      }
+
       // Create the new cycle
-      const newCycle = await createCycle({ startDate });
+      const newCycle = await createCycle({
+        startDate,
+        postPillCycles: postPill ? postPillCount : undefined,
+        newPeriodStarted,
+      });
 
       // Create the first day entry if any data is provided
       const hasDayData = bbt || bbtTime || hadIntercourse || cervicalAppearance || cervicalSensation || menstrualFlow || disturbanceFactors.length > 0;
@@ -235,6 +250,26 @@ export default function NewCyclePage() {
           </p>
         </div>
 
+        {activeCycle && activeCycle.pregnancyModeAt && (
+          <Alert className="mb-6 border-pink-500 bg-pink-50">
+            <AlertTitle className="text-pink-900">Current Cycle Is in Pregnancy Mode</AlertTitle>
+            <AlertDescription className="text-pink-800">
+              Cycle #{activeCycle.cycleNumber} was moved into pregnancy mode. Only begin a new cycle if a
+              new period has started.
+            </AlertDescription>
+            <div className="flex items-center space-x-2 mt-3">
+              <Checkbox
+                id="newPeriodStarted"
+                checked={newPeriodStarted}
+                onCheckedChange={(checked) => setNewPeriodStarted(checked as boolean)}
+              />
+              <Label htmlFor="newPeriodStarted" className="cursor-pointer text-pink-900">
+                A new period has started
+              </Label>
+            </div>
+          </Alert>
+        )}
+
         {activeCycle && (
           <Alert className="mb-6 border-amber-500 bg-amber-50">
             <AlertTitle className="text-amber-900">Active Cycle Will Be Ended</AlertTitle>
@@ -287,6 +322,47 @@ export default function NewCyclePage() {
             </CardContent>
           </Card>
 
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Hormonal Contraception (Optional)</CardTitle>
+              <CardDescription>
+                The first cycles after stopping the pill or another hormonal method are often long and
+                irregular
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="postPill"
+                  checked={postPill}
+                  onCheckedChange={(checked) => setPostPill(checked as boolean)}
+                />
+                <Label htmlFor="postPill" className="cursor-pointer">
+                  I recently stopped hormonal contraception
+                </Label>
+              </div>
+              {postPill && (
+                <div className="flex flex-wrap items-center gap-2 pl-6 text-sm">
+                  <span>Treat this and the next cycles as wash-out cycles, in total:</span>
+                  <input
+                    type="number"
+                    aria-label="Number of post-pill cycles"
+                    value={postPillCycles}
+                    onChange={(e) => setPostPillCycles(e.target.value)}
+                    min={1}
+                    max={MAX_POST_PILL_CYCLES}
+                    step={1}
+                    className="w-16 px-2 py-1 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                  <span className="text-muted-foreground">
+                    cycles. The 5-day and minus-8 rules stay off, and these cycles are left out of your
+                    statistics.
+                  </span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card className="mb-6">
             <CardHeader>
               <CardTitle>First Day Entry (Optional)</CardTitle>
@@ -476,7 +552,7 @@ export default function NewCyclePage() {
                     </div>
                     {option.key === 'TRAVEL' && disturbanceFactors.includes('TRAVEL') && (
                       <div className="col-span-1 sm:col-span-2 flex flex-wrap items-center gap-2 pl-6 mt-1 mb-1">
-                        <span className="text-sm text-muted-foreground">Time difference (optional):</span>
+                        <span className="text-sm text-muted-foreground">Time difference from home (optional):</span>
                         <div className="flex items-center gap-1">
                           <button
                             type="button"
@@ -514,7 +590,7 @@ export default function NewCyclePage() {
             >
               Cancel
             </Button>
-            <Button type="submit" disabled={isSubmitting}>
+            <Button type="submit" disabled={isSubmitting || (!!activeCycle?.pregnancyModeAt && !newPeriodStarted)}>
               {isSubmitting ? 'Creating...' : 'Begin New Cycle'}
             </Button>
           </div>
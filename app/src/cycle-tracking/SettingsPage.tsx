@@ -1,22 +1,147 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, Fragment } from 'react';
 import { useQuery } from 'wasp/client/operations';
 import { getUserSettings } from 'wasp/client/operations';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Label } from '../components/ui/label';
+import { Input } from '../components/ui/input';
+import { Checkbox } from '../components/ui/checkbox';
 import { Button } from '../components/ui/button';
 import SideNav from './SideNav';
+import { formatDateLong } from './utils';
+import {
+  DEFAULT_CORRECTION_C_PER_HOUR,
+  MAX_CORRECTION_C_PER_HOUR,
+} from './interpretation/sensiplan/measurementTime';
+import {
+  MAX_RULE_DEVIATION_C,
+  resolveExclusionRules,
+  type ExclusionRules,
+} from './interpretation/sensiplan/exclusionSuggestions';
+import { DEFAULT_ENGINE_ID, getEngine, listEngines, type EngineId } from './interpretation/engines';
+import { DISTURBANCE_FACTORS, disturbanceFactorLabel, type DisturbanceFactor } from './disturbanceFactors';
+import { buildExportZip, downloadFile, exportZipFileName, readExportArchiveFile } from './dataDownload';
+import {
+  validateExportArchive,
+  type RestoreMode,
+  type RestoreSummary,
+  type RestoreValidationError,
+} from './dataRestore';
+
+const RESTORE_MODE_OPTIONS: { value: RestoreMode; label: string; description: string }[] = [
+  { value: 'merge', label: 'Merge with existing', description: 'Cycles starting on the same day are combined; the backup wins where both have a value.' },
+  { value: 'skip', label: 'Skip conflicting cycles', description: 'Cycles that overlap one you already have are left out.' },
+  { value: 'replace', label: 'Replace all', description: 'Every cycle currently in your account is deleted first.' },
+];
+
+/** Exclusion rule as edited: the threshold is a string in the display unit. */
+type ExclusionRuleDraft = { enabled: boolean; minDeviation: string };
+
+/** How many validation problems to list before summarising the rest. */
+const MAX_SHOWN_RESTORE_ERRORS = 20;
 
 export default function SettingsPage() {
   const { data: settings, isLoading } = useQuery(getUserSettings);
   const [temperatureUnit, setTemperatureUnit] = useState<'FAHRENHEIT' | 'CELSIUS'>('FAHRENHEIT');
   const [isSaving, setIsSaving] = useState(false);
+  const [bbtTimeCorrection, setBbtTimeCorrection] = useState(false);
+  const [correctionPerHour, setCorrectionPerHour] = useState('');
+  const [isSavingCorrection, setIsSavingCorrection] = useState(false);
+  const [engineId, setEngineId] = useState<EngineId>(DEFAULT_ENGINE_ID);
+  const [isSavingEngine, setIsSavingEngine] = useState(false);
+  const [ruleDrafts, setRuleDrafts] = useState<Record<DisturbanceFactor, ExclusionRuleDraft> | null>(null);
+  const [isSavingRules, setIsSavingRules] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreErrors, setRestoreErrors] = useState<{ errors: RestoreValidationError[]; total: number } | null>(null);
+  const [restoreSummary, setRestoreSummary] = useState<RestoreSummary | null>(null);
 
   useEffect(() => {
     if (settings) {
       setTemperatureUnit(settings.temperatureUnit);
+      setBbtTimeCorrection(settings.bbtTimeCorrection);
+      // The offset is a temperature difference: °F = °C × 1.8, no 32 offset.
+      const perHour = settings.bbtCorrectionPerHour ?? DEFAULT_CORRECTION_C_PER_HOUR;
+      setCorrectionPerHour((settings.temperatureUnit === 'FAHRENHEIT' ? perHour * 1.8 : perHour).toFixed(2));
+      setEngineId(getEngine(settings.interpretationEngine).id);
+      setRuleDrafts(toRuleDrafts(resolveExclusionRules(settings.exclusionRules), settings.temperatureUnit));
     }
   }, [settings]);
 
+  const correctionUnit = settings?.temperatureUnit === 'CELSIUS' ? '°C' : '°F';
+
+  const handleSaveCorrection = async () => {
+    const entered = parseFloat(correctionPerHour);
+    const perHourC = settings?.temperatureUnit === 'CELSIUS' ? entered : entered / 1.8;
+    if (!(perHourC > 0 && perHourC <= MAX_CORRECTION_C_PER_HOUR + 1e-9)) {
+      alert(`Enter a correction above 0 and at most ${MAX_CORRECTION_C_PER_HOUR} °C (${(MAX_CORRECTION_C_PER_HOUR * 1.8).toFixed(2)} °F) per hour.`);
+      return;
+    }
+
+    setIsSavingCorrection(true);
+    try {
+      const { updateUserSettings } = await import('wasp/client/operations');
+      await updateUserSettings({
+        bbtTimeCorrection,
+        bbtCorrectionPerHour: Math.min(perHourC, MAX_CORRECTION_C_PER_HOUR),
+      });
+      alert('Settings saved successfully!');
+    } catch (err: any) {
+      console.error('Failed to save correction settings:', err);
+      alert(err.message || 'Failed to save settings');
+    } finally {
+      setIsSavingCorrection(false);
+    }
+  };
+
+  const handleSaveEngine = async () => {
+    setIsSavingEngine(true);
+    try {
+      const { updateUserSettings } = await import('wasp/client/operations');
+      await updateUserSettings({ interpretationEngine: engineId });
+      alert('Settings saved successfully!');
+    } catch (err: any) {
+      console.error('Failed to save interpretation rules:', err);
+      alert(err.message || 'Failed to save settings');
+    } finally {
+      setIsSavingEngine(false);
+    }
+  };
+
+  const updateRuleDraft = (factor: DisturbanceFactor, patch: Partial<ExclusionRuleDraft>) => {
+    setRuleDrafts((prev) => prev && { ...prev, [factor]: { ...prev[factor], ...patch } });
+  };
+
+  const saveExclusionRules = async (rules: ExclusionRules | null) => {
+    setIsSavingRules(true);
+    try {
+      const { updateUserSettings } = await import('wasp/client/operations');
+      await updateUserSettings({ exclusionRules: rules });
+      alert('Settings saved successfully!');
+    } catch (err: any) {
+      console.error('Failed to save exclusion rules:', err);
+      alert(err.message || 'Failed to save settings');
+    } finally {
+      setIsSavingRules(false);
+    }
+  };
+
+  const handleSaveRules = async () => {
+    if (!ruleDrafts) return;
+    const scale = settings?.temperatureUnit === 'CELSIUS' ? 1 : 1.8;
+    const rules = {} as ExclusionRules;
+    for (const factor of DISTURBANCE_FACTORS) {
+      const minDeviationC = parseFloat(ruleDrafts[factor].minDeviation) / scale;
+      if (!(minDeviationC >= 0 && minDeviationC <= MAX_RULE_DEVIATION_C + 1e-9)) {
+        alert(`Enter a deviation between 0 and ${(MAX_RULE_DEVIATION_C * scale).toFixed(2)} ${correctionUnit} for ${disturbanceFactorLabel(factor)}.`);
+        return;
+      }
+      rules[factor] = { enabled: ruleDrafts[factor].enabled, minDeviationC: Math.min(minDeviationC, MAX_RULE_DEVIATION_C) };
+    }
+    await saveExclusionRules(rules);
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     try {
@@ -31,6 +156,53 @@ export default function SettingsPage() {
     }
   };
 
+  const handleDownload = async () => {
+    setIsExporting(true);
+    try {
+      const { exportUserData } = await import('wasp/client/operations');
+      const { archive, csvFiles } = await exportUserData();
+      downloadFile(buildExportZip(archive, csvFiles), exportZipFileName(), 'application/zip');
+    } catch (err: any) {
+      console.error('Failed to export data:', err);
+      alert(err.message || 'Failed to export data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreFile) return;
+    if (restoreMode === 'replace' && !confirm('Replace all? Every cycle currently in your account will be deleted before the backup is restored.')) {
+      return;
+    }
+
+    setIsRestoring(true);
+    setRestoreErrors(null);
+    setRestoreSummary(null);
+    try {
+      const archive = await readExportArchiveFile(restoreFile);
+
+      // Same check the server runs, so a bad file is reported without a round trip.
+      const validation = validateExportArchive(archive);
+      if (validation.kind === 'error') {
+        setRestoreErrors({ errors: validation.errors, total: validation.errors.length });
+        return;
+      }
+
+      const { restoreUserData } = await import('wasp/client/operations');
+      setRestoreSummary(await restoreUserData({ archive, mode: restoreMode }));
+    } catch (err: any) {
+      if (err.data?.errors) {
+        setRestoreErrors({ errors: err.data.errors, total: err.data.errorCount ?? err.data.errors.length });
+      } else {
+        console.error('Failed to restore data:', err);
+        alert(err.message || 'Failed to restore data');
+      }
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex">
@@ -97,8 +269,245 @@ export default function SettingsPage() {
             </div>
           </CardContent>
         </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Interpretation rules</CardTitle>
+            <CardDescription>
+              The rule set used to detect the temperature shift. Mucus peak and the double-check work the same under
+              every rule set, and shift days you pick yourself are always checked against Sensiplan. Confirmed cycles
+              the new rules read differently are flagged for review when you next open them.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              {listEngines().map((engine) => (
+                <div key={engine.id} className="flex items-start space-x-3">
+                  <input
+                    type="radio"
+                    id={`engine-${engine.id}`}
+                    name="interpretation-engine"
+                    value={engine.id}
+                    checked={engineId === engine.id}
+                    onChange={() => setEngineId(engine.id)}
+                    className="w-4 h-4 mt-1"
+                  />
+                  <label htmlFor={`engine-${engine.id}`} className="cursor-pointer">
+                    <span className="font-medium">{engine.name}</span>
+                    <span className="block text-sm text-muted-foreground">{engine.description}</span>
+                  </label>
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={handleSaveEngine} disabled={isSavingEngine}>
+              {isSavingEngine ? 'Saving...' : 'Save Rules'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Measurement time correction</CardTitle>
+            <CardDescription>
+              Temperature rises the longer you sleep in. When this is on, readings taken more than 30 minutes away
+              from your usual time are adjusted before the chart is interpreted; the chart shows both values.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id="bbt-time-correction"
+                checked={bbtTimeCorrection}
+                onCheckedChange={(checked) => setBbtTimeCorrection(checked as boolean)}
+              />
+              <Label htmlFor="bbt-time-correction" className="cursor-pointer">
+                Correct readings taken earlier or later than usual
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bbt-correction-per-hour">Correction per hour ({correctionUnit})</Label>
+              <Input
+                id="bbt-correction-per-hour"
+                type="number"
+                step="0.01"
+                min="0"
+                value={correctionPerHour}
+                onChange={(e) => setCorrectionPerHour(e.target.value)}
+                disabled={!bbtTimeCorrection}
+                className="w-32"
+              />
+              <p className="text-sm text-muted-foreground">
+                Subtracted for each hour a reading is late (and added for each hour early). Your instructor may
+                suggest a personal value.
+              </p>
+            </div>
+
+            <Button onClick={handleSaveCorrection} disabled={isSavingCorrection}>
+              {isSavingCorrection ? 'Saving...' : 'Save Correction'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Exclusion suggestions</CardTitle>
+            <CardDescription>
+              The chart suggests excluding a day tagged with a disturbance when its temperature differs from the
+              days around it by at least the amount below. You decide on each suggestion; nothing is excluded
+              automatically.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {ruleDrafts && (
+              <div className="grid grid-cols-[auto_1fr_auto] items-center gap-x-4 gap-y-2">
+                {DISTURBANCE_FACTORS.map((factor) => (
+                  <Fragment key={factor}>
+                    <Checkbox
+                      id={`exclusion-rule-${factor}`}
+                      checked={ruleDrafts[factor].enabled}
+                      onCheckedChange={(checked) => updateRuleDraft(factor, { enabled: checked as boolean })}
+                    />
+                    <Label htmlFor={`exclusion-rule-${factor}`} className="cursor-pointer capitalize">
+                      {disturbanceFactorLabel(factor)}
+                    </Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        step="0.05"
+                        min="0"
+                        aria-label={`Minimum deviation for ${disturbanceFactorLabel(factor)}`}
+                        value={ruleDrafts[factor].minDeviation}
+                        onChange={(e) => updateRuleDraft(factor, { minDeviation: e.target.value })}
+                        disabled={!ruleDrafts[factor].enabled}
+                        className="w-24"
+                      />
+                      <span className="text-sm text-muted-foreground">{correctionUnit}</span>
+                    </div>
+                  </Fragment>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={handleSaveRules} disabled={isSavingRules || !ruleDrafts}>
+                {isSavingRules ? 'Saving...' : 'Save Rules'}
+              </Button>
+              <Button variant="outline" onClick={() => saveExclusionRules(null)} disabled={isSavingRules}>
+                Reset to defaults
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Download my data</CardTitle>
+            <CardDescription>
+              A zip with every cycle, day and interpretation as a JSON archive, plus one CSV per cycle that can be
+              imported again from the Cycles page.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={handleDownload} disabled={isExporting}>
+              {isExporting ? 'Preparing...' : 'Download my data'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Restore from backup</CardTitle>
+            <CardDescription>
+              Restore cycles, days, settings and interpretation state from a zip (or its JSON archive) made with
+              Download my data. The backup is checked first; if anything in it is invalid, nothing is changed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <input
+              type="file"
+              accept=".zip,.json,application/zip,application/json"
+              onChange={(e) => {
+                setRestoreFile(e.target.files?.[0] ?? null);
+                setRestoreErrors(null);
+                setRestoreSummary(null);
+              }}
+              className="block text-sm"
+            />
+
+            <div className="space-y-3">
+              <Label className="text-base font-medium">When a cycle already exists</Label>
+              {RESTORE_MODE_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-start space-x-3">
+                  <input
+                    type="radio"
+                    id={`restore-${option.value}`}
+                    name="restore-mode"
+                    value={option.value}
+                    checked={restoreMode === option.value}
+                    onChange={() => setRestoreMode(option.value)}
+                    className="w-4 h-4 mt-1"
+                  />
+                  <label htmlFor={`restore-${option.value}`} className="cursor-pointer">
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-sm text-muted-foreground">{option.description}</span>
+                  </label>
+                </div>
+              ))}
+            </div>
+
+            <Button variant="outline" onClick={handleRestore} disabled={!restoreFile || isRestoring}>
+              {isRestoring ? 'Restoring...' : 'Restore'}
+            </Button>
+
+            {restoreErrors && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                <p className="font-medium">
+                  Nothing was restored: the backup has {restoreErrors.total} invalid {restoreErrors.total === 1 ? 'value' : 'values'}.
+                </p>
+                <ul className="mt-2 list-disc pl-5 space-y-1">
+                  {restoreErrors.errors.slice(0, MAX_SHOWN_RESTORE_ERRORS).map((error, i) => (
+                    <li key={i}><code>{error.path}</code> {error.message}</li>
+                  ))}
+                </ul>
+                {restoreErrors.total > MAX_SHOWN_RESTORE_ERRORS && (
+                  <p className="mt-2">…and {restoreErrors.total - MAX_SHOWN_RESTORE_ERRORS} more.</p>
+                )}
+              </div>
+            )}
+
+            {restoreSummary && (
+              <div className="rounded-md border border-green-200 bg-green-50 p-4 text-sm text-green-800">
+                <p className="font-medium">Backup restored.</p>
+                <ul className="mt-2 list-disc pl-5 space-y-1">
+                  {restoreSummary.cyclesDeleted > 0 && <li>{restoreSummary.cyclesDeleted} existing cycles deleted</li>}
+                  <li>{restoreSummary.cyclesCreated} cycles added, {restoreSummary.cyclesMerged} merged</li>
+                  <li>{restoreSummary.daysWritten} days and {restoreSummary.interpretationsWritten} interpretations written</li>
+                  {restoreSummary.settingsRestored && <li>Settings restored</li>}
+                  {restoreSummary.skipped.map((cycle) => (
+                    <li key={cycle.startDate}>
+                      Skipped cycle {cycle.cycleNumber} (started {formatDateLong(new Date(cycle.startDate))}): it overlaps a cycle you already have
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
 }
 
+function toRuleDrafts(
+  rules: ExclusionRules,
+  unit: 'FAHRENHEIT' | 'CELSIUS',
+): Record<DisturbanceFactor, ExclusionRuleDraft> {
+  const scale = unit === 'FAHRENHEIT' ? 1.8 : 1;
+  const drafts = {} as Record<DisturbanceFactor, ExclusionRuleDraft>;
+  for (const factor of DISTURBANCE_FACTORS) {
+    drafts[factor] = { enabled: rules[factor].enabled, minDeviation: (rules[factor].minDeviationC * scale).toFixed(2) };
+  }
+  return drafts;
+}
@@ -4,6 +4,8 @@ import { useQuery } from 'wasp/client/operations';
 import { getUserCycles } from 'wasp/client/operations';
 import { cn } from '../lib/utils';
 
+const STATS_PATH = '/cycles/stats';
+
 export default function SideNav() {
   const location = useLocation();
   const { data: cycles } = useQuery(getUserCycles);
@@ -29,6 +31,15 @@ export default function SideNav() {
         </svg>
       )
     }] : []),
+    {
+      name: 'Statistics',
+      path: STATS_PATH,
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 8v8m-4-5v5m-4-2v2m-2 4h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      )
+    },
     {
       name: 'Settings',
       path: '/settings',
@@ -46,7 +57,8 @@ export default function SideNav() {
       {navItems.map((item) => {
         const isActive = location.pathname === item.path || 
                         (item.path.includes('/chart') && location.pathname.includes('/chart')) ||
-                        (item.path.includes('/cycles') && location.pathname.startsWith('/cycles/') && item.path !== '/cycles');
+                        (item.path.includes('/cycles') && location.pathname.startsWith('/cycles/') && item.path !== '/cycles' &&
+                          item.path !== STATS_PATH && location.pathname !== STATS_PATH);
         
         return (
           <Link
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DAYS_PER_PAGE,
+  layoutChartPdf,
+  PAPER_SIZES,
+  type ChartPdfDay,
+  type ChartPdfInput,
+} from '../chartPdfLayout';
+import { renderPdf, type PdfPage, type PdfPrimitive } from '../pdfWriter';
+
+function day(dayNumber: number, bbt: number | null, overrides: Partial<ChartPdfDay> = {}): ChartPdfDay {
+  return {
+    dayNumber,
+    date: new Date(2025, 2, dayNumber),
+    bbt,
+    excludeFromInterpretation: false,
+    cervicalAppearance: null,
+    cervicalSensation: null,
+    menstrualFlow: null,
+    disturbanceFactors: [],
+    notes: null,
+    ...overrides,
+  };
+}
+
+const TEMPS = [36.5, 36.45, 36.4, 36.35, 36.4, 36.3, 36.35, 36.4, 36.3, 36.4, 36.45, 36.4, 36.65, 36.7, 36.75, 36.7];
+
+const INPUT: ChartPdfInput = {
+  title: 'Cycle 3',
+  cycleStartDate: new Date(2025, 2, 1),
+  unit: 'CELSIUS',
+  days: TEMPS.map((bbt, i) => day(i + 1, bbt, {
+    menstrualFlow: i === 0 ? 'HEAVY' : i === 1 ? 'MEDIUM' : i === 3 ? 'SPOTTING' : null,
+    cervicalAppearance: i >= 7 && i <= 11 ? (i === 10 ? 'EGGWHITE' : 'CREAMY') : null,
+    cervicalSensation: i >= 7 && i <= 11 ? (i === 10 ? 'SLIPPERY' : 'DAMP') : null,
+    excludeFromInterpretation: i === 4,
+    disturbanceFactors: i === 4 ? ['ALCOHOL'] : [],
+    notes: i === 4 ? 'Wedding,\nlate night' : null,
+  })),
+  annotations: {
+    referenceDays: [7, 8, 9, 10, 11, 12],
+    anchorDay: 11,
+    confirmingDays: [13, 14, 15],
+    coverlineTemp: 36.45,
+    usedFourthDayException: false,
+    secondExceptionDay: null,
+    nextReading: null,
+  },
+  coverlineTemp: 36.45,
+};
+
+/** One line per primitive, so the snapshot diff reads like a display list. */
+function describePage(page: PdfPage): string[] {
+  const n = (v: number) => Number(v.toFixed(1));
+  return page.items.map((item: PdfPrimitive) => {
+    switch (item.kind) {
+      case 'line': return `line ${n(item.x1)},${n(item.y1)} → ${n(item.x2)},${n(item.y2)} ${item.color}`;
+      case 'polyline': return `polyline ${item.points.map(([x, y]) => `${n(x)},${n(y)}`).join(' ')} ${item.color}`;
+      case 'rect': return `rect ${n(item.x)},${n(item.y)} ${n(item.width)}x${n(item.height)} ${item.fill}`;
+      case 'circle': return `circle ${n(item.cx)},${n(item.cy)} r${item.r} fill=${item.fill} stroke=${item.stroke}`;
+      case 'text': return `text ${n(item.x)},${n(item.y)} ${item.align ?? 'left'}${item.bold ? ' bold' : ''} "${item.text}"`;
+    }
+  });
+}
+
+function texts(page: PdfPage): string[] {
+  return page.items.flatMap((item) => (item.kind === 'text' ? [item.text] : []));
+}
+
+describe('layoutChartPdf', () => {
+  it('matches the layout snapshot', () => {
+    const pages = layoutChartPdf(INPUT, 'A4');
+    expect(pages).toHaveLength(1);
+    expect(describePage(pages[0])).toMatchSnapshot();
+  });
+
+  it('uses landscape A4 and Letter sizes', () => {
+    expect(layoutChartPdf(INPUT, 'A4')[0]).toMatchObject(PAPER_SIZES.A4);
+    expect(layoutChartPdf(INPUT, 'LETTER')[0]).toMatchObject({ width: 792, height: 612 });
+  });
+
+  it('paginates long cycles and numbers the pages', () => {
+    const long = { ...INPUT, days: Array.from({ length: DAYS_PER_PAGE + 5 }, (_, i) => day(i + 1, 36.5)) };
+    const pages = layoutChartPdf(long, 'LETTER');
+
+    expect(pages).toHaveLength(2);
+    expect(texts(pages[0])).toContain('Page 1 of 2');
+    expect(texts(pages[1])).toContain('Page 2 of 2');
+    expect(texts(pages[1])).toContain(String(DAYS_PER_PAGE + 5));
+    expect(texts(pages[1])).not.toContain(String(DAYS_PER_PAGE));
+  });
+
+  it('prints mucus symbols, flow codes, disturbance marks and footnoted notes', () => {
+    const lines = texts(layoutChartPdf(INPUT, 'A4')[0]);
+    expect(lines).toEqual(expect.arrayContaining(['S', 'S+', 'H', 'sp', '!']));
+    expect(lines).toContain('1. Day 5: Wedding, late night — disturbances: alcohol');
+  });
+
+  it('labels the axis and coverline in Fahrenheit when asked', () => {
+    const lines = texts(layoutChartPdf({ ...INPUT, unit: 'FAHRENHEIT' }, 'A4')[0]);
+    expect(lines).toContain('Coverline 97.61°F');
+    expect(lines.some((t) => t.includes('Temperatures in °F'))).toBe(true);
+  });
+
+  it('moves notes that do not fit under the table onto continuation pages', () => {
+    const noisy = {
+      ...INPUT,
+      days: Array.from({ length: 35 }, (_, i) => day(i + 1, 36.5, { notes: `note ${i + 1}` })),
+    };
+    const pages = layoutChartPdf(noisy, 'A4');
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(texts(pages[pages.length - 1])).toContain('35. Day 35: note 35');
+    expect(texts(pages[pages.length - 1]).some((t) => t.includes('Notes (continued)'))).toBe(true);
+  });
+});
+
+describe('renderPdf', () => {
+  const decode = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+  it('writes a PDF whose xref offset points at the table', () => {
+    const pdf = decode(renderPdf(layoutChartPdf(INPUT, 'A4'), 'Cycle 3'));
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const offset = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    expect(pdf.slice(offset, offset + 4)).toBe('xref');
+  });
+
+  it('records the byte offset of every object', () => {
+    const pdf = decode(renderPdf(layoutChartPdf(INPUT, 'LETTER'), 'Cycle 3'));
+    const offset = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+    const entries = pdf.slice(offset).split('\n').slice(3).filter((l) => / 00000 n $/.test(l));
+
+    entries.forEach((entry, i) => {
+      const at = Number(entry.slice(0, 10));
+      expect(pdf.slice(at, at + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+    expect(entries.length).toBe(7);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { orderBulkImport } from '../csvBulkImport';
+
+function file(fileName: string, start: string, last: string) {
+  return { fileName, cycleStartDate: new Date(`${start}T00:00:00`), lastDate: new Date(`${last}T00:00:00`) };
+}
+
+describe('orderBulkImport', () => {
+  it('sorts files by cycle start regardless of upload order', () => {
+    const { files, overlaps } = orderBulkImport([
+      file('Cycle #3.csv', '2025-03-01', '2025-03-28'),
+      file('Cycle #1.csv', '2025-01-01', '2025-01-29'),
+      file('Cycle #2.csv', '2025-01-30', '2025-02-28'),
+    ]);
+    expect(files.map((f) => f.fileName)).toEqual(['Cycle #1.csv', 'Cycle #2.csv', 'Cycle #3.csv']);
+    expect(overlaps).toEqual([]);
+  });
+
+  it('reports no gap for back-to-back cycles and counts missing days otherwise', () => {
+    const { files } = orderBulkImport([
+      file('a.csv', '2025-01-01', '2025-01-29'),
+      file('b.csv', '2025-01-30', '2025-02-20'),
+      file('c.csv', '2025-03-01', '2025-03-28'),
+    ]);
+    expect(files.map((f) => f.gapDaysBefore)).toEqual([null, 0, 8]);
+  });
+
+  it('flags a file that starts on or before the previous file ends', () => {
+    const { overlaps } = orderBulkImport([
+      file('a.csv', '2025-01-01', '2025-01-29'),
+      file('b.csv', '2025-01-29', '2025-02-25'),
+    ]);
+    expect(overlaps).toEqual([{ fileName: 'b.csv', overlapsWith: 'a.csv' }]);
+  });
+
+  it('flags two files for the same cycle', () => {
+    const { overlaps } = orderBulkImport([
+      file('a.csv', '2025-01-01', '2025-01-29'),
+      file('a copy.csv', '2025-01-01', '2025-01-29'),
+    ]);
+    expect(overlaps).toHaveLength(1);
+  });
+
+  it('compares against the longest earlier file, not just the previous one', () => {
+    const { overlaps } = orderBulkImport([
+      file('long.csv', '2025-01-01', '2025-03-01'),
+      file('short.csv', '2025-01-05', '2025-01-10'),
+      file('late.csv', '2025-02-01', '2025-02-27'),
+    ]);
+    expect(overlaps.map((o) => [o.fileName, o.overlapsWith])).toEqual([
+      ['short.csv', 'long.csv'],
+      ['late.csv', 'long.csv'],
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { mapCsvRow, planCsvColumns } from '../csvColumnMapping';
+import { NOTE_MAX_LENGTH } from '../notesValidation';
+
+const OVAGRAPH_HEADERS = 'd,cd,ms,cl,bf,bt,cm,cp,cf,ok,it,hp,ft,op,fu,br,mo,me,co,vs,cu,rx,te,sp,bx'.split(',');
+
+describe('planCsvColumns', () => {
+  it('classifies the full OvaGraph header', () => {
+    const { core, report } = planCsvColumns(OVAGRAPH_HEADERS);
+
+    expect(core).toEqual({ date: 'd', dayNumber: 'cd', bbt: 'bf', bbtTime: 'bt' });
+    expect(report.recognised.map((c) => c.column)).toEqual(
+      ['d', 'cd', 'ms', 'bf', 'bt', 'cm', 'ok', 'it', 'op', 'me', 'vs', 'rx', 'te', 'sp'],
+    );
+    expect(report.ignored.map((c) => c.column)).toEqual(
+      ['cl', 'cp', 'cf', 'hp', 'ft', 'fu', 'br', 'mo', 'co', 'cu', 'bx'],
+    );
+    expect(report.rejected).toEqual([]);
+  });
+
+  it('maps the OvaGraph columns to CycleDay fields', () => {
+    const { report } = planCsvColumns(OVAGRAPH_HEADERS);
+    const fields = Object.fromEntries(report.recognised.map((c) => [c.column, c.field]));
+    expect(fields).toMatchObject({
+      me: 'menstrualFlow', ms: 'menstrualFlow', op: 'opkStatus', sp: 'notes', cm: 'cervicalAppearance', vs: 'cervicalSensation',
+      rx: 'medications', te: 'treatments',
+    });
+  });
+
+  it('accepts long-form aliases for the core columns', () => {
+    const { core } = planCsvColumns(['date', 'cycleDay', 'temp', 'time']);
+    expect(core).toEqual({ date: 'date', dayNumber: 'cycleDay', bbt: 'temp', bbtTime: 'time' });
+  });
+
+  it('rejects unknown columns and later duplicates of a field', () => {
+    const { core, report } = planCsvColumns(['d', 'date', 'mood', 'bf']);
+    expect(core.date).toBe('d');
+    expect(report.rejected).toEqual([
+      { column: 'date', reason: 'duplicate_field' },
+      { column: 'mood', reason: 'unknown_column' },
+    ]);
+  });
+
+  it('does not treat inherited object keys as known columns', () => {
+    expect(planCsvColumns(['constructor']).report.rejected).toEqual([
+      { column: 'constructor', reason: 'unknown_column' },
+    ]);
+  });
+});
+
+describe('mapCsvRow', () => {
+  it('normalizes OvaGraph values', () => {
+    const plan = planCsvColumns(OVAGRAPH_HEADERS);
+    const fields = mapCsvRow(
+      { d: '2025-01-12', ms: 'heavy', cm: 'egg_white', vs: 'wet', op: 'positive', ok: '-1', it: '1', sp: '  felt sick  ', rx: 'estrogen' },
+      plan,
+    );
+    expect(fields).toEqual({
+      menstrualFlow: 'HEAVY',
+      cervicalAppearance: 'EGGWHITE',
+      cervicalSensation: 'WET',
+      opkStatus: 'peak',
+      excludeFromInterpretation: true,
+      hadIntercourse: true,
+      notes: 'felt sick',
+      medications: [{ type: 'ESTROGEN', dose: null }],
+    });
+  });
+
+  it('reads OvaGraph\'s 0–3 menstruation scale from me, falling back to ms', () => {
+    const plan = planCsvColumns(OVAGRAPH_HEADERS);
+    expect(['0', '1', '2', '3'].map((me) => mapCsvRow({ me, ms: '' }, plan).menstrualFlow)).toEqual(
+      ['SPOTTING', 'LIGHT', 'MEDIUM', 'HEAVY'],
+    );
+    expect(mapCsvRow({ me: '3', ms: 'light' }, plan).menstrualFlow).toBe('HEAVY');
+    expect(mapCsvRow({ me: '', ms: 'light' }, plan).menstrualFlow).toBe('LIGHT');
+  });
+
+  it('reads medication and treatment lists', () => {
+    const plan = planCsvColumns(['rx', 'te']);
+    expect(mapCsvRow({ rx: 'ivf_stimulation,progesterone', te: 'ultrasound, blood_work' }, plan)).toEqual({
+      medications: [{ type: 'IVF_STIMULATION', dose: null }, { type: 'PROGESTERONE', dose: null }],
+      treatments: [{ type: 'ULTRASOUND', detail: null }, { type: 'BLOOD_WORK', detail: null }],
+    });
+  });
+
+  it('rejects a medication list with an unknown item', () => {
+    const plan = planCsvColumns(['rx']);
+    expect(mapCsvRow({ rx: 'progesterone,aspirin' }, plan)).toEqual({});
+    expect(plan.report.recognised).toEqual([{ column: 'rx', field: 'medications', invalidValues: 1 }]);
+  });
+
+  it('skips empty cells without counting them', () => {
+    const plan = planCsvColumns(['d', 'ms', 'sp']);
+    expect(mapCsvRow({ d: '2025-01-12', ms: '', sp: '   ' }, plan)).toEqual({});
+    expect(plan.report.recognised.every((c) => c.invalidValues === 0)).toBe(true);
+  });
+
+  it('counts unreadable values against their column', () => {
+    const plan = planCsvColumns(['ms', 'sp']);
+    mapCsvRow({ ms: 'lots', sp: 'x'.repeat(NOTE_MAX_LENGTH + 1) }, plan);
+    mapCsvRow({ ms: 'lots', sp: 'ok' }, plan);
+    expect(plan.report.recognised).toEqual([
+      { column: 'ms', field: 'menstrualFlow', invalidValues: 2 },
+      { column: 'sp', field: 'notes', invalidValues: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { buildImportDayData, parseCsvImport } from '../csvImport';
+
+// One short cycle in each locale the importer meets. The dates run past the
+// 12th so that their order can be detected.
+const FIXTURES = {
+  // OvaGraph export
+  iso: [
+    'd,cd,bf,bt',
+    '2025-09-12,11,97.52,06:57',
+    '2025-09-13,12,97.70,07:10',
+    '2025-09-14,13,98.02,07:05',
+  ].join('\n'),
+  // Sheet1 (Google Sheets, day-first)
+  dayFirst: [
+    'd,cd,bf,bt',
+    '12/09/2025,11,97.52,06:57',
+    '13/09/2025,12,97.70,07:10',
+    '14/09/2025,13,98.02,07:05',
+  ].join('\n'),
+  // US spreadsheet
+  monthFirst: [
+    'd,cd,bf,bt',
+    '09/12/2025,11,97.52,06:57',
+    '09/13/2025,12,97.70,07:10',
+    '09/14/2025,13,98.02,07:05',
+  ].join('\n'),
+  // European spreadsheet: semicolon-separated with decimal commas
+  european: [
+    'd;cd;bf;bt',
+    '12.09.2025;11;36,40;06:57',
+    '13.09.2025;12;36,50;07:10',
+    '14.09.2025;13;36,65;07:05',
+  ].join('\n'),
+  // Decimal commas in a comma-separated file, quoted as spreadsheets do
+  quotedCommas: [
+    'd,cd,bf,bt',
+    '12/09/2025,11,"36,40",06:57',
+    '13/09/2025,12,"36,50",07:10',
+    '14/09/2025,13,"36,65",07:05',
+  ].join('\n'),
+};
+
+// The first days of a cycle as OvaGraph exported them (My-Cycles-Data,
+// cycle #10): the period is in `me`, `ms` is always empty.
+const OVAGRAPH_PERIOD = [
+  'd,cd,ms,cl,bf,bt,cm,cp,cf,ok,it,hp,ft,op,fu,br,mo,me,co,vs,cu,rx,te,sp,bx',
+  '2025-09-20,1,,,98.15,09:41,,,,,0,,,,,,,2,,,,,,"Menstruation started in the evening. Hiking during the day",0',
+  '2025-09-21,2,,,97.53,07:26,,,,,0,,,,,,,3,,,,other_supplements,,,0',
+  '2025-09-22,3,,,98.33,07:29,,,,,0,,,,,,,1,,,,,,,0',
+  '2025-09-23,4,,,98.2,07:05,,,,,0,,,,,,,0,,,,,,,0',
+  '2025-09-24,5,,,97.91,06:45,,,,,0,,,,,,,,,,,,,,0',
+].join('\n');
+
+function importDays(csvText: string, overrides = {}) {
+  const parsed = parseCsvImport(csvText, overrides);
+  if (parsed.kind !== 'ok') throw new Error(parsed.message);
+  return { prepared: parsed.prepared, days: parsed.prepared.rows.map((row) => buildImportDayData(parsed.prepared, row)) };
+}
+
+describe('parseCsvImport locales', () => {
+  it.each(['iso', 'dayFirst', 'monthFirst'] as const)('dates the %s fixture to 12–14 September', (name) => {
+    const { prepared, days } = importDays(FIXTURES[name]);
+    expect(prepared.detectedUnit).toBe('FAHRENHEIT');
+    expect(days.map((d) => d.date)).toEqual([new Date(2025, 8, 12), new Date(2025, 8, 13), new Date(2025, 8, 14)]);
+    expect(prepared.cycleStartDate).toEqual(new Date(2025, 8, 2));
+  });
+
+  it.each(['european', 'quotedCommas'] as const)('reads decimal commas in the %s fixture', (name) => {
+    const { prepared, days } = importDays(FIXTURES[name]);
+    expect(prepared.locale).toMatchObject({ dateOrder: 'DMY', decimalSeparator: 'COMMA' });
+    expect(prepared.detectedUnit).toBe('CELSIUS');
+    expect(days.map((d) => d.bbt)).toEqual([36.4, 36.5, 36.65]);
+    expect(days[0].date).toEqual(new Date(2025, 8, 12));
+  });
+
+  it('rejects a file whose dates could be either order', () => {
+    const ambiguous = ['d,cd,bf', '02/09/2025,1,98.2', '03/09/2025,2,98.02'].join('\n');
+    expect(parseCsvImport(ambiguous)).toMatchObject({ kind: 'error' });
+    expect(importDays(ambiguous, { dateOrder: 'DMY' }).days[0].date).toEqual(new Date(2025, 8, 2));
+    expect(importDays(ambiguous, { dateOrder: 'MDY' }).days[0].date).toEqual(new Date(2025, 1, 9));
+  });
+
+  it('rejects a date order override the dates do not fit', () => {
+    const result = parseCsvImport(FIXTURES.dayFirst, { dateOrder: 'MDY' });
+    expect(result).toEqual({ kind: 'error', message: '13/09/2025 is not a valid MM/DD/YYYY date.' });
+  });
+});
+
+describe('parseCsvImport OvaGraph export', () => {
+  it('keeps the period days recorded in me', () => {
+    const { days } = importDays(OVAGRAPH_PERIOD);
+    expect(days.map((d) => d.menstrualFlow ?? null)).toEqual(['MEDIUM', 'HEAVY', 'LIGHT', 'SPOTTING', null]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { diffImportDay, type ImportDayValues } from '../csvImportPreview';
+
+function values(overrides: Partial<ImportDayValues> = {}): ImportDayValues {
+  return {
+    bbt: 36.5,
+    bbtTime: '07:00',
+    excludeFromInterpretation: false,
+    cervicalAppearance: null,
+    cervicalSensation: null,
+    ...overrides,
+  };
+}
+
+describe('diffImportDay', () => {
+  it('lists the filled-in fields of a new day', () => {
+    const result = diffImportDay(null, values({ cervicalAppearance: 'CREAMY' }));
+    expect(result.status).toBe('new');
+    expect(result.changes.map((c) => c.field)).toEqual(['bbt', 'bbtTime', 'cervicalAppearance']);
+  });
+
+  it('reports an identical day as unchanged', () => {
+    expect(diffImportDay(values(), values())).toEqual({ status: 'unchanged', changes: [] });
+  });
+
+  it('ignores float noise from the unit conversion', () => {
+    expect(diffImportDay(values({ bbt: 36.5 }), values({ bbt: 36.50001 })).status).toBe('unchanged');
+  });
+
+  it('shows overwritten and cleared values', () => {
+    const result = diffImportDay(
+      values({ bbt: 36.5, excludeFromInterpretation: true }),
+      values({ bbt: null, excludeFromInterpretation: false }),
+    );
+    expect(result).toEqual({
+      status: 'changed',
+      changes: [
+        { field: 'bbt', before: 36.5, after: null },
+        { field: 'excludeFromInterpretation', before: true, after: false },
+      ],
+    });
+  });
+
+  it('leaves stored mucus alone when the CSV has none', () => {
+    const result = diffImportDay(
+      values({ cervicalAppearance: 'EGGWHITE', cervicalSensation: 'SLIPPERY' }),
+      values({ cervicalAppearance: undefined, cervicalSensation: undefined }),
+    );
+    expect(result.status).toBe('unchanged');
+  });
+});
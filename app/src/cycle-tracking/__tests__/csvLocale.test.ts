@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { detectCsvDelimiter, detectCsvLocale, parseCsvDate, parseCsvDecimal } from '../csvLocale';
+
+describe('detectCsvLocale', () => {
+  it('reads a day above 12 in the first place as day-first', () => {
+    expect(detectCsvLocale(['02/09/2025', '13/09/2025'], ['98.2'])).toMatchObject({
+      kind: 'ok',
+      locale: { dateOrder: 'DMY', decimalSeparator: 'DOT', detected: { dateOrder: true, decimalSeparator: true } },
+    });
+  });
+
+  it('reads a day above 12 in the second place as month-first', () => {
+    expect(detectCsvLocale(['09/02/2025', '09/13/2025'], [])).toMatchObject({ kind: 'ok', locale: { dateOrder: 'MDY' } });
+  });
+
+  it('needs no date order for year-first dates', () => {
+    expect(detectCsvLocale(['2025-01-27', '2025-01-28'], ['98.31'])).toMatchObject({
+      kind: 'ok',
+      locale: { dateOrder: null },
+    });
+  });
+
+  it('rejects dates that could be either order', () => {
+    const result = detectCsvLocale(['02/09/2025', '03/09/2025', '2025-09-04'], []);
+    expect(result).toMatchObject({ kind: 'error' });
+    expect(result.kind === 'error' && result.message).toContain('02/09/2025');
+  });
+
+  it('rejects dates with evidence for both orders', () => {
+    expect(detectCsvLocale(['13/09/2025', '09/14/2025'], [])).toMatchObject({ kind: 'error' });
+  });
+
+  it('takes an override instead of detecting', () => {
+    expect(detectCsvLocale(['02/09/2025'], ['36,55'], { dateOrder: 'MDY', decimalSeparator: 'DOT' })).toMatchObject({
+      kind: 'ok',
+      locale: { dateOrder: 'MDY', decimalSeparator: 'DOT', detected: { dateOrder: false, decimalSeparator: false } },
+    });
+  });
+
+  it('detects decimal commas and rejects a mix of both separators', () => {
+    expect(detectCsvLocale([], ['', '36,55', '36'])).toMatchObject({ kind: 'ok', locale: { decimalSeparator: 'COMMA' } });
+    expect(detectCsvLocale([], ['36,55', '36.60'])).toMatchObject({ kind: 'error' });
+  });
+});
+
+describe('parseCsvDate', () => {
+  it('reads year-last dates in the given order', () => {
+    expect(parseCsvDate('02/09/2025', 'DMY')).toEqual(new Date(2025, 8, 2));
+    expect(parseCsvDate('02/09/2025', 'MDY')).toEqual(new Date(2025, 1, 9));
+    expect(parseCsvDate('02.09.2025', 'DMY')).toEqual(new Date(2025, 8, 2));
+    expect(parseCsvDate('02/09/2025', null)).toBeNull();
+  });
+
+  it('rejects impossible dates instead of rolling them over', () => {
+    expect(parseCsvDate('31/02/2025', 'DMY')).toBeNull();
+    expect(parseCsvDate('2025-13-01', null)).toBeNull();
+  });
+});
+
+describe('parseCsvDecimal', () => {
+  it('reads the separator it is given and refuses the other one', () => {
+    expect(parseCsvDecimal('36,55', 'COMMA')).toBe(36.55);
+    expect(parseCsvDecimal('36.55', 'DOT')).toBe(36.55);
+    expect(parseCsvDecimal('36,55', 'DOT')).toBeNaN();
+    expect(parseCsvDecimal('36.55', 'COMMA')).toBeNaN();
+    expect(parseCsvDecimal('', 'COMMA')).toBeNaN();
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('picks semicolons only when the header uses them', () => {
+    expect(detectCsvDelimiter('d;cd;bf\n02/09/2025;1;36,55')).toBe(';');
+    expect(detectCsvDelimiter('d,cd,bf\n2025-09-02,1,"notes; more"')).toBe(',');
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LUTEAL_DAYS,
+  forecastCycle,
+  forecastGhostColumns,
+  type ForecastCycleInput,
+} from '../cycleForecast';
+
+function confirmedShift(shiftDay: number) {
+  return {
+    type: 'THERMAL_SHIFT',
+    state: 'CONFIRMED',
+    engineResult: { status: 'confirmed', shiftDay },
+    userOverrides: null,
+  };
+}
+
+/**
+ * Back-to-back cycles from 2026-01-01 with the given lengths, followed by
+ * an active cycle. shiftDays[i] gives cycle i a confirmed shift.
+ */
+function history(lengths: number[], shiftDays: (number | null)[] = []): ForecastCycleInput[] {
+  const cycles: ForecastCycleInput[] = [];
+  let start = new Date(2026, 0, 1);
+  lengths.forEach((length, i) => {
+    const end = new Date(start);
+    end.setDate(end.getDate() + length - 1);
+    cycles.push({
+      startDate: start,
+      endDate: end,
+      isActive: false,
+      interpretations: shiftDays[i] != null ? [confirmedShift(shiftDays[i]!)] : [],
+    });
+    start = new Date(end);
+    start.setDate(start.getDate() + 1);
+  });
+  cycles.push({ startDate: start, endDate: null, isActive: true, interpretations: [] });
+  return cycles;
+}
+
+function activeStart(cycles: ForecastCycleInput[]): Date {
+  return new Date(cycles.find((c) => c.isActive)!.startDate);
+}
+
+function dayOf(cycles: ForecastCycleInput[], dayNumber: number): Date {
+  const d = activeStart(cycles);
+  d.setDate(d.getDate() + dayNumber - 1);
+  return d;
+}
+
+describe('forecastCycle', () => {
+  it('needs an active cycle', () => {
+    expect(forecastCycle(history([28, 28, 28]).slice(0, 3), new Date(2026, 3, 1)))
+      .toEqual({ status: 'no_active_cycle' });
+  });
+
+  it('does not forecast with no completed cycles', () => {
+    const cycles = history([]);
+    expect(forecastCycle(cycles, activeStart(cycles)))
+      .toEqual({ status: 'insufficient_history', completedCycles: 0, needed: 3 });
+  });
+
+  it('does not forecast with fewer than 3 completed cycles', () => {
+    const cycles = history([28, 30]);
+    expect(forecastCycle(cycles, activeStart(cycles)))
+      .toEqual({ status: 'insufficient_history', completedCycles: 2, needed: 3 });
+  });
+
+  it('does not count implausibly short or long records towards the 3', () => {
+    const cycles = history([28, 3, 30, 120]);
+    expect(forecastCycle(cycles, activeStart(cycles)))
+      .toMatchObject({ status: 'insufficient_history', completedCycles: 2 });
+  });
+
+  it('forecasts a regular history with a ±1 day range', () => {
+    const cycles = history([28, 28, 28], [15, 15, 15]);
+    const forecast = forecastCycle(cycles, dayOf(cycles, 10));
+    expect(forecast).toMatchObject({
+      status: 'forecast',
+      basedOnCycles: 3,
+      irregular: false,
+      nextPeriod: { expectedDay: 29, earliestDay: 28, latestDay: 30 },
+      lutealLength: 14,
+      lutealFromHistory: true,
+      currentDay: 10,
+      overdue: false,
+    });
+    if (forecast.status !== 'forecast') return;
+    expect(forecast.nextPeriod.expectedDate).toEqual(dayOf(cycles, 29));
+    // Ovulation projected on days 13–15 → window days 8–16.
+    expect(forecast.fertileWindow).toMatchObject({ earliestDay: 8, latestDay: 16 });
+  });
+
+  it('widens the range and flags an irregular history', () => {
+    const cycles = history([24, 35, 27, 40, 29]);
+    const forecast = forecastCycle(cycles, activeStart(cycles));
+    expect(forecast.status).toBe('forecast');
+    if (forecast.status !== 'forecast') return;
+    expect(forecast.irregular).toBe(true);
+    expect(forecast.cycleLength).toMatchObject({ min: 24, max: 40 });
+    // mean 31, sd ≈ 5.8 → ±6 days
+    expect(forecast.nextPeriod).toMatchObject({ expectedDay: 32, earliestDay: 26, latestDay: 38 });
+    expect(forecast.fertileWindow.latestDay - forecast.fertileWindow.earliestDay).toBe(18);
+  });
+
+  it('falls back to a 14-day luteal phase without standing shifts', () => {
+    const cycles = history([30, 30, 30]);
+    const forecast = forecastCycle(cycles, activeStart(cycles));
+    expect(forecast).toMatchObject({ lutealLength: DEFAULT_LUTEAL_DAYS, lutealFromHistory: false });
+  });
+
+  it('uses only the most recent 12 cycles', () => {
+    const cycles = history([...Array(6).fill(40), ...Array(12).fill(28)]);
+    expect(forecastCycle(cycles, activeStart(cycles)))
+      .toMatchObject({ basedOnCycles: 12, nextPeriod: { expectedDay: 29 } });
+  });
+
+  it('flags the cycle as overdue past the latest expected day', () => {
+    const cycles = history([28, 28, 28]);
+    expect(forecastCycle(cycles, dayOf(cycles, 31))).toMatchObject({ currentDay: 31, overdue: true });
+  });
+
+  it('does not forecast in pregnancy mode', () => {
+    const cycles = history([28, 28, 28]);
+    cycles[cycles.length - 1].pregnancyModeAt = new Date();
+    expect(forecastCycle(cycles, activeStart(cycles))).toEqual({ status: 'pregnancy_mode' });
+  });
+
+  it('does not forecast a cycle in a special situation, nor count such cycles', () => {
+    const cycles = history([28, 60, 28, 28]);
+    cycles[cycles.length - 1].specialSituation = 'BREASTFEEDING';
+    expect(forecastCycle(cycles, activeStart(cycles))).toEqual({ status: 'special_situation' });
+
+    cycles[cycles.length - 1].specialSituation = null;
+    cycles[1].specialSituation = 'POSTPARTUM';
+    expect(forecastCycle(cycles, activeStart(cycles)))
+      .toMatchObject({ basedOnCycles: 3, nextPeriod: { expectedDay: 29 } });
+  });
+
+  it('does not count post-pill wash-out cycles', () => {
+    const cycles = history([52, 41, 28, 28, 28]);
+    cycles[0].postPillCycle = 1;
+    cycles[1].postPillCycle = 2;
+    expect(forecastCycle(cycles, activeStart(cycles)))
+      .toMatchObject({ basedOnCycles: 3, irregular: false, nextPeriod: { expectedDay: 29 } });
+  });
+});
+
+describe('forecastGhostColumns', () => {
+  const cycles = history([28, 28, 28], [15, 15, 15]);
+  const forecast = forecastCycle(cycles, activeStart(cycles));
+
+  it('draws future fertile and period days', () => {
+    const columns = forecastGhostColumns(forecast, 10, false);
+    expect(columns.filter((c) => c.kind === 'fertile').map((c) => c.dayNumber)).toEqual([11, 12, 13, 14, 15, 16]);
+    expect(columns.filter((c) => c.kind === 'period').map((c) => c.dayNumber)).toEqual([28, 29, 30]);
+  });
+
+  it('drops fertile ghosts once the cycle has its own shift', () => {
+    expect(forecastGhostColumns(forecast, 20, true).every((c) => c.kind === 'period')).toBe(true);
+  });
+
+  it('draws nothing without a forecast', () => {
+    expect(forecastGhostColumns({ status: 'pregnancy_mode' }, 10, false)).toEqual([]);
+  });
+});
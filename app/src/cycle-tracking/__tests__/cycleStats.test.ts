@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { computeCycleStats, type CycleStatsInput } from '../cycleStats';
+import type { CycleDayInput } from '../interpretation/types';
+
+function days(count: number): CycleDayInput[] {
+  return Array.from({ length: count }, (_, i) => ({
+    dayNumber: i + 1,
+    bbt: 36.3,
+    bbtTime: null,
+    excludeFromInterpretation: false,
+    disturbanceFactors: [],
+    travelTimeDiff: null,
+  }));
+}
+
+function cycle(n: number, overrides: Partial<CycleStatsInput> = {}): CycleStatsInput {
+  return {
+    id: `c${n}`,
+    cycleNumber: n,
+    startDate: new Date(2026, 0, n * 30),
+    isActive: false,
+    markedAnovulatoryAt: null,
+    markedUninterpretableAt: null,
+    days: days(28),
+    thermalShift: null,
+    ...overrides,
+  };
+}
+
+function confirmedShift(shiftDay: number, coverlineTemp: number) {
+  return {
+    type: 'THERMAL_SHIFT',
+    state: 'CONFIRMED',
+    engineResult: { status: 'confirmed', shiftDay, coverlineTemp },
+    userOverrides: null,
+  };
+}
+
+describe('computeCycleStats', () => {
+  it('returns empty summaries with no cycles', () => {
+    const stats = computeCycleStats([]);
+    expect(stats.totalCycles).toBe(0);
+    expect(stats.cycleLength).toBeNull();
+    expect(stats.anovulatoryShare).toBe(0);
+  });
+
+  it('computes length distribution from ended cycles only', () => {
+    const stats = computeCycleStats([
+      cycle(1, { days: days(28) }),
+      cycle(2, { days: days(30) }),
+      cycle(3, { days: days(28) }),
+      cycle(4, { days: days(12), isActive: true }),
+    ]);
+    expect(stats.completedCycles).toBe(3);
+    expect(stats.lengthDistribution).toEqual([{ length: 28, count: 2 }, { length: 30, count: 1 }]);
+    expect(stats.cycleLength).toMatchObject({ min: 28, max: 30, median: 28 });
+  });
+
+  it('computes luteal length counting the shift day and flags short phases', () => {
+    const stats = computeCycleStats([
+      cycle(1, { thermalShift: confirmedShift(15, 36.3) }),   // 28 - 15 + 1 = 14
+      cycle(2, { thermalShift: confirmedShift(20, 36.5) }),   // 28 - 20 + 1 = 9
+    ]);
+    expect(stats.rows.map((r) => r.lutealLength)).toEqual([14, 9]);
+    expect(stats.shortLutealCycleIds).toEqual(['c2']);
+    expect(stats.shiftDay).toMatchObject({ min: 15, max: 20, mean: 17.5 });
+    expect(stats.averageCoverlineTemp).toBeCloseTo(36.4);
+  });
+
+  it('ignores suggested shifts and shifts on marked cycles', () => {
+    const stats = computeCycleStats([
+      cycle(1, { thermalShift: { ...confirmedShift(15, 36.3), state: 'SUGGESTED' } }),
+      cycle(2, { thermalShift: confirmedShift(15, 36.3), markedUninterpretableAt: new Date() }),
+      cycle(3, { markedAnovulatoryAt: new Date() }),
+      cycle(4),
+    ]);
+    expect(stats.shiftDay).toBeNull();
+    expect(stats.anovulatoryShare).toBe(0.25);
+    expect(stats.uninterpretableShare).toBe(0.25);
+    expect(stats.rows[1].classification).toBe('uninterpretable');
+  });
+
+  it('leaves post-pill cycles out of the figures unless asked', () => {
+    const cycles = [
+      cycle(1, { postPill: true, days: days(45) }),
+      cycle(2, { postPill: true, days: days(38) }),
+      cycle(3),
+      cycle(4),
+    ];
+    const stats = computeCycleStats(cycles);
+    expect(stats.totalCycles).toBe(2);
+    expect(stats.cycleLength).toMatchObject({ count: 2, min: 28, max: 28 });
+    expect(stats.postPillCount).toBe(2);
+    expect(stats.rows.map((r) => r.postPill)).toEqual([true, true, false, false]);
+
+    const all = computeCycleStats(cycles, { includePostPill: true });
+    expect(all.includesPostPill).toBe(true);
+    expect(all.cycleLength).toMatchObject({ count: 4, max: 45 });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildExportArchive,
+  cycleCsvFileName,
+  cycleDaysToCsv,
+  EXPORT_ARCHIVE_VERSION,
+  type ExportCycleInput,
+  type ExportDayInput,
+} from '../dataExport';
+import { buildImportDayData, parseCsvImport } from '../csvImport';
+
+function day(dayNumber: number, overrides: Partial<ExportDayInput> = {}): ExportDayInput {
+  return {
+    dayNumber,
+    date: new Date(2025, 2, dayNumber),
+    dayOfWeek: 'Monday',
+    bbt: 36.4,
+    bbtTime: '06:30',
+    excludeFromInterpretation: false,
+    hadIntercourse: false,
+    cervicalAppearance: null,
+    cervicalSensation: null,
+    opkStatus: null,
+    menstrualFlow: null,
+    disturbanceFactors: [],
+    travelTimeDiff: null,
+    notes: null,
+    medications: null,
+    treatments: null,
+    labResults: [],
+    ...overrides,
+  };
+}
+
+const DAYS: ExportDayInput[] = [
+  day(1, { menstrualFlow: 'HEAVY', bbt: 36.35 }),
+  day(2, { menstrualFlow: 'VERY_HEAVY', bbt: null, bbtTime: null }),
+  day(3, { cervicalAppearance: 'NONE', cervicalSensation: 'DRY', hadIntercourse: true }),
+  day(4, { cervicalAppearance: 'EGGWHITE', cervicalSensation: 'SLIPPERY', opkStatus: 'peak', bbt: 36.55 }),
+  day(5, { excludeFromInterpretation: true, notes: 'late night, "party", 2 drinks' }),
+  day(6, { cervicalAppearance: 'CREAMY', cervicalSensation: 'DAMP', opkStatus: 'declining', notes: 'line one\nline two' }),
+  day(7, {
+    medications: [{ type: 'IVF_STIMULATION', dose: null }, { type: 'PROGESTERONE', dose: null }],
+    treatments: [{ type: 'ULTRASOUND', detail: null }],
+  }),
+];
+
+function roundTrip(days: ExportDayInput[], unit: 'CELSIUS' | 'FAHRENHEIT') {
+  const parsed = parseCsvImport(cycleDaysToCsv(days, unit));
+  if (parsed.kind !== 'ok') throw new Error(parsed.message);
+  return {
+    prepared: parsed.prepared,
+    rows: parsed.prepared.rows.map((row) => buildImportDayData(parsed.prepared, row)),
+  };
+}
+
+describe('cycleDaysToCsv round trip through the importer', () => {
+  it.each(['CELSIUS', 'FAHRENHEIT'] as const)('restores every exported field (%s)', (unit) => {
+    const { prepared, rows } = roundTrip(DAYS, unit);
+
+    expect(prepared.detectedUnit).toBe(unit);
+    expect(prepared.cycleStartDate).toEqual(DAYS[0].date);
+    expect(prepared.columns.report.rejected).toEqual([]);
+    expect(rows).toHaveLength(DAYS.length);
+
+    rows.forEach((imported, i) => {
+      const original = DAYS[i];
+      expect(imported.dayNumber).toBe(original.dayNumber);
+      expect(imported.date).toEqual(original.date);
+      if (original.bbt == null) {
+        expect(imported.bbt).toBeNull();
+      } else {
+        expect(imported.bbt).toBeCloseTo(original.bbt, 2);
+      }
+      expect(imported.bbtTime).toBe(original.bbtTime);
+      expect(imported.excludeFromInterpretation).toBe(original.excludeFromInterpretation);
+      expect(imported.hadIntercourse).toBe(original.hadIntercourse);
+      expect(imported.cervicalAppearance ?? null).toBe(original.cervicalAppearance);
+      expect(imported.cervicalSensation ?? null).toBe(original.cervicalSensation);
+      expect(imported.menstrualFlow ?? null).toBe(original.menstrualFlow);
+      expect(imported.opkStatus ?? null).toBe(original.opkStatus);
+      expect(imported.notes ?? null).toBe(original.notes);
+      expect(imported.medications ?? null).toEqual(original.medications);
+      expect(imported.treatments ?? null).toEqual(original.treatments);
+    });
+  });
+
+  it('writes medication and treatment types without their doses', () => {
+    const csv = cycleDaysToCsv([day(1, {
+      medications: [{ type: 'PROGESTERONE', dose: '200 mg' }],
+      treatments: [{ type: 'BLOOD_WORK', detail: 'LH' }],
+    })], 'CELSIUS');
+    expect(csv.split('\n')[1]).toMatch(/,progesterone,blood_work,$/);
+  });
+
+  it('keeps the cycle start when the first exported day is not day 1', () => {
+    const { prepared } = roundTrip(DAYS.slice(2), 'CELSIUS');
+    expect(prepared.cycleStartDate).toEqual(DAYS[0].date);
+  });
+
+  it('reports no unreadable values', () => {
+    const { prepared } = roundTrip(DAYS, 'FAHRENHEIT');
+    expect(prepared.columns.report.recognised.every((c) => c.invalidValues === 0)).toBe(true);
+  });
+});
+
+describe('buildExportArchive', () => {
+  const cycle: ExportCycleInput = {
+    id: 'c2',
+    cycleNumber: 2,
+    createdAt: new Date('2025-03-01T10:00:00Z'),
+    startDate: new Date('2025-03-01T00:00:00Z'),
+    endDate: null,
+    isActive: true,
+    markedAnovulatoryAt: null,
+    markedUninterpretableAt: null,
+    pregnancyModeAt: null,
+    pregnancyIndicationDismissedAt: null,
+    specialSituation: null,
+    postPillCycle: null,
+    postPillCycles: null,
+    days: [
+      day(2),
+      day(1, { labResults: [{ hormone: 'LH', value: 12.5, unit: 'mIU/mL', referenceLow: null, referenceHigh: null }] }),
+    ],
+    interpretations: [{
+      type: 'THERMAL_SHIFT',
+      state: 'CONFIRMED',
+      engineResult: { status: 'confirmed', shiftDay: 15 },
+      userOverrides: null,
+      dismissedShiftDay: null,
+      needsReview: false,
+      reviewReason: null,
+      previousEngineResult: null,
+      postShiftMonitoring: null,
+      pendingNudges: null,
+      dismissedDataFingerprint: null,
+      engineId: 'sensiplan',
+      engineVersion: 3,
+      createdAt: new Date('2025-03-20T10:00:00Z'),
+      updatedAt: new Date('2025-03-21T10:00:00Z'),
+    }],
+    exclusionDecisions: [{
+      dayNumber: 2,
+      decision: 'REJECTED',
+      factors: ['POOR_SLEEP'],
+      bbt: 36.9,
+      decidedAt: new Date('2025-03-04T07:00:00Z'),
+    }],
+  };
+  const earlier: ExportCycleInput = {
+    ...cycle,
+    id: 'c1',
+    cycleNumber: 1,
+    startDate: new Date('2025-02-01T00:00:00Z'),
+    days: [],
+    interpretations: [],
+    exclusionDecisions: [],
+  };
+
+  it('stamps the format and version and sorts cycles and days', () => {
+    const archive = buildExportArchive(
+      {
+        temperatureUnit: 'CELSIUS',
+        notesRowExpanded: false,
+        bbtTimeCorrection: false,
+        bbtCorrectionPerHour: 0.1,
+        exclusionRules: { TRAVEL: { enabled: false, minDeviationC: 0.2 } },
+        interpretationEngine: 'sensiplan',
+      },
+      [cycle, earlier],
+      new Date('2025-04-01T00:00:00Z'),
+    );
+    expect(archive.format).toBe('cycle-path-export');
+    expect(archive.version).toBe(EXPORT_ARCHIVE_VERSION);
+    expect(archive.exportedAt).toBe('2025-04-01T00:00:00.000Z');
+    expect(archive.cycles.map((c) => c.id)).toEqual(['c1', 'c2']);
+    expect(archive.cycles[1].days.map((d) => d.dayNumber)).toEqual([1, 2]);
+  });
+
+  it('survives JSON serialisation unchanged', () => {
+    const archive = buildExportArchive(null, [cycle], new Date('2025-04-01T00:00:00Z'));
+    expect(JSON.parse(JSON.stringify(archive))).toEqual(archive);
+    expect(archive.cycles[0].interpretations[0]).toMatchObject({
+      engineResult: { status: 'confirmed', shiftDay: 15 },
+      engineId: 'sensiplan',
+      engineVersion: 3,
+      updatedAt: '2025-03-21T10:00:00.000Z',
+    });
+    expect(archive.cycles[0].exclusionDecisions).toEqual([
+      { dayNumber: 2, decision: 'REJECTED', factors: ['POOR_SLEEP'], bbt: 36.9, decidedAt: '2025-03-04T07:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('cycleCsvFileName', () => {
+  it('names the file after the cycle number and local start date', () => {
+    expect(cycleCsvFileName({ cycleNumber: 3, startDate: new Date(2025, 0, 9) })).toBe('cycle-3-2025-01-09.csv');
+  });
+});
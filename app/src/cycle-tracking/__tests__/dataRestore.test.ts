@@ -0,0 +1,286 @@
+import { describe, it, expect } from 'vitest';
+import { buildExportArchive, EXPORT_ARCHIVE_VERSION, type ExportArchive, type ExportCycleInput } from '../dataExport';
+import { planRestore, validateExportArchive, type ExistingCycleRange } from '../dataRestore';
+
+function cycle(id: string, cycleNumber: number, start: string, dayCount: number): ExportCycleInput {
+  const startDate = new Date(`${start}T00:00:00Z`);
+  return {
+    id,
+    cycleNumber,
+    createdAt: startDate,
+    startDate,
+    endDate: null,
+    isActive: false,
+    markedAnovulatoryAt: null,
+    markedUninterpretableAt: null,
+    pregnancyModeAt: null,
+    pregnancyIndicationDismissedAt: null,
+    specialSituation: null,
+    postPillCycle: null,
+    postPillCycles: null,
+    days: Array.from({ length: dayCount }, (_, i) => ({
+      dayNumber: i + 1,
+      date: new Date(startDate.getTime() + i * 86_400_000),
+      dayOfWeek: 'Monday',
+      bbt: 36.4,
+      bbtTime: '06:30',
+      excludeFromInterpretation: false,
+      hadIntercourse: false,
+      cervicalAppearance: null,
+      cervicalSensation: null,
+      opkStatus: null,
+      menstrualFlow: null,
+      disturbanceFactors: [],
+      travelTimeDiff: null,
+      notes: null,
+      medications: i === 20 ? [{ type: 'PROGESTERONE', dose: '200 mg' }] : null,
+      treatments: i === 12 ? [{ type: 'ULTRASOUND', detail: null }] : null,
+      labResults: i === 20 ? [{ hormone: 'PROGESTERONE', value: 11.2, unit: 'ng/mL', referenceLow: 3, referenceHigh: null }] : [],
+    })),
+    interpretations: [{
+      type: 'THERMAL_SHIFT',
+      state: 'ADJUSTED',
+      engineResult: { status: 'confirmed', shiftDay: 15 },
+      userOverrides: { shiftDay: 16 },
+      dismissedShiftDay: null,
+      needsReview: false,
+      reviewReason: null,
+      previousEngineResult: null,
+      postShiftMonitoring: null,
+      pendingNudges: [{ kind: 'excluded_day' }],
+      dismissedDataFingerprint: null,
+      engineId: 'sensiplan',
+      engineVersion: 2,
+      createdAt: startDate,
+      updatedAt: startDate,
+    }],
+    exclusionDecisions: [{
+      dayNumber: 4,
+      decision: 'ACCEPTED',
+      factors: ['ILLNESS_FEVER'],
+      bbt: 36.4,
+      decidedAt: startDate,
+    }],
+  };
+}
+
+const SETTINGS = {
+  temperatureUnit: 'CELSIUS',
+  notesRowExpanded: true,
+  bbtTimeCorrection: true,
+  bbtCorrectionPerHour: 0.15,
+  exclusionRules: { ALCOHOL: { enabled: true, minDeviationC: 0.3 } },
+  interpretationEngine: 'sensiplan',
+} as const;
+
+/** An archive as it arrives from a file: plain JSON, no Date objects. */
+/**
+ * The archive as a restore receives it. Tests that plant invalid values take
+ * it as `any`, since those values are outside the archive type.
+ */
+function archiveJson(cycles: ExportCycleInput[]): ExportArchive {
+  const archive = buildExportArchive(SETTINGS, cycles, new Date('2025-06-01T00:00:00Z'));
+  return JSON.parse(JSON.stringify(archive));
+}
+
+const TWO_CYCLES = [cycle('a', 1, '2025-01-01', 28), cycle('b', 2, '2025-01-29', 30)];
+
+describe('validateExportArchive', () => {
+  it('accepts what buildExportArchive produces', () => {
+    const result = validateExportArchive(archiveJson(TWO_CYCLES));
+    expect(result.kind).toBe('ok');
+  });
+
+  it('rejects files that are not an export, or from a newer version', () => {
+    expect(validateExportArchive({ cycles: [] })).toMatchObject({ kind: 'error', errors: [{ path: 'format' }] });
+    expect(validateExportArchive({ ...archiveJson([]), version: 99 })).toEqual({
+      kind: 'error',
+      errors: [{ path: 'version', message: 'This export was made by a newer version of the app.' }],
+    });
+  });
+
+  it('reads version 1 archives, filling in what they predate', () => {
+    const raw: any = archiveJson(TWO_CYCLES);
+    raw.version = 1;
+    delete raw.settings.bbtTimeCorrection;
+    delete raw.settings.bbtCorrectionPerHour;
+    delete raw.settings.exclusionRules;
+    delete raw.settings.interpretationEngine;
+    for (const c of raw.cycles) {
+      delete c.exclusionDecisions;
+      delete c.pregnancyModeAt;
+      delete c.pregnancyIndicationDismissedAt;
+      delete c.specialSituation;
+      delete c.postPillCycle;
+      delete c.postPillCycles;
+      for (const d of c.days) {
+        delete d.medications;
+        delete d.treatments;
+        delete d.labResults;
+      }
+      delete c.interpretations[0].engineId;
+      delete c.interpretations[0].engineVersion;
+    }
+
+    const result = validateExportArchive(raw);
+    expect(result.kind).toBe('ok');
+    if (result.kind !== 'ok') return;
+    expect(result.archive.version).toBe(EXPORT_ARCHIVE_VERSION);
+    expect(result.archive.settings).toEqual({
+      temperatureUnit: 'CELSIUS',
+      notesRowExpanded: true,
+      bbtTimeCorrection: false,
+      bbtCorrectionPerHour: 0.1,
+      exclusionRules: null,
+      interpretationEngine: 'sensiplan',
+    });
+    expect(result.archive.cycles[0]).toMatchObject({
+      exclusionDecisions: [],
+      pregnancyModeAt: null,
+      pregnancyIndicationDismissedAt: null,
+      specialSituation: null,
+      postPillCycle: null,
+      postPillCycles: null,
+    });
+    expect(result.archive.cycles[0].days[20]).toMatchObject({ medications: null, treatments: null, labResults: [] });
+    expect(result.archive.cycles[0].interpretations[0]).toMatchObject({ engineId: null, engineVersion: null });
+  });
+
+  it('keeps the cycle state a user set through export and restore', () => {
+    const pregnant: ExportCycleInput = {
+      ...cycle('b', 2, '2025-01-29', 30),
+      isActive: true,
+      pregnancyModeAt: new Date('2025-02-20T08:00:00Z'),
+      pregnancyIndicationDismissedAt: new Date('2025-02-18T08:00:00Z'),
+    };
+    const breastfeeding: ExportCycleInput = {
+      ...cycle('a', 1, '2025-01-01', 28),
+      specialSituation: 'BREASTFEEDING',
+      postPillCycle: 2,
+      postPillCycles: 3,
+    };
+    const raw = archiveJson([breastfeeding, pregnant]);
+
+    const result = validateExportArchive(raw);
+    expect(result.kind).toBe('ok');
+    if (result.kind !== 'ok') return;
+    expect(result.archive).toEqual(raw);
+    expect(result.archive.cycles[0].days[20]).toMatchObject({
+      medications: [{ type: 'PROGESTERONE', dose: '200 mg' }],
+      labResults: [{ hormone: 'PROGESTERONE', value: 11.2, unit: 'ng/mL', referenceLow: 3, referenceHigh: null }],
+    });
+    expect(result.archive.cycles[0]).toMatchObject({ specialSituation: 'BREASTFEEDING', postPillCycle: 2, postPillCycles: 3 });
+    expect(result.archive.cycles[1]).toMatchObject({
+      pregnancyModeAt: '2025-02-20T08:00:00.000Z',
+      pregnancyIndicationDismissedAt: '2025-02-18T08:00:00.000Z',
+    });
+  });
+
+  it('reports every invalid field with its location', () => {
+    const raw: any = archiveJson(TWO_CYCLES);
+    raw.settings.temperatureUnit = 'KELVIN';
+    raw.settings.bbtCorrectionPerHour = 2;
+    raw.settings.exclusionRules = { GHOSTS: { enabled: true, minDeviationC: 0.3 } };
+    raw.settings.interpretationEngine = 'sensiplan_postpartum';
+    raw.cycles[0].days[3].bbt = 98.2;
+    raw.cycles[0].days[3].menstrualFlow = 'LOTS';
+    raw.cycles[0].days[12].treatments = [{ type: 'SEANCE', detail: null }];
+    raw.cycles[0].days[20].labResults[0].referenceHigh = 1;
+    raw.cycles[1].days[0].notes = 'x'.repeat(151);
+    raw.cycles[1].specialSituation = 'HOLIDAY';
+    raw.cycles[1].postPillCycle = 4;
+    raw.cycles[1].postPillCycles = 3;
+    raw.cycles[1].exclusionDecisions[0].decision = 'MAYBE';
+    delete raw.cycles[1].interpretations[0].userOverrides;
+    raw.cycles[1].interpretations[0].engineId = 'astrology';
+
+    const result = validateExportArchive(raw);
+    expect(result.kind).toBe('error');
+    if (result.kind !== 'error') return;
+    expect(result.errors.map((e) => e.path)).toEqual([
+      'settings.temperatureUnit',
+      'settings.bbtCorrectionPerHour',
+      'settings.exclusionRules',
+      'settings.interpretationEngine',
+      'cycles[0].days[3].bbt',
+      'cycles[0].days[3].menstrualFlow',
+      'cycles[0].days[12].treatments',
+      'cycles[0].days[20].labResults[0]',
+      'cycles[1].specialSituation',
+      'cycles[1].postPillCycle',
+      'cycles[1].days[0].notes',
+      'cycles[1].interpretations[0].userOverrides',
+      'cycles[1].interpretations[0].engineId',
+      'cycles[1].exclusionDecisions[0].decision',
+    ]);
+    expect(result.errors[11].message).toBe('is missing');
+  });
+
+  it('rejects settings it does not know, so they never reach the database', () => {
+    const raw: any = archiveJson([]);
+    raw.settings.userId = 'someone-else';
+    raw.settings.id = 'settings-1';
+
+    expect(validateExportArchive(raw)).toEqual({
+      kind: 'error',
+      errors: [
+        { path: 'settings.userId', message: 'is not a known setting' },
+        { path: 'settings.id', message: 'is not a known setting' },
+      ],
+    });
+  });
+
+  it('rejects duplicate days and cycles that overlap each other', () => {
+    const raw = archiveJson([cycle('a', 1, '2025-01-01', 28), cycle('b', 2, '2025-01-20', 10)]);
+    raw.cycles[1].days[1].dayNumber = 1;
+
+    const result = validateExportArchive(raw);
+    expect(result.kind).toBe('error');
+    if (result.kind !== 'error') return;
+    expect(result.errors).toEqual([
+      { path: 'cycles[1].days[1].dayNumber', message: 'day 1 appears more than once' },
+    ]);
+
+    raw.cycles[1].days[1].dayNumber = 2;
+    expect(validateExportArchive(raw)).toEqual({
+      kind: 'error',
+      errors: [{ path: 'cycles[1].startDate', message: 'overlaps cycle 1 in the same archive' }],
+    });
+  });
+});
+
+describe('planRestore', () => {
+  const archive = archiveJson(TWO_CYCLES);
+  const stored: ExistingCycleRange[] = [
+    // Same start as archive cycle 1.
+    { id: 'x', startDate: new Date('2025-01-01T00:00:00Z'), lastDate: new Date('2025-01-20T00:00:00Z') },
+    // Overlaps archive cycle 2 but starts later.
+    { id: 'y', startDate: new Date('2025-02-05T00:00:00Z'), lastDate: new Date('2025-03-01T00:00:00Z') },
+  ];
+
+  it('merges same-start cycles and skips other overlaps in merge mode', () => {
+    const plan = planRestore(archive, stored, 'merge');
+    expect(plan.merge.map((m) => [m.cycle.id, m.targetCycleId])).toEqual([['a', 'x']]);
+    expect(plan.create).toEqual([]);
+    expect(plan.skipped).toEqual([{ cycleNumber: 2, startDate: '2025-01-29T00:00:00.000Z', conflictsWithCycleId: 'y' }]);
+  });
+
+  it('skips every conflicting cycle in skip mode', () => {
+    const plan = planRestore(archive, stored.slice(1), 'skip');
+    expect(plan.create.map((c) => c.id)).toEqual(['a']);
+    expect(plan.merge).toEqual([]);
+    expect(plan.skipped.map((s) => s.conflictsWithCycleId)).toEqual(['y']);
+  });
+
+  it('deletes everything stored and writes the whole archive in replace mode', () => {
+    const plan = planRestore(archive, stored, 'replace');
+    expect(plan.deleteCycleIds).toEqual(['x', 'y']);
+    expect(plan.create.map((c) => c.id)).toEqual(['a', 'b']);
+    expect(plan.skipped).toEqual([]);
+  });
+
+  it('creates cycles that do not touch anything stored', () => {
+    const plan = planRestore(archive, [], 'skip');
+    expect(plan.create).toHaveLength(2);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LAB_UNIT_MAX_LENGTH,
+  checkMidLutealProgesterone,
+  hormonesWithResults,
+  rangeFlag,
+  validateLabResult,
+  type LabResultPoint,
+} from '../labResults';
+
+const progesterone = (dayNumber: number, value: number, unit = 'ng/mL'): LabResultPoint => ({
+  dayNumber,
+  hormone: 'PROGESTERONE',
+  value,
+  unit,
+  referenceLow: null,
+  referenceHigh: null,
+});
+
+describe('validateLabResult', () => {
+  it('trims the unit and fills in a missing reference range', () => {
+    expect(validateLabResult({ hormone: 'LH', value: 12.5, unit: ' mIU/mL ' })).toEqual({
+      kind: 'ok',
+      values: { hormone: 'LH', value: 12.5, unit: 'mIU/mL', referenceLow: null, referenceHigh: null },
+    });
+  });
+
+  it('rejects unknown hormones, negative values and bad units', () => {
+    expect(validateLabResult({ hormone: 'TSH', value: 2, unit: 'mIU/L' })).toMatchObject({ kind: 'error' });
+    expect(validateLabResult({ hormone: 'FSH', value: -1, unit: 'mIU/mL' })).toMatchObject({ kind: 'error' });
+    expect(validateLabResult({ hormone: 'FSH', value: NaN, unit: 'mIU/mL' })).toMatchObject({ kind: 'error' });
+    expect(validateLabResult({ hormone: 'FSH', value: 6, unit: '  ' })).toMatchObject({ kind: 'error' });
+    expect(validateLabResult({ hormone: 'FSH', value: 6, unit: 'x'.repeat(LAB_UNIT_MAX_LENGTH + 1) }))
+      .toMatchObject({ kind: 'error' });
+  });
+
+  it('rejects a reference range that runs backwards', () => {
+    expect(validateLabResult({ hormone: 'PROLACTIN', value: 14, unit: 'ng/mL', referenceLow: 25, referenceHigh: 4 }))
+      .toMatchObject({ kind: 'error' });
+  });
+});
+
+describe('rangeFlag', () => {
+  it('flags values outside the reference range only', () => {
+    const base = { hormone: 'PROLACTIN' as const, unit: 'ng/mL', referenceLow: 4, referenceHigh: 25 };
+    expect(rangeFlag({ ...base, value: 30 })).toBe('high');
+    expect(rangeFlag({ ...base, value: 2 })).toBe('low');
+    expect(rangeFlag({ ...base, value: 25 })).toBeNull();
+    expect(rangeFlag({ ...base, value: 30, referenceHigh: null })).toBeNull();
+  });
+});
+
+describe('hormonesWithResults', () => {
+  it('lists each hormone once in the fixed order', () => {
+    expect(hormonesWithResults([{ hormone: 'PROGESTERONE' }, { hormone: 'LH' }, { hormone: 'LH' }]))
+      .toEqual(['LH', 'PROGESTERONE']);
+  });
+});
+
+describe('checkMidLutealProgesterone', () => {
+  // Shift on day 16 → ovulation day 15 → mid-luteal window days 21–25.
+  it('corroborates the shift with an ovulatory value in the window', () => {
+    expect(checkMidLutealProgesterone([progesterone(22, 11.2)], 16)).toEqual({
+      status: 'corroborates',
+      day: 22,
+      valueNgMl: 11.2,
+      window: { from: 21, to: 25 },
+    });
+  });
+
+  it('contradicts the shift with a low value, converting nmol/L', () => {
+    const check = checkMidLutealProgesterone([progesterone(23, 6.36, 'nmol/L')], 16);
+    expect(check).toMatchObject({ status: 'contradicts', day: 23 });
+    expect(check.status === 'contradicts' && check.valueNgMl).toBeCloseTo(2);
+  });
+
+  it('uses the latest sample in the window', () => {
+    expect(checkMidLutealProgesterone([progesterone(25, 9), progesterone(21, 1)], 16))
+      .toMatchObject({ status: 'corroborates', day: 25 });
+  });
+
+  it('reports samples taken outside the window', () => {
+    expect(checkMidLutealProgesterone([progesterone(10, 0.4), progesterone(28, 7)], 16)).toEqual({
+      status: 'no_sample',
+      window: { from: 21, to: 25 },
+      outsideWindow: [10, 28],
+    });
+  });
+
+  it('does not judge units it cannot convert', () => {
+    expect(checkMidLutealProgesterone([progesterone(22, 11, 'pg/mL')], 16))
+      .toEqual({ status: 'unknown_unit', day: 22, unit: 'pg/mL' });
+  });
+
+  it('needs a shift and an unsupplemented cycle', () => {
+    expect(checkMidLutealProgesterone([progesterone(22, 11)], null)).toEqual({ status: 'no_shift' });
+    expect(checkMidLutealProgesterone([progesterone(22, 11)], 16, { supplemented: true }))
+      .toEqual({ status: 'supplemented' });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ENTRY_DETAIL_MAX_LENGTH,
+  parseMedications,
+  parseTreatments,
+  readMedications,
+  takesProgesterone,
+} from '../medications';
+
+describe('parseMedications', () => {
+  it('trims doses and turns blank ones into null', () => {
+    expect(parseMedications([{ type: 'PROGESTERONE', dose: ' 200 mg ' }, { type: 'FSH', dose: '  ' }, { type: 'ESTROGEN' }]))
+      .toEqual({
+        kind: 'ok',
+        entries: [
+          { type: 'PROGESTERONE', dose: '200 mg' },
+          { type: 'FSH', dose: null },
+          { type: 'ESTROGEN', dose: null },
+        ],
+      });
+  });
+
+  it('treats a missing value as no medications', () => {
+    expect(parseMedications(null)).toEqual({ kind: 'ok', entries: [] });
+    expect(parseMedications(undefined)).toEqual({ kind: 'ok', entries: [] });
+  });
+
+  it('rejects unknown types, repeats and overlong doses', () => {
+    expect(parseMedications([{ type: 'ASPIRIN', dose: null }])).toMatchObject({ kind: 'error' });
+    expect(parseMedications([{ type: 'FSH' }, { type: 'FSH' }])).toMatchObject({ kind: 'error' });
+    expect(parseMedications([{ type: 'FSH', dose: 'x'.repeat(ENTRY_DETAIL_MAX_LENGTH + 1) }]))
+      .toMatchObject({ kind: 'error' });
+    expect(parseMedications('PROGESTERONE')).toMatchObject({ kind: 'error' });
+  });
+});
+
+describe('parseTreatments', () => {
+  it('keeps details next to the type', () => {
+    expect(parseTreatments([{ type: 'ULTRASOUND', detail: 'follicle 18 mm' }]))
+      .toEqual({ kind: 'ok', entries: [{ type: 'ULTRASOUND', detail: 'follicle 18 mm' }] });
+  });
+
+  it('does not accept medication types', () => {
+    expect(parseTreatments([{ type: 'PROGESTERONE' }])).toMatchObject({ kind: 'error' });
+  });
+});
+
+describe('takesProgesterone', () => {
+  it('looks for a progesterone entry in stored medications', () => {
+    expect(takesProgesterone([{ type: 'IVF_STIMULATION', dose: null }, { type: 'PROGESTERONE', dose: null }])).toBe(true);
+    expect(takesProgesterone([{ type: 'ESTROGEN', dose: null }])).toBe(false);
+    expect(takesProgesterone(null)).toBe(false);
+  });
+
+  it('reads unreadable stored values as none', () => {
+    expect(readMedications({ type: 'PROGESTERONE' })).toEqual([]);
+    expect(takesProgesterone({ type: 'PROGESTERONE' })).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { isValidPostPillCycles, nextPostPillTag } from '../postPill';
+
+describe('nextPostPillTag', () => {
+  it('starts a wash-out when a count is requested', () => {
+    expect(nextPostPillTag(null, 3)).toEqual({ cycle: 1, of: 3 });
+    expect(nextPostPillTag({ postPillCycle: 2, postPillCycles: 3 }, 6)).toEqual({ cycle: 1, of: 6 });
+  });
+
+  it('carries the tag on to the next cycles until the count runs out', () => {
+    expect(nextPostPillTag({ postPillCycle: 1, postPillCycles: 3 }, null)).toEqual({ cycle: 2, of: 3 });
+    expect(nextPostPillTag({ postPillCycle: 2, postPillCycles: 3 }, null)).toEqual({ cycle: 3, of: 3 });
+    expect(nextPostPillTag({ postPillCycle: 3, postPillCycles: 3 }, null)).toBeNull();
+  });
+
+  it('does not tag after an untagged cycle', () => {
+    expect(nextPostPillTag(null, null)).toBeNull();
+    expect(nextPostPillTag({ postPillCycle: null, postPillCycles: null }, null)).toBeNull();
+  });
+});
+
+describe('isValidPostPillCycles', () => {
+  it('accepts whole counts from 1 to 12', () => {
+    expect([1, 3, 12].every(isValidPostPillCycles)).toBe(true);
+    expect([0, 13, 2.5, '3', null].some(isValidPostPillCycles)).toBe(false);
+  });
+});
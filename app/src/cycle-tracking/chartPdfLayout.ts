@@ -0,0 +1,301 @@
+import type { ChartAnnotationData } from './interpretation/getChartAnnotations';
+import { disturbanceFactorLabel } from './disturbanceFactors';
+import { classifyMucus } from './interpretation/sensiplan/mucusPeak';
+import { truncateText, type PdfPage, type PdfPrimitive } from './pdfWriter';
+import { formatDateLong, toDisplayTemperature, type TemperatureUnit } from './utils';
+
+export type PaperSize = 'A4' | 'LETTER';
+
+/** Landscape page sizes in points. */
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 841.89, height: 595.28 },
+  LETTER: { width: 792, height: 612 },
+};
+
+export type ChartPdfDay = {
+  dayNumber: number;
+  date: Date;
+  bbt: number | null;               // °C
+  excludeFromInterpretation: boolean;
+  cervicalAppearance: string | null;
+  cervicalSensation: string | null;
+  menstrualFlow: string | null;
+  disturbanceFactors: string[];
+  notes: string | null;
+};
+
+export type ChartPdfInput = {
+  title: string;
+  cycleStartDate: Date;
+  unit: TemperatureUnit;
+  days: ChartPdfDay[];
+  /** Reference/confirming days from getChartAnnotations, or null. */
+  annotations: ChartAnnotationData | null;
+  /** Active coverline in °C (getActiveCoverline), or null when none shows. */
+  coverlineTemp: number | null;
+};
+
+// ===== GEOMETRY =====
+
+const MARGIN = 36;
+const HEADER_HEIGHT = 44;
+const LABEL_WIDTH = 44;
+const CHART_HEIGHT = 250;
+const ROW_HEIGHT = 13;
+const NOTE_LINE_HEIGHT = 11;
+const FOOTER_HEIGHT = 18;
+/** Fixed so every page of a cycle has the same column width. */
+export const DAYS_PER_PAGE = 40;
+
+const INK = '#002142';
+const MUTED = '#6b7280';
+const GRID = '#e5e7eb';
+const REFERENCE_HALO = '#dbeafe';
+const ANCHOR_HALO = '#ddd6fe';
+const CONFIRMING_BAND = '#fffbeb';
+const CONFIRMING_NUMBER = '#047857';
+const COVERLINE = '#059669';
+const EXCLUDED = '#9ca3af';
+const FLOW_FILL = '#fee2e2';
+
+const FLOW_CODES: Record<string, string> = {
+  SPOTTING: 'sp',
+  LIGHT: 'L',
+  MEDIUM: 'M',
+  HEAVY: 'H',
+  VERY_HEAVY: 'VH',
+};
+
+const TABLE_ROWS = ['Day', 'Date', 'Mucus', 'Flow', 'Disturb.', 'Notes'] as const;
+
+type Footnote = { marker: number; dayNumber: number; text: string };
+
+/**
+ * Lay out a cycle chart as landscape pages of vector primitives, the printed
+ * counterpart of CycleChartPage: temperature curve, coverline, reference and
+ * confirming-day annotations, then the lower table (mucus, flow,
+ * disturbances, notes). Cycles longer than DAYS_PER_PAGE continue on further
+ * pages; notes that do not fit under the table continue on notes-only pages.
+ *
+ * Pure function — the output is what the PDF snapshot test pins down.
+ */
+export function layoutChartPdf(input: ChartPdfInput, paper: PaperSize): PdfPage[] {
+  const { width, height } = PAPER_SIZES[paper];
+  const lastDay = Math.max(1, ...input.days.map((d) => d.dayNumber));
+  const dayMap = new Map(input.days.map((d) => [d.dayNumber, d]));
+  const yRange = temperatureRange(input);
+
+  const chartLeft = MARGIN + LABEL_WIDTH;
+  const chartWidth = width - MARGIN - chartLeft;
+  const colWidth = chartWidth / DAYS_PER_PAGE;
+  const chartTop = MARGIN + HEADER_HEIGHT;
+  const tableTop = chartTop + CHART_HEIGHT + 6;
+  const notesTop = tableTop + TABLE_ROWS.length * ROW_HEIGHT + 16;
+  const notesBottom = height - MARGIN - FOOTER_HEIGHT;
+
+  const toY = (celsius: number) => {
+    const display = toDisplayTemperature(celsius, input.unit);
+    return chartTop + ((yRange.max - display) / (yRange.max - yRange.min)) * CHART_HEIGHT;
+  };
+
+  const pages: { items: PdfPrimitive[]; subtitle: string }[] = [];
+  let footnoteMarker = 0;
+  const overflow: Footnote[] = [];
+
+  for (let firstDay = 1; firstDay <= lastDay; firstDay += DAYS_PER_PAGE) {
+    const pageLastDay = Math.min(firstDay + DAYS_PER_PAGE - 1, lastDay);
+    const colX = (dayNumber: number) => chartLeft + (dayNumber - firstDay + 0.5) * colWidth;
+    const items: PdfPrimitive[] = [];
+
+    // Confirming-day bands sit behind everything else.
+    for (const dayNumber of input.annotations?.confirmingDays ?? []) {
+      if (dayNumber < firstDay || dayNumber > pageLastDay) continue;
+      items.push({ kind: 'rect', x: colX(dayNumber) - colWidth / 2, y: chartTop, width: colWidth, height: CHART_HEIGHT, fill: CONFIRMING_BAND });
+    }
+
+    // Grid: one vertical line per column, one horizontal line per step.
+    for (let i = 0; i <= DAYS_PER_PAGE; i++) {
+      const x = chartLeft + i * colWidth;
+      items.push({ kind: 'line', x1: x, y1: chartTop, x2: x, y2: tableTop + TABLE_ROWS.length * ROW_HEIGHT, color: GRID, width: 0.5 });
+    }
+    const stepCount = Math.round((yRange.max - yRange.min) / yRange.step);
+    for (let i = 0; i <= stepCount; i++) {
+      const value = yRange.max - i * yRange.step;
+      const y = chartTop + (i / stepCount) * CHART_HEIGHT;
+      items.push({ kind: 'line', x1: chartLeft, y1: y, x2: chartLeft + chartWidth, y2: y, color: GRID, width: 0.5 });
+      if (i % yRange.labelEvery === 0) {
+        items.push({ kind: 'text', x: chartLeft - 4, y: y + 2.5, text: value.toFixed(yRange.decimals), size: 7, color: MUTED, align: 'right' });
+      }
+    }
+
+    // Reference lows and the coverline anchor get halos behind their dots.
+    if (input.annotations) {
+      for (const dayNumber of input.annotations.referenceDays) {
+        const day = dayMap.get(dayNumber);
+        if (!day || day.bbt == null || dayNumber < firstDay || dayNumber > pageLastDay) continue;
+        const fill = dayNumber === input.annotations.anchorDay ? ANCHOR_HALO : REFERENCE_HALO;
+        items.push({ kind: 'circle', cx: colX(dayNumber), cy: toY(day.bbt), r: 6, fill, stroke: null });
+      }
+    }
+
+    if (input.coverlineTemp != null) {
+      const y = toY(input.coverlineTemp);
+      items.push({ kind: 'line', x1: chartLeft, y1: y, x2: chartLeft + chartWidth, y2: y, color: COVERLINE, width: 1.25 });
+      items.push({
+        kind: 'text', x: chartLeft + chartWidth - 2, y: y - 3, size: 7, color: COVERLINE, align: 'right',
+        text: `Coverline ${toDisplayTemperature(input.coverlineTemp, input.unit).toFixed(2)}${unitSuffix(input.unit)}`,
+      });
+    }
+
+    // Curve through included readings; excluded readings are hollow and unconnected.
+    const pageDays = input.days
+      .filter((d) => d.dayNumber >= firstDay && d.dayNumber <= pageLastDay && d.bbt != null)
+      .sort((a, b) => a.dayNumber - b.dayNumber);
+    const included = pageDays.filter((d) => !d.excludeFromInterpretation);
+    items.push({ kind: 'polyline', points: included.map((d) => [colX(d.dayNumber), toY(d.bbt!)]), color: INK, width: 1 });
+    for (const day of pageDays) {
+      items.push(day.excludeFromInterpretation
+        ? { kind: 'circle', cx: colX(day.dayNumber), cy: toY(day.bbt!), r: 2.5, fill: '#ffffff', stroke: EXCLUDED }
+        : { kind: 'circle', cx: colX(day.dayNumber), cy: toY(day.bbt!), r: 2.5, fill: INK, stroke: null });
+    }
+
+    // Numbers 1–3 (or 4) above the confirming higher temperatures.
+    (input.annotations?.confirmingDays ?? []).forEach((dayNumber, index) => {
+      const day = dayMap.get(dayNumber);
+      if (!day || day.bbt == null || dayNumber < firstDay || dayNumber > pageLastDay) return;
+      items.push({ kind: 'text', x: colX(dayNumber), y: toY(day.bbt) - 6, text: String(index + 1), size: 8, color: CONFIRMING_NUMBER, align: 'center', bold: true });
+    });
+
+    // Lower table.
+    const footnotes: Footnote[] = [];
+    TABLE_ROWS.forEach((label, row) => {
+      const top = tableTop + row * ROW_HEIGHT;
+      items.push({ kind: 'line', x1: MARGIN, y1: top, x2: chartLeft + chartWidth, y2: top, color: GRID, width: 0.5 });
+      items.push({ kind: 'text', x: MARGIN, y: top + 9, text: label, size: 7, color: MUTED, bold: true });
+    });
+    const tableBottom = tableTop + TABLE_ROWS.length * ROW_HEIGHT;
+    items.push({ kind: 'line', x1: MARGIN, y1: tableBottom, x2: chartLeft + chartWidth, y2: tableBottom, color: GRID, width: 0.5 });
+
+    for (let dayNumber = firstDay; dayNumber <= pageLastDay; dayNumber++) {
+      const x = colX(dayNumber);
+      const day = dayMap.get(dayNumber);
+      const date = addDays(input.cycleStartDate, dayNumber - 1);
+      const cell = (row: number, text: string, color = INK) =>
+        items.push({ kind: 'text', x, y: tableTop + row * ROW_HEIGHT + 9, text, size: 6.5, color, align: 'center' });
+
+      cell(0, String(dayNumber));
+      cell(1, `${date.getDate()}.${date.getMonth() + 1}`, MUTED);
+      if (!day) continue;
+
+      const mucus = classifyMucus(day.cervicalAppearance, day.cervicalSensation);
+      if (mucus) cell(2, mucus);
+      if (day.menstrualFlow) {
+        items.push({ kind: 'rect', x: x - colWidth / 2 + 0.5, y: tableTop + 3 * ROW_HEIGHT + 0.5, width: colWidth - 1, height: ROW_HEIGHT - 1, fill: FLOW_FILL });
+        cell(3, FLOW_CODES[day.menstrualFlow] ?? '•');
+      }
+      if (day.disturbanceFactors.length > 0) cell(4, '!');
+
+      const footnote = footnoteText(day);
+      if (footnote) {
+        footnoteMarker += 1;
+        cell(5, String(footnoteMarker));
+        footnotes.push({ marker: footnoteMarker, dayNumber, text: footnote });
+      }
+    }
+
+    // Footnotes under the table, spilling onto notes-only pages when needed.
+    let y = notesTop;
+    for (const note of footnotes) {
+      if (y > notesBottom) {
+        overflow.push(note);
+        continue;
+      }
+      items.push(footnoteLine(note, MARGIN, y, width - 2 * MARGIN));
+      y += NOTE_LINE_HEIGHT;
+    }
+
+    pages.push({ items, subtitle: `Days ${firstDay}–${pageLastDay}` });
+  }
+
+  if (overflow.length > 0) {
+    const perPage = Math.floor((notesBottom - (MARGIN + HEADER_HEIGHT)) / NOTE_LINE_HEIGHT) + 1;
+    for (let i = 0; i < overflow.length; i += perPage) {
+      const items = overflow.slice(i, i + perPage).map((note, j) =>
+        footnoteLine(note, MARGIN, MARGIN + HEADER_HEIGHT + j * NOTE_LINE_HEIGHT, width - 2 * MARGIN));
+      pages.push({ items, subtitle: 'Notes (continued)' });
+    }
+  }
+
+  return pages.map((page, index) => ({
+    width,
+    height,
+    items: [
+      { kind: 'text', x: MARGIN, y: MARGIN + 14, text: input.title, size: 16, color: INK, bold: true },
+      {
+        kind: 'text', x: MARGIN, y: MARGIN + 30, size: 9, color: MUTED,
+        text: `Started ${formatDateLong(input.cycleStartDate)} · Temperatures in ${unitSuffix(input.unit)} · ${page.subtitle}`,
+      },
+      ...page.items,
+      { kind: 'text', x: width / 2, y: height - MARGIN, text: `Page ${index + 1} of ${pages.length}`, size: 8, color: MUTED, align: 'center' },
+    ],
+  }));
+}
+
+function unitSuffix(unit: TemperatureUnit): string {
+  return unit === 'FAHRENHEIT' ? '°F' : '°C';
+}
+
+function addDays(start: Date, days: number): Date {
+  const date = new Date(start);
+  date.setDate(date.getDate() + days);
+  return date;
+}
+
+/**
+ * Y-axis range in the display unit, shared by every page: the readings and
+ * coverline padded by one grid step and widened to a minimum span so a flat
+ * curve is not stretched across the whole chart.
+ */
+function temperatureRange(input: ChartPdfInput) {
+  const step = input.unit === 'FAHRENHEIT' ? 0.2 : 0.1;
+  const minSpan = input.unit === 'FAHRENHEIT' ? 2.0 : 1.0;
+  const values = [
+    ...input.days.filter((d) => d.bbt != null).map((d) => d.bbt!),
+    ...(input.coverlineTemp != null ? [input.coverlineTemp] : []),
+  ].map((c) => toDisplayTemperature(c, input.unit));
+
+  const fallback = input.unit === 'FAHRENHEIT' ? 97.7 : 36.5;
+  let min = Math.floor(((values.length ? Math.min(...values) : fallback) - step) / step) * step;
+  let max = Math.ceil(((values.length ? Math.max(...values) : fallback) + step) / step) * step;
+  if (max - min < minSpan) {
+    const pad = (minSpan - (max - min)) / 2;
+    min = Math.floor((min - pad) / step) * step;
+    max = Math.ceil((max + pad) / step) * step;
+  }
+
+  const steps = Math.round((max - min) / step);
+  return {
+    min: Number(min.toFixed(1)),
+    max: Number(max.toFixed(1)),
+    step,
+    decimals: 1,
+    // Label every line when there is room, otherwise every other one.
+    labelEvery: CHART_HEIGHT / steps >= 12 ? 1 : 2,
+  };
+}
+
+function footnoteText(day: ChartPdfDay): string | null {
+  const parts: string[] = [];
+  if (day.notes) parts.push(day.notes.replace(/\s+/g, ' ').trim());
+  if (day.disturbanceFactors.length > 0) {
+    const factors = day.disturbanceFactors.map(disturbanceFactorLabel);
+    parts.push(`disturbances: ${factors.join(', ')}`);
+  }
+  return parts.length > 0 ? parts.join(' — ') : null;
+}
+
+function footnoteLine(note: Footnote, x: number, y: number, maxWidth: number): PdfPrimitive {
+  const prefix = `${note.marker}. Day ${note.dayNumber}: `;
+  const text = truncateText(`${prefix}${note.text}`, 8, maxWidth);
+  return { kind: 'text', x, y, text, size: 8, color: INK };
+}
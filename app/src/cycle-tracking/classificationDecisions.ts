@@ -1,4 +1,4 @@
-import { runInterpretation } from './interpretation/sensiplan';
+import { getEngine, type InterpretationEngine } from './interpretation/engines';
 import type { CycleDayInput } from './interpretation/types';
 
 type InterpretationSummary = { id: string; state: 'SUGGESTED' | 'CONFIRMED' | 'ADJUSTED' | 'DISMISSED' };
@@ -8,12 +8,14 @@ type MarkAnovulatoryInput = {
   existingInterpretation: InterpretationSummary | null;
   days: CycleDayInput[];
   now: Date;
+  engine?: InterpretationEngine;  // the user's rule set; Sensiplan when omitted
 };
 
 type MarkUninterpretableInput = {
   existingInterpretation: InterpretationSummary | null;
   days: CycleDayInput[];
   now: Date;
+  engine?: InterpretationEngine;  // the user's rule set; Sensiplan when omitted
 };
 
 export type MarkDecision =
@@ -42,8 +44,8 @@ const ACTIVE_CYCLE_DETAIL =
 const CONFIRMED_ADJUSTED_DETAIL =
   'Cycle has a confirmed or adjusted interpretation. Reject it first before classifying.';
 
-function engineSaysNoShiftDetected(days: CycleDayInput[]): boolean {
-  const result = runInterpretation(days);
+function engineSaysNoShiftDetected(days: CycleDayInput[], engine = getEngine(null)): boolean {
+  const result = engine.run(days);
   const ts = result.thermalShift;
   return ts.status === 'none' && ts.reason === 'no_shift_detected';
 }
@@ -59,7 +61,7 @@ export function decideMarkAnovulatory(input: MarkAnovulatoryInput): MarkDecision
   if (isConfirmedOrAdjusted(input.existingInterpretation)) {
     return { kind: 'reject', status: 409, detail: CONFIRMED_ADJUSTED_DETAIL };
   }
-  if (!engineSaysNoShiftDetected(input.days)) {
+  if (!engineSaysNoShiftDetected(input.days, input.engine)) {
     return { kind: 'reject', status: 409, detail: ENGINE_GATE_DETAIL };
   }
   return {
@@ -76,7 +78,7 @@ export function decideMarkUninterpretable(input: MarkUninterpretableInput): Mark
   if (isConfirmedOrAdjusted(input.existingInterpretation)) {
     return { kind: 'reject', status: 409, detail: CONFIRMED_ADJUSTED_DETAIL };
   }
-  if (!engineSaysNoShiftDetected(input.days)) {
+  if (!engineSaysNoShiftDetected(input.days, input.engine)) {
     return { kind: 'reject', status: 409, detail: ENGINE_GATE_DETAIL };
   }
   return {
@@ -0,0 +1,47 @@
+import { Link } from 'react-router-dom';
+import type { BulkImportFileSummary } from '../csvBulkImport';
+import { formatDate } from '../utils';
+
+function skippedColumnCount(summary: BulkImportFileSummary): number {
+  const { ignored, rejected } = summary.columnReport;
+  return ignored.length + rejected.length;
+}
+
+export function BulkImportSummaryTable({ files }: { files: BulkImportFileSummary[] }) {
+  return (
+    <div className="mt-3 overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="py-2 pr-3">File</th>
+            <th className="py-2 pr-3">Cycle start</th>
+            <th className="py-2 pr-3">Days</th>
+            <th className="py-2 pr-3">Gap before</th>
+            <th className="py-2 pr-3">Result</th>
+            <th className="py-2 pr-3">Columns skipped</th>
+          </tr>
+        </thead>
+        <tbody>
+          {files.map((file) => (
+            <tr key={file.fileName} className="border-b last:border-b-0">
+              <td className="py-2 pr-3">
+                <Link to={`/cycles/${file.cycleId}/chart`} className="underline">{file.fileName}</Link>
+              </td>
+              <td className="py-2 pr-3">{formatDate(new Date(file.cycleStartDate))}</td>
+              <td className="py-2 pr-3">{file.updatedDays}</td>
+              <td className="py-2 pr-3">
+                {file.gapDaysBefore == null || file.gapDaysBefore === 0 ? (
+                  '—'
+                ) : (
+                  <span className="text-amber-700">{file.gapDaysBefore} day{file.gapDaysBefore === 1 ? '' : 's'}</span>
+                )}
+              </td>
+              <td className="py-2 pr-3">{file.createdCycle ? 'Created' : 'Updated'}</td>
+              <td className="py-2 pr-3">{skippedColumnCount(file) || '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import type { CsvColumnReport } from '../csvColumnMapping';
+
+const REJECT_REASON_LABELS: Record<CsvColumnReport['rejected'][number]['reason'], string> = {
+  unknown_column: 'unknown column',
+  duplicate_field: 'duplicate of an earlier column',
+};
+
+export function CsvColumnReportList({ report }: { report: CsvColumnReport }) {
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      <div>
+        <span className="font-medium">Recognised: </span>
+        {report.recognised.length === 0 ? '—' : report.recognised.map((c, i) => (
+          <span key={c.column}>
+            {i > 0 && ', '}
+            <code>{c.column}</code> → {c.field}
+            {c.invalidValues > 0 && (
+              <span className="text-amber-700"> ({c.invalidValues} unreadable value{c.invalidValues === 1 ? '' : 's'} skipped)</span>
+            )}
+          </span>
+        ))}
+      </div>
+      {report.ignored.length > 0 && (
+        <div className="text-gray-600">
+          <span className="font-medium">Ignored: </span>
+          {report.ignored.map((c, i) => (
+            <span key={c.column}>
+              {i > 0 && ', '}
+              <code>{c.column}</code> ({c.label.toLowerCase()})
+            </span>
+          ))}
+        </div>
+      )}
+      {report.rejected.length > 0 && (
+        <div className="text-red-600">
+          <span className="font-medium">Rejected: </span>
+          {report.rejected.map((c, i) => (
+            <span key={c.column}>
+              {i > 0 && ', '}
+              <code>{c.column}</code> ({REJECT_REASON_LABELS[c.reason]})
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import type { CsvImportPreview, ImportDayChange, ImportDiffField } from '../csvImportPreview';
+import { formatDate, formatTemperature } from '../utils';
+import { CSV_DATE_ORDER_LABELS, CSV_DECIMAL_SEPARATOR_LABELS } from '../csvLocale';
+import { CsvColumnReportList } from './CsvColumnReportList';
+
+const DIFF_COLUMNS: { label: string; fields: ImportDiffField[] }[] = [
+  { label: 'BBT', fields: ['bbt'] },
+  { label: 'Time', fields: ['bbtTime'] },
+  { label: 'Excluded', fields: ['excludeFromInterpretation'] },
+  { label: 'Mucus', fields: ['cervicalAppearance', 'cervicalSensation'] },
+];
+
+const STATUS_LABELS: Record<CsvImportPreview['days'][number]['status'], string> = {
+  new: 'New',
+  changed: 'Overwrite',
+  unchanged: 'Same',
+};
+
+function formatValue(change: ImportDayChange, value: ImportDayChange['before'], unit: CsvImportPreview['detectedUnit']): string {
+  if (value === null) return '—';
+  if (change.field === 'bbt' && typeof value === 'number') return formatTemperature(value, unit);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value).toLowerCase();
+}
+
+export function CsvImportPreviewTable({ preview }: { preview: CsvImportPreview }) {
+  const changedDays = preview.days.filter((d) => d.status !== 'unchanged');
+  const count = (status: string) => preview.days.filter((d) => d.status === status).length;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+        <span className="text-gray-500">Temperature unit:</span>
+        <span className="font-medium">{preview.detectedUnit === 'CELSIUS' ? 'Celsius' : 'Fahrenheit'}</span>
+        <span className="text-gray-500">Dates and decimals:</span>
+        <span className="font-medium">
+          {preview.locale.dateOrder ? CSV_DATE_ORDER_LABELS[preview.locale.dateOrder] : 'YYYY-MM-DD'},{' '}
+          {CSV_DECIMAL_SEPARATOR_LABELS[preview.locale.decimalSeparator]}
+          {preview.locale.detected.dateOrder && preview.locale.detected.decimalSeparator && (
+            <span className="font-normal text-gray-500"> (detected)</span>
+          )}
+        </span>
+        <span className="text-gray-500">Cycle start:</span>
+        <span className="font-medium">{formatDate(new Date(preview.cycleStartDate))}</span>
+        <span className="text-gray-500">Lands on:</span>
+        <span className="font-medium">
+          {preview.target
+            ? `Cycle #${preview.target.cycleNumber} (started ${formatDate(new Date(preview.target.startDate))})`
+            : 'A new cycle'}
+          {preview.target?.repairsStartDate && (
+            <span className="font-normal text-amber-700"> — its start date will be corrected</span>
+          )}
+        </span>
+        <span className="text-gray-500">Days:</span>
+        <span className="font-medium">
+          {count('new')} new, {count('changed')} overwritten, {count('unchanged')} unchanged
+        </span>
+      </div>
+
+      <CsvColumnReportList report={preview.columnReport} />
+
+      {changedDays.length > 0 && (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-3">Day</th>
+                <th className="py-2 pr-3">Date</th>
+                <th className="py-2 pr-3"></th>
+                {DIFF_COLUMNS.map((c) => (
+                  <th key={c.label} className="py-2 pr-3">{c.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {changedDays.map((day) => (
+                <tr key={day.dayNumber} className="border-b last:border-b-0 align-top">
+                  <td className="py-2 pr-3">{day.dayNumber}</td>
+                  <td className="py-2 pr-3">{formatDate(new Date(day.date))}</td>
+                  <td className="py-2 pr-3">
+                    <span className={day.status === 'changed' ? 'text-amber-700' : 'text-gray-500'}>
+                      {STATUS_LABELS[day.status]}
+                    </span>
+                  </td>
+                  {DIFF_COLUMNS.map((column) => (
+                    <td key={column.label} className="py-2 pr-3">
+                      {day.changes
+                        .filter((change) => column.fields.includes(change.field))
+                        .map((change) => (
+                          <div key={change.field}>
+                            {day.status === 'changed' && (
+                              <span className="text-gray-500 line-through mr-1">
+                                {formatValue(change, change.before, preview.detectedUnit)}
+                              </span>
+                            )}
+                            {formatValue(change, change.after, preview.detectedUnit)}
+                          </div>
+                        ))}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import type { CycleForecast } from '../cycleForecast';
+import { formatDate } from '../utils';
+
+function dateRange(from: Date, to: Date): string {
+  return `${formatDate(from)} – ${formatDate(to)}`;
+}
+
+/**
+ * Next-period and fertile-window forecast for the active cycle. Says why
+ * there is none when history is too short, and stays silent otherwise.
+ */
+export function CycleForecastSummary({ forecast }: { forecast: CycleForecast }) {
+  if (forecast.status === 'insufficient_history') {
+    return (
+      <p className="text-sm text-muted-foreground mb-4">
+        Forecasts start after {forecast.needed} completed cycles ({forecast.completedCycles} so far).
+      </p>
+    );
+  }
+  if (forecast.status !== 'forecast') return null;
+
+  const { nextPeriod, fertileWindow } = forecast;
+  return (
+    <div className="mb-4 rounded-md border bg-muted/30 px-4 py-3 text-sm space-y-1">
+      <div>
+        <span className="font-medium">Next period expected:</span> {formatDate(nextPeriod.expectedDate)}{' '}
+        <span className="text-muted-foreground">({dateRange(nextPeriod.earliestDate, nextPeriod.latestDate)})</span>
+        {forecast.overdue && <span className="ml-2 text-amber-700 font-medium">Later than expected</span>}
+      </div>
+      <div>
+        <span className="font-medium">Likely fertile window:</span>{' '}
+        {dateRange(fertileWindow.earliestDate, fertileWindow.latestDate)}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Based on your last {forecast.basedOnCycles} cycles (average {forecast.cycleLength.mean.toFixed(1)} days
+        {forecast.irregular && ', irregular'}
+        {!forecast.lutealFromHistory && `; a ${forecast.lutealLength}-day luteal phase is assumed until you confirm a shift`}).
+        A calendar forecast only — your temperatures and observations decide each cycle&apos;s fertile window.
+      </p>
+    </div>
+  );
+}
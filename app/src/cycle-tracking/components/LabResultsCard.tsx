@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { useQuery, getCycleLabResults, saveLabResult, deleteLabResult } from 'wasp/client/operations';
+import { Button } from '../../components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Input } from '../../components/ui/input';
+import { Label } from '../../components/ui/label';
+import {
+  LAB_DEFAULT_UNITS,
+  LAB_HORMONE_LABELS,
+  LAB_HORMONES,
+  LAB_UNIT_MAX_LENGTH,
+  rangeFlag,
+  validateLabResult,
+  type LabHormone,
+} from '../labResults';
+
+export type LabResultsCardProps = {
+  cycleId: string;
+  /** The saved day the results belong to; null while the day is still new. */
+  cycleDayId: string | null;
+};
+
+const parseAmount = (text: string): number | null => (text.trim() === '' ? null : Number(text));
+
+/**
+ * Blood test results (hormone, value, unit, reference range) for one cycle
+ * day. Results are saved on their own, separately from the day's form.
+ */
+export function LabResultsCard({ cycleId, cycleDayId }: LabResultsCardProps) {
+  const { data: results } = useQuery(getCycleLabResults, { cycleId }, { enabled: !!cycleDayId });
+  const [hormone, setHormone] = useState<LabHormone>('LH');
+  const [value, setValue] = useState('');
+  const [unit, setUnit] = useState(LAB_DEFAULT_UNITS.LH);
+  const [referenceLow, setReferenceLow] = useState('');
+  const [referenceHigh, setReferenceHigh] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dayResults = (results ?? []).filter((r) => r.cycleDayId === cycleDayId);
+
+  const handleHormoneChange = (next: LabHormone) => {
+    setHormone(next);
+    setUnit(LAB_DEFAULT_UNITS[next]);
+  };
+
+  const handleSave = async () => {
+    if (!cycleDayId) return;
+    const input = {
+      hormone,
+      value: parseAmount(value) ?? NaN,
+      unit,
+      referenceLow: parseAmount(referenceLow),
+      referenceHigh: parseAmount(referenceHigh),
+    };
+    const validated = validateLabResult(input);
+    if (validated.kind === 'error') {
+      setError(validated.message);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await saveLabResult({ cycleDayId, ...validated.values });
+      setValue('');
+      setReferenceLow('');
+      setReferenceHigh('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to save lab result');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (labResultId: string) => {
+    try {
+      await deleteLabResult({ labResultId });
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete lab result');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Lab Results</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!cycleDayId ? (
+          <p className="text-sm text-muted-foreground">Save this day first, then add its blood test results here.</p>
+        ) : (
+          <>
+            {dayResults.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {dayResults.map((r) => {
+                  const flag = rangeFlag(r);
+                  const range =
+                    r.referenceLow !== null || r.referenceHigh !== null
+                      ? ` (ref. ${r.referenceLow ?? '–'}–${r.referenceHigh ?? '–'})`
+                      : '';
+                  return (
+                    <li key={r.id} className="flex items-center justify-between border-b py-1 last:border-b-0">
+                      <span>
+                        <span className="font-medium">{LAB_HORMONE_LABELS[r.hormone]}</span>: {r.value} {r.unit}
+                        <span className="text-muted-foreground">{range}</span>
+                        {flag && (
+                          <span className="ml-2 rounded bg-amber-100 px-1 text-xs text-amber-800">{flag}</span>
+                        )}
+                      </span>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleDelete(r.id)}>
+                        Remove
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="lab-hormone">Hormone</Label>
+                <select
+                  id="lab-hormone"
+                  value={hormone}
+                  onChange={(e) => handleHormoneChange(e.target.value as LabHormone)}
+                  className="h-9 w-full rounded-md border border-slate-300 px-2 text-sm"
+                >
+                  {LAB_HORMONES.map((h) => (
+                    <option key={h} value={h}>{LAB_HORMONE_LABELS[h]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="lab-value">Value</Label>
+                <Input id="lab-value" type="number" step="any" min="0" value={value} onChange={(e) => setValue(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="lab-unit">Unit</Label>
+                <Input id="lab-unit" maxLength={LAB_UNIT_MAX_LENGTH} value={unit} onChange={(e) => setUnit(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="lab-ref-low">Ref. low</Label>
+                <Input id="lab-ref-low" type="number" step="any" min="0" value={referenceLow} onChange={(e) => setReferenceLow(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="lab-ref-high">Ref. high</Label>
+                <Input id="lab-ref-high" type="number" step="any" min="0" value={referenceHigh} onChange={(e) => setReferenceHigh(e.target.value)} />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Saving a hormone that is already listed for this day replaces it.
+            </p>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <Button type="button" onClick={handleSave} disabled={saving || value.trim() === ''}>
+              {saving ? 'Saving...' : 'Add Result'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
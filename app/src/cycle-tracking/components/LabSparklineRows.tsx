@@ -0,0 +1,77 @@
+import { LAB_HORMONE_LABELS, rangeFlag, type LabHormone, type LabResultPoint } from '../labResults';
+
+export const LAB_ROW_HEIGHT = 28;
+
+export type LabSparklineRowsProps = {
+  results: LabResultPoint[];
+  hormones: LabHormone[];
+  /** Top of the first row (px, relative to the chart container) */
+  top: number;
+  plotAreaOffset: number;
+  plotAreaWidth: number;
+  minDay: number;
+  maxDay: number;
+};
+
+const LINE_COLOR = '#0f766e';       // teal-700
+const OUT_OF_RANGE_COLOR = '#d97706'; // amber-600
+const ROW_BACKGROUND = '#f0fdfa';   // teal-50
+
+/**
+ * One row per hormone under the Notes row: the hormone's results as a small
+ * line across the day columns. Each row is scaled to its own values, so rows
+ * show the course of a hormone, not amounts to compare between rows. Results
+ * outside their reference range are drawn in amber.
+ */
+export function LabSparklineRows({ results, hormones, top, plotAreaOffset, plotAreaWidth, minDay, maxDay }: LabSparklineRowsProps) {
+  const numDays = maxDay - minDay + 1;
+  const cellWidth = plotAreaWidth / numDays;
+  const dayToX = (dayNumber: number) => plotAreaOffset + (dayNumber - minDay + 0.5) * cellWidth;
+
+  return (
+    <>
+      {hormones.map((hormone, row) => {
+        const points = results
+          .filter((r) => r.hormone === hormone && r.dayNumber >= minDay && r.dayNumber <= maxDay)
+          .sort((a, b) => a.dayNumber - b.dayNumber);
+        const values = points.map((p) => p.value);
+        const low = Math.min(...values);
+        const span = Math.max(...values) - low;
+        // 6 px of headroom above and below the line inside the 28 px row.
+        const valueToY = (value: number) =>
+          span === 0 ? LAB_ROW_HEIGHT / 2 : LAB_ROW_HEIGHT - 6 - ((value - low) / span) * (LAB_ROW_HEIGHT - 12);
+        const rowTop = top + row * LAB_ROW_HEIGHT;
+
+        return (
+          <div key={hormone}>
+            <div className="absolute left-0" style={{ width: `${plotAreaOffset}px`, top: `${rowTop}px`, zIndex: 2 }}>
+              <div style={{ position: 'relative', height: `${LAB_ROW_HEIGHT}px` }}>
+                <div className="absolute flex items-center justify-end px-3 font-montserrat"
+                  style={{ inset: '1.5px', borderRadius: '3px', backgroundColor: ROW_BACKGROUND,
+                    color: '#002142', fontWeight: 600, fontSize: '11px', letterSpacing: '0.02em', textAlign: 'right' }}>
+                  {LAB_HORMONE_LABELS[hormone]}
+                </div>
+              </div>
+            </div>
+            <svg className="absolute"
+              style={{ left: 0, top: `${rowTop}px`, width: '100%', height: `${LAB_ROW_HEIGHT}px`, zIndex: 1, overflow: 'visible' }}>
+              <rect x={plotAreaOffset + 1.5} y={1.5} width={Math.max(0, plotAreaWidth - 3)} height={LAB_ROW_HEIGHT - 3}
+                rx={3} fill={ROW_BACKGROUND} />
+              {points.length > 1 && (
+                <polyline
+                  points={points.map((p) => `${dayToX(p.dayNumber)},${valueToY(p.value)}`).join(' ')}
+                  fill="none" stroke={LINE_COLOR} strokeWidth={1.5} strokeLinejoin="round" />
+              )}
+              {points.map((p) => (
+                <circle key={p.dayNumber} cx={dayToX(p.dayNumber)} cy={valueToY(p.value)} r={3}
+                  fill={rangeFlag(p) ? OUT_OF_RANGE_COLOR : LINE_COLOR}>
+                  <title>{`Day ${p.dayNumber}: ${LAB_HORMONE_LABELS[hormone]} ${p.value} ${p.unit}`}</title>
+                </circle>
+              ))}
+            </svg>
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,21 @@
+import type { PostPillTag } from '../postPill';
+
+/**
+ * Wash-out explanation on a cycle tagged post-pill at creation (see
+ * NewCyclePage).
+ */
+export function PostPillNotice({ tag }: { tag: PostPillTag }) {
+  return (
+    <div className="rounded-md border border-sky-200 bg-sky-50 p-3 mb-4 text-sm text-sky-900 space-y-1">
+      <p className="font-medium">
+        Cycle {tag.cycle} of {tag.of} after stopping hormonal contraception
+      </p>
+      <p>
+        Your body is re-establishing its own rhythm, so this cycle may be long, with a late or unclear
+        temperature rise and unusual mucus. The 5-day and minus-8 rules are off: the cycle is fertile from
+        day 1 until the temperature and mucus confirm the infertile phase. It is also left out of your cycle
+        statistics and forecasts.
+      </p>
+    </div>
+  );
+}
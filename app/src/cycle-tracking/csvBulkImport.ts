@@ -0,0 +1,78 @@
+import type { CsvColumnReport } from './csvColumnMapping';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export type BulkImportCandidate = {
+  fileName: string;
+  cycleStartDate: Date;  // day-1 date back-computed from the file
+  lastDate: Date;        // date of the file's last row
+};
+
+export type BulkImportOverlap = {
+  fileName: string;
+  overlapsWith: string;
+};
+
+export type OrderedBulkImport<T extends BulkImportCandidate> = {
+  /**
+   * Files sorted by cycle start. `gapDaysBefore` is the number of calendar
+   * days with no data between the previous file's last row and this file's
+   * day 1 (0 when the cycles are back to back, null for the first file).
+   */
+  files: (T & { gapDaysBefore: number | null })[];
+  overlaps: BulkImportOverlap[];
+};
+
+/**
+ * Order a batch of CSV imports chronologically and check how the cycles fit
+ * together. A file overlaps when its day 1 falls on or before the last day of
+ * any earlier file — two cycles can never share a date, and two files with
+ * the same start would be written into the same cycle. Pure function.
+ */
+export function orderBulkImport<T extends BulkImportCandidate>(candidates: T[]): OrderedBulkImport<T> {
+  const sorted = [...candidates].sort(
+    (a, b) => a.cycleStartDate.getTime() - b.cycleStartDate.getTime()
+      || a.lastDate.getTime() - b.lastDate.getTime()
+  );
+
+  const files: OrderedBulkImport<T>['files'] = [];
+  const overlaps: BulkImportOverlap[] = [];
+  let latest: T | null = null;
+
+  for (const file of sorted) {
+    if (!latest) {
+      files.push({ ...file, gapDaysBefore: null });
+      latest = file;
+      continue;
+    }
+
+    const daysAfterLatest = calendarDaysBetween(latest.lastDate, file.cycleStartDate);
+    if (daysAfterLatest <= 0) {
+      overlaps.push({ fileName: file.fileName, overlapsWith: latest.fileName });
+    }
+    files.push({ ...file, gapDaysBefore: Math.max(0, daysAfterLatest - 1) });
+
+    if (file.lastDate.getTime() > latest.lastDate.getTime()) latest = file;
+  }
+
+  return { files, overlaps };
+}
+
+/** One row of the table returned by the bulk import action. */
+export type BulkImportFileSummary = {
+  fileName: string;
+  cycleId: string;
+  createdCycle: boolean;
+  updatedDays: number;
+  detectedUnit: 'FAHRENHEIT' | 'CELSIUS';
+  columnReport: CsvColumnReport;
+  cycleStartDate: Date;
+  lastDate: Date;
+  gapDaysBefore: number | null;
+};
+
+// Rounded rather than floored so a DST change between the dates cannot
+// shift the count by a day.
+function calendarDaysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
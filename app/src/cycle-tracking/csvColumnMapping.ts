@@ -0,0 +1,306 @@
+import type { CycleDayPartialArgs } from './cycleDayDataBuilders';
+import { isNoteTooLong, normalizeNote } from './notesValidation';
+import type { MedicationType, TreatmentType } from './medications';
+
+// ===== VALUE NORMALIZERS =====
+
+type Appearance = NonNullable<CycleDayPartialArgs['cervicalAppearance']>;
+type Sensation = NonNullable<CycleDayPartialArgs['cervicalSensation']>;
+type Opk = NonNullable<CycleDayPartialArgs['opkStatus']>;
+type Flow = NonNullable<CycleDayPartialArgs['menstrualFlow']>;
+
+const appearanceValueMap: Record<string, Appearance> = {
+  '0': 'NONE',
+  'none': 'NONE',
+  'dry': 'NONE',
+  '1': 'STICKY',
+  'sticky': 'STICKY',
+  '2': 'CREAMY',
+  'creamy': 'CREAMY',
+  '3': 'WATERY',
+  'watery': 'WATERY',
+  '4': 'EGGWHITE',
+  'eggwhite': 'EGGWHITE',
+  'egg white': 'EGGWHITE',
+  'egg_white': 'EGGWHITE'
+};
+
+const sensationValueMap: Record<string, Sensation> = {
+  '0': 'DRY',
+  'dry': 'DRY',
+  '1': 'DAMP',
+  'damp': 'DAMP',
+  '2': 'WET',
+  'wet': 'WET',
+  '3': 'SLIPPERY',
+  'slippery': 'SLIPPERY'
+};
+
+const opkValueMap: Record<string, Opk> = {
+  'low': 'low',
+  'negative': 'low',
+  'neg': 'low',
+  '-': 'low',
+  'rising': 'rising',
+  'peak': 'peak',
+  'positive': 'peak',
+  'pos': 'peak',
+  '+': 'peak',
+  'declining': 'declining'
+};
+
+const flowValueMap: Record<string, Flow> = {
+  '1': 'SPOTTING',
+  'spotting': 'SPOTTING',
+  '2': 'LIGHT',
+  'light': 'LIGHT',
+  '3': 'MEDIUM',
+  'medium': 'MEDIUM',
+  'med': 'MEDIUM',
+  '4': 'HEAVY',
+  'heavy': 'HEAVY',
+  '5': 'VERY_HEAVY',
+  'very heavy': 'VERY_HEAVY',
+  'very_heavy': 'VERY_HEAVY'
+};
+
+/**
+ * OvaGraph's own menstruation column (`me`) uses a 0–3 scale, with 0 for
+ * spotting around the period rather than for no flow.
+ */
+const ovagraphFlowValueMap: Record<string, Flow> = {
+  '0': 'SPOTTING',
+  '1': 'LIGHT',
+  '2': 'MEDIUM',
+  '3': 'HEAVY'
+};
+
+const medicationValueMap: Record<string, MedicationType> = {
+  'progesterone': 'PROGESTERONE',
+  'estrogen': 'ESTROGEN',
+  'fsh': 'FSH',
+  'ivf_stimulation': 'IVF_STIMULATION',
+  'hcg': 'HCG_TRIGGER',
+  'hcg_trigger': 'HCG_TRIGGER',
+  'clomiphene': 'CLOMIPHENE',
+  'clomid': 'CLOMIPHENE',
+  'letrozole': 'LETROZOLE',
+  'other_supplements': 'OTHER_SUPPLEMENTS',
+  'other': 'OTHER'
+};
+
+const treatmentValueMap: Record<string, TreatmentType> = {
+  'ultrasound': 'ULTRASOUND',
+  'blood_work': 'BLOOD_WORK',
+  'egg_retrieval': 'EGG_RETRIEVAL',
+  'embryo_transfer': 'EMBRYO_TRANSFER',
+  'insemination': 'INSEMINATION',
+  'iui': 'INSEMINATION',
+  'pap_test': 'PAP_TEST',
+  'other_tests': 'OTHER_TESTS'
+};
+
+function lookup<T>(map: Record<string, T>) {
+  return (value: string): T | undefined => map[value.trim().toLowerCase()];
+}
+
+/**
+ * A comma-separated list ("ivf_stimulation,progesterone") as entries with no
+ * dose or detail; the export carries none. One unknown item rejects the cell.
+ */
+function lookupEntries<T extends string, K extends 'dose' | 'detail'>(map: Record<string, T>, detailKey: K) {
+  return (value: string): ({ type: T } & Record<K, null>)[] | undefined => {
+    const types: T[] = [];
+    for (const item of value.split(',')) {
+      const key = item.trim().toLowerCase();
+      if (key === '') continue;
+      const type = map[key];
+      if (type === undefined) return undefined;
+      if (!types.includes(type)) types.push(type);
+    }
+    return types.map((type) => ({ type, [detailKey]: null }) as { type: T } & Record<K, null>);
+  };
+}
+
+function normalizeBoolean(value: string): boolean {
+  return ['1', 'true', 'yes', 'y', 'on'].includes(value.trim().toLowerCase());
+}
+
+function normalizeExclude(value: string): boolean {
+  const key = value.trim().toLowerCase();
+  const num = Number(key);
+  if (!Number.isNaN(num)) {
+    return num < 0;
+  }
+  return ['exclude', 'x', 'skip'].includes(key);
+}
+
+function normalizeCsvNote(value: string): string | undefined {
+  if (isNoteTooLong(value.trim())) return undefined;
+  return normalizeNote(value) ?? undefined;
+}
+
+// ===== COLUMN TABLE =====
+
+/**
+ * CycleDay fields the importer reads itself: the date and day number key the
+ * row, and the temperature needs the unit inferred across the whole file
+ * before it can be converted for storage.
+ */
+export type CsvCoreField = 'date' | 'dayNumber' | 'bbt' | 'bbtTime';
+
+/** CycleDay fields filled straight from a single column through the table. */
+export type CsvMappedFields = Pick<
+  CycleDayPartialArgs,
+  | 'excludeFromInterpretation'
+  | 'hadIntercourse'
+  | 'cervicalAppearance'
+  | 'cervicalSensation'
+  | 'menstrualFlow'
+  | 'opkStatus'
+  | 'notes'
+  | 'medications'
+  | 'treatments'
+>;
+
+type MappedRule<K extends keyof CsvMappedFields> = {
+  status: 'recognised';
+  field: K;
+  normalize: (value: string) => CsvMappedFields[K] | undefined;
+  /**
+   * Another column for the same field that wins when both are in the file;
+   * this one is then read only on rows where that column is empty.
+   */
+  fallbackFor?: string;
+};
+
+export type CsvColumnRule =
+  | { status: 'recognised'; field: CsvCoreField }
+  | { [K in keyof CsvMappedFields]: MappedRule<K> }[keyof CsvMappedFields]
+  | { status: 'ignored'; label: string };
+
+/**
+ * Every column the importer knows about, keyed by CSV header.
+ *
+ * The OvaGraph export (`d,cd,ms,cl,bf,bt,cm,cp,cf,ok,it,hp,ft,op,fu,br,mo,me,
+ * co,vs,cu,rx,te,sp,bx`) is the reference format; the long-form aliases
+ * (`date`, `temp`, …) keep hand-made CSVs working. OvaGraph records periods
+ * in `me`; `ms` is read as well for files that use it. Columns marked
+ * ignored are known OvaGraph columns with no matching CycleDay field yet.
+ * Any header not listed here is rejected.
+ */
+export const CSV_COLUMNS: Record<string, CsvColumnRule> = {
+  d: { status: 'recognised', field: 'date' },
+  date: { status: 'recognised', field: 'date' },
+  cd: { status: 'recognised', field: 'dayNumber' },
+  CD: { status: 'recognised', field: 'dayNumber' },
+  cycleDay: { status: 'recognised', field: 'dayNumber' },
+  bf: { status: 'recognised', field: 'bbt' },
+  BF: { status: 'recognised', field: 'bbt' },
+  temp: { status: 'recognised', field: 'bbt' },
+  bt: { status: 'recognised', field: 'bbtTime' },
+  BT: { status: 'recognised', field: 'bbtTime' },
+  time: { status: 'recognised', field: 'bbtTime' },
+  bbtTime: { status: 'recognised', field: 'bbtTime' },
+
+  ok: { status: 'recognised', field: 'excludeFromInterpretation', normalize: normalizeExclude },
+  it: { status: 'recognised', field: 'hadIntercourse', normalize: normalizeBoolean },
+  cm: { status: 'recognised', field: 'cervicalAppearance', normalize: lookup(appearanceValueMap) },
+  vs: { status: 'recognised', field: 'cervicalSensation', normalize: lookup(sensationValueMap) },
+  me: { status: 'recognised', field: 'menstrualFlow', normalize: lookup(ovagraphFlowValueMap) },
+  ms: { status: 'recognised', field: 'menstrualFlow', normalize: lookup(flowValueMap), fallbackFor: 'me' },
+  op: { status: 'recognised', field: 'opkStatus', normalize: lookup(opkValueMap) },
+  sp: { status: 'recognised', field: 'notes', normalize: normalizeCsvNote },
+  rx: { status: 'recognised', field: 'medications', normalize: lookupEntries(medicationValueMap, 'dose') },
+  te: { status: 'recognised', field: 'treatments', normalize: lookupEntries(treatmentValueMap, 'detail') },
+
+  cl: { status: 'ignored', label: 'Symptom' },
+  cp: { status: 'ignored', label: 'Cervix position' },
+  cf: { status: 'ignored', label: 'Cervix firmness' },
+  hp: { status: 'ignored', label: 'Symptom' },
+  ft: { status: 'ignored', label: 'Symptom' },
+  fu: { status: 'ignored', label: 'Symptom' },
+  br: { status: 'ignored', label: 'Symptom' },
+  mo: { status: 'ignored', label: 'Symptom' },
+  co: { status: 'ignored', label: 'Symptom' },
+  cu: { status: 'ignored', label: 'Symptom' },
+  bx: { status: 'ignored', label: 'Symptom' }
+};
+
+// ===== REPORT =====
+
+export type CsvColumnReport = {
+  recognised: { column: string; field: CsvCoreField | keyof CsvMappedFields; invalidValues: number }[];
+  ignored: { column: string; label: string }[];
+  rejected: { column: string; reason: 'unknown_column' | 'duplicate_field' }[];
+};
+
+export type CsvColumnPlan = {
+  /** Header to read for each core field, when the file has one. */
+  core: Partial<Record<CsvCoreField, string>>;
+  report: CsvColumnReport;
+};
+
+/**
+ * Classify a file's headers against CSV_COLUMNS. When two headers map to the
+ * same field (e.g. `d` and `date`) the first one wins and the later one is
+ * rejected, so a row never gets two competing values for one field. A
+ * fallback column (see MappedRule) is kept alongside the column it backs.
+ */
+export function planCsvColumns(headers: string[]): CsvColumnPlan {
+  const core: CsvColumnPlan['core'] = {};
+  const report: CsvColumnReport = { recognised: [], ignored: [], rejected: [] };
+  const claimed = new Set<string>();
+
+  for (const column of headers) {
+    const rule = Object.prototype.hasOwnProperty.call(CSV_COLUMNS, column)
+      ? CSV_COLUMNS[column]
+      : undefined;
+    if (!rule) {
+      report.rejected.push({ column, reason: 'unknown_column' });
+      continue;
+    }
+    if (rule.status === 'ignored') {
+      report.ignored.push({ column, label: rule.label });
+      continue;
+    }
+    const fallbackFor = 'fallbackFor' in rule ? rule.fallbackFor : undefined;
+    const isFallback = fallbackFor !== undefined && headers.includes(fallbackFor);
+    if (claimed.has(rule.field) && !isFallback) {
+      report.rejected.push({ column, reason: 'duplicate_field' });
+      continue;
+    }
+    if (!isFallback) claimed.add(rule.field);
+    if (!('normalize' in rule)) core[rule.field] = column;
+    report.recognised.push({ column, field: rule.field, invalidValues: 0 });
+  }
+
+  return { core, report };
+}
+
+/**
+ * Map one CSV row to CycleDay fields through the recognised table columns.
+ * Empty cells are skipped; a non-empty cell the column cannot parse is
+ * skipped too and counted against that column in the plan's report.
+ */
+export function mapCsvRow(row: Record<string, string | undefined>, plan: CsvColumnPlan): CsvMappedFields {
+  const fields: Record<string, unknown> = {};
+
+  for (const entry of plan.report.recognised) {
+    const rule = CSV_COLUMNS[entry.column];
+    if (!rule || rule.status !== 'recognised' || !('normalize' in rule)) continue;
+
+    const raw = row[entry.column];
+    if (raw === undefined || raw.trim() === '') continue;
+    if (rule.fallbackFor && row[rule.fallbackFor]?.trim()) continue;
+
+    const value = rule.normalize(raw);
+    if (value === undefined) {
+      entry.invalidValues += 1;
+      continue;
+    }
+    fields[rule.field] = value;
+  }
+
+  return fields as CsvMappedFields;
+}
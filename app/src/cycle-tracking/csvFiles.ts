@@ -0,0 +1,35 @@
+import { strFromU8, unzipSync } from 'fflate';
+
+export type CsvFile = { fileName: string; csvText: string };
+
+function isCsvName(name: string): boolean {
+  return name.toLowerCase().endsWith('.csv');
+}
+
+function isZip(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+}
+
+/**
+ * Read the files picked for import into CSV text. Zips are unpacked in the
+ * browser and contribute every CSV inside them (macOS resource-fork entries
+ * are skipped); anything that is neither a CSV nor a zip is dropped.
+ */
+export async function readCsvFiles(files: File[]): Promise<CsvFile[]> {
+  const result: CsvFile[] = [];
+
+  for (const file of files) {
+    if (isZip(file)) {
+      const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+        filter: (entry) => isCsvName(entry.name) && !entry.name.startsWith('__MACOSX/'),
+      });
+      for (const [path, data] of Object.entries(entries)) {
+        result.push({ fileName: path.split('/').pop() ?? path, csvText: strFromU8(data) });
+      }
+    } else if (isCsvName(file.name)) {
+      result.push({ fileName: file.name, csvText: await file.text() });
+    }
+  }
+
+  return result;
+}
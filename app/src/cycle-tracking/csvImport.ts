@@ -0,0 +1,166 @@
+import { parse } from 'csv-parse/sync';
+import { computeCycleStartDate, convertToCelsiusForStorage, getDayOfWeek } from './utils';
+import { mapCsvRow, planCsvColumns, type CsvColumnPlan } from './csvColumnMapping';
+import {
+  CSV_DATE_ORDER_LABELS,
+  detectCsvDelimiter,
+  detectCsvLocale,
+  isYearLastDate,
+  parseCsvDate,
+  parseCsvDecimal,
+  type CsvLocale,
+  type CsvLocaleOverrides,
+} from './csvLocale';
+
+type TemperatureUnit = 'FAHRENHEIT' | 'CELSIUS';
+
+function inferTemperatureUnit(temps: number[]): TemperatureUnit {
+  if (!temps.length) return 'FAHRENHEIT';
+  const average = temps.reduce((sum, val) => sum + val, 0) / temps.length;
+  return average < 60 ? 'CELSIUS' : 'FAHRENHEIT';
+}
+
+function daysBetween(start: Date, current: Date): number {
+  const diff = current.getTime() - start.getTime();
+  return Math.floor(diff / (1000 * 60 * 60 * 24));
+}
+
+export type CsvImportRow = { raw: Record<string, string>; parsedDate: Date };
+
+/**
+ * A CSV parsed and validated but not yet written: rows sorted by date, the
+ * locale and temperature unit inferred and the cycle's day-1 date
+ * back-computed.
+ */
+export type PreparedCsvImport = {
+  columns: CsvColumnPlan;
+  locale: CsvLocale;
+  rows: CsvImportRow[];
+  detectedUnit: TemperatureUnit;
+  firstDate: Date;
+  lastDate: Date;
+  cycleStartDate: Date;
+};
+
+export type CsvImportParseResult =
+  | { kind: 'ok'; prepared: PreparedCsvImport }
+  | { kind: 'error'; message: string };
+
+/**
+ * Parse a cycle CSV without touching the database. Errors are returned
+ * rather than thrown so the server can attach the file name (bulk import)
+ * before turning them into an HttpError.
+ */
+export function parseCsvImport(csvText: string, overrides: CsvLocaleOverrides = {}): CsvImportParseResult {
+  const rows = parse(csvText, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+    delimiter: detectCsvDelimiter(csvText)
+  }) as Record<string, string>[];
+
+  if (!rows.length) {
+    return { kind: 'error', message: 'CSV is empty or has no data rows.' };
+  }
+
+  const columns = planCsvColumns(Object.keys(rows[0]));
+
+  const detected = detectCsvLocale(
+    rows.map((row) => csvCell(row, columns.core.date) ?? ''),
+    rows.map((row) => csvCell(row, columns.core.bbt) ?? ''),
+    overrides
+  );
+  if (detected.kind === 'error') {
+    return detected;
+  }
+  const { locale } = detected;
+
+  // A chosen date order that a row cannot be read in is a wrong choice, not a row to skip.
+  const misread = rows
+    .map((row) => csvCell(row, columns.core.date) ?? '')
+    .find((cell) => isYearLastDate(cell) && parseCsvDate(cell, locale.dateOrder) === null);
+  if (misread && locale.dateOrder) {
+    return { kind: 'error', message: `${misread.trim()} is not a valid ${CSV_DATE_ORDER_LABELS[locale.dateOrder]} date.` };
+  }
+
+  // Parse and sort rows by date to ensure day numbers align even if the CSV is unordered.
+  const parsedRows = rows
+    .map((row) => {
+      const parsedDate = parseCsvDate(csvCell(row, columns.core.date), locale.dateOrder);
+      return {
+        raw: row,
+        parsedDate
+      };
+    })
+    .filter((row): row is CsvImportRow => row.parsedDate !== null)
+    .sort((a, b) => a.parsedDate.getTime() - b.parsedDate.getTime());
+
+  if (!parsedRows.length) {
+    return { kind: 'error', message: 'No valid dates found in CSV.' };
+  }
+
+  // BBT is in `bf` (e.g., 98.15), time is in `bt` (e.g., 09:41)
+  const parsedTemps = parsedRows
+    .map(({ raw }) => parseCsvDecimal(csvCell(raw, columns.core.bbt), locale.decimalSeparator))
+    .filter((t) => Number.isFinite(t)) as number[];
+
+  const detectedUnit = inferTemperatureUnit(parsedTemps);
+
+  const firstRow = parsedRows[0];
+  const firstDate = firstRow.parsedDate;
+  if (!firstDate) {
+    return { kind: 'error', message: 'First row is missing a valid date.' };
+  }
+
+  // Determine the last date from parsed rows (used for endDate hints)
+  const lastDate = parsedRows[parsedRows.length - 1].parsedDate;
+
+  // Back-compute the cycle's true start date (== day 1's calendar date).
+  // The CSV's first row may not be cycle-day-1 (e.g. a partial-cycle import
+  // starting at cd=16). The rest of the app relies on the invariant
+  // `cycleDay.date === cycle.startDate + (dayNumber - 1) days`, so the
+  // cycle's startDate must be the day-1 date, not the first row's date.
+  const firstDayNumberRaw = csvCell(firstRow.raw, columns.core.dayNumber);
+  const firstDayNumber = firstDayNumberRaw
+    ? Number.parseInt(String(firstDayNumberRaw), 10)
+    : 1;
+  const cycleStartDate = Number.isFinite(firstDayNumber) && firstDayNumber >= 1
+    ? computeCycleStartDate(firstDate, firstDayNumber)
+    : firstDate;
+
+  return { kind: 'ok', prepared: { columns, locale, rows: parsedRows, detectedUnit, firstDate, lastDate, cycleStartDate } };
+}
+
+function csvCell(row: Record<string, string>, column: string | undefined): string | undefined {
+  return column ? row[column] : undefined;
+}
+
+/** CycleDay fields one CSV row writes (cycleId aside). */
+export function buildImportDayData(prepared: PreparedCsvImport, row: CsvImportRow) {
+  const { columns, locale, detectedUnit, cycleStartDate } = prepared;
+  const { raw, parsedDate: entryDate } = row;
+
+  const dayNumberFromCsv = csvCell(raw, columns.core.dayNumber);
+  const computedDayNumber = dayNumberFromCsv
+    ? Number.parseInt(String(dayNumberFromCsv), 10)
+    : daysBetween(cycleStartDate, entryDate) + 1;
+
+  const temperatureRaw = parseCsvDecimal(csvCell(raw, columns.core.bbt), locale.decimalSeparator);
+  const temperature = Number.isFinite(temperatureRaw)
+    ? convertToCelsiusForStorage(temperatureRaw, detectedUnit)
+    : null;
+
+  const bbtTime = (csvCell(raw, columns.core.bbtTime) ?? '').toString().trim() || null;
+  const mapped = mapCsvRow(raw, columns);
+
+  return {
+    dayNumber: computedDayNumber,
+    date: entryDate,
+    dayOfWeek: getDayOfWeek(entryDate),
+    bbt: temperature,
+    bbtTime,
+    ...mapped,
+    hadIntercourse: mapped.hadIntercourse ?? false,
+    excludeFromInterpretation: mapped.excludeFromInterpretation ?? false
+  };
+}
@@ -0,0 +1,110 @@
+import type { CsvColumnReport } from './csvColumnMapping';
+import type { CsvLocale } from './csvLocale';
+
+/**
+ * Fields an import preview compares. Exclusion is always written (an empty
+ * `ok` cell means "not excluded"), bbt and time are always written (an empty
+ * cell clears them), and mucus is only written when the CSV has a value.
+ */
+export type ImportDiffField =
+  | 'bbt'
+  | 'bbtTime'
+  | 'excludeFromInterpretation'
+  | 'cervicalAppearance'
+  | 'cervicalSensation';
+
+export type ImportDayValues = {
+  bbt: number | null;               // °C
+  bbtTime: string | null;
+  excludeFromInterpretation: boolean;
+  cervicalAppearance?: string | null;
+  cervicalSensation?: string | null;
+};
+
+export type ImportDayChange = {
+  field: ImportDiffField;
+  before: number | string | boolean | null;
+  after: number | string | boolean | null;
+};
+
+export type ImportDayDiff = {
+  dayNumber: number;
+  date: Date;
+  status: 'new' | 'changed' | 'unchanged';
+  changes: ImportDayChange[];
+};
+
+/** Stored temperatures are floats; differences below this are rounding. */
+const BBT_EPSILON = 0.0005;
+
+const EMPTY_DAY: ImportDayValues = {
+  bbt: null,
+  bbtTime: null,
+  excludeFromInterpretation: false,
+  cervicalAppearance: null,
+  cervicalSensation: null,
+};
+
+const DIFF_FIELDS: ImportDiffField[] = [
+  'bbt',
+  'bbtTime',
+  'excludeFromInterpretation',
+  'cervicalAppearance',
+  'cervicalSensation',
+];
+
+/**
+ * Compare what an import would write for one day with what is stored.
+ * `existing` is null when the import would create the day; its changes are
+ * then listed against an empty day so the preview shows what gets filled in.
+ * Pure function.
+ */
+export function diffImportDay(
+  existing: ImportDayValues | null,
+  incoming: ImportDayValues,
+): Pick<ImportDayDiff, 'status' | 'changes'> {
+  const before = existing ?? EMPTY_DAY;
+  const changes: ImportDayChange[] = [];
+
+  for (const field of DIFF_FIELDS) {
+    const after = incoming[field];
+    // Mucus columns absent from the CSV leave the stored value alone.
+    if (after === undefined) continue;
+    const previous = before[field] ?? null;
+    if (!sameValue(field, previous, after)) {
+      changes.push({ field, before: previous, after });
+    }
+  }
+
+  if (!existing) return { status: 'new', changes };
+  return { status: changes.length > 0 ? 'changed' : 'unchanged', changes };
+}
+
+function sameValue(
+  field: ImportDiffField,
+  a: number | string | boolean | null,
+  b: number | string | boolean | null,
+): boolean {
+  if (field === 'bbt' && typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) < BBT_EPSILON;
+  }
+  return a === b;
+}
+
+/** What the preview query returns; nothing has been written yet. */
+export type CsvImportPreview = {
+  detectedUnit: 'FAHRENHEIT' | 'CELSIUS';
+  locale: CsvLocale;
+  cycleStartDate: Date;
+  firstDate: Date;
+  lastDate: Date;
+  /** Existing cycle the rows will land on; null when a new cycle is created. */
+  target: {
+    cycleId: string;
+    cycleNumber: number;
+    startDate: Date;
+    repairsStartDate: boolean;  // matched on the legacy first-row start date
+  } | null;
+  days: ImportDayDiff[];
+  columnReport: CsvColumnReport;
+};
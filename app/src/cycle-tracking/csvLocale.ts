@@ -0,0 +1,164 @@
+/**
+ * Locale conventions of an imported CSV: the order of day and month in
+ * dates like 02/09/2025, and the decimal separator of temperatures (36.55 or
+ * 36,55). Both are detected from the file's own values; an override from the
+ * import form wins over detection. Year-first dates (2025-09-02) read the
+ * same in every locale.
+ */
+
+/** Order of day and month in dates that end with the year. */
+export type CsvDateOrder = 'DMY' | 'MDY';
+
+export type CsvDecimalSeparator = 'DOT' | 'COMMA';
+
+export const CSV_DATE_ORDER_LABELS: Record<CsvDateOrder, string> = {
+  DMY: 'DD/MM/YYYY',
+  MDY: 'MM/DD/YYYY',
+};
+
+export const CSV_DECIMAL_SEPARATOR_LABELS: Record<CsvDecimalSeparator, string> = {
+  DOT: '36.55',
+  COMMA: '36,55',
+};
+
+/** Choices from the import form; a missing or null field means "detect". */
+export type CsvLocaleOverrides = {
+  dateOrder?: CsvDateOrder | null;
+  decimalSeparator?: CsvDecimalSeparator | null;
+};
+
+export type CsvLocale = {
+  /** Null when the file only has year-first dates, which need no order. */
+  dateOrder: CsvDateOrder | null;
+  decimalSeparator: CsvDecimalSeparator;
+  /** Which of the two came from the file rather than an override. */
+  detected: { dateOrder: boolean; decimalSeparator: boolean };
+};
+
+export type CsvLocaleResult =
+  | { kind: 'ok'; locale: CsvLocale }
+  | { kind: 'error'; message: string };
+
+const YEAR_FIRST = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+const YEAR_LAST = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/;
+
+const COMMA_DECIMAL = /^-?\d+,\d+$/;
+const DOT_DECIMAL = /^-?\d+\.\d+$/;
+
+/**
+ * Work out a file's locale from its date and temperature cells. A year-last
+ * date with a first part above 12 can only be day-first, one with a second
+ * part above 12 only month-first; a file with neither is ambiguous and is
+ * rejected rather than guessed, as is one with evidence for both.
+ */
+export function detectCsvLocale(
+  dates: string[],
+  temperatures: string[],
+  overrides: CsvLocaleOverrides = {},
+): CsvLocaleResult {
+  let dateOrder: CsvDateOrder | null = overrides.dateOrder ?? null;
+  if (!dateOrder) {
+    const yearLast = dates.map((d) => d.trim().match(YEAR_LAST)).filter((m) => m !== null);
+    const dayFirst = yearLast.find((m) => Number(m[1]) > 12);
+    const monthFirst = yearLast.find((m) => Number(m[2]) > 12);
+    if (dayFirst && monthFirst) {
+      return {
+        kind: 'error',
+        message: `Dates mix day-first (${dayFirst[0]}) and month-first (${monthFirst[0]}) order.`,
+      };
+    }
+    if (dayFirst) dateOrder = 'DMY';
+    else if (monthFirst) dateOrder = 'MDY';
+    else if (yearLast.length > 0) {
+      return {
+        kind: 'error',
+        message:
+          `Dates like ${yearLast[0][0]} could be day-first or month-first. ` +
+          'Choose the date order for this file and import it again.',
+      };
+    }
+  }
+
+  let decimalSeparator: CsvDecimalSeparator | null = overrides.decimalSeparator ?? null;
+  if (!decimalSeparator) {
+    const values = temperatures.map((t) => t.trim());
+    const comma = values.find((v) => COMMA_DECIMAL.test(v));
+    const dot = values.find((v) => DOT_DECIMAL.test(v));
+    if (comma && dot) {
+      return { kind: 'error', message: `Temperatures mix decimal commas (${comma}) and points (${dot}).` };
+    }
+    decimalSeparator = comma ? 'COMMA' : 'DOT';
+  }
+
+  return {
+    kind: 'ok',
+    locale: {
+      dateOrder,
+      decimalSeparator,
+      detected: { dateOrder: !overrides.dateOrder, decimalSeparator: !overrides.decimalSeparator },
+    },
+  };
+}
+
+/**
+ * Parse one date cell. Year-first dates need no order; year-last dates are
+ * read in `order` and are null without one. Anything else falls back to the
+ * platform's date parsing. Impossible dates (31/02) are null.
+ */
+export function parseCsvDate(value: string | undefined, order: CsvDateOrder | null): Date | null {
+  const raw = value?.trim();
+  if (!raw) return null;
+
+  const yearFirst = raw.match(YEAR_FIRST);
+  if (yearFirst) {
+    return calendarDate(Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3]));
+  }
+
+  const yearLast = raw.match(YEAR_LAST);
+  if (yearLast) {
+    if (!order) return null;
+    const [, a, b, year] = yearLast.map(Number);
+    return order === 'DMY' ? calendarDate(year, b, a) : calendarDate(year, a, b);
+  }
+
+  const date = new Date(raw);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse one number cell with the file's decimal separator. A comma in a
+ * point-decimal file makes the cell unreadable (NaN) instead of cutting
+ * 36,55 down to 36.
+ */
+export function parseCsvDecimal(value: string | undefined, separator: CsvDecimalSeparator): number {
+  const raw = value?.trim() ?? '';
+  if (separator === 'COMMA') {
+    if (raw.includes('.')) return Number.NaN;
+    return Number.parseFloat(raw.replace(',', '.'));
+  }
+  if (raw.includes(',')) return Number.NaN;
+  return Number.parseFloat(raw);
+}
+
+/** Whether a date cell ends with the year and so needs a date order. */
+export function isYearLastDate(value: string): boolean {
+  return YEAR_LAST.test(value.trim());
+}
+
+/**
+ * Field delimiter of a CSV, from its header line: semicolon when the header
+ * has more semicolons than commas (common where the comma is the decimal
+ * separator), comma otherwise.
+ */
+export function detectCsvDelimiter(csvText: string): ',' | ';' {
+  const header = csvText.slice(0, csvText.search(/\r?\n|$/));
+  const count = (ch: string) => header.split(ch).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
+
+function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  // Reject rollovers such as 31/02 becoming 3 March.
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
@@ -4,10 +4,17 @@ import type {
   MarkCycleUninterpretable,
   UnmarkCycleClassification,
   ReEvaluateCycleInterpretation,
+  SetPregnancyMode,
+  DismissPregnancyIndication,
+  SetSpecialSituation,
 } from 'wasp/server/operations';
 import type { Cycle } from 'wasp/entities';
-import type { CycleDayInput } from './interpretation/types';
+import type { InterpretationTypeName } from './interpretation/types';
 import { decideMarkAnovulatory, decideMarkUninterpretable } from './classificationDecisions';
+import { buildEngineInput } from './interpretation/engineInput';
+import { isOutdated } from './interpretation/reinterpretation';
+import { reinterpretRow } from './interpretation/reinterpretationJob';
+import { isSpecialSituation, type SpecialSituation } from './interpretation/specialSituations';
 
 type MarkInput = { cycleId: string };
 
@@ -21,15 +28,9 @@ async function getOwnedCycle(cycleId: string, userId: string, entities: any) {
   return cycle;
 }
 
-function daysToInput(rawDays: any[]): CycleDayInput[] {
-  return rawDays.map((d) => ({
-    dayNumber: d.dayNumber,
-    bbt: d.bbt,
-    bbtTime: d.bbtTime,
-    excludeFromInterpretation: d.excludeFromInterpretation,
-    disturbanceFactors: d.disturbanceFactors ?? [],
-    travelTimeDiff: d.travelTimeDiff,
-  }));
+async function engineInput(cycle: any, userId: string, entities: any) {
+  const settings = await entities.UserSettings.findUnique({ where: { userId } });
+  return buildEngineInput(cycle.days, settings, cycle.specialSituation);
 }
 
 export const markCycleAnovulatory: MarkCycleAnovulatory<MarkInput, Cycle> =
@@ -45,7 +46,7 @@ export const markCycleAnovulatory: MarkCycleAnovulatory<MarkInput, Cycle> =
       existingInterpretation: existingInterpretation
         ? { id: existingInterpretation.id, state: existingInterpretation.state }
         : null,
-      days: daysToInput(cycle.days),
+      ...(await engineInput(cycle, context.user.id, context.entities)),
       now: new Date(),
     });
 
@@ -77,7 +78,7 @@ export const markCycleUninterpretable: MarkCycleUninterpretable<MarkInput, Cycle
       existingInterpretation: existingInterpretation
         ? { id: existingInterpretation.id, state: existingInterpretation.state }
         : null,
-      days: daysToInput(cycle.days),
+      ...(await engineInput(cycle, context.user.id, context.entities)),
       now: new Date(),
     });
 
@@ -111,7 +112,7 @@ export const unmarkCycleClassification: UnmarkCycleClassification<MarkInput, Cyc
     });
   };
 
-type ReEvalInput = { cycleId: string; type: 'THERMAL_SHIFT' };
+type ReEvalInput = { cycleId: string; type: InterpretationTypeName };
 
 export const reEvaluateCycleInterpretation: ReEvaluateCycleInterpretation<ReEvalInput, void> =
   async (args, context) => {
@@ -129,3 +130,77 @@ export const reEvaluateCycleInterpretation: ReEvaluateCycleInterpretation<ReEval
       await context.entities.CycleInterpretation.delete({ where: { id: existing.id } });
     }
   };
+
+type PregnancyModeInput = { cycleId: string; enabled: boolean };
+
+/**
+ * Move the active cycle into pregnancy mode, or back out of it. The engine
+ * only indicates a possible pregnancy (see monitorPostShift); the switch is
+ * always the user's. Pregnancy mode suppresses new-cycle prompts and keeps
+ * the chart open past the usual cycle length.
+ */
+export const setPregnancyMode: SetPregnancyMode<PregnancyModeInput, Cycle> =
+  async (args, context) => {
+    if (!context.user) throw new HttpError(401, 'Not authorized');
+    const cycle = await getOwnedCycle(args.cycleId, context.user.id, context.entities);
+
+    if (args.enabled) {
+      if (!cycle.isActive) {
+        throw new HttpError(409, 'Only the active cycle can be moved into pregnancy mode.');
+      }
+      if (cycle.markedAnovulatoryAt || cycle.markedUninterpretableAt) {
+        throw new HttpError(409, 'Remove the cycle classification before switching to pregnancy mode.');
+      }
+    }
+
+    return context.entities.Cycle.update({
+      where: { id: args.cycleId },
+      data: { pregnancyModeAt: args.enabled ? cycle.pregnancyModeAt ?? new Date() : null },
+    });
+  };
+
+/** Hide the possible-pregnancy card for this cycle. */
+export const dismissPregnancyIndication: DismissPregnancyIndication<MarkInput, Cycle> =
+  async (args, context) => {
+    if (!context.user) throw new HttpError(401, 'Not authorized');
+    await getOwnedCycle(args.cycleId, context.user.id, context.entities);
+
+    return context.entities.Cycle.update({
+      where: { id: args.cycleId },
+      data: { pregnancyIndicationDismissedAt: new Date() },
+    });
+  };
+
+type SpecialSituationInput = { cycleId: string; situation: SpecialSituation | null };
+
+/**
+ * Put a cycle under a special situation's rules (after childbirth, while
+ * breastfeeding, in perimenopause), or back under the user's selected rule
+ * set with `null`. The cycle's stored results are re-read with the new rules
+ * straight away: a confirmed or adjusted result that reads differently goes
+ * to review like any other rule change.
+ */
+export const setSpecialSituation: SetSpecialSituation<SpecialSituationInput, Cycle> =
+  async (args, context) => {
+    if (!context.user) throw new HttpError(401, 'Not authorized');
+    if (args.situation !== null && !isSpecialSituation(args.situation)) {
+      throw new HttpError(400, `Unknown special situation: ${args.situation}`);
+    }
+    const cycle = await getOwnedCycle(args.cycleId, context.user.id, context.entities);
+
+    const updated = await context.entities.Cycle.update({
+      where: { id: args.cycleId },
+      data: { specialSituation: args.situation },
+    });
+
+    if (!cycle.markedAnovulatoryAt && !cycle.markedUninterpretableAt) {
+      const { days, engine } = await engineInput(
+        { ...cycle, specialSituation: args.situation }, context.user.id, context.entities,
+      );
+      const rows = await context.entities.CycleInterpretation.findMany({ where: { cycleId: args.cycleId } });
+      for (const row of rows) {
+        if (isOutdated(row, engine)) await reinterpretRow(row, days, engine, context.entities);
+      }
+    }
+    return updated;
+  };
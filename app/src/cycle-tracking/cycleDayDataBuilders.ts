@@ -1,5 +1,6 @@
 import { Prisma } from '@prisma/client';
 import { normalizeNote } from './notesValidation';
+import type { MedicationEntry, TreatmentEntry } from './medications';
 
 export type CycleDayPartialArgs = {
   bbt?: number | null;
@@ -13,6 +14,8 @@ export type CycleDayPartialArgs = {
   disturbanceFactors?: string[];
   travelTimeDiff?: number | null;
   notes?: string | null;
+  medications?: MedicationEntry[];
+  treatments?: TreatmentEntry[];
 };
 
 /**
@@ -41,6 +44,8 @@ export function buildCycleDayUpdateData(
   if ('disturbanceFactors' in args)        data.disturbanceFactors = args.disturbanceFactors;
   if ('travelTimeDiff' in args)            data.travelTimeDiff = args.travelTimeDiff;
   if ('notes' in args)                     data.notes = normalizeNote(args.notes);
+  if ('medications' in args)               data.medications = args.medications;
+  if ('treatments' in args)                data.treatments = args.treatments;
   return data;
 }
 
@@ -75,5 +80,7 @@ export function buildCycleDayCreateData(
   if ('menstrualFlow' in args)             data.menstrualFlow = args.menstrualFlow;
   if ('travelTimeDiff' in args)            data.travelTimeDiff = args.travelTimeDiff;
   if ('notes' in args)                     data.notes = normalizeNote(args.notes);
+  if ('medications' in args)               data.medications = args.medications;
+  if ('treatments' in args)                data.treatments = args.treatments;
   return data;
 }
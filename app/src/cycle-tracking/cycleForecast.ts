@@ -0,0 +1,203 @@
+import { getStandingShiftDay } from './interpretation/historicalShiftDays';
+
+/** Completed cycles needed before anything is forecast. */
+export const MIN_FORECAST_CYCLES = 3;
+
+/** Only the most recent cycles count; older ones say less about today. */
+export const FORECAST_HISTORY_CYCLES = 12;
+
+/** Luteal length assumed when no completed cycle has a standing shift. */
+export const DEFAULT_LUTEAL_DAYS = 14;
+
+/** Cycles whose lengths spread wider than this are called irregular. */
+export const IRREGULAR_SPREAD_DAYS = 7;
+
+// Shorter or longer "cycles" are almost always incomplete records.
+const MIN_PLAUSIBLE_LENGTH = 15;
+const MAX_PLAUSIBLE_LENGTH = 90;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type ForecastCycleInput = {
+  startDate: Date | string;
+  endDate: Date | string | null;
+  isActive: boolean;
+  pregnancyModeAt?: Date | string | null;
+  specialSituation?: string | null;
+  postPillCycle?: number | null;
+  interpretations?: {
+    type: string;
+    state: string;
+    engineResult: unknown;
+    userOverrides: unknown;
+  }[];
+};
+
+/**
+ * A projected span of the active cycle, in its own day numbers (day 1 is the
+ * cycle's start date) and as calendar dates.
+ */
+export type ForecastRange = {
+  expectedDay: number;
+  earliestDay: number;
+  latestDay: number;
+  expectedDate: Date;
+  earliestDate: Date;
+  latestDate: Date;
+};
+
+export type CycleForecast =
+  | { status: 'no_active_cycle' }
+  | { status: 'pregnancy_mode' }
+  | { status: 'special_situation' }
+  | { status: 'insufficient_history'; completedCycles: number; needed: number }
+  | {
+      status: 'forecast';
+      basedOnCycles: number;
+      cycleLength: { mean: number; stdDev: number; min: number; max: number };
+      irregular: boolean;
+      /** The day the next cycle is expected to start (this cycle's length + 1). */
+      nextPeriod: ForecastRange;
+      /** Projected ovulation − 5 through projected ovulation + 1. */
+      fertileWindow: { earliestDay: number; latestDay: number; earliestDate: Date; latestDate: Date };
+      lutealLength: number;
+      lutealFromHistory: boolean;
+      currentDay: number;
+      overdue: boolean;
+    };
+
+/**
+ * Forecast the active cycle's next period and likely fertile window from
+ * the user's completed cycles, as returned by getUserCycles. Pure function;
+ * `now` fixes "today".
+ *
+ * - Cycle length is startDate to endDate inclusive, over the most recent
+ *   FORECAST_HISTORY_CYCLES completed cycles of plausible length.
+ * - The period range is the mean length ± one standard deviation (at least
+ *   ±1 day), so irregular histories give visibly wider ranges.
+ * - Luteal length is the mean over completed cycles with a standing shift
+ *   (see getStandingShiftDay), counting the shift day as in computeCycleStats;
+ *   DEFAULT_LUTEAL_DAYS when there is none. Ovulation is projected the day
+ *   before the shift, and the window spans the sperm-survival days before it.
+ * - Cycles in a special situation (after childbirth, breastfeeding,
+ *   perimenopause) neither get a forecast nor count towards one; nor do
+ *   post-pill wash-out cycles count.
+ *
+ * A forecast is a calendar estimate for planning only — it never replaces
+ * the symptothermal reading of the current cycle.
+ */
+export function forecastCycle(cycles: ForecastCycleInput[], now: Date): CycleForecast {
+  const active = cycles.find((c) => c.isActive);
+  if (!active) return { status: 'no_active_cycle' };
+  if (active.pregnancyModeAt) return { status: 'pregnancy_mode' };
+  if (active.specialSituation) return { status: 'special_situation' };
+
+  const completed = cycles
+    .filter((c) => !c.isActive && c.endDate && !c.specialSituation && c.postPillCycle == null)
+    .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
+    .map((c) => ({ cycle: c, length: daysBetween(c.startDate, c.endDate!) + 1 }))
+    .filter(({ length }) => length >= MIN_PLAUSIBLE_LENGTH && length <= MAX_PLAUSIBLE_LENGTH)
+    .slice(-FORECAST_HISTORY_CYCLES);
+
+  if (completed.length < MIN_FORECAST_CYCLES) {
+    return { status: 'insufficient_history', completedCycles: completed.length, needed: MIN_FORECAST_CYCLES };
+  }
+
+  const lengths = completed.map((c) => c.length);
+  const mean = average(lengths);
+  const stdDev = Math.sqrt(average(lengths.map((l) => (l - mean) ** 2)));
+  const margin = Math.max(1, Math.round(stdDev));
+  const expectedLength = Math.round(mean);
+  const min = Math.min(...lengths);
+  const max = Math.max(...lengths);
+
+  const lutealLengths = completed
+    .map(({ cycle, length }) => {
+      const shiftDay = getStandingShiftDay(cycle.interpretations?.find((i) => i.type === 'THERMAL_SHIFT'));
+      return shiftDay != null && shiftDay <= length ? length - shiftDay + 1 : null;
+    })
+    .filter((n): n is number => n != null);
+  const lutealLength = lutealLengths.length > 0 ? Math.round(average(lutealLengths)) : DEFAULT_LUTEAL_DAYS;
+
+  const start = new Date(active.startDate);
+  const dateOf = (dayNumber: number) => addDays(start, dayNumber - 1);
+
+  const nextPeriod = {
+    expectedDay: expectedLength + 1,
+    earliestDay: expectedLength - margin + 1,
+    latestDay: expectedLength + margin + 1,
+  };
+  // Ovulation ≈ the day before the first higher temperature.
+  const ovulation = (periodDay: number) => periodDay - lutealLength - 1;
+  const fertileStart = Math.max(1, ovulation(nextPeriod.earliestDay) - 5);
+  const fertileEnd = Math.max(fertileStart, ovulation(nextPeriod.latestDay) + 1);
+
+  const currentDay = daysBetween(start, now) + 1;
+
+  return {
+    status: 'forecast',
+    basedOnCycles: completed.length,
+    cycleLength: { mean, stdDev, min, max },
+    irregular: max - min > IRREGULAR_SPREAD_DAYS,
+    nextPeriod: {
+      ...nextPeriod,
+      expectedDate: dateOf(nextPeriod.expectedDay),
+      earliestDate: dateOf(nextPeriod.earliestDay),
+      latestDate: dateOf(nextPeriod.latestDay),
+    },
+    fertileWindow: {
+      earliestDay: fertileStart,
+      latestDay: fertileEnd,
+      earliestDate: dateOf(fertileStart),
+      latestDate: dateOf(fertileEnd),
+    },
+    lutealLength,
+    lutealFromHistory: lutealLengths.length > 0,
+    currentDay,
+    overdue: currentDay > nextPeriod.latestDay,
+  };
+}
+
+export type GhostColumn = { dayNumber: number; kind: 'fertile' | 'period' };
+
+/**
+ * Chart columns to draw as forecast "ghosts": days after the last recorded
+ * entry that fall in the projected fertile window or the expected period
+ * range. Fertile ghosts are dropped once the cycle has a shift of its own —
+ * from then on the recorded data decides.
+ */
+export function forecastGhostColumns(
+  forecast: CycleForecast,
+  lastRecordedDay: number,
+  hasShift: boolean,
+): GhostColumn[] {
+  if (forecast.status !== 'forecast') return [];
+  const columns: GhostColumn[] = [];
+  if (!hasShift) {
+    for (let d = Math.max(lastRecordedDay + 1, forecast.fertileWindow.earliestDay); d <= forecast.fertileWindow.latestDay; d++) {
+      columns.push({ dayNumber: d, kind: 'fertile' });
+    }
+  }
+  for (let d = Math.max(lastRecordedDay + 1, forecast.nextPeriod.earliestDay); d <= forecast.nextPeriod.latestDay; d++) {
+    columns.push({ dayNumber: d, kind: 'period' });
+  }
+  return columns;
+}
+
+function daysBetween(from: Date | string, to: Date | string): number {
+  const a = new Date(from);
+  const b = new Date(to);
+  const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+  const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+  return Math.round((utcB - utcA) / MS_PER_DAY);
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
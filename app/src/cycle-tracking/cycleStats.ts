@@ -0,0 +1,183 @@
+import type { CycleDayInput, UserOverrides } from './interpretation/types';
+import { getStandingShiftDay } from './interpretation/historicalShiftDays';
+import { getActiveCoverline } from './interpretation/getActiveCoverline';
+
+/**
+ * Sensiplan treats a high phase shorter than 10 days (counting the first
+ * higher temperature) as a short luteal phase worth flagging.
+ */
+export const SHORT_LUTEAL_MAX_DAYS = 9;
+
+export type CycleStatsInput = {
+  id: string;
+  cycleNumber: number;
+  startDate: Date;
+  isActive: boolean;
+  markedAnovulatoryAt: Date | null;
+  markedUninterpretableAt: Date | null;
+  /** Wash-out cycle after stopping hormonal contraception. */
+  postPill?: boolean;
+  days: CycleDayInput[];
+  thermalShift: {
+    type: string;
+    state: string;
+    engineResult: unknown;
+    userOverrides: unknown;
+  } | null;
+};
+
+export type CycleStatsRow = {
+  cycleId: string;
+  cycleNumber: number;
+  startDate: Date;
+  length: number | null;           // null for the active cycle
+  shiftDay: number | null;
+  lutealLength: number | null;
+  coverlineTemp: number | null;    // °C
+  isShortLuteal: boolean;
+  classification: 'anovulatory' | 'uninterpretable' | null;
+  postPill: boolean;
+};
+
+export type NumericSummary = {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+};
+
+export type CycleStats = {
+  /** Cycles the figures below are based on. */
+  totalCycles: number;
+  completedCycles: number;
+  anovulatoryCount: number;
+  uninterpretableCount: number;
+  anovulatoryShare: number;        // 0–1 over all cycles
+  uninterpretableShare: number;    // 0–1 over all cycles
+  cycleLength: NumericSummary | null;
+  lengthDistribution: { length: number; count: number }[];
+  lutealLength: NumericSummary | null;
+  shiftDay: NumericSummary | null;
+  averageCoverlineTemp: number | null;  // °C
+  shortLutealCycleIds: string[];
+  /** Post-pill cycles recorded, whether or not they are counted. */
+  postPillCount: number;
+  includesPostPill: boolean;
+  /** Every cycle, counted or not. */
+  rows: CycleStatsRow[];
+};
+
+/**
+ * Aggregate statistics across a user's cycles. Pure function.
+ *
+ * - Cycle length is the last recorded day number of an ended cycle (same
+ *   rule as getCycleDayCount); the active cycle has no length yet.
+ * - Shift day and coverline only count for shifts the user confirmed or
+ *   adjusted (see getStandingShiftDay) on unmarked cycles.
+ * - Luteal length is cycle end minus shift day, counting the shift day
+ *   itself, so a 28-day cycle with a day-15 shift has a 14-day luteal phase.
+ * - Post-pill wash-out cycles are left out of every figure unless
+ *   `includePostPill` is set; they stay in `rows`.
+ */
+export function computeCycleStats(
+  cycles: CycleStatsInput[],
+  { includePostPill = false }: { includePostPill?: boolean } = {},
+): CycleStats {
+  const allRows: CycleStatsRow[] = [...cycles]
+    .sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+    .map(toRow);
+  const rows = includePostPill ? allRows : allRows.filter((r) => !r.postPill);
+
+  const lengths = rows.map((r) => r.length).filter((n): n is number => n != null);
+  const lutealLengths = rows.map((r) => r.lutealLength).filter((n): n is number => n != null);
+  const shiftDays = rows.map((r) => r.shiftDay).filter((n): n is number => n != null);
+  const coverlines = rows.map((r) => r.coverlineTemp).filter((n): n is number => n != null);
+
+  const distribution = new Map<number, number>();
+  for (const length of lengths) distribution.set(length, (distribution.get(length) ?? 0) + 1);
+
+  const anovulatoryCount = rows.filter((r) => r.classification === 'anovulatory').length;
+  const uninterpretableCount = rows.filter((r) => r.classification === 'uninterpretable').length;
+
+  return {
+    totalCycles: rows.length,
+    completedCycles: lengths.length,
+    anovulatoryCount,
+    uninterpretableCount,
+    anovulatoryShare: rows.length > 0 ? anovulatoryCount / rows.length : 0,
+    uninterpretableShare: rows.length > 0 ? uninterpretableCount / rows.length : 0,
+    cycleLength: summarize(lengths),
+    lengthDistribution: [...distribution.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([length, count]) => ({ length, count })),
+    lutealLength: summarize(lutealLengths),
+    shiftDay: summarize(shiftDays),
+    averageCoverlineTemp: coverlines.length > 0
+      ? coverlines.reduce((sum, t) => sum + t, 0) / coverlines.length
+      : null,
+    shortLutealCycleIds: rows.filter((r) => r.isShortLuteal).map((r) => r.cycleId),
+    postPillCount: allRows.filter((r) => r.postPill).length,
+    includesPostPill: includePostPill,
+    rows: allRows,
+  };
+}
+
+function toRow(cycle: CycleStatsInput): CycleStatsRow {
+  const classification = cycle.markedAnovulatoryAt
+    ? 'anovulatory'
+    : cycle.markedUninterpretableAt
+      ? 'uninterpretable'
+      : null;
+
+  const length = !cycle.isActive && cycle.days.length > 0
+    ? Math.max(...cycle.days.map((d) => d.dayNumber))
+    : null;
+
+  const shiftDay = classification ? null : getStandingShiftDay(cycle.thermalShift);
+  const coverlineTemp = shiftDay != null && cycle.thermalShift
+    ? getActiveCoverline(
+        cycle.days,
+        {
+          state: cycle.thermalShift.state,
+          userOverrides: cycle.thermalShift.userOverrides as UserOverrides | null,
+        },
+        cycle.thermalShift.engineResult as any,
+      )
+    : null;
+
+  const lutealLength = length != null && shiftDay != null && shiftDay <= length
+    ? length - shiftDay + 1
+    : null;
+
+  return {
+    cycleId: cycle.id,
+    cycleNumber: cycle.cycleNumber,
+    startDate: cycle.startDate,
+    length,
+    shiftDay,
+    lutealLength,
+    coverlineTemp,
+    isShortLuteal: lutealLength != null && lutealLength <= SHORT_LUTEAL_MAX_DAYS,
+    classification,
+    postPill: cycle.postPill ?? false,
+  };
+}
+
+function summarize(values: number[]): NumericSummary | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / sorted.length;
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean,
+    median,
+    stdDev: Math.sqrt(variance),
+  };
+}
@@ -0,0 +1,43 @@
+import { HttpError } from 'wasp/server';
+import type { GetCycleStats } from 'wasp/server/operations';
+import { computeCycleStats, type CycleStats } from './cycleStats';
+
+/**
+ * Aggregated cross-cycle statistics for the current user. Reads every cycle
+ * with its days and THERMAL_SHIFT interpretation; all maths lives in the
+ * pure computeCycleStats. Post-pill cycles count only with `includePostPill`.
+ */
+export const getCycleStats: GetCycleStats<{ includePostPill?: boolean } | void, CycleStats> = async (args, context) => {
+  if (!context.user) throw new HttpError(401, 'Not authorized');
+
+  const cycles = await context.entities.Cycle.findMany({
+    where: { userId: context.user.id },
+    orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }],
+    include: {
+      days: { orderBy: { dayNumber: 'asc' } },
+      interpretations: { where: { type: 'THERMAL_SHIFT' } },
+    },
+  });
+
+  return computeCycleStats(
+    cycles.map((c: any) => ({
+      id: c.id,
+      cycleNumber: c.cycleNumber,
+      startDate: c.startDate,
+      isActive: c.isActive,
+      markedAnovulatoryAt: c.markedAnovulatoryAt,
+      markedUninterpretableAt: c.markedUninterpretableAt,
+      postPill: c.postPillCycle != null,
+      days: c.days.map((d: any) => ({
+        dayNumber: d.dayNumber,
+        bbt: d.bbt,
+        bbtTime: d.bbtTime,
+        excludeFromInterpretation: d.excludeFromInterpretation,
+        disturbanceFactors: d.disturbanceFactors ?? [],
+        travelTimeDiff: d.travelTimeDiff,
+      })),
+      thermalShift: c.interpretations[0] ?? null,
+    })),
+    { includePostPill: !!args?.includePostPill },
+  );
+};
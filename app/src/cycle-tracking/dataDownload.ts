@@ -0,0 +1,56 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { ExportArchive } from './dataExport';
+import { formatLocalIsoDate } from './utils';
+
+/** Where the JSON archive sits inside the export zip. */
+const ARCHIVE_ENTRY_NAME = 'cycle-path-data.json';
+
+/**
+ * Bundle an export into a zip: the JSON archive at the root and one CSV per
+ * cycle under `csv/` (each can be re-imported on the Cycles page).
+ */
+export function buildExportZip(
+  archive: ExportArchive,
+  csvFiles: { fileName: string; csvText: string }[],
+): Uint8Array {
+  const entries: Record<string, Uint8Array> = {
+    [ARCHIVE_ENTRY_NAME]: strToU8(JSON.stringify(archive, null, 2)),
+  };
+  for (const file of csvFiles) {
+    entries[`csv/${file.fileName}`] = strToU8(file.csvText);
+  }
+  return zipSync(entries);
+}
+
+export function exportZipFileName(now: Date = new Date()): string {
+  return `cycle-path-data-${formatLocalIsoDate(now)}.zip`;
+}
+
+/**
+ * Read a backup picked for restore: either the export zip as downloaded or
+ * the JSON archive taken out of it. Returns the parsed JSON unchecked —
+ * restoreUserData validates it.
+ */
+export async function readExportArchiveFile(file: File): Promise<unknown> {
+  if (file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip') {
+    const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+      filter: (entry) => entry.name === ARCHIVE_ENTRY_NAME,
+    });
+    const data = entries[ARCHIVE_ENTRY_NAME];
+    if (!data) throw new Error(`The zip does not contain ${ARCHIVE_ENTRY_NAME}.`);
+    return JSON.parse(strFromU8(data));
+  }
+  return JSON.parse(await file.text());
+}
+
+/** Hand a generated file to the browser as a download. */
+export function downloadFile(data: Uint8Array, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
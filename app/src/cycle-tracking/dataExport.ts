@@ -0,0 +1,286 @@
+import { celsiusToFahrenheit, formatLocalIsoDate, type TemperatureUnit } from './utils';
+import { readMedications, readTreatments } from './medications';
+
+export const EXPORT_ARCHIVE_FORMAT = 'cycle-path-export';
+
+/**
+ * Bump whenever the archive shape changes so restore can tell old archives
+ * apart. Fields are listed explicitly below for the same reason — a new
+ * schema column does not leak into the archive without a version decision.
+ *
+ * v2 adds:
+ *   - settings: measurement-time correction, exclusion rules, interpretation
+ *     engine
+ *   - cycles: exclusion decisions, pregnancy mode, special situation,
+ *     post-pill tag
+ *   - days: medications, treatments, lab results
+ *   - interpretations: the engine stamp
+ */
+export const EXPORT_ARCHIVE_VERSION = 2;
+
+// ===== INPUT (database rows) =====
+
+export type ExportSettingsInput = {
+  temperatureUnit: TemperatureUnit;
+  notesRowExpanded: boolean;
+  bbtTimeCorrection: boolean;
+  bbtCorrectionPerHour: number;     // °C per hour off the usual time
+  exclusionRules: unknown;          // null means the built-in defaults
+  interpretationEngine: string;
+};
+
+export type ExportLabResultInput = {
+  hormone: string;
+  value: number;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+};
+
+export type ExportDayInput = {
+  dayNumber: number;
+  date: Date;
+  dayOfWeek: string;
+  bbt: number | null;               // °C
+  bbtTime: string | null;
+  excludeFromInterpretation: boolean;
+  hadIntercourse: boolean;
+  cervicalAppearance: string | null;
+  cervicalSensation: string | null;
+  opkStatus: string | null;
+  menstrualFlow: string | null;
+  disturbanceFactors: string[];
+  travelTimeDiff: number | null;
+  notes: string | null;
+  medications: unknown;             // [{ type, dose }], see medications.ts
+  treatments: unknown;              // [{ type, detail }]
+  labResults: ExportLabResultInput[];
+};
+
+export type ExportInterpretationInput = {
+  type: string;
+  state: string;
+  engineResult: unknown;
+  userOverrides: unknown;
+  dismissedShiftDay: number | null;
+  needsReview: boolean;
+  reviewReason: string | null;
+  previousEngineResult: unknown;
+  postShiftMonitoring: unknown;
+  pendingNudges: unknown;
+  dismissedDataFingerprint: string | null;
+  engineId: string | null;          // rule set that produced engineResult
+  engineVersion: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type ExportExclusionDecisionInput = {
+  dayNumber: number;
+  decision: string;
+  factors: string[];
+  bbt: number | null;               // °C
+  decidedAt: Date;
+};
+
+export type ExportCycleInput = {
+  id: string;
+  cycleNumber: number;
+  createdAt: Date;
+  startDate: Date;
+  endDate: Date | null;
+  isActive: boolean;
+  markedAnovulatoryAt: Date | null;
+  markedUninterpretableAt: Date | null;
+  pregnancyModeAt: Date | null;
+  pregnancyIndicationDismissedAt: Date | null;
+  specialSituation: string | null;
+  postPillCycle: number | null;
+  postPillCycles: number | null;
+  days: ExportDayInput[];
+  interpretations: ExportInterpretationInput[];
+  exclusionDecisions: ExportExclusionDecisionInput[];
+};
+
+// ===== ARCHIVE (JSON) =====
+
+type Serialized<T> = {
+  [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K];
+};
+
+export type ExportArchiveDay = Serialized<ExportDayInput>;
+export type ExportArchiveInterpretation = Serialized<ExportInterpretationInput>;
+export type ExportArchiveExclusionDecision = Serialized<ExportExclusionDecisionInput>;
+export type ExportArchiveCycle = Serialized<Omit<ExportCycleInput, 'days' | 'interpretations' | 'exclusionDecisions'>> & {
+  days: ExportArchiveDay[];
+  interpretations: ExportArchiveInterpretation[];
+  exclusionDecisions: ExportArchiveExclusionDecision[];
+};
+
+export type ExportArchive = {
+  format: typeof EXPORT_ARCHIVE_FORMAT;
+  version: typeof EXPORT_ARCHIVE_VERSION;
+  exportedAt: string;
+  settings: ExportSettingsInput | null;
+  cycles: ExportArchiveCycle[];
+};
+
+function iso(date: Date): string {
+  return new Date(date).toISOString();
+}
+
+function isoOrNull(date: Date | null): string | null {
+  return date ? iso(date) : null;
+}
+
+/**
+ * Serialise everything a user has recorded into a versioned, JSON-safe
+ * archive. Dates become ISO timestamps; temperatures stay in canonical
+ * Celsius. Cycles and days are sorted chronologically. Pure function.
+ */
+export function buildExportArchive(
+  settings: ExportArchive['settings'],
+  cycles: ExportCycleInput[],
+  exportedAt: Date,
+): ExportArchive {
+  return {
+    format: EXPORT_ARCHIVE_FORMAT,
+    version: EXPORT_ARCHIVE_VERSION,
+    exportedAt: iso(exportedAt),
+    settings,
+    cycles: [...cycles]
+      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime())
+      .map((cycle) => ({
+        id: cycle.id,
+        cycleNumber: cycle.cycleNumber,
+        createdAt: iso(cycle.createdAt),
+        startDate: iso(cycle.startDate),
+        endDate: isoOrNull(cycle.endDate),
+        isActive: cycle.isActive,
+        markedAnovulatoryAt: isoOrNull(cycle.markedAnovulatoryAt),
+        markedUninterpretableAt: isoOrNull(cycle.markedUninterpretableAt),
+        pregnancyModeAt: isoOrNull(cycle.pregnancyModeAt),
+        pregnancyIndicationDismissedAt: isoOrNull(cycle.pregnancyIndicationDismissedAt),
+        specialSituation: cycle.specialSituation,
+        postPillCycle: cycle.postPillCycle,
+        postPillCycles: cycle.postPillCycles,
+        days: [...cycle.days]
+          .sort((a, b) => a.dayNumber - b.dayNumber)
+          .map((day) => ({
+            dayNumber: day.dayNumber,
+            date: iso(day.date),
+            dayOfWeek: day.dayOfWeek,
+            bbt: day.bbt,
+            bbtTime: day.bbtTime,
+            excludeFromInterpretation: day.excludeFromInterpretation,
+            hadIntercourse: day.hadIntercourse,
+            cervicalAppearance: day.cervicalAppearance,
+            cervicalSensation: day.cervicalSensation,
+            opkStatus: day.opkStatus,
+            menstrualFlow: day.menstrualFlow,
+            disturbanceFactors: day.disturbanceFactors,
+            travelTimeDiff: day.travelTimeDiff,
+            notes: day.notes,
+            medications: day.medications,
+            treatments: day.treatments,
+            labResults: [...day.labResults]
+              .sort((a, b) => a.hormone.localeCompare(b.hormone))
+              .map((result) => ({
+                hormone: result.hormone,
+                value: result.value,
+                unit: result.unit,
+                referenceLow: result.referenceLow,
+                referenceHigh: result.referenceHigh,
+              })),
+          })),
+        interpretations: cycle.interpretations.map((interp) => ({
+          type: interp.type,
+          state: interp.state,
+          engineResult: interp.engineResult,
+          userOverrides: interp.userOverrides,
+          dismissedShiftDay: interp.dismissedShiftDay,
+          needsReview: interp.needsReview,
+          reviewReason: interp.reviewReason,
+          previousEngineResult: interp.previousEngineResult,
+          postShiftMonitoring: interp.postShiftMonitoring,
+          pendingNudges: interp.pendingNudges,
+          dismissedDataFingerprint: interp.dismissedDataFingerprint,
+          engineId: interp.engineId,
+          engineVersion: interp.engineVersion,
+          createdAt: iso(interp.createdAt),
+          updatedAt: iso(interp.updatedAt),
+        })),
+        exclusionDecisions: [...cycle.exclusionDecisions]
+          .sort((a, b) => a.dayNumber - b.dayNumber)
+          .map((decision) => ({
+            dayNumber: decision.dayNumber,
+            decision: decision.decision,
+            factors: decision.factors,
+            bbt: decision.bbt,
+            decidedAt: iso(decision.decidedAt),
+          })),
+      })),
+  };
+}
+
+// ===== PER-CYCLE CSV =====
+
+/**
+ * Columns written to the per-cycle CSVs. They use the OvaGraph names that
+ * importCycleCsv reads (see CSV_COLUMNS), so an exported file re-imports
+ * into the same cycle. Medications and treatments are written as lists of
+ * types; doses and details stay in the JSON archive.
+ */
+const CSV_EXPORT_HEADER = ['d', 'cd', 'bf', 'bt', 'ok', 'it', 'cm', 'vs', 'ms', 'op', 'rx', 'te', 'sp'];
+
+const appearanceCsvValues: Record<string, string> = {
+  NONE: 'dry',
+  STICKY: 'sticky',
+  CREAMY: 'creamy',
+  WATERY: 'watery',
+  EGGWHITE: 'egg_white',
+};
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsvTemperature(celsius: number | null, unit: TemperatureUnit): string {
+  if (celsius == null) return '';
+  return (unit === 'FAHRENHEIT' ? celsiusToFahrenheit(celsius) : celsius).toFixed(2);
+}
+
+/**
+ * Render one cycle's days as an OvaGraph-style CSV. Temperatures are written
+ * in `unit`; the importer infers the unit back from the values. Dates use
+ * the local calendar, matching how the importer parses them.
+ */
+export function cycleDaysToCsv(days: ExportDayInput[], unit: TemperatureUnit): string {
+  const lines = [CSV_EXPORT_HEADER.join(',')];
+
+  for (const day of [...days].sort((a, b) => a.dayNumber - b.dayNumber)) {
+    const row = [
+      formatLocalIsoDate(new Date(day.date)),
+      String(day.dayNumber),
+      formatCsvTemperature(day.bbt, unit),
+      day.bbtTime ?? '',
+      day.excludeFromInterpretation ? '-1' : '',
+      day.hadIntercourse ? '1' : '0',
+      day.cervicalAppearance ? appearanceCsvValues[day.cervicalAppearance] ?? '' : '',
+      day.cervicalSensation?.toLowerCase() ?? '',
+      day.menstrualFlow?.toLowerCase() ?? '',
+      day.opkStatus ?? '',
+      readMedications(day.medications).map((m) => m.type.toLowerCase()).join(','),
+      readTreatments(day.treatments).map((t) => t.type.toLowerCase()).join(','),
+      day.notes ?? '',
+    ];
+    lines.push(row.map(csvField).join(','));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/** File name for a cycle's CSV inside the export zip. */
+export function cycleCsvFileName(cycle: Pick<ExportCycleInput, 'cycleNumber' | 'startDate'>): string {
+  return `cycle-${cycle.cycleNumber}-${formatLocalIsoDate(new Date(cycle.startDate))}.csv`;
+}
@@ -0,0 +1,57 @@
+import { HttpError } from 'wasp/server';
+import type { ExportUserData } from 'wasp/server/operations';
+import {
+  buildExportArchive,
+  cycleCsvFileName,
+  cycleDaysToCsv,
+  type ExportArchive,
+} from './dataExport';
+
+type ExportUserDataResult = {
+  archive: ExportArchive;
+  csvFiles: { fileName: string; csvText: string }[];
+};
+
+/**
+ * Everything the current user has recorded, as a versioned JSON archive plus
+ * one importCycleCsv-compatible CSV per cycle (temperatures in the user's
+ * display unit). The client bundles both into a zip.
+ */
+export const exportUserData: ExportUserData<void, ExportUserDataResult> = async (_args, context) => {
+  if (!context.user) throw new HttpError(401, 'Not authorized');
+
+  const [settings, cycles] = await Promise.all([
+    context.entities.UserSettings.findUnique({ where: { userId: context.user.id } }),
+    context.entities.Cycle.findMany({
+      where: { userId: context.user.id },
+      orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }],
+      include: {
+        days: { orderBy: { dayNumber: 'asc' }, include: { labResults: true } },
+        interpretations: true,
+        exclusionDecisions: true,
+      },
+    }),
+  ]);
+
+  const unit = settings?.temperatureUnit ?? 'FAHRENHEIT';
+
+  return {
+    archive: buildExportArchive(
+      settings
+        ? {
+          temperatureUnit: settings.temperatureUnit,
+          notesRowExpanded: settings.notesRowExpanded,
+          bbtTimeCorrection: settings.bbtTimeCorrection,
+          bbtCorrectionPerHour: settings.bbtCorrectionPerHour,
+          exclusionRules: settings.exclusionRules,
+          interpretationEngine: settings.interpretationEngine,
+        }
+        : null,
+      cycles,
+      new Date(),
+    ),
+    csvFiles: cycles
+      .filter((c) => c.days.length > 0)
+      .map((c) => ({ fileName: cycleCsvFileName(c), csvText: cycleDaysToCsv(c.days, unit) })),
+  };
+};
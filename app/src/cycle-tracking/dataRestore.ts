@@ -0,0 +1,506 @@
+import {
+  EXPORT_ARCHIVE_FORMAT,
+  EXPORT_ARCHIVE_VERSION,
+  type ExportArchive,
+  type ExportArchiveCycle,
+} from './dataExport';
+import { isNoteTooLong, NOTE_MAX_LENGTH } from './notesValidation';
+import { parseMedications, parseTreatments } from './medications';
+import { validateLabResult, type LabResultInput } from './labResults';
+import { DEFAULT_CORRECTION_C_PER_HOUR, MAX_CORRECTION_C_PER_HOUR } from './interpretation/sensiplan/measurementTime';
+import { parseExclusionRules } from './interpretation/sensiplan/exclusionSuggestions';
+import { DEFAULT_ENGINE_ID, isEngineId, isSelectableEngineId } from './interpretation/engines';
+import { SPECIAL_SITUATIONS } from './interpretation/specialSituations';
+import { isValidPostPillCycles, MAX_POST_PILL_CYCLES } from './postPill';
+
+/**
+ * How archive cycles are reconciled with cycles already in the account:
+ *   - merge:   an archive cycle starting on the same day as a stored cycle is
+ *              merged into it (archive days and interpretations win); other
+ *              overlapping archive cycles are skipped
+ *   - replace: every stored cycle is deleted first, then the archive is written
+ *   - skip:    archive cycles that overlap a stored cycle are left out
+ */
+export const RESTORE_MODES = ['merge', 'replace', 'skip'] as const;
+export type RestoreMode = (typeof RESTORE_MODES)[number];
+
+export type RestoreValidationError = {
+  /** Location in the archive, e.g. `cycles[2].days[4].bbt`. */
+  path: string;
+  message: string;
+};
+
+export type ArchiveValidationResult =
+  | { kind: 'ok'; archive: ExportArchive }
+  | { kind: 'error'; errors: RestoreValidationError[] };
+
+// ===== VALIDATION =====
+
+const TEMPERATURE_UNITS = ['CELSIUS', 'FAHRENHEIT'];
+const APPEARANCES = ['NONE', 'STICKY', 'CREAMY', 'WATERY', 'EGGWHITE'];
+const SENSATIONS = ['DRY', 'DAMP', 'WET', 'SLIPPERY'];
+const OPK_STATUSES = ['low', 'rising', 'peak', 'declining'];
+const FLOWS = ['SPOTTING', 'LIGHT', 'MEDIUM', 'HEAVY', 'VERY_HEAVY'];
+const INTERPRETATION_TYPES = ['THERMAL_SHIFT', 'CERVICAL_MUCUS_PEAK'];
+const INTERPRETATION_STATES = ['SUGGESTED', 'CONFIRMED', 'ADJUSTED', 'DISMISSED'];
+const EXCLUSION_DECISIONS = ['ACCEPTED', 'REJECTED'];
+
+/**
+ * Settings an archive may carry. Anything else is rejected: restore writes
+ * settings to the database, so an unknown key must never reach it.
+ */
+const SETTINGS_FIELDS = [
+  'temperatureUnit',
+  'notesRowExpanded',
+  'bbtTimeCorrection',
+  'bbtCorrectionPerHour',
+  'exclusionRules',
+  'interpretationEngine',
+];
+
+/** Oldest archive version restore still reads; see upgradeArchive. */
+const OLDEST_RESTORABLE_VERSION = 1;
+
+/** What an account held for the settings version 1 archives predate. */
+const V1_SETTINGS_DEFAULTS = {
+  bbtTimeCorrection: false,
+  bbtCorrectionPerHour: DEFAULT_CORRECTION_C_PER_HOUR,
+  exclusionRules: null,
+  interpretationEngine: DEFAULT_ENGINE_ID,
+};
+
+/** Cycle fields version 1 archives predate. */
+const V1_CYCLE_DEFAULTS = {
+  exclusionDecisions: [],
+  pregnancyModeAt: null,
+  pregnancyIndicationDismissedAt: null,
+  specialSituation: null,
+  postPillCycle: null,
+  postPillCycles: null,
+};
+
+/** Day fields version 1 archives predate, all without entries. */
+const V1_DAY_DEFAULTS = {
+  medications: null,
+  treatments: null,
+  labResults: [],
+};
+
+/** Stamps of interpretations in version 1 archives, which predate them. */
+const V1_INTERPRETATION_DEFAULTS = {
+  engineId: null,
+  engineVersion: null,
+};
+
+/** Stored temperatures are Celsius; anything outside this is not a BBT. */
+const MIN_BBT_C = 30;
+const MAX_BBT_C = 45;
+
+const BBT_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStoredBbt(value: unknown): boolean {
+  return value === null || (typeof value === 'number' && value >= MIN_BBT_C && value <= MAX_BBT_C);
+}
+
+function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Field checkers for one record. Each returns false and records an error
+ * when the value is wrong, so a record reports every bad field at once.
+ */
+function fieldChecker(record: JsonObject, path: string, errors: RestoreValidationError[]) {
+  const fail = (field: string, message: string) => {
+    errors.push({ path: path ? `${path}.${field}` : field, message });
+    return false;
+  };
+  const check = (field: string, ok: (value: unknown) => boolean, message: string, nullable = false) => {
+    const value = record[field];
+    if (nullable && value === null) return true;
+    return ok(value) || fail(field, value === undefined ? 'is missing' : message);
+  };
+
+  return {
+    fail,
+    check,
+    string: (field: string, nullable = false) =>
+      check(field, (v) => typeof v === 'string', 'must be text', nullable),
+    boolean: (field: string) =>
+      check(field, (v) => typeof v === 'boolean', 'must be true or false'),
+    integer: (field: string, min: number, nullable = false) =>
+      check(field, (v) => Number.isInteger(v) && (v as number) >= min, `must be a whole number of at least ${min}`, nullable),
+    date: (field: string, nullable = false) =>
+      check(field, isIsoDate, 'must be an ISO date', nullable),
+    oneOf: (field: string, allowed: string[], nullable = false) =>
+      check(field, (v) => typeof v === 'string' && allowed.includes(v), `must be one of ${allowed.join(', ')}`, nullable),
+    json: (field: string) =>
+      check(field, (v) => v !== undefined, 'is missing'),
+  };
+}
+
+function validateDay(day: unknown, path: string, errors: RestoreValidationError[]): void {
+  if (!isObject(day)) {
+    errors.push({ path, message: 'must be an object' });
+    return;
+  }
+  const f = fieldChecker(day, path, errors);
+
+  f.integer('dayNumber', 1);
+  f.date('date');
+  f.string('dayOfWeek');
+  if (!isStoredBbt(day.bbt)) {
+    f.fail('bbt', `must be a Celsius temperature between ${MIN_BBT_C} and ${MAX_BBT_C}`);
+  }
+  if (day.bbtTime !== null && !(typeof day.bbtTime === 'string' && BBT_TIME_PATTERN.test(day.bbtTime))) {
+    f.fail('bbtTime', 'must be a time like 06:30');
+  }
+  f.boolean('excludeFromInterpretation');
+  f.boolean('hadIntercourse');
+  f.oneOf('cervicalAppearance', APPEARANCES, true);
+  f.oneOf('cervicalSensation', SENSATIONS, true);
+  f.oneOf('opkStatus', OPK_STATUSES, true);
+  f.oneOf('menstrualFlow', FLOWS, true);
+  if (!Array.isArray(day.disturbanceFactors) || !day.disturbanceFactors.every((d) => typeof d === 'string')) {
+    f.fail('disturbanceFactors', 'must be a list of text values');
+  }
+  if (day.travelTimeDiff !== null && !Number.isInteger(day.travelTimeDiff)) {
+    f.fail('travelTimeDiff', 'must be a whole number');
+  }
+  if (f.string('notes', true) && isNoteTooLong(day.notes as string | null)) {
+    f.fail('notes', `must be at most ${NOTE_MAX_LENGTH} characters`);
+  }
+  if (f.json('medications')) {
+    const medications = parseMedications(day.medications);
+    if (medications.kind === 'error') f.fail('medications', medications.message);
+  }
+  if (f.json('treatments')) {
+    const treatments = parseTreatments(day.treatments);
+    if (treatments.kind === 'error') f.fail('treatments', treatments.message);
+  }
+  if (!Array.isArray(day.labResults)) {
+    f.fail('labResults', 'must be a list');
+  } else {
+    const seen = new Set<unknown>();
+    day.labResults.forEach((result, i) => {
+      const resultPath = `${path}.labResults[${i}]`;
+      if (!isObject(result)) {
+        errors.push({ path: resultPath, message: 'must be an object' });
+        return;
+      }
+      const validated = validateLabResult(result as LabResultInput);
+      if (validated.kind === 'error') errors.push({ path: resultPath, message: validated.message });
+      if (seen.has(result.hormone)) {
+        errors.push({ path: `${resultPath}.hormone`, message: `${result.hormone} appears more than once` });
+      }
+      seen.add(result.hormone);
+    });
+  }
+}
+
+function validateInterpretation(interp: unknown, path: string, errors: RestoreValidationError[]): void {
+  if (!isObject(interp)) {
+    errors.push({ path, message: 'must be an object' });
+    return;
+  }
+  const f = fieldChecker(interp, path, errors);
+
+  f.oneOf('type', INTERPRETATION_TYPES);
+  f.oneOf('state', INTERPRETATION_STATES);
+  if (!isObject(interp.engineResult)) f.fail('engineResult', 'must be an object');
+  f.json('userOverrides');
+  f.integer('dismissedShiftDay', 1, true);
+  f.boolean('needsReview');
+  f.string('reviewReason', true);
+  f.json('previousEngineResult');
+  f.json('postShiftMonitoring');
+  f.json('pendingNudges');
+  f.string('dismissedDataFingerprint', true);
+  f.check('engineId', isEngineId, 'must name a known rule set', true);
+  f.integer('engineVersion', 1, true);
+  f.date('createdAt');
+  f.date('updatedAt');
+}
+
+function validateExclusionDecision(decision: unknown, path: string, errors: RestoreValidationError[]): void {
+  if (!isObject(decision)) {
+    errors.push({ path, message: 'must be an object' });
+    return;
+  }
+  const f = fieldChecker(decision, path, errors);
+
+  f.integer('dayNumber', 1);
+  f.oneOf('decision', EXCLUSION_DECISIONS);
+  if (!Array.isArray(decision.factors) || !decision.factors.every((d) => typeof d === 'string')) {
+    f.fail('factors', 'must be a list of text values');
+  }
+  if (!isStoredBbt(decision.bbt)) {
+    f.fail('bbt', `must be a Celsius temperature between ${MIN_BBT_C} and ${MAX_BBT_C}`);
+  }
+  f.date('decidedAt');
+}
+
+function validateCycle(cycle: unknown, path: string, errors: RestoreValidationError[]): void {
+  if (!isObject(cycle)) {
+    errors.push({ path, message: 'must be an object' });
+    return;
+  }
+  const f = fieldChecker(cycle, path, errors);
+
+  f.string('id');
+  f.integer('cycleNumber', 1);
+  f.date('createdAt');
+  f.date('startDate');
+  f.date('endDate', true);
+  f.boolean('isActive');
+  f.date('markedAnovulatoryAt', true);
+  f.date('markedUninterpretableAt', true);
+  f.date('pregnancyModeAt', true);
+  f.date('pregnancyIndicationDismissedAt', true);
+  f.oneOf('specialSituation', [...SPECIAL_SITUATIONS], true);
+  if (cycle.postPillCycles !== null || cycle.postPillCycle !== null) {
+    if (!isValidPostPillCycles(cycle.postPillCycles)) {
+      f.fail('postPillCycles', `must be a whole number from 1 to ${MAX_POST_PILL_CYCLES}`);
+    } else if (
+      !Number.isInteger(cycle.postPillCycle) ||
+      (cycle.postPillCycle as number) < 1 ||
+      (cycle.postPillCycle as number) > cycle.postPillCycles
+    ) {
+      f.fail('postPillCycle', `must be a whole number from 1 to ${cycle.postPillCycles}`);
+    }
+  }
+
+  if (!Array.isArray(cycle.days)) {
+    f.fail('days', 'must be a list');
+  } else {
+    const seen = new Set<unknown>();
+    cycle.days.forEach((day, i) => {
+      validateDay(day, `${path}.days[${i}]`, errors);
+      const dayNumber = isObject(day) ? day.dayNumber : undefined;
+      if (seen.has(dayNumber)) {
+        errors.push({ path: `${path}.days[${i}].dayNumber`, message: `day ${dayNumber} appears more than once` });
+      }
+      seen.add(dayNumber);
+    });
+  }
+
+  if (!Array.isArray(cycle.interpretations)) {
+    f.fail('interpretations', 'must be a list');
+  } else {
+    const seen = new Set<unknown>();
+    cycle.interpretations.forEach((interp, i) => {
+      validateInterpretation(interp, `${path}.interpretations[${i}]`, errors);
+      const type = isObject(interp) ? interp.type : undefined;
+      if (seen.has(type)) {
+        errors.push({ path: `${path}.interpretations[${i}].type`, message: `${type} appears more than once` });
+      }
+      seen.add(type);
+    });
+  }
+
+  if (!Array.isArray(cycle.exclusionDecisions)) {
+    f.fail('exclusionDecisions', 'must be a list');
+  } else {
+    const seen = new Set<unknown>();
+    cycle.exclusionDecisions.forEach((decision, i) => {
+      validateExclusionDecision(decision, `${path}.exclusionDecisions[${i}]`, errors);
+      const dayNumber = isObject(decision) ? decision.dayNumber : undefined;
+      if (seen.has(dayNumber)) {
+        errors.push({ path: `${path}.exclusionDecisions[${i}].dayNumber`, message: `day ${dayNumber} appears more than once` });
+      }
+      seen.add(dayNumber);
+    });
+  }
+}
+
+function upgradeV1Cycle(cycle: JsonObject): JsonObject {
+  return {
+    ...V1_CYCLE_DEFAULTS,
+    ...cycle,
+    days: Array.isArray(cycle.days)
+      ? cycle.days.map((day) => (isObject(day) ? { ...V1_DAY_DEFAULTS, ...day } : day))
+      : cycle.days,
+    interpretations: Array.isArray(cycle.interpretations)
+      ? cycle.interpretations.map((interp) => (isObject(interp) ? { ...V1_INTERPRETATION_DEFAULTS, ...interp } : interp))
+      : cycle.interpretations,
+  };
+}
+
+/**
+ * Bring an older archive up to the current shape by filling in the fields it
+ * predates with what an account without them held, so it validates and
+ * restores like a current one.
+ */
+function upgradeArchive(raw: JsonObject): JsonObject {
+  if (raw.version !== 1) return raw;
+  return {
+    ...raw,
+    version: EXPORT_ARCHIVE_VERSION,
+    settings: isObject(raw.settings) ? { ...V1_SETTINGS_DEFAULTS, ...raw.settings } : raw.settings,
+    cycles: Array.isArray(raw.cycles)
+      ? raw.cycles.map((cycle) => (isObject(cycle) ? upgradeV1Cycle(cycle) : cycle))
+      : raw.cycles,
+  };
+}
+
+/**
+ * Check a parsed JSON value against the export archive shape, record by
+ * record. Archives from older versions are upgraded first. All problems
+ * are collected (not just the first) so the user can see everything wrong
+ * with a file. Overlapping cycles inside the archive are rejected too —
+ * restoring them would corrupt the timeline.
+ */
+export function validateExportArchive(input: unknown): ArchiveValidationResult {
+  if (!isObject(input) || input.format !== EXPORT_ARCHIVE_FORMAT) {
+    return { kind: 'error', errors: [{ path: 'format', message: 'This file is not a Cycle Path data export.' }] };
+  }
+  if (
+    typeof input.version !== 'number' ||
+    !Number.isInteger(input.version) ||
+    input.version < OLDEST_RESTORABLE_VERSION ||
+    input.version > EXPORT_ARCHIVE_VERSION
+  ) {
+    const message = typeof input.version === 'number' && input.version > EXPORT_ARCHIVE_VERSION
+      ? 'This export was made by a newer version of the app.'
+      : `Unsupported export version ${String(input.version)}.`;
+    return { kind: 'error', errors: [{ path: 'version', message }] };
+  }
+  const raw = upgradeArchive(input);
+
+  const errors: RestoreValidationError[] = [];
+  const f = fieldChecker(raw, '', errors);
+  f.date('exportedAt');
+
+  if (raw.settings !== null) {
+    if (!isObject(raw.settings)) {
+      errors.push({ path: 'settings', message: 'must be an object or null' });
+    } else {
+      const s = fieldChecker(raw.settings, 'settings', errors);
+      s.oneOf('temperatureUnit', TEMPERATURE_UNITS);
+      s.boolean('notesRowExpanded');
+      s.boolean('bbtTimeCorrection');
+      const perHour = raw.settings.bbtCorrectionPerHour;
+      if (!(typeof perHour === 'number' && perHour > 0 && perHour <= MAX_CORRECTION_C_PER_HOUR)) {
+        s.fail('bbtCorrectionPerHour', `must be more than 0 and at most ${MAX_CORRECTION_C_PER_HOUR} °C per hour`);
+      }
+      if (raw.settings.exclusionRules !== null) {
+        const rules = parseExclusionRules(raw.settings.exclusionRules);
+        if (rules.kind === 'error') s.fail('exclusionRules', rules.message);
+      }
+      s.check('interpretationEngine', isSelectableEngineId, 'must name a rule set that can be chosen in Settings');
+      for (const key of Object.keys(raw.settings)) {
+        if (!SETTINGS_FIELDS.includes(key)) s.fail(key, 'is not a known setting');
+      }
+    }
+  }
+
+  if (!Array.isArray(raw.cycles)) {
+    errors.push({ path: 'cycles', message: 'must be a list' });
+  } else {
+    raw.cycles.forEach((cycle, i) => validateCycle(cycle, `cycles[${i}]`, errors));
+  }
+
+  if (errors.length > 0) return { kind: 'error', errors };
+
+  const archive = raw as unknown as ExportArchive;
+  const ranges = archive.cycles.map((cycle, index) => ({ index, ...archiveCycleRange(cycle) }));
+  ranges.sort((a, b) => a.start.getTime() - b.start.getTime());
+  for (let i = 1; i < ranges.length; i++) {
+    if (ranges[i].start <= ranges[i - 1].end) {
+      errors.push({
+        path: `cycles[${ranges[i].index}].startDate`,
+        message: `overlaps cycle ${archive.cycles[ranges[i - 1].index].cycleNumber} in the same archive`,
+      });
+    }
+  }
+
+  return errors.length > 0 ? { kind: 'error', errors } : { kind: 'ok', archive };
+}
+
+// ===== CONFLICT PLANNING =====
+
+export type ExistingCycleRange = { id: string; startDate: Date; lastDate: Date };
+
+export type RestoreSkippedCycle = {
+  cycleNumber: number;
+  startDate: string;
+  /** The stored cycle the archive cycle collides with. */
+  conflictsWithCycleId: string;
+};
+
+export type RestorePlan = {
+  mode: RestoreMode;
+  /** Stored cycles to delete before writing (replace mode only). */
+  deleteCycleIds: string[];
+  create: ExportArchiveCycle[];
+  merge: { cycle: ExportArchiveCycle; targetCycleId: string }[];
+  skipped: RestoreSkippedCycle[];
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function sameDay(a: Date, b: Date): boolean {
+  return Math.round((a.getTime() - b.getTime()) / MS_PER_DAY) === 0;
+}
+
+/** First and last date an archive cycle covers: endDate, else its last day. */
+export function archiveCycleRange(cycle: ExportArchiveCycle): { start: Date; end: Date } {
+  const start = new Date(cycle.startDate);
+  const lastDay = cycle.days.reduce<Date | null>((latest, day) => {
+    const date = new Date(day.date);
+    return !latest || date > latest ? date : latest;
+  }, null);
+  const candidates = [start, lastDay, cycle.endDate ? new Date(cycle.endDate) : null]
+    .filter((d): d is Date => d !== null);
+  return { start, end: new Date(Math.max(...candidates.map((d) => d.getTime()))) };
+}
+
+/**
+ * Decide what happens to every archive cycle given the cycles already
+ * stored. Pure — the action writes the plan inside one transaction.
+ */
+export function planRestore(
+  archive: ExportArchive,
+  existing: ExistingCycleRange[],
+  mode: RestoreMode,
+): RestorePlan {
+  const plan: RestorePlan = { mode, deleteCycleIds: [], create: [], merge: [], skipped: [] };
+
+  if (mode === 'replace') {
+    plan.deleteCycleIds = existing.map((c) => c.id);
+    plan.create = [...archive.cycles];
+    return plan;
+  }
+
+  for (const cycle of archive.cycles) {
+    const { start, end } = archiveCycleRange(cycle);
+    const conflicts = existing.filter((c) => start <= c.lastDate && c.startDate <= end);
+
+    if (conflicts.length === 0) {
+      plan.create.push(cycle);
+    } else if (mode === 'merge' && conflicts.length === 1 && sameDay(conflicts[0].startDate, start)) {
+      plan.merge.push({ cycle, targetCycleId: conflicts[0].id });
+    } else {
+      plan.skipped.push({ cycleNumber: cycle.cycleNumber, startDate: cycle.startDate, conflictsWithCycleId: conflicts[0].id });
+    }
+  }
+
+  return plan;
+}
+
+export type RestoreSummary = {
+  mode: RestoreMode;
+  cyclesCreated: number;
+  cyclesMerged: number;
+  cyclesDeleted: number;
+  skipped: RestoreSkippedCycle[];
+  daysWritten: number;
+  interpretationsWritten: number;
+  settingsRestored: boolean;
+};
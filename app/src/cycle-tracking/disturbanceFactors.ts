@@ -0,0 +1,29 @@
+/** Disturbance factors a day can be tagged with (CycleDay.disturbanceFactors). */
+export const DISTURBANCE_FACTORS = [
+  'POOR_SLEEP',
+  'TRAVEL',
+  'STRESS',
+  'ILLNESS_FEVER',
+  'DIFFERENT_WAKE_TIME',
+  'ALCOHOL',
+  'MEDICATION',
+  'HOT_COLD_ROOM',
+] as const;
+
+export type DisturbanceFactor = (typeof DISTURBANCE_FACTORS)[number];
+
+/** Short lower-case labels for running text ("disturbances: alcohol, stress"). */
+export const DISTURBANCE_FACTOR_LABELS: Record<DisturbanceFactor, string> = {
+  POOR_SLEEP: 'poor sleep',
+  TRAVEL: 'travel',
+  STRESS: 'stress',
+  ILLNESS_FEVER: 'illness/fever',
+  DIFFERENT_WAKE_TIME: 'different wake time',
+  ALCOHOL: 'alcohol',
+  MEDICATION: 'medication',
+  HOT_COLD_ROOM: 'hot/cold room',
+};
+
+export function disturbanceFactorLabel(factor: string): string {
+  return DISTURBANCE_FACTOR_LABELS[factor as DisturbanceFactor] ?? factor.toLowerCase();
+}
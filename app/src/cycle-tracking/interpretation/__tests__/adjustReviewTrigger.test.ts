@@ -26,6 +26,8 @@ const engineConfirmed = (shiftDay: number): ThermalShiftResult => ({
   confirmingDays: [shiftDay, shiftDay + 1, shiftDay + 2],
   skippedDays: [],
   usedFourthDayException: false,
+  usedSecondException: false,
+  secondExceptionDay: null,
   confidence: 'high',
   confidenceReasons: [],
   failedAttempts: [],
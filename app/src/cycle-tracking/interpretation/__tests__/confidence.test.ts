@@ -32,4 +32,18 @@ describe('calculateConfidence', () => {
     expect(result.confidence).toBe('low');
     expect(result.reasons[0]).toContain('5');
   });
+
+  it('switches to caution when progesterone was taken', () => {
+    const result = calculateConfidence(0, [14, 15, 16, 19]);
+    expect(result.confidence).toBe('low');
+    expect(result.reasons).toHaveLength(1);
+    expect(result.reasons[0]).toContain('Progesterone was taken on Days 14–16, 19.');
+  });
+
+  it('gives both reasons when both apply', () => {
+    const result = calculateConfidence(3, [20]);
+    expect(result.confidence).toBe('low');
+    expect(result.reasons).toHaveLength(2);
+    expect(result.reasons[1]).toContain('Day 20.');
+  });
 });
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { calculateEarlyInfertilePhase } from '../sensiplan/earlyInfertile';
+import { collectHistoricalShiftDays } from '../historicalShiftDays';
+import type { CycleDayInput } from '../types';
+
+function day(dayNumber: number, opts?: Partial<CycleDayInput>): CycleDayInput {
+  return {
+    dayNumber, bbt: 36.3, bbtTime: null,
+    excludeFromInterpretation: false, disturbanceFactors: [], travelTimeDiff: null,
+    ...opts,
+  };
+}
+
+const dryDays = [1, 2, 3, 4, 5, 6, 7].map((n) => day(n, { cervicalSensation: 'DRY' }));
+
+describe('calculateEarlyInfertilePhase', () => {
+  it('applies the 5-day rule with no history', () => {
+    const result = calculateEarlyInfertilePhase([], dryDays);
+    expect(result).toMatchObject({ rule: 'five_day', ruleLastDay: 5, lastInfertileDay: 5, cyclesConsidered: 0 });
+  });
+
+  it('keeps the 5-day rule with fewer than 12 cycles of late shifts', () => {
+    const result = calculateEarlyInfertilePhase([16, 15, 17], dryDays);
+    expect(result.rule).toBe('five_day');
+    expect(result.lastInfertileDay).toBe(5);
+  });
+
+  it('falls back to minus-8 early when a past shift makes it stricter', () => {
+    const result = calculateEarlyInfertilePhase([16, 12], dryDays);
+    expect(result).toMatchObject({ rule: 'minus_8', ruleLastDay: 4, earliestShiftDay: 12 });
+  });
+
+  it('switches to minus-8 once 12 cycles are available', () => {
+    const history = [15, 16, 17, 15, 16, 14, 18, 15, 16, 17, 15, 16];
+    const result = calculateEarlyInfertilePhase(history, dryDays);
+    expect(result).toMatchObject({ rule: 'minus_8', ruleLastDay: 6, lastInfertileDay: 6, cyclesConsidered: 12 });
+  });
+
+  it('ends the phase the day before mucus is first observed', () => {
+    const days = [day(1), day(2), day(3, { cervicalSensation: 'DAMP' }), day(4)];
+    const result = calculateEarlyInfertilePhase([], days);
+    expect(result).toMatchObject({ ruleLastDay: 5, lastInfertileDay: 2, endedByMucusOnDay: 3 });
+  });
+
+  it('never goes below zero for very early shifts', () => {
+    const result = calculateEarlyInfertilePhase([7], dryDays);
+    expect(result.lastInfertileDay).toBe(0);
+  });
+});
+
+describe('collectHistoricalShiftDays', () => {
+  const confirmed = (shiftDay: number) => ({
+    type: 'THERMAL_SHIFT', state: 'CONFIRMED',
+    engineResult: { status: 'confirmed', shiftDay }, userOverrides: null,
+  });
+  const current = { id: 'c', startDate: '2026-03-01' };
+
+  it('collects confirmed and adjusted shifts from earlier cycles only', () => {
+    const cycles = [
+      { id: 'a', startDate: '2026-01-01', interpretations: [confirmed(15)] },
+      {
+        id: 'b', startDate: '2026-02-01',
+        interpretations: [{ type: 'THERMAL_SHIFT', state: 'ADJUSTED', engineResult: { status: 'confirmed', shiftDay: 14 }, userOverrides: { shiftDay: 13 } }],
+      },
+      { id: 'c', startDate: '2026-03-01', interpretations: [confirmed(12)] },
+      { id: 'd', startDate: '2026-04-01', interpretations: [confirmed(11)] },
+    ];
+    expect(collectHistoricalShiftDays(cycles, current)).toEqual([15, 13]);
+  });
+
+  it('skips suggested, dismissed and marked cycles', () => {
+    const cycles = [
+      { id: 'a', startDate: '2026-01-01', interpretations: [{ ...confirmed(15), state: 'SUGGESTED' }] },
+      { id: 'b', startDate: '2026-01-15', interpretations: [{ ...confirmed(15), state: 'DISMISSED' }] },
+      { id: 'e', startDate: '2026-02-01', markedAnovulatoryAt: '2026-02-20', interpretations: [confirmed(10)] },
+    ];
+    expect(collectHistoricalShiftDays(cycles, current)).toEqual([]);
+  });
+});
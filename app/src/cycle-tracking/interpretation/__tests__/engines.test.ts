@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ENGINE_ID,
+  getEngine,
+  getEngineForCycle,
+  isEngineId,
+  isSelectableEngineId,
+  listEngines,
+  usesConservativeFallback,
+} from '../engines';
+import { runInterpretation } from '../sensiplan';
+import type { CycleDayInput } from '../types';
+
+function day(dayNumber: number, bbt: number | null, opts?: Partial<CycleDayInput>): CycleDayInput {
+  return {
+    dayNumber, bbt, bbtTime: null,
+    excludeFromInterpretation: false, disturbanceFactors: [], travelTimeDiff: null,
+    ...opts,
+  };
+}
+
+/** Coverline 36.30; three highs at +0.10, +0.15, +0.12 and a 4th at +0.20. */
+const LOW_RISE = [
+  day(1, 36.2), day(2, 36.3), day(3, 36.1),
+  day(4, 36.3), day(5, 36.2), day(6, 36.3),
+  day(7, 36.40), day(8, 36.45), day(9, 36.42), day(10, 36.50),
+];
+
+describe('engine registry', () => {
+  it('lists every rule set with a version and falls back to Sensiplan', () => {
+    expect(listEngines().map((e) => e.id)).toEqual(['sensiplan', 'three_over_six', 'temperature_only']);
+    listEngines().forEach((e) => expect(Number.isInteger(e.version)).toBe(true));
+    expect(getEngine('nonsense').id).toBe(DEFAULT_ENGINE_ID);
+    expect(getEngine(null).id).toBe('sensiplan');
+  });
+
+  it('sensiplan matches runInterpretation exactly', () => {
+    expect(getEngine('sensiplan').run(LOW_RISE)).toEqual(runInterpretation(LOW_RISE));
+  });
+
+  it('sensiplan needs the 4th-day exception when the 3rd misses +0.2', () => {
+    const shift = getEngine('sensiplan').run(LOW_RISE).thermalShift;
+    expect(shift).toMatchObject({ status: 'confirmed', shiftDay: 7, confirmingDays: [7, 8, 9, 10], usedFourthDayException: true });
+  });
+
+  it('3 over 6 confirms on the 3rd higher temp without a minimum rise', () => {
+    const shift = getEngine('three_over_six').run(LOW_RISE).thermalShift;
+    expect(shift).toMatchObject({ status: 'confirmed', shiftDay: 7, confirmingDays: [7, 8, 9], usedFourthDayException: false });
+  });
+
+  it('the 0.3 °F rule rejects highs less than 0.3 °F above the coverline', () => {
+    const shift = getEngine('temperature_only').run(LOW_RISE).thermalShift;
+    expect(shift.status).toBe('none');
+
+    // 0.3 °F above a 97.34 °F coverline, entered in °F and stored in °C.
+    const f = (v: number) => (v - 32) / 1.8;
+    const days = [
+      ...[97.16, 97.34, 96.98, 97.34, 97.16, 97.34].map((t, i) => day(i + 1, f(t))),
+      day(7, f(97.64)), day(8, f(97.7)), day(9, f(97.64)),
+    ];
+    expect(getEngine('temperature_only').run(days).thermalShift).toMatchObject({ status: 'confirmed', shiftDay: 7 });
+  });
+
+  it('rule sets without the exception fail on a 3rd high that misses the margin', () => {
+    const days = [
+      day(1, 36.2), day(2, 36.3), day(3, 36.1),
+      day(4, 36.3), day(5, 36.2), day(6, 36.3),
+      day(7, 36.50), day(8, 36.50), day(9, 36.40),
+    ];
+    const shift = getEngine('temperature_only').run(days).thermalShift;
+    expect(shift.status).toBe('none');
+    if (shift.status === 'none') {
+      expect(shift.failedAttempts[0].failureReason).toBe('Temperature on Day 9 did not reach coverline +0.17°C');
+    }
+  });
+});
+
+describe('special situations', () => {
+  it('switch the cycle to the situation rules regardless of the selected set', () => {
+    expect(getEngineForCycle('three_over_six', 'POSTPARTUM').id).toBe('sensiplan_postpartum');
+    expect(getEngineForCycle('sensiplan', 'BREASTFEEDING').id).toBe('sensiplan_breastfeeding');
+    expect(getEngineForCycle(null, 'PERIMENOPAUSE').id).toBe('sensiplan_perimenopause');
+    expect(getEngineForCycle('three_over_six', null).id).toBe('three_over_six');
+  });
+
+  it('stamp results but are not selectable in Settings', () => {
+    expect(isEngineId('sensiplan_breastfeeding')).toBe(true);
+    expect(isSelectableEngineId('sensiplan_breastfeeding')).toBe(false);
+    expect(isEngineId('toString')).toBe(false);
+    expect(listEngines().map((e) => e.id)).not.toContain('sensiplan_breastfeeding');
+  });
+
+  it('after childbirth and while breastfeeding, say they are one conservative fallback', () => {
+    const postpartum = getEngineForCycle('sensiplan', 'POSTPARTUM');
+    const breastfeeding = getEngineForCycle('sensiplan', 'BREASTFEEDING');
+    expect(usesConservativeFallback('POSTPARTUM')).toBe(true);
+    expect(usesConservativeFallback('BREASTFEEDING')).toBe(true);
+    expect(usesConservativeFallback('PERIMENOPAUSE')).toBe(false);
+    expect(usesConservativeFallback(null)).toBe(false);
+    expect(breastfeeding).toMatchObject({
+      name: postpartum.name,
+      description: postpartum.description,
+      thermalRules: postpartum.thermalRules,
+      startOfCycleRules: false,
+    });
+    expect(postpartum.description).toContain('not built in');
+  });
+
+  it('drop the start-of-cycle rules', () => {
+    expect(getEngine('sensiplan').startOfCycleRules).toBe(true);
+    expect(getEngineForCycle('sensiplan', 'PERIMENOPAUSE').startOfCycleRules).toBe(false);
+  });
+
+  it('after childbirth and while breastfeeding, a 3rd high short of +0.2 does not confirm', () => {
+    for (const situation of ['POSTPARTUM', 'BREASTFEEDING'] as const) {
+      const shift = getEngineForCycle('sensiplan', situation).run(LOW_RISE).thermalShift;
+      expect(shift.status).not.toBe('confirmed');
+      expect(shift.failedAttempts[0]).toMatchObject({ attemptedShiftDay: 7, failedOnDay: 9 });
+    }
+  });
+
+  it('in perimenopause the 4th-day exception still confirms a slow rise', () => {
+    const shift = getEngineForCycle('sensiplan', 'PERIMENOPAUSE').run(LOW_RISE).thermalShift;
+    expect(shift).toMatchObject({ status: 'confirmed', shiftDay: 7, usedFourthDayException: true });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_EXCLUSION_RULES,
+  resolveExclusionRules,
+  suggestExclusions,
+  type ExclusionDecisionRecord,
+} from '../sensiplan/exclusionSuggestions';
+import { computeCycleDataFingerprint } from '../dataFingerprint';
+import type { CycleDayInput } from '../types';
+
+function day(dayNumber: number, bbt: number | null, opts?: Partial<CycleDayInput>): CycleDayInput {
+  return {
+    dayNumber,
+    bbt,
+    bbtTime: null,
+    excludeFromInterpretation: false,
+    disturbanceFactors: [],
+    travelTimeDiff: null,
+    ...opts,
+  };
+}
+
+/** Flat follicular phase around 36.30 with day 5 tagged as given. */
+function withDay5(bbt: number, factors: string[], opts?: Partial<CycleDayInput>): CycleDayInput[] {
+  return [
+    day(1, 36.3), day(2, 36.25), day(3, 36.3), day(4, 36.35),
+    day(5, bbt, { disturbanceFactors: factors, ...opts }),
+    day(6, 36.3), day(7, 36.25), day(8, 36.3),
+  ];
+}
+
+describe('suggestExclusions', () => {
+  it('proposes a disturbed day that deviates from its neighbours', () => {
+    const result = suggestExclusions(withDay5(36.5, ['ALCOHOL']), DEFAULT_EXCLUSION_RULES, []);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ dayNumber: 5, neighborMedian: 36.3, factors: ['ALCOHOL'] });
+    expect(result[0].deviation).toBeCloseTo(0.2);
+  });
+
+  it('leaves undisturbed outliers and in-line disturbed days alone', () => {
+    expect(suggestExclusions(withDay5(36.5, []), DEFAULT_EXCLUSION_RULES, [])).toEqual([]);
+    expect(suggestExclusions(withDay5(36.35, ['STRESS']), DEFAULT_EXCLUSION_RULES, [])).toEqual([]);
+  });
+
+  it('applies each factor its own threshold and reports only the rules that fired', () => {
+    const result = suggestExclusions(withDay5(36.45, ['STRESS', 'POOR_SLEEP']), DEFAULT_EXCLUSION_RULES, []);
+    expect(result.map((s) => s.factors)).toEqual([['POOR_SLEEP']]);
+
+    const fever = suggestExclusions(withDay5(36.3, ['ILLNESS_FEVER']), DEFAULT_EXCLUSION_RULES, []);
+    expect(fever.map((s) => s.dayNumber)).toEqual([5]);
+  });
+
+  it('ignores factors whose rule is disabled', () => {
+    const rules = { ...DEFAULT_EXCLUSION_RULES, ALCOHOL: { enabled: false, minDeviationC: 0.1 } };
+    expect(suggestExclusions(withDay5(36.6, ['ALCOHOL']), rules, [])).toEqual([]);
+  });
+
+  it('skips days already excluded and days without enough neighbours', () => {
+    expect(suggestExclusions(
+      withDay5(36.6, ['ALCOHOL'], { excludeFromInterpretation: true }),
+      DEFAULT_EXCLUSION_RULES, [],
+    )).toEqual([]);
+    expect(suggestExclusions(
+      [day(1, 36.3), day(5, 36.6, { disturbanceFactors: ['ALCOHOL'] })],
+      DEFAULT_EXCLUSION_RULES, [],
+    )).toEqual([]);
+  });
+
+  it('does not ask again about an answered day until the day is edited', () => {
+    const rejected: ExclusionDecisionRecord = { dayNumber: 5, decision: 'REJECTED', factors: ['ALCOHOL'], bbt: 36.5 };
+    expect(suggestExclusions(withDay5(36.5, ['ALCOHOL']), DEFAULT_EXCLUSION_RULES, [rejected])).toEqual([]);
+    expect(suggestExclusions(withDay5(36.55, ['ALCOHOL']), DEFAULT_EXCLUSION_RULES, [rejected])).toHaveLength(1);
+    expect(suggestExclusions(withDay5(36.5, ['ALCOHOL', 'STRESS']), DEFAULT_EXCLUSION_RULES, [rejected])).toHaveLength(1);
+  });
+
+  it('an accepted suggestion fingerprints exactly like a manual exclusion', () => {
+    const days = withDay5(36.5, ['ALCOHOL']);
+    const [suggestion] = suggestExclusions(days, DEFAULT_EXCLUSION_RULES, []);
+    const accepted = days.map((d) =>
+      d.dayNumber === suggestion.dayNumber ? { ...d, excludeFromInterpretation: true } : d);
+    const manual = withDay5(36.5, ['ALCOHOL'], { excludeFromInterpretation: true });
+
+    expect(computeCycleDataFingerprint(accepted)).toBe(computeCycleDataFingerprint(manual));
+    expect(computeCycleDataFingerprint(accepted)).not.toBe(computeCycleDataFingerprint(days));
+  });
+});
+
+describe('resolveExclusionRules', () => {
+  it('uses the defaults when nothing is stored', () => {
+    expect(resolveExclusionRules(null)).toEqual(DEFAULT_EXCLUSION_RULES);
+  });
+
+  it('overrides valid entries and ignores malformed ones', () => {
+    const rules = resolveExclusionRules({
+      STRESS: { enabled: false, minDeviationC: 0.3 },
+      ALCOHOL: { enabled: true, minDeviationC: -1 },
+      UNKNOWN: { enabled: true, minDeviationC: 0.1 },
+    });
+    expect(rules.STRESS).toEqual({ enabled: false, minDeviationC: 0.3 });
+    expect(rules.ALCOHOL).toEqual(DEFAULT_EXCLUSION_RULES.ALCOHOL);
+    expect(rules).not.toHaveProperty('UNKNOWN');
+  });
+});
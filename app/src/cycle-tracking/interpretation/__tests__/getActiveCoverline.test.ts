@@ -26,6 +26,8 @@ const engineConfirmed: ThermalShiftResult = {
   confirmingDays: [15, 16, 17],
   skippedDays: [],
   usedFourthDayException: false,
+  usedSecondException: false,
+  secondExceptionDay: null,
   confidence: 'high',
   confidenceReasons: [],
   failedAttempts: [],
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { getChartAnnotations, pickAnchorDay } from '../getChartAnnotations';
-import type { CycleDayInput, ThermalShiftResult } from '../types';
+import type { CycleDayInput, ThermalShiftPending, ThermalShiftResult } from '../types';
 
 function buildDays(tempsC: (number | null)[]): CycleDayInput[] {
   return tempsC.map((tC, i) => ({
@@ -85,6 +85,8 @@ const confirmedShift: ThermalShiftResult = {
   confirmingDays: [15, 16, 17],
   skippedDays: [],
   usedFourthDayException: false,
+  usedSecondException: false,
+  secondExceptionDay: null,
   confidence: 'high',
   confidenceReasons: [],
   failedAttempts: [],
@@ -98,6 +100,12 @@ const pendingShift: ThermalShiftResult = {
   confirmingDays: [15],
   skippedDays: [],
   usedFourthDayException: false,
+  usedSecondException: false,
+  secondExceptionDay: null,
+  nextReading: [
+    { outcome: 'pending', minC: null, maxC: 36.32, includesMin: false, via: 'second_exception' },
+    { outcome: 'pending', minC: 36.32, maxC: null, includesMin: false, via: null },
+  ],
   confidence: 'high',
   confidenceReasons: [],
   failedAttempts: [],
@@ -121,6 +129,8 @@ describe('getChartAnnotations — SUGGESTED/CONFIRMED', () => {
       confirmingDays: [15, 16, 17],
       coverlineTemp: makeCoverline(36.32),
       usedFourthDayException: false,
+      secondExceptionDay: null,
+      nextReading: null,
     });
   });
 
@@ -138,6 +148,18 @@ describe('getChartAnnotations — SUGGESTED/CONFIRMED', () => {
     expect(result?.anchorDay).toBe(14);
     expect(result?.coverlineTemp).toBe(makeCoverline(36.32));
   });
+
+  it('places the next-reading targets of a pending shift after the last recorded temperature', () => {
+    const interp = { state: 'SUGGESTED', userOverrides: null } as any;
+    const result = getChartAnnotations(fullCycleDays, interp, pendingShift);
+    expect(result?.nextReading).toEqual({ dayNumber: 18, bands: (pendingShift as ThermalShiftPending).nextReading });
+  });
+
+  it('has no next-reading targets for a pending result stored without them', () => {
+    const interp = { state: 'SUGGESTED', userOverrides: null } as any;
+    const stored = { ...pendingShift, nextReading: undefined } as any;
+    expect(getChartAnnotations(fullCycleDays, interp, stored)?.nextReading).toBeNull();
+  });
 });
 
 describe('getChartAnnotations — ADJUSTED', () => {
@@ -94,6 +94,16 @@ describe('hasMaterialChange', () => {
     expect(hasMaterialChange(baseResult, incoming)).toBe(true);
   });
 
+  it('returns true when usedSecondException changes', () => {
+    const incoming = { ...baseResult, usedSecondException: true, secondExceptionDay: 16 };
+    expect(hasMaterialChange({ ...baseResult, usedSecondException: false }, incoming)).toBe(true);
+  });
+
+  it('reads a stored result without usedSecondException as false', () => {
+    const incoming = { ...baseResult, usedSecondException: false, secondExceptionDay: null };
+    expect(hasMaterialChange(baseResult, incoming)).toBe(false);
+  });
+
   it('returns true when status changes to none', () => {
     const incoming = { status: 'none', reason: 'no_shift_detected', failedAttempts: [] };
     expect(hasMaterialChange(baseResult, incoming)).toBe(true);
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { runInterpretation } from '../sensiplan/index';
+import { getActiveFertileWindow } from '../getActiveFertileWindow';
 import type { CycleDayInput } from '../types';
 
 function day(dayNumber: number, bbt: number | null, opts?: Partial<CycleDayInput>): CycleDayInput {
@@ -60,3 +61,74 @@ describe('runInterpretation (orchestrator)', () => {
     expect(dipNudges[0].day).toBe(10);
   });
 });
+
+describe('runInterpretation — double-check fertile-window closure', () => {
+  // Temps: 6 lows on days 1-6, shift on day 7, confirmed on day 9.
+  function tempDays(): CycleDayInput[] {
+    const days: CycleDayInput[] = [];
+    for (let i = 1; i <= 6; i++) days.push(day(i, 36.2 + (i % 2) * 0.1));
+    days.push(day(7, 36.5), day(8, 36.55), day(9, 36.6));
+    for (let i = 10; i <= 14; i++) days.push(day(i, 36.6));
+    return days;
+  }
+
+  function withMucus(days: CycleDayInput[], peakDay: number): CycleDayInput[] {
+    return days.map((d) => {
+      if (d.dayNumber < peakDay - 1) return d;
+      if (d.dayNumber === peakDay - 1) return { ...d, cervicalAppearance: 'CREAMY' };
+      if (d.dayNumber === peakDay) return { ...d, cervicalAppearance: 'EGGWHITE', cervicalSensation: 'SLIPPERY' };
+      return { ...d, cervicalAppearance: 'NONE', cervicalSensation: 'DRY' };
+    });
+  }
+
+  it('stays open while only the temperature evaluation is complete', () => {
+    const result = runInterpretation(tempDays());
+    expect(result.thermalShift.status).toBe('confirmed');
+    expect(result.mucusPeak.status).toBe('none');
+    expect(result.fertileWindow).toEqual({
+      status: 'open', awaiting: ['mucus'], temperatureCompleteDay: 9, mucusCompleteDay: null,
+    });
+  });
+
+  it('closes on the temperature day when the mucus peak finished earlier', () => {
+    const result = runInterpretation(withMucus(tempDays(), 5)); // mucus complete on day 8
+    expect(result.fertileWindow).toEqual({
+      status: 'closed', infertileFromDay: 9, decidedBy: 'temperature',
+      temperatureCompleteDay: 9, mucusCompleteDay: 8,
+    });
+  });
+
+  it('closes on the mucus day when the mucus peak finished later', () => {
+    const result = runInterpretation(withMucus(tempDays(), 9)); // mucus complete on day 12
+    expect(result.fertileWindow).toEqual({
+      status: 'closed', infertileFromDay: 12, decidedBy: 'mucus',
+      temperatureCompleteDay: 9, mucusCompleteDay: 12,
+    });
+  });
+
+  it('stays open while the mucus peak is still pending', () => {
+    const days = withMucus(tempDays(), 12); // only days 13-14 after the peak
+    const result = runInterpretation(days);
+    expect(result.mucusPeak.status).toBe('pending');
+    expect(result.fertileWindow.status).toBe('open');
+  });
+
+  it('re-opens when the user dismissed the thermal shift', () => {
+    const days = withMucus(tempDays(), 5);
+    const result = runInterpretation(days);
+    const active = getActiveFertileWindow(
+      days, result, { state: 'DISMISSED', userOverrides: null }, null,
+    );
+    expect(active).toMatchObject({ status: 'open', awaiting: ['temperature'] });
+  });
+
+  it('uses the adjusted mucus peak day when the user overrode it', () => {
+    const days = withMucus(tempDays(), 9);
+    const result = runInterpretation(days);
+    // Day 10 has no mucus → the adjusted pick is invalid and the sign incomplete.
+    const active = getActiveFertileWindow(
+      days, result, null, { state: 'ADJUSTED', userOverrides: { peakDay: 10 } },
+    );
+    expect(active).toMatchObject({ status: 'open', awaiting: ['mucus'] });
+  });
+});
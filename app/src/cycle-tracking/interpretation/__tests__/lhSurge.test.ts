@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { detectLhSurge, relateSurgeToShift, type OpkDay, type OpkStatus } from '../lhSurge';
+
+/** Tests from day 1 in order; null means no test that day. */
+function series(...statuses: (OpkStatus | null)[]): OpkDay[] {
+  return statuses.map((opkStatus, i) => ({ dayNumber: i + 1, opkStatus }));
+}
+
+const L = 'low' as const;
+const R = 'rising' as const;
+const P = 'peak' as const;
+const D = 'declining' as const;
+
+describe('detectLhSurge', () => {
+  it('reports no_tests when no day has a test', () => {
+    expect(detectLhSurge(series(null, null, null))).toEqual({ status: 'none', reason: 'no_tests' });
+  });
+
+  it('reports no_peak when tests never turn positive', () => {
+    expect(detectLhSurge(series(L, L, R, R, D, L))).toEqual({ status: 'none', reason: 'no_peak' });
+  });
+
+  it('takes the last positive of a run as the peak day', () => {
+    const result = detectLhSurge(series(L, L, R, P, P, D, L));
+    expect(result).toMatchObject({ status: 'detected', surge: { startDay: 4, peakDay: 5, days: [4, 5] }, surgeCount: 1 });
+  });
+
+  it('bridges a single untested day inside a surge', () => {
+    const result = detectLhSurge(series(L, R, P, null, P, D));
+    expect(result).toMatchObject({ status: 'detected', surge: { startDay: 3, peakDay: 5, days: [3, 5] }, surgeCount: 1 });
+  });
+
+  it('splits surges separated by a negative test or a longer gap', () => {
+    expect(detectLhSurge(series(P, L, P))).toMatchObject({ surgeCount: 2 });
+    expect(detectLhSurge(series(P, null, null, P))).toMatchObject({ surgeCount: 2 });
+  });
+
+  it('ignores input order', () => {
+    const days = series(L, R, P, D).reverse();
+    expect(detectLhSurge(days)).toMatchObject({ surge: { peakDay: 3 } });
+  });
+
+  it('without a shift day takes the latest surge and relates nothing', () => {
+    const result = detectLhSurge(series(L, P, L, L, L, L, P, D));
+    expect(result).toMatchObject({ surge: { peakDay: 7 }, surgeCount: 2, relation: null });
+  });
+
+  it('with a shift day takes the latest surge starting on or before it', () => {
+    // Surges on day 2 and day 7; rise on day 9 → the day-7 surge.
+    const days = series(L, P, L, L, L, L, P, D, L, L, L, L, P);
+    const result = detectLhSurge(days, 9);
+    expect(result).toMatchObject({ surge: { peakDay: 7 }, surgeCount: 3, relation: { kind: 'typical', lagDays: 2 } });
+  });
+
+  it('falls back to the first surge when every surge follows the rise', () => {
+    const result = detectLhSurge(series(L, L, L, L, L, L, L, P, P, L, P), 5);
+    expect(result).toMatchObject({ surge: { startDay: 8, peakDay: 9 }, relation: { kind: 'rise_before_surge', lagDays: -4 } });
+  });
+});
+
+describe('relateSurgeToShift', () => {
+  const surge = { startDay: 12, peakDay: 13, days: [12, 13] };
+
+  it('accepts a rise from the surge start up to 3 days after the peak', () => {
+    expect(relateSurgeToShift(surge, 12)).toEqual({ kind: 'typical', lagDays: -1 });
+    expect(relateSurgeToShift(surge, 14)).toEqual({ kind: 'typical', lagDays: 1 });
+    expect(relateSurgeToShift(surge, 16)).toEqual({ kind: 'typical', lagDays: 3 });
+  });
+
+  it('flags a rise more than 3 days after the peak', () => {
+    expect(relateSurgeToShift(surge, 17)).toEqual({ kind: 'late_rise', lagDays: 4 });
+  });
+
+  it('flags a rise before the first positive test', () => {
+    expect(relateSurgeToShift(surge, 11)).toEqual({ kind: 'rise_before_surge', lagDays: -2 });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { calculateTimeWindow, isWithinWindow } from '../sensiplan/measurementTime';
+import { calculateTimeWindow, correctForMeasurementTime, isWithinWindow } from '../sensiplan/measurementTime';
+import { detectThermalShift } from '../sensiplan/thermalShift';
 import type { CycleDayInput } from '../types';
 
 function day(dayNumber: number, bbt: number | null, bbtTime: string | null, opts?: Partial<CycleDayInput>): CycleDayInput {
@@ -74,6 +75,17 @@ describe('calculateTimeWindow', () => {
     expect(result.segments[0].toDay).toBe(5);
     expect(result.segments[1].fromDay).toBe(6);
   });
+
+  it('keeps travel days with the same time difference in one segment', () => {
+    const days = [
+      day(1, 36.39, '06:30'), day(2, 36.44, '06:45'),
+      day(3, 36.33, '07:00'), day(4, 36.39, '06:50'),
+      day(5, 36.44, '06:35'),
+      ...[6, 7, 8, 9, 10].map((n) => day(n, 36.4, '09:40', { travelTimeDiff: 3, disturbanceFactors: ['TRAVEL'] })),
+    ];
+    const result = calculateTimeWindow(days);
+    expect(result.segments.map((s) => [s.fromDay, s.toDay])).toEqual([[1, 5], [6, 10]]);
+  });
 });
 
 describe('isWithinWindow', () => {
@@ -91,3 +103,98 @@ describe('isWithinWindow', () => {
     expect(isWithinWindow('12:00', { meanMinutes: 0, windowStart: 1380, windowEnd: 60 })).toBe(false);
   });
 });
+
+describe('correctForMeasurementTime', () => {
+  // Textbook shift from thermalShift.test.ts, every reading around 06:30.
+  const textbook = [
+    day(1, 36.2, '06:30'), day(2, 36.3, '06:40'), day(3, 36.1, '06:20'),
+    day(4, 36.3, '06:35'), day(5, 36.2, '06:30'), day(6, 36.3, '06:25'),
+    day(7, 36.45, '06:30'), day(8, 36.50, '06:45'), day(9, 36.55, '06:30'),
+  ];
+
+  // Twelve low readings at 06:40, then three "highs" that were only taken at 09:00.
+  const sleptIn = [
+    ...[36.2, 36.3, 36.1, 36.3, 36.2, 36.3, 36.2, 36.25, 36.3, 36.2, 36.3, 36.25]
+      .map((bbt, i) => day(i + 1, bbt, '06:40')),
+    day(13, 36.55, '09:00'), day(14, 36.6, '09:00'), day(15, 36.65, '09:00'),
+  ];
+
+  it('leaves on-time readings alone, so existing shift results are unchanged', () => {
+    const result = correctForMeasurementTime(textbook, 0.1);
+    expect(result.corrections).toEqual([]);
+    expect(result.days).toEqual(textbook);
+    expect(detectThermalShift(result.days)).toEqual(detectThermalShift(textbook));
+  });
+
+  it('lowers late readings by the per-hour offset', () => {
+    const result = correctForMeasurementTime(sleptIn, 0.1);
+    expect(result.corrections.map((c) => c.dayNumber)).toEqual([13, 14, 15]);
+
+    const [first] = result.corrections;
+    expect(first.rawBbt).toBe(36.55);
+    expect(first.minutesOff).toBeGreaterThan(100);
+    expect(first.correctedBbt).toBeCloseTo(36.55 - (0.1 * first.minutesOff) / 60, 10);
+  });
+
+  it('stops late readings from confirming a shift on their own', () => {
+    expect(detectThermalShift(sleptIn).status).toBe('confirmed');
+    const corrected = correctForMeasurementTime(sleptIn, 0.1).days;
+    expect(detectThermalShift(corrected).status).not.toBe('confirmed');
+  });
+
+  it('scales with the configured offset', () => {
+    const mild = correctForMeasurementTime(sleptIn, 0.05).corrections[0];
+    const strong = correctForMeasurementTime(sleptIn, 0.2).corrections[0];
+    expect(36.55 - mild.correctedBbt).toBeCloseTo((36.55 - strong.correctedBbt) / 4, 10);
+  });
+
+  it('raises early readings', () => {
+    const days = [...textbook.slice(0, 8), day(9, 36.3, '04:30')];
+    const [correction] = correctForMeasurementTime(days, 0.1).corrections;
+    expect(correction.dayNumber).toBe(9);
+    expect(correction.minutesOff).toBeLessThan(0);
+    expect(correction.correctedBbt).toBeGreaterThan(36.3);
+  });
+
+  it('reads times after a travel day on the home clock', () => {
+    // +3h time zone from day 7: 09:40 local is 06:40 at home.
+    const days = [
+      ...textbook.slice(0, 6),
+      day(7, 36.45, '09:40', { travelTimeDiff: 3, disturbanceFactors: ['TRAVEL'] }),
+      day(8, 36.50, '09:35'), day(9, 36.55, '09:30'),
+    ];
+    expect(correctForMeasurementTime(days, 0.1).corrections).toEqual([]);
+  });
+
+  it('reads the same difference entered on several travel days in a row as one time zone', () => {
+    // +3h from home on each of days 7–9: 09:30–09:40 local is on time every day.
+    const days = [
+      ...textbook.slice(0, 6),
+      day(7, 36.45, '09:40', { travelTimeDiff: 3, disturbanceFactors: ['TRAVEL'] }),
+      day(8, 36.50, '09:35', { travelTimeDiff: 3, disturbanceFactors: ['TRAVEL'] }),
+      day(9, 36.55, '09:30', { travelTimeDiff: 3, disturbanceFactors: ['TRAVEL'] }),
+    ];
+    expect(correctForMeasurementTime(days, 0.1).corrections).toEqual([]);
+  });
+
+  it('returns to the home clock after an out-and-back trip', () => {
+    // +3h on day 7, back home (0h) on day 9: 06:40 on day 9 is on time,
+    // 08:40 on day 10 is two hours late.
+    const days = [
+      ...textbook.slice(0, 6),
+      day(7, 36.45, '09:40', { travelTimeDiff: 3, disturbanceFactors: ['TRAVEL'] }),
+      day(8, 36.50, '09:35'),
+      day(9, 36.55, '06:40', { travelTimeDiff: 0, disturbanceFactors: ['TRAVEL'] }),
+      day(10, 36.60, '08:40'),
+    ];
+    const { corrections } = correctForMeasurementTime(days, 0.1);
+    expect(corrections.map((c) => c.dayNumber)).toEqual([10]);
+    expect(corrections[0].minutesOff).toBeGreaterThan(90);
+  });
+
+  it('does nothing without enough timed readings to know the usual time', () => {
+    const days = [day(1, 36.2, '06:30'), day(2, 36.3, '06:30'), day(3, 36.1, '06:30'), day(4, 36.5, '10:00')];
+    const result = correctForMeasurementTime(days, 0.1);
+    expect(result).toEqual({ days, corrections: [], usualMinutes: null });
+  });
+});
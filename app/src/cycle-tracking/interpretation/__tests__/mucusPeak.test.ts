@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { classifyMucus, detectMucusPeak, validatePeakAdjustment } from '../sensiplan/mucusPeak';
+import type { CycleDayInput } from '../types';
+
+function day(
+  dayNumber: number,
+  cervicalAppearance: string | null,
+  cervicalSensation: string | null,
+): CycleDayInput {
+  return {
+    dayNumber, bbt: null, bbtTime: null,
+    excludeFromInterpretation: false, disturbanceFactors: [], travelTimeDiff: null,
+    cervicalAppearance, cervicalSensation,
+  };
+}
+
+describe('classifyMucus', () => {
+  it('returns null when nothing was observed', () => {
+    expect(classifyMucus(null, null)).toBeNull();
+  });
+
+  it('maps sensation-only observations', () => {
+    expect(classifyMucus(null, 'DRY')).toBe('d');
+    expect(classifyMucus(null, 'DAMP')).toBe('m');
+    expect(classifyMucus(null, 'WET')).toBe('m+');
+    expect(classifyMucus(null, 'SLIPPERY')).toBe('S+');
+  });
+
+  it('maps appearance-only observations', () => {
+    expect(classifyMucus('NONE', null)).toBe('∅');
+    expect(classifyMucus('STICKY', null)).toBe('S');
+    expect(classifyMucus('CREAMY', null)).toBe('S');
+    expect(classifyMucus('WATERY', null)).toBe('S+');
+    expect(classifyMucus('EGGWHITE', null)).toBe('S+');
+  });
+
+  it('takes the higher of sensation and appearance', () => {
+    expect(classifyMucus('NONE', 'DRY')).toBe('d');
+    expect(classifyMucus('CREAMY', 'DRY')).toBe('S');
+    expect(classifyMucus('STICKY', 'SLIPPERY')).toBe('S+');
+  });
+});
+
+describe('detectMucusPeak', () => {
+  it('returns insufficient_data with no observations', () => {
+    const result = detectMucusPeak([day(1, null, null), day(2, null, null)]);
+    expect(result).toEqual({ status: 'none', reason: 'insufficient_data' });
+  });
+
+  it('returns no_peak_detected when only dry days are observed', () => {
+    const result = detectMucusPeak([day(1, null, 'DRY'), day(2, 'NONE', null)]);
+    expect(result).toEqual({ status: 'none', reason: 'no_peak_detected' });
+  });
+
+  it('confirms the peak after 3 lower-quality days', () => {
+    const days = [
+      day(8, null, 'DRY'), day(9, 'CREAMY', 'DAMP'), day(10, 'EGGWHITE', 'SLIPPERY'),
+      day(11, 'EGGWHITE', 'WET'), day(12, 'CREAMY', null), day(13, null, 'DRY'),
+      day(14, null, 'DRY'),
+    ];
+    const result = detectMucusPeak(days);
+    expect(result.status).toBe('confirmed');
+    if (result.status === 'confirmed') {
+      expect(result.peakDay).toBe(11);
+      expect(result.peakQuality).toBe('S+');
+      expect(result.postPeakDays).toEqual([12, 13, 14]);
+    }
+  });
+
+  it('returns pending while post-peak days are still being recorded', () => {
+    const days = [day(9, 'CREAMY', null), day(10, 'WATERY', null), day(11, 'STICKY', null)];
+    const result = detectMucusPeak(days);
+    expect(result.status).toBe('pending');
+    if (result.status === 'pending') {
+      expect(result.peakDay).toBe(10);
+      expect(result.postPeakDays).toEqual([11]);
+    }
+  });
+
+  it('does not propose a peak on the last observed day', () => {
+    const days = [day(9, 'CREAMY', null), day(10, 'WATERY', null)];
+    expect(detectMucusPeak(days).status).toBe('none');
+  });
+
+  it('moves the peak forward when peak quality returns', () => {
+    const days = [
+      day(10, 'EGGWHITE', null), day(11, 'CREAMY', null), day(12, 'CREAMY', null),
+      day(13, 'EGGWHITE', null), day(14, 'STICKY', null),
+    ];
+    const result = detectMucusPeak(days);
+    expect(result.status).toBe('pending');
+    if (result.status === 'pending') expect(result.peakDay).toBe(13);
+  });
+
+  it('stays pending when a post-peak day was not observed', () => {
+    const days = [
+      day(10, 'EGGWHITE', null), day(11, 'CREAMY', null),
+      day(13, null, 'DRY'), day(14, null, 'DRY'),
+    ];
+    const result = detectMucusPeak(days);
+    expect(result.status).toBe('pending');
+    if (result.status === 'pending') expect(result.postPeakDays).toEqual([11]);
+  });
+});
+
+describe('validatePeakAdjustment', () => {
+  const days = [
+    day(9, 'CREAMY', null), day(10, 'WATERY', null), day(11, 'STICKY', null),
+    day(12, null, 'DRY'), day(13, null, 'DRY'),
+  ];
+
+  it('accepts a pick followed by 3 lower days', () => {
+    const v = validatePeakAdjustment(days, 10);
+    expect(v).toMatchObject({ kind: 'valid', status: 'confirmed', postPeakDays: [11, 12, 13] });
+  });
+
+  it('rejects a pick followed by equal or higher quality', () => {
+    const v = validatePeakAdjustment(days, 9);
+    expect(v).toEqual({ kind: 'invalid', reason: 'not_followed_by_lower_quality', failedOnDay: 10 });
+  });
+
+  it('rejects a pick without an observation or without mucus', () => {
+    expect(validatePeakAdjustment(days, 20)).toEqual({ kind: 'invalid', reason: 'picked_day_no_observation' });
+    expect(validatePeakAdjustment(days, 12)).toEqual({ kind: 'invalid', reason: 'no_mucus_on_picked_day' });
+  });
+});
@@ -60,7 +60,7 @@ describe('generateNudges', () => {
         status: 'confirmed',
         shiftDay: 7, coverlineTemp: 36.3,
         referenceDays: [1, 2, 3, 4, 5, 6], confirmingDays: [7, 8, 9],
-        skippedDays: [], usedFourthDayException: false,
+        skippedDays: [], usedFourthDayException: false, usedSecondException: false, secondExceptionDay: null,
         confidence: 'high', confidenceReasons: [], failedAttempts: [],
       };
       const days = [
@@ -80,7 +80,7 @@ describe('generateNudges', () => {
         status: 'confirmed',
         shiftDay: 7, coverlineTemp: 36.3,
         referenceDays: [1, 2, 3, 4, 5, 6], confirmingDays: [7, 8, 9],
-        skippedDays: [], usedFourthDayException: false,
+        skippedDays: [], usedFourthDayException: false, usedSecondException: false, secondExceptionDay: null,
         confidence: 'high', confidenceReasons: [], failedAttempts: [],
       };
       const days = [
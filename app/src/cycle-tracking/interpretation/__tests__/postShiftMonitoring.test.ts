@@ -127,4 +127,37 @@ describe('monitorPostShift', () => {
     expect(result.dipsBelow).toHaveLength(0); // excluded day not counted
     expect(result.daysMonitored).toBe(1); // only day 11
   });
+
+  it('counts high temps from the shift day and indicates pregnancy after more than 18', () => {
+    const highs = (from: number, to: number) =>
+      Array.from({ length: to - from + 1 }, (_, i) => day(from + i, 36.6));
+
+    const eighteen = monitorPostShift(highs(7, 24), shiftDay, coverlineC, lastConfirmDay, []);
+    expect(eighteen.highTemps).toBe(18);
+    expect(eighteen.pregnancyIndication).toBe(false);
+
+    const nineteen = monitorPostShift(highs(7, 25), shiftDay, coverlineC, lastConfirmDay, []);
+    expect(nineteen.highTemps).toBe(19);
+    expect(nineteen.pregnancyIndication).toBe(true);
+  });
+
+  it('does not count excluded days or dips as high temps', () => {
+    const days = [
+      ...Array.from({ length: 19 }, (_, i) => day(7 + i, 36.6)),
+      day(26, 36.6, { excludeFromInterpretation: true }),
+      day(27, 36.2, { disturbanceFactors: ['ILLNESS_FEVER'] }),
+    ];
+    const result = monitorPostShift(days, shiftDay, coverlineC, lastConfirmDay, []);
+    expect(result.highTemps).toBe(19);
+  });
+
+  it('withholds the pregnancy indication while a false-rise warning is active', () => {
+    const days = [
+      ...Array.from({ length: 19 }, (_, i) => day(7 + i, 36.6)),
+      day(26, 36.2), day(27, 36.1), day(28, 36.25),
+    ];
+    const result = monitorPostShift(days, shiftDay, coverlineC, lastConfirmDay, []);
+    expect(result.falseRiseWarning).toBe('active');
+    expect(result.pregnancyIndication).toBe(false);
+  });
 });
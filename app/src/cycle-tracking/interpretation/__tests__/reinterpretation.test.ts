@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { getEngine, type InterpretationEngine } from '../engines';
+import { decideReinterpretation, isOutdated, type StampedInterpretation } from '../reinterpretation';
+import type { CycleDayInput } from '../types';
+
+function day(dayNumber: number, bbt: number | null, opts?: Partial<CycleDayInput>): CycleDayInput {
+  return {
+    dayNumber, bbt, bbtTime: null,
+    excludeFromInterpretation: false, disturbanceFactors: [], travelTimeDiff: null,
+    ...opts,
+  };
+}
+
+/** Coverline 36.30; the 3rd high misses +0.2, so Sensiplan needs a 4th. */
+const LOW_RISE = [
+  day(1, 36.2), day(2, 36.3), day(3, 36.1),
+  day(4, 36.3), day(5, 36.2), day(6, 36.3),
+  day(7, 36.40), day(8, 36.45), day(9, 36.42), day(10, 36.50),
+];
+
+const sensiplan = getEngine('sensiplan');
+
+/** Sensiplan one version on, confirming without the 4th-day exception. */
+const bumped: InterpretationEngine = {
+  ...getEngine('three_over_six'),
+  id: 'sensiplan',
+  version: sensiplan.version + 1,
+  name: 'Sensiplan',
+};
+
+function row(over: Partial<StampedInterpretation>): StampedInterpretation {
+  return {
+    type: 'THERMAL_SHIFT',
+    state: 'CONFIRMED',
+    engineResult: sensiplan.run(LOW_RISE).thermalShift,
+    engineId: 'sensiplan',
+    engineVersion: sensiplan.version,
+    userOverrides: null,
+    ...over,
+  };
+}
+
+describe('isOutdated', () => {
+  it('flags unstamped rows, older versions and other engines', () => {
+    expect(isOutdated(row({}), sensiplan)).toBe(false);
+    expect(isOutdated(row({ engineId: null, engineVersion: null }), sensiplan)).toBe(true);
+    expect(isOutdated(row({}), bumped)).toBe(true);
+    expect(isOutdated(row({}), getEngine('three_over_six'))).toBe(true);
+  });
+});
+
+describe('decideReinterpretation', () => {
+  it('sends a confirmed row to review citing the version change when the result changes materially', () => {
+    const decision = decideReinterpretation(row({}), LOW_RISE, bumped.run(LOW_RISE), bumped);
+    expect(decision.kind).toBe('review');
+    if (decision.kind !== 'review') return;
+    expect(decision.reviewReason).toContain(`v${sensiplan.version} → v${bumped.version}`);
+    expect(decision.engineResult).toMatchObject({ shiftDay: 7, usedFourthDayException: false });
+  });
+
+  it('refreshes a confirmed row silently when nothing material changed', () => {
+    const decision = decideReinterpretation(row({ engineVersion: null }), LOW_RISE, sensiplan.run(LOW_RISE), sensiplan);
+    expect(decision.kind).toBe('refresh');
+  });
+
+  it('refreshes suggested and dismissed rows without review', () => {
+    const result = bumped.run(LOW_RISE);
+    expect(decideReinterpretation(row({ state: 'SUGGESTED' }), LOW_RISE, result, bumped).kind).toBe('refresh');
+    expect(decideReinterpretation(row({ state: 'DISMISSED' }), LOW_RISE, result, bumped).kind).toBe('refresh');
+  });
+
+  it('deletes a suggested row the new rules no longer support', () => {
+    const strict = getEngine('temperature_only');
+    expect(decideReinterpretation(row({ state: 'SUGGESTED' }), LOW_RISE, strict.run(LOW_RISE), strict))
+      .toEqual({ kind: 'delete' });
+  });
+
+  it('keeps an adjusted row whose pick still holds, reviews it when the shift is lost', () => {
+    const adjusted = row({ state: 'ADJUSTED', userOverrides: { shiftDay: 7 } });
+    expect(decideReinterpretation(adjusted, LOW_RISE, bumped.run(LOW_RISE), bumped).kind).toBe('refresh');
+
+    const strict = getEngine('temperature_only');
+    const decision = decideReinterpretation(adjusted, LOW_RISE, strict.run(LOW_RISE), strict);
+    expect(decision.kind).toBe('review');
+    if (decision.kind !== 'review') return;
+    expect(decision.reviewReason).toMatch(/^Your interpretation rules changed to 3 over 6 with 0\.3 °F/);
+    expect(decision.reviewReason).toContain('engine_lost_shift');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getEngine, listAllEngines } from '../engines';
+import { reinterpretOutdatedCycles } from '../reinterpretationJob';
+
+type Row = {
+  id: string;
+  type: 'THERMAL_SHIFT';
+  state: 'SUGGESTED' | 'DISMISSED';
+  engineResult: unknown;
+  engineId: string | null;
+  engineVersion: number | null;
+  userOverrides: null;
+  cycle: { userId: string; specialSituation: null; days: object[] };
+};
+
+function isOutdatedStamp(row: Row): boolean {
+  const engine = listAllEngines().find((e) => e.id === row.engineId);
+  return !engine || row.engineVersion === null || row.engineVersion < engine.version;
+}
+
+/**
+ * In-memory CycleInterpretation with the parts of findMany the job uses:
+ * the outdated filter, `id: { gt }` paging, and Prisma's cursor semantics
+ * (an empty page when the cursor row no longer matches).
+ */
+function fakeEntities(rows: Row[]) {
+  const stored = new Map(rows.map((row) => [row.id, row]));
+  const findMany = async (args: any) => {
+    let matches = [...stored.values()]
+      .filter(isOutdatedStamp)
+      .filter((row) => !args.where.id?.gt || row.id > args.where.id.gt)
+      .sort((a, b) => a.id.localeCompare(b.id));
+    if (args.cursor) {
+      const at = matches.findIndex((row) => row.id === args.cursor.id);
+      matches = at < 0 ? [] : matches.slice(at + (args.skip ?? 0));
+    }
+    return matches.slice(0, args.take);
+  };
+  return {
+    stored,
+    entities: {
+      CycleInterpretation: {
+        findMany,
+        update: async ({ where, data }: any) => Object.assign(stored.get(where.id)!, data),
+        delete: async ({ where }: any) => stored.delete(where.id),
+      },
+      UserSettings: { findUnique: async () => null },
+      Logs: { create: async () => ({}) },
+    },
+  };
+}
+
+const FLAT_DAYS = Array.from({ length: 10 }, (_, i) => ({
+  dayNumber: i + 1,
+  bbt: 36.3,
+  bbtTime: null,
+  excludeFromInterpretation: false,
+  disturbanceFactors: [],
+  travelTimeDiff: null,
+}));
+
+describe('reinterpretOutdatedCycles', () => {
+  it('reaches every outdated row across pages while rows are deleted and re-stamped', async () => {
+    // More than two pages of unstamped rows on cycles with flat temperatures:
+    // the engine finds no shift, so suggestions are deleted and dismissals kept.
+    const rows: Row[] = Array.from({ length: 450 }, (_, i) => ({
+      id: `row-${String(i).padStart(4, '0')}`,
+      type: 'THERMAL_SHIFT',
+      state: i % 3 === 0 ? 'SUGGESTED' : 'DISMISSED',
+      engineResult: { status: 'none' },
+      engineId: null,
+      engineVersion: null,
+      userOverrides: null,
+      cycle: { userId: 'user-1', specialSituation: null, days: FLAT_DAYS },
+    }));
+    const { stored, entities } = fakeEntities(rows);
+
+    await reinterpretOutdatedCycles(undefined as never, { entities } as any);
+
+    const sensiplan = getEngine('sensiplan');
+    expect(stored.size).toBe(300);
+    expect([...stored.values()].every((row) => row.state === 'DISMISSED')).toBe(true);
+    expect([...stored.values()].every((row) => row.engineVersion === sensiplan.version)).toBe(true);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { detectThermalShift } from '../sensiplan/thermalShift';
+import { detectThermalShift, explainThermalShift, SENSIPLAN_THERMAL_RULES } from '../sensiplan/thermalShift';
 import type { CycleDayInput } from '../types';
 
 function day(dayNumber: number, bbt: number | null, opts?: Partial<CycleDayInput>): CycleDayInput {
@@ -125,7 +125,8 @@ describe('detectThermalShift', () => {
 
   describe('failed attempts and resume scanning', () => {
     it('records failed attempt and finds shift later', () => {
-      // day7=36.35 is above the 36.3 coverline (days 1-6) but fails when day8=36.20 drops below.
+      // day7=36.35 is above the 36.3 coverline (days 1-6); day8=36.20 drops below and is set
+      // aside (second exception), but day9=36.3 drops too, so the attempt fails on day 9.
       // day11=36.45 is above the new 36.35 coverline (days 5-10) and gets confirmed by days 12,13.
       const days = [
         day(1, 36.2), day(2, 36.3), day(3, 36.1),
@@ -143,7 +144,7 @@ describe('detectThermalShift', () => {
         expect(result.shiftDay).toBe(11);
         expect(result.failedAttempts).toHaveLength(1);
         expect(result.failedAttempts[0].attemptedShiftDay).toBe(7);
-        expect(result.failedAttempts[0].failedOnDay).toBe(8);
+        expect(result.failedAttempts[0].failedOnDay).toBe(9);
       }
     });
   });
@@ -222,3 +223,225 @@ describe('detectThermalShift', () => {
     });
   });
 });
+
+describe('progesterone caution', () => {
+  const lows = [
+    day(1, 36.2), day(2, 36.3), day(3, 36.1),
+    day(4, 36.3), day(5, 36.2), day(6, 36.3),
+  ];
+
+  it('still finds the shift but lowers confidence and says why', () => {
+    const result = detectThermalShift([
+      ...lows, day(7, 36.45, { progesterone: true }), day(8, 36.50, { progesterone: true }), day(9, 36.55),
+    ]);
+    expect(result).toMatchObject({ status: 'confirmed', shiftDay: 7, confidence: 'low' });
+    if (result.status !== 'confirmed') return;
+    expect(result.confidenceReasons).toHaveLength(1);
+    expect(result.confidenceReasons[0]).toContain('Progesterone was taken on Days 7–8.');
+  });
+
+  it('ignores progesterone started after the shift was confirmed', () => {
+    const result = detectThermalShift([
+      ...lows, day(7, 36.45), day(8, 36.50), day(9, 36.55), day(10, 36.6, { progesterone: true }),
+    ]);
+    expect(result).toMatchObject({ status: 'confirmed', confidence: 'high', confidenceReasons: [] });
+  });
+
+  it('applies to a pending shift', () => {
+    const result = detectThermalShift([...lows, day(7, 36.45), day(8, null, { progesterone: true })]);
+    expect(result).toMatchObject({ status: 'pending', confidence: 'low' });
+  });
+});
+
+describe('explainThermalShift', () => {
+  it('returns the same result as detectThermalShift', () => {
+    const days = [
+      day(1, 36.2), day(2, 36.3), day(3, 36.1),
+      day(4, 36.3), day(5, 36.2), day(6, 36.3),
+      day(7, 36.35), day(8, 36.20),
+      day(9, 36.3), day(10, 36.2),
+      day(11, 36.45), day(12, 36.50), day(13, 36.60),
+    ];
+    expect(explainThermalShift(days).result).toEqual(detectThermalShift(days));
+  });
+
+  it('traces every candidate with its reference lows, coverline and checks', () => {
+    const days = [
+      day(1, 36.2), day(2, 36.3), day(3, 36.1),
+      day(4, 36.3), day(5, 36.2), day(6, 36.3),
+      day(7, 36.35), day(8, 36.20),
+      day(9, 36.3), day(10, 36.2),
+      day(11, 36.45), day(12, 36.50), day(13, 36.60),
+    ];
+    const { candidates } = explainThermalShift(days);
+
+    expect(candidates.map((c) => [c.dayNumber, c.outcome])).toEqual([
+      [1, 'no_reference'], [2, 'no_reference'], [3, 'no_reference'],
+      [4, 'no_reference'], [5, 'no_reference'], [6, 'no_reference'],
+      [7, 'failed'],
+      // Scanning resumes after the failing day 9.
+      [10, 'not_above_coverline'],
+      [11, 'confirmed'],
+    ]);
+
+    const failed = candidates[6];
+    expect(failed.coverlineTemp).toBe(36.3);
+    expect(failed.referenceDays.map((r) => r.dayNumber)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(failed.checks).toEqual([
+      { dayNumber: 8, tempC: 36.2, position: 2, aboveCoverline: false, plusThreshold: null, setAside: true },
+      { dayNumber: 9, tempC: 36.3, position: 2, aboveCoverline: false, plusThreshold: null, setAside: false },
+    ]);
+
+    const confirmed = candidates[8];
+    expect(confirmed.referenceDays).toEqual([
+      { dayNumber: 5, tempC: 36.2 }, { dayNumber: 6, tempC: 36.3 }, { dayNumber: 7, tempC: 36.35 },
+      { dayNumber: 8, tempC: 36.2 }, { dayNumber: 9, tempC: 36.3 }, { dayNumber: 10, tempC: 36.2 },
+    ]);
+    expect(confirmed.checks[1]).toMatchObject({ dayNumber: 13, position: 3, plusThreshold: { met: true } });
+    expect(confirmed.checks[1].plusThreshold!.requiredC).toBeCloseTo(36.55);
+  });
+
+  it('records the missed +0.2 test and the fourth-day exception', () => {
+    const days = [
+      day(1, 36.2), day(2, 36.3), day(3, 36.1),
+      day(4, 36.3), day(5, 36.2), day(6, 36.3),
+      day(7, 36.45), day(8, 36.40), day(9, 36.48), day(10, 36.42),
+    ];
+    const shift = explainThermalShift(days).candidates.find((c) => c.outcome === 'confirmed')!;
+
+    expect(shift.usedFourthDayException).toBe(true);
+    expect(shift.checks.map((c) => [c.position, c.aboveCoverline, c.plusThreshold?.met ?? null])).toEqual([
+      [2, true, null],
+      [3, true, false],
+      [4, true, null],
+    ]);
+  });
+
+  it('lists excluded days skipped while collecting reference lows', () => {
+    const days = [
+      day(1, 36.2), day(2, 36.3), day(3, 36.1),
+      day(4, 36.6, { excludeFromInterpretation: true }),
+      day(5, 36.3), day(6, 36.2), day(7, 36.3),
+      day(8, 36.45),
+    ];
+    const candidate = explainThermalShift(days).candidates.find((c) => c.dayNumber === 8)!;
+    expect(candidate.skippedDays).toEqual([4]);
+    expect(candidate.outcome).toBe('pending');
+  });
+});
+
+describe('second exception', () => {
+  // Coverline 36.30 from days 1-6.
+  const lows = [
+    day(1, 36.2), day(2, 36.3), day(3, 36.1),
+    day(4, 36.3), day(5, 36.2), day(6, 36.3),
+  ];
+
+  it('sets aside a dropped 2nd higher temp and counts the next ones', () => {
+    const result = detectThermalShift([...lows, day(7, 36.45), day(8, 36.25), day(9, 36.45), day(10, 36.55)]);
+    expect(result).toMatchObject({
+      status: 'confirmed',
+      shiftDay: 7,
+      confirmingDays: [7, 9, 10],
+      usedFourthDayException: false,
+      usedSecondException: true,
+      secondExceptionDay: 8,
+    });
+  });
+
+  it('sets aside a dropped 3rd higher temp when the next clears +0.2', () => {
+    const result = detectThermalShift([...lows, day(7, 36.45), day(8, 36.40), day(9, 36.30), day(10, 36.50)]);
+    expect(result).toMatchObject({ status: 'confirmed', confirmingDays: [7, 8, 10], secondExceptionDay: 9 });
+  });
+
+  it('does not add the 4th-day exception after a set-aside temp', () => {
+    const result = detectThermalShift([...lows, day(7, 36.45), day(8, 36.40), day(9, 36.30), day(10, 36.45)]);
+    expect(result.status).not.toBe('confirmed');
+    expect(result.failedAttempts[0]).toMatchObject({
+      attemptedShiftDay: 7,
+      failedOnDay: 10,
+      failureReason: 'Temperature on Day 10 did not reach coverline +0.20°C',
+    });
+  });
+
+  it('does not set aside a drop while the 4th-day exception is pending', () => {
+    const result = detectThermalShift([...lows, day(7, 36.45), day(8, 36.40), day(9, 36.45), day(10, 36.30)]);
+    expect(result.status).not.toBe('confirmed');
+    expect(result.failedAttempts[0]).toMatchObject({ attemptedShiftDay: 7, failedOnDay: 10 });
+  });
+
+  it('waits for the stand-in temp when the drop is the latest entry', () => {
+    const result = detectThermalShift([...lows, day(7, 36.45), day(8, 36.25)]);
+    expect(result).toMatchObject({ status: 'pending', confirmingDays: [7], usedSecondException: true, secondExceptionDay: 8 });
+  });
+
+  it('is off for rule sets without it', () => {
+    const rules = { ...SENSIPLAN_THERMAL_RULES, secondException: false };
+    const result = detectThermalShift([...lows, day(7, 36.45), day(8, 36.25), day(9, 36.45), day(10, 36.55)], rules);
+    expect(result.failedAttempts[0]).toMatchObject({ attemptedShiftDay: 7, failedOnDay: 8 });
+  });
+});
+
+describe('next reading targets', () => {
+  // Coverline 36.30 from days 1-6.
+  const lows = [
+    day(1, 36.2), day(2, 36.3), day(3, 36.1),
+    day(4, 36.3), day(5, 36.2), day(6, 36.3),
+  ];
+
+  function nextReading(days: CycleDayInput[]) {
+    const result = detectThermalShift(days);
+    if (result.status !== 'pending') throw new Error(`expected pending, got ${result.status}`);
+    return result.nextReading;
+  }
+
+  it('after the first higher temp, keeps pending either way', () => {
+    expect(nextReading([...lows, day(7, 36.45)])).toEqual([
+      { outcome: 'pending', minC: null, maxC: 36.3, includesMin: false, via: 'second_exception' },
+      { outcome: 'pending', minC: 36.3, maxC: null, includesMin: false, via: null },
+    ]);
+  });
+
+  it('after two higher temps, splits at the coverline and at +0.2', () => {
+    expect(nextReading([...lows, day(7, 36.45), day(8, 36.40)])).toEqual([
+      { outcome: 'pending', minC: null, maxC: 36.3, includesMin: false, via: 'second_exception' },
+      { outcome: 'pending', minC: 36.3, maxC: 36.5, includesMin: false, via: 'fourth_day' },
+      { outcome: 'confirms', minC: 36.5, maxC: null, includesMin: true, via: null },
+    ]);
+  });
+
+  it('while the 4th-day exception waits, anything above the coverline confirms', () => {
+    expect(nextReading([...lows, day(7, 36.45), day(8, 36.40), day(9, 36.45)])).toEqual([
+      { outcome: 'fails', minC: null, maxC: 36.3, includesMin: false, via: null },
+      { outcome: 'confirms', minC: 36.3, maxC: null, includesMin: false, via: null },
+    ]);
+  });
+
+  it('after a set-aside temp, the next counted temp must reach +0.2 on its own', () => {
+    expect(nextReading([...lows, day(7, 36.45), day(8, 36.25), day(9, 36.45)])).toEqual([
+      { outcome: 'fails', minC: null, maxC: 36.5, includesMin: false, via: null },
+      { outcome: 'confirms', minC: 36.5, maxC: null, includesMin: true, via: null },
+    ]);
+  });
+
+  it('matches what the engine does with the next reading', () => {
+    const scenarios = [
+      [...lows, day(7, 36.45), day(8, 36.40)],
+      [...lows, day(7, 36.45), day(8, 36.40), day(9, 36.45)],
+      [...lows, day(7, 36.45), day(8, 36.25), day(9, 36.45)],
+    ];
+    for (const days of scenarios) {
+      const bands = nextReading(days);
+      const next = days[days.length - 1].dayNumber + 1;
+      for (const tempC of [36.1, 36.3, 36.31, 36.45, 36.5, 36.7]) {
+        const band = bands.filter((b) =>
+          b.minC === null || tempC > b.minC || (b.includesMin && tempC === b.minC),
+        ).pop()!;
+        const result = detectThermalShift([...days, day(next, tempC)]);
+        const status = result.status !== 'none' && result.shiftDay === 7 ? result.status : 'failed';
+        expect(status, `${tempC}°C on Day ${next}`)
+          .toBe({ confirms: 'confirmed', pending: 'pending', fails: 'failed' }[band.outcome]);
+      }
+    }
+  });
+});
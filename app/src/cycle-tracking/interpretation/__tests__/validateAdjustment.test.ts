@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { validateAdjustment } from '../sensiplan/validateAdjustment';
+import { SENSIPLAN_THERMAL_RULES } from '../sensiplan/thermalShift';
 import type { CycleDayInput } from '../types';
 
 // Helper: build CycleDayInput[] from a sequence of °C temperatures.
@@ -70,17 +71,33 @@ describe('validateAdjustment', () => {
     expect(result.status).toBe('pending');
   });
 
-  it('5. returns invalid when a confirming temp drops at/below coverline', () => {
+  it('5. returns invalid when two confirming temps drop at/below coverline', () => {
     const days = buildDays([
       36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32,
-      36.55, 36.30, 36.55, 36.55, 36.55, 36.55, 36.55,
+      36.55, 36.30, 36.30, 36.55, 36.55, 36.55, 36.55,
     ]);
     const result = validateAdjustment(days, 15);
     expect(result.kind).toBe('invalid');
     if (result.kind !== 'invalid') return;
     expect(result.reason).toBe('rule_broken');
     if (result.reason !== 'rule_broken') return;
-    expect(result.failedOnDay).toBe(16);
+    expect(result.failedOnDay).toBe(17);
+  });
+
+  it('5b. sets one dropped confirming temp aside (second exception)', () => {
+    const days = buildDays([
+      36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32,
+      36.55, 36.30, 36.55, 36.55, 36.55, 36.55, 36.55,
+    ]);
+    const result = validateAdjustment(days, 15);
+    expect(result).toMatchObject({
+      kind: 'valid',
+      status: 'confirmed',
+      confirmingDays: [15, 17, 18],
+      usedFourthDayException: false,
+      usedSecondException: true,
+      secondExceptionDay: 16,
+    });
   });
 
   it('6. returns invalid when 3rd does not clear +0.2°C and 4th day also at/below coverline', () => {
@@ -221,4 +238,17 @@ describe('validateAdjustment', () => {
     const result = validateAdjustment(days, 15);
     expect(result.kind).toBe('valid');
   });
+
+  it('17. validates against the rule set it is given, not always Sensiplan', () => {
+    // 3rd higher temp short of +0.2 °C, 4th above the coverline: Sensiplan
+    // confirms with the 4th-day exception; a rule set without it does not.
+    const days = buildDays([
+      36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32, 36.28, 36.30, 36.32,
+      36.50, 36.45, 36.40, 36.45, 36.50, 36.50, 36.50,
+    ]);
+    const noExceptions = { ...SENSIPLAN_THERMAL_RULES, fourthDayException: false, secondException: false };
+
+    expect(validateAdjustment(days, 15)).toMatchObject({ kind: 'valid', usedFourthDayException: true });
+    expect(validateAdjustment(days, 15, noExceptions)).toEqual({ kind: 'invalid', reason: 'rule_broken', failedOnDay: 17 });
+  });
 });
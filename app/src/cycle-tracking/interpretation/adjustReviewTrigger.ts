@@ -1,5 +1,7 @@
-import type { CycleDayInput, ThermalShiftResult } from './types';
+import type { CycleDayInput, MucusPeakResult, ThermalShiftResult, ThermalShiftRules } from './types';
 import { validateAdjustment } from './sensiplan/validateAdjustment';
+import { SENSIPLAN_THERMAL_RULES } from './sensiplan/thermalShift';
+import { validatePeakAdjustment } from './sensiplan/mucusPeak';
 
 export type AdjustReviewDecision =
   | { trigger: false }
@@ -10,7 +12,7 @@ export type AdjustReviewDecision =
  *
  * Rule (per spec): trigger only when
  *   (a) validateAdjustment returns invalid (user's pick no longer satisfies
- *       Sensiplan rules with current data), OR
+ *       the rule set's rules with current data), OR
  *   (b) engineResult.status === 'none' (engine lost the shift entirely).
  *
  * The previous hasMaterialChange check is dropped for ADJUSTED state — engine
@@ -21,6 +23,7 @@ export function shouldTriggerReviewForAdjusted(
   days: CycleDayInput[],
   userShiftDay: number,
   newEngineResult: ThermalShiftResult,
+  rules: ThermalShiftRules = SENSIPLAN_THERMAL_RULES,
 ): AdjustReviewDecision {
   if (newEngineResult.status === 'none') {
     return {
@@ -29,7 +32,34 @@ export function shouldTriggerReviewForAdjusted(
     };
   }
 
-  const validation = validateAdjustment(days, userShiftDay);
+  const validation = validateAdjustment(days, userShiftDay, rules);
+  if (validation.kind === 'invalid') {
+    return {
+      trigger: true,
+      reason: `invalid_pick: ${validation.reason}`,
+    };
+  }
+
+  return { trigger: false };
+}
+
+/**
+ * Mucus peak counterpart of shouldTriggerReviewForAdjusted: review only when
+ * the engine lost the peak or the user's picked peak day no longer holds.
+ */
+export function shouldTriggerReviewForAdjustedPeak(
+  days: CycleDayInput[],
+  userPeakDay: number,
+  newEngineResult: MucusPeakResult,
+): AdjustReviewDecision {
+  if (newEngineResult.status === 'none') {
+    return {
+      trigger: true,
+      reason: 'engine_lost_peak: The observations no longer support a mucus peak.',
+    };
+  }
+
+  const validation = validatePeakAdjustment(days, userPeakDay);
   if (validation.kind === 'invalid') {
     return {
       trigger: true,
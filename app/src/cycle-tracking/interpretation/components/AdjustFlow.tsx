@@ -1,6 +1,6 @@
 // app/src/cycle-tracking/interpretation/components/AdjustFlow.tsx
 import { useState, useMemo } from 'react';
-import type { ThermalShiftResult, UserOverrides, CycleDayInput } from '../types';
+import type { ThermalShiftResult, ThermalShiftRules, UserOverrides, CycleDayInput } from '../types';
 import { btn, card, header, footer } from './cardStyles';
 import { validateAdjustment, type AdjustValidation } from '../sensiplan/validateAdjustment';
 
@@ -9,6 +9,8 @@ type AdjustFlowProps = {
   days: CycleDayInput[];
   cycleStartDate: Date;
   existingOverrides?: UserOverrides;
+  /** Rule set the pick is validated against (the selected engine's) */
+  thermalRules: ThermalShiftRules;
   onSave: (overrides: UserOverrides) => Promise<void>;
   onRevert: () => Promise<void>;
   onCancel: () => void;
@@ -48,7 +50,7 @@ function reasonMessage(v: Extract<AdjustValidation, { kind: 'invalid' }>, picked
 }
 
 export function AdjustFlow({
-  currentResult, days, cycleStartDate, existingOverrides,
+  currentResult, days, cycleStartDate, existingOverrides, thermalRules,
   onSave, onRevert, onCancel,
 }: AdjustFlowProps) {
   const enginePick = currentResult.status !== 'none' ? currentResult.shiftDay : null;
@@ -57,8 +59,8 @@ export function AdjustFlow({
   const [saving, setSaving] = useState(false);
 
   const validation = useMemo(
-    () => validateAdjustment(days, shiftDay),
-    [days, shiftDay],
+    () => validateAdjustment(days, shiftDay, thermalRules),
+    [days, shiftDay, thermalRules],
   );
 
   const canSave = validation.kind === 'valid' && !saving;
@@ -251,6 +253,12 @@ export function AdjustFlow({
                 })}
               </tbody>
             </table>
+            {validation.usedSecondException && validation.secondExceptionDay !== null && (
+              <div className="mt-2 text-xs text-amber-800">
+                Day {validation.secondExceptionDay} fell to or below the coverline and is not counted (second
+                exception), so the 3rd higher temp must clear +0.2 °C.
+              </div>
+            )}
           </div>
         )}
 
@@ -48,6 +48,17 @@ export function ConfirmedCard({ result, onConfirm, onAdjust, onReject }: Props)
             ℹ️ The 3rd temp didn't reach +0.2°C. A 4th consecutive elevated temp confirms the shift (standard Sensiplan rule).
           </div>
         )}
+        {result.usedSecondException && result.secondExceptionDay !== null && (
+          <div className="p-2 bg-amber-50 rounded-md border border-amber-200 text-xs text-amber-800">
+            ℹ️ Day {result.secondExceptionDay} fell to or below the coverline and is not counted. The next
+            temperatures stand in for it (Sensiplan second exception).
+          </div>
+        )}
+        {result.confidenceReasons.length > 0 && (
+          <div className="p-2 bg-amber-50 rounded-md border border-amber-200 text-xs text-amber-800 space-y-1">
+            {result.confidenceReasons.map((reason) => <p key={reason}>⚠️ {reason}</p>)}
+          </div>
+        )}
         <div className="text-xs text-gray-400 italic">
           Confidence reflects data quality (CyclePath enhancement), not whether Sensiplan rules were met — they were.
         </div>
@@ -6,6 +6,7 @@ type PreviousCycleSummary = {
   cycleNumber: number;
   isMarked: boolean;
   hasConfirmedShift: boolean;
+  specialSituation: string | null;
 };
 
 type Props = {
@@ -23,6 +24,9 @@ export function CrossCycleAnovulatoryBanner({ previousCycle }: Props) {
   if (!previousCycle) return null;
   if (previousCycle.isMarked) return null;
   if (previousCycle.hasConfirmedShift) return null;
+  // Cycles without ovulation are expected after childbirth, while
+  // breastfeeding and in perimenopause — nothing to mark.
+  if (previousCycle.specialSituation) return null;
 
   // Fresh read per render — never stale for the current previousCycle.id
   const isDismissed = sessionStorage.getItem(bannerKey(previousCycle.id)) === 'true';
@@ -1,9 +1,13 @@
+import type { FertileWindowClosure } from '../types';
+
 type Props = {
   markedAnovulatoryAt: Date | null;
   markedUninterpretableAt: Date | null;
+  /** Double-check result; only the chart page runs the engine, so optional. */
+  fertileWindow?: FertileWindowClosure | null;
 };
 
-export function CycleBadge({ markedAnovulatoryAt, markedUninterpretableAt }: Props) {
+export function CycleBadge({ markedAnovulatoryAt, markedUninterpretableAt, fertileWindow }: Props) {
   if (markedAnovulatoryAt) {
     return (
       <span className="inline-block rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-800">
@@ -18,5 +22,21 @@ export function CycleBadge({ markedAnovulatoryAt, markedUninterpretableAt }: Pro
       </span>
     );
   }
+  if (fertileWindow?.status === 'closed') {
+    return (
+      <span className="inline-block rounded-full bg-emerald-100 px-2 py-0.5 text-xs text-emerald-800">
+        Infertile from Day {fertileWindow.infertileFromDay} evening
+      </span>
+    );
+  }
+  // One sign complete, the other outstanding — worth flagging; with neither
+  // complete there is nothing to say yet.
+  if (fertileWindow?.status === 'open' && fertileWindow.awaiting.length === 1) {
+    return (
+      <span className="inline-block rounded-full bg-sky-100 px-2 py-0.5 text-xs text-sky-800">
+        Awaiting {fertileWindow.awaiting[0]} check
+      </span>
+    );
+  }
   return null;
 }
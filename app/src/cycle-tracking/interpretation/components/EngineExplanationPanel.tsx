@@ -0,0 +1,140 @@
+// app/src/cycle-tracking/interpretation/components/EngineExplanationPanel.tsx
+import { useMemo, useState } from 'react';
+import type { CandidateTrace, ConfirmingCheck, CycleDayInput } from '../types';
+import { explainThermalShift } from '../sensiplan/thermalShift';
+import type { InterpretationEngine } from '../engines';
+
+type Props = { days: CycleDayInput[]; engine: InterpretationEngine };
+
+const t = (c: number) => `${c.toFixed(2)} °C`;
+
+const POSITION_LABEL: Record<ConfirmingCheck['position'], string> = {
+  2: '2nd higher temp',
+  3: '3rd higher temp',
+  4: '4th higher temp (exception)',
+};
+
+const OUTCOME_LABEL: Record<CandidateTrace['outcome'], string> = {
+  no_reference: 'Not enough earlier temperatures',
+  not_above_coverline: 'Not above the coverline',
+  failed: 'Rejected',
+  pending: 'Waiting for more temperatures',
+  confirmed: 'Thermal shift confirmed',
+};
+
+function dayRange(days: number[]): string {
+  return days.length === 1 ? `Day ${days[0]}` : `Days ${days[0]}–${days[days.length - 1]}`;
+}
+
+function CheckLine({ check, coverlineTemp }: { check: ConfirmingCheck; coverlineTemp: number }) {
+  if (check.setAside) {
+    return (
+      <li>
+        <span className="text-amber-600">○</span>{' '}
+        Day {check.dayNumber}: {t(check.tempC)} is not above the coverline {t(coverlineTemp)}, so it is set aside
+        and not counted (second exception).
+      </li>
+    );
+  }
+  const passed = check.aboveCoverline && (check.plusThreshold?.met ?? true);
+  return (
+    <li>
+      <span className={passed ? 'text-emerald-600' : 'text-red-600'}>{passed ? '✓' : '✗'}</span>{' '}
+      Day {check.dayNumber} ({POSITION_LABEL[check.position]}): {t(check.tempC)}{' '}
+      {check.aboveCoverline ? 'is above' : 'is not above'} the coverline {t(coverlineTemp)}
+      {check.plusThreshold && check.aboveCoverline && (
+        <>
+          {' '}and {check.plusThreshold.met ? 'reaches' : 'does not reach'} coverline +0.2 ({t(check.plusThreshold.requiredC)})
+        </>
+      )}
+    </li>
+  );
+}
+
+function CandidateBlock({ candidate }: { candidate: CandidateTrace }) {
+  const coverline = candidate.coverlineTemp!;
+  const missingThird = candidate.checks.find((c) => c.position === 3 && c.aboveCoverline && !c.plusThreshold?.met);
+  return (
+    <div className="p-3 bg-gray-50 rounded-md text-xs text-gray-600 leading-relaxed space-y-1">
+      <div className="font-medium text-gray-700">
+        Day {candidate.dayNumber} — {OUTCOME_LABEL[candidate.outcome]}
+      </div>
+      <div>
+        Six lows before it: {candidate.referenceDays.map((r) => `Day ${r.dayNumber} ${r.tempC.toFixed(2)}`).join(', ')}.
+        {candidate.skippedDays.length > 0 && <> Excluded and skipped: Day {candidate.skippedDays.join(', ')}.</>}
+      </div>
+      <div>
+        Coverline (highest of the six): {t(coverline)}. Day {candidate.dayNumber} at {t(candidate.tempC)} is the 1st higher temp.
+      </div>
+      <ul className="space-y-0.5">
+        {candidate.checks.map((c) => <CheckLine key={c.dayNumber} check={c} coverlineTemp={coverline} />)}
+      </ul>
+      {missingThird && (
+        <div>
+          {candidate.usedFourthDayException
+            ? 'The 3rd higher temp missed +0.2, so the 4th-day exception applied: a 4th temp above the coverline confirms the shift.'
+            : 'The 3rd higher temp missed +0.2, so a 4th temp above the coverline is needed (4th-day exception).'}
+        </div>
+      )}
+      {candidate.usedSecondException && (
+        <div>
+          One higher temp fell to or below the coverline and was set aside, so the 3rd counted higher temp must
+          reach +0.2 itself; the 4th-day exception cannot be added on top.
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Expandable "why did the engine decide this?" panel: walks through the
+ * engine's scan candidate by candidate, as a Sensiplan teaching aid and for
+ * comparing with an instructor's reading of the chart.
+ */
+export function EngineExplanationPanel({ days, engine }: Props) {
+  const [expanded, setExpanded] = useState(false);
+  const trace = useMemo(() => explainThermalShift(days, engine.thermalRules), [days, engine]);
+
+  const noReference = trace.candidates.filter((c) => c.outcome === 'no_reference').map((c) => c.dayNumber);
+  const scanned = trace.candidates.filter((c) => c.outcome !== 'no_reference');
+
+  const summary = trace.result.status === 'none'
+    ? trace.result.reason === 'insufficient_data'
+      ? 'Fewer than seven valid temperatures so far, so no coverline can be drawn yet.'
+      : 'No temperature rose above its coverline and held for the confirming days.'
+    : `Day ${trace.result.shiftDay} is the first higher temperature with a ${trace.result.status === 'confirmed' ? 'complete' : 'pending'} confirmation.`;
+
+  return (
+    <div className="rounded-lg border border-gray-200 overflow-hidden bg-white">
+      <div className="px-4 py-3">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-gray-500 hover:text-gray-700"
+        >
+          {expanded ? '▼' : '▶'} Why did Cycle Path decide this?
+        </button>
+      </div>
+      {expanded && (
+        <div className="px-4 pb-3 border-t border-gray-100 pt-3 space-y-2 text-xs text-gray-600 leading-relaxed">
+          <p>
+            Temperatures are read in order. A temperature is a candidate when it is higher than each of the six
+            valid temperatures before it; the highest of those six is the coverline. Excluded days are skipped
+            throughout. {engine.name}: {engine.description}
+          </p>
+          {noReference.length > 0 && (
+            <p>{dayRange(noReference)}: fewer than six valid earlier temperatures, so no coverline yet.</p>
+          )}
+          {scanned.map((c) => (c.outcome === 'not_above_coverline' ? (
+            <p key={c.dayNumber}>
+              Day {c.dayNumber}: {t(c.tempC)} is not above the coverline {t(c.coverlineTemp!)} from{' '}
+              {dayRange(c.referenceDays.map((r) => r.dayNumber))}.
+            </p>
+          ) : (
+            <CandidateBlock key={c.dayNumber} candidate={c} />
+          )))}
+          <p className="font-medium text-gray-700">{summary}</p>
+        </div>
+      )}
+    </div>
+  );
+}
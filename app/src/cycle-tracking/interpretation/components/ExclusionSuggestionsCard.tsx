@@ -0,0 +1,113 @@
+// app/src/cycle-tracking/interpretation/components/ExclusionSuggestionsCard.tsx
+import { useState } from 'react';
+import { Checkbox } from '../../../components/ui/checkbox';
+import type { ExclusionDecisionKind, ExclusionSuggestion } from '../sensiplan/exclusionSuggestions';
+import { disturbanceFactorLabel } from '../../disturbanceFactors';
+import { formatDate, formatTemperature, type TemperatureUnit } from '../../utils';
+import { btn, card, footer, header } from './cardStyles';
+
+type Props = {
+  suggestions: ExclusionSuggestion[];
+  cycleStartDate: Date;
+  temperatureUnit: TemperatureUnit;
+  onResolve: (decisions: { dayNumber: number; decision: ExclusionDecisionKind }[]) => Promise<void>;
+};
+
+function dayDate(cycleStartDate: Date, dayNumber: number): string {
+  const d = new Date(cycleStartDate);
+  d.setDate(cycleStartDate.getDate() + (dayNumber - 1));
+  return formatDate(d);
+}
+
+/**
+ * Days whose disturbance factors and deviation from neighbouring temperatures
+ * suggest they should not count. Nothing changes until the user answers:
+ * excluded days behave exactly like days excluded on the day form, kept days
+ * are not suggested again unless their temperature or factors change.
+ *
+ * Every row starts selected; key the card on the suggested days so a new set
+ * of suggestions resets the selection.
+ */
+export function ExclusionSuggestionsCard({ suggestions, cycleStartDate, temperatureUnit, onResolve }: Props) {
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(suggestions.map((s) => s.dayNumber)));
+  const [busy, setBusy] = useState(false);
+
+  const toggle = (dayNumber: number, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(dayNumber);
+      else next.delete(dayNumber);
+      return next;
+    });
+  };
+
+  const resolve = async (decision: ExclusionDecisionKind) => {
+    setBusy(true);
+    try {
+      await onResolve([...selected].map((dayNumber) => ({ dayNumber, decision })));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // A temperature difference, not a reading: scale only, no offset.
+  const delta = (deviationC: number) => {
+    const size = Math.abs(deviationC) * (temperatureUnit === 'FAHRENHEIT' ? 1.8 : 1);
+    return `${deviationC >= 0 ? '+' : '−'}${size.toFixed(2)}°`;
+  };
+
+  return (
+    <div className={`${card.base} border-sky-200 mb-3`}>
+      <div className={`${header.base} bg-sky-50 border-sky-200`}>
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-sky-500" />
+          <span className="font-semibold text-sm">
+            Possibly disturbed temperatures ({suggestions.length})
+          </span>
+        </div>
+      </div>
+      <div className="px-4 py-3 text-sm space-y-2">
+        <p className="text-xs text-gray-500">
+          These days were tagged with a disturbance and stand out from the days around them.
+          Excluding them keeps them off the interpretation, as if you had excluded them yourself.
+        </p>
+        <ul className="divide-y">
+          {suggestions.map((s) => (
+            <li key={s.dayNumber} className="flex items-center gap-3 py-2">
+              <Checkbox
+                id={`exclusion-suggestion-${s.dayNumber}`}
+                checked={selected.has(s.dayNumber)}
+                onCheckedChange={(checked) => toggle(s.dayNumber, checked as boolean)}
+                disabled={busy}
+              />
+              <label htmlFor={`exclusion-suggestion-${s.dayNumber}`} className="flex-1 cursor-pointer">
+                <span className="font-medium">Day {s.dayNumber}</span>{' '}
+                <span className="text-gray-500">({dayDate(cycleStartDate, s.dayNumber)})</span>{' '}
+                {formatTemperature(s.bbt, temperatureUnit)}{' '}
+                <span className="text-gray-500">
+                  {delta(s.deviation)} vs. neighbours · {s.factors.map(disturbanceFactorLabel).join(', ')}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className={footer.base}>
+        <button
+          className={`${btn.base} ${btn.confirm}`}
+          disabled={busy || selected.size === 0}
+          onClick={() => resolve('ACCEPTED')}
+        >
+          Exclude selected
+        </button>
+        <button
+          className={`${btn.base} ${btn.secondary}`}
+          disabled={busy || selected.size === 0}
+          onClick={() => resolve('REJECTED')}
+        >
+          Keep selected
+        </button>
+      </div>
+    </div>
+  );
+}
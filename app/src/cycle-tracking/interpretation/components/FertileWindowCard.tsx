@@ -0,0 +1,59 @@
+// app/src/cycle-tracking/interpretation/components/FertileWindowCard.tsx
+import type { FertileWindowClosure } from '../types';
+import { formatDate } from '../../utils';
+import { card, header } from './cardStyles';
+
+type Props = {
+  closure: FertileWindowClosure;
+  cycleStartDate: Date;
+};
+
+function dayDate(cycleStartDate: Date, dayNumber: number): string {
+  const d = new Date(cycleStartDate);
+  d.setDate(cycleStartDate.getDate() + (dayNumber - 1));
+  return formatDate(d);
+}
+
+function completeLabel(day: number | null): string {
+  return day == null ? 'Awaiting evaluation' : `Complete on the evening of Day ${day}`;
+}
+
+/**
+ * Sensiplan double-check summary: the post-ovulatory infertile phase starts
+ * only once BOTH the temperature and the mucus evaluation are complete.
+ */
+export function FertileWindowCard({ closure, cycleStartDate }: Props) {
+  const closed = closure.status === 'closed';
+
+  return (
+    <div className={`${card.base} ${closed ? card.confirmed : 'border-sky-200'}`}>
+      <div className={`${header.base} ${closed ? header.confirmed : 'bg-sky-50 border-sky-200'}`}>
+        <div className="flex items-center gap-2">
+          <div className={`w-2 h-2 rounded-full ${closed ? 'bg-emerald-600' : 'bg-sky-500'}`} />
+          <span className="font-semibold text-sm">
+            Fertile Window — {closed ? 'Closed (double-check)' : 'Open'}
+          </span>
+        </div>
+      </div>
+      <div className="px-4 py-3 text-sm space-y-2 leading-relaxed">
+        <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+          <span className="text-gray-500">Temperature:</span>
+          <span className="font-medium">{completeLabel(closure.temperatureCompleteDay)}</span>
+          <span className="text-gray-500">Mucus peak:</span>
+          <span className="font-medium">{completeLabel(closure.mucusCompleteDay)}</span>
+        </div>
+        {closure.status === 'closed' ? (
+          <div className="mt-3 p-3 bg-green-50 rounded-md text-xs text-emerald-700">
+            Infertile phase begins on the evening of Day {closure.infertileFromDay} ({dayDate(cycleStartDate, closure.infertileFromDay)}),
+            set by the {closure.decidedBy === 'mucus' ? 'mucus' : 'temperature'} evaluation finishing last.
+          </div>
+        ) : (
+          <div className="mt-3 p-3 bg-gray-50 rounded-md text-xs text-gray-500">
+            Both signs must be confirmed before the fertile window closes. Waiting for the{' '}
+            {closure.awaiting.join(' and ')} evaluation{closure.awaiting.length > 1 ? 's' : ''}.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
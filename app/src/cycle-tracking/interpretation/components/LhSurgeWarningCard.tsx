@@ -0,0 +1,51 @@
+// app/src/cycle-tracking/interpretation/components/LhSurgeWarningCard.tsx
+import type { LhSurge, SurgeShiftRelation } from '../lhSurge';
+import { MAX_TYPICAL_LAG_DAYS } from '../lhSurge';
+import { card, header } from './cardStyles';
+
+type Props = {
+  surge: LhSurge;
+  shiftDay: number;
+  relation: SurgeShiftRelation;
+};
+
+/**
+ * Shown when the ovulation tests and the temperature rise disagree. Purely
+ * informational: OPKs never change the interpretation, but a mismatch is
+ * worth a second look at both.
+ */
+export function LhSurgeWarningCard({ surge, shiftDay, relation }: Props) {
+  if (relation.kind === 'typical') return null;
+
+  return (
+    <div className={`${card.base} border-amber-200 mb-3`}>
+      <div className={`${header.base} bg-amber-50 border-amber-200`}>
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-amber-500" />
+          <span className="font-semibold text-sm">LH surge and temperature rise do not line up</span>
+        </div>
+      </div>
+      <div className="px-4 py-3 text-sm space-y-2 leading-relaxed text-gray-700">
+        {relation.kind === 'late_rise' ? (
+          <p>
+            Your last positive ovulation test was on Day {surge.peakDay}, but the temperature rise starts on
+            Day {shiftDay}, {relation.lagDays} days later. The rise usually follows the LH peak within{' '}
+            {MAX_TYPICAL_LAG_DAYS} days.
+          </p>
+        ) : (
+          <p>
+            The temperature rise on Day {shiftDay} comes before the LH surge that starts on Day {surge.startDay}.
+            Ovulation follows the LH surge, so the rise normally comes after it.
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          {relation.kind === 'late_rise'
+            ? 'The surge may not have led to ovulation, or disturbed temperatures may be delaying the shift. '
+            : 'The rise may be a false rise, or the tests may have missed an earlier surge. '}
+          Check the tests and temperatures around these days. The interpretation itself is based on
+          temperature and mucus only.
+        </p>
+      </div>
+    </div>
+  );
+}
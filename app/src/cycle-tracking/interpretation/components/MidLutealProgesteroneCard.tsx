@@ -0,0 +1,67 @@
+// app/src/cycle-tracking/interpretation/components/MidLutealProgesteroneCard.tsx
+import type { MidLutealCheck } from '../../labResults';
+import { OVULATORY_PROGESTERONE_NG_ML } from '../../labResults';
+import { card, header } from './cardStyles';
+
+type Props = {
+  check: MidLutealCheck;
+  shiftDay: number;
+};
+
+/**
+ * A mid-luteal progesterone blood test set against the temperature rise.
+ * Like the LH surge card it is informational only: the interpretation stays
+ * based on temperature and mucus.
+ */
+export function MidLutealProgesteroneCard({ check, shiftDay }: Props) {
+  if (check.status === 'no_shift' || check.status === 'supplemented') return null;
+  if (check.status === 'no_sample' && check.outsideWindow.length === 0) return null;
+
+  const corroborates = check.status === 'corroborates';
+  const tone = corroborates
+    ? { border: 'border-emerald-200', bg: 'bg-emerald-50', dot: 'bg-emerald-500' }
+    : { border: 'border-amber-200', bg: 'bg-amber-50', dot: 'bg-amber-500' };
+  const title = corroborates
+    ? 'Progesterone test supports the temperature rise'
+    : check.status === 'contradicts'
+      ? 'Progesterone test does not support the temperature rise'
+      : 'Progesterone test not comparable with the temperature rise';
+
+  return (
+    <div className={`${card.base} ${tone.border} mb-3`}>
+      <div className={`${header.base} ${tone.bg} ${tone.border}`}>
+        <div className="flex items-center gap-2">
+          <div className={`w-2 h-2 rounded-full ${tone.dot}`} />
+          <span className="font-semibold text-sm">{title}</span>
+        </div>
+      </div>
+      <div className="px-4 py-3 text-sm space-y-2 leading-relaxed text-gray-700">
+        {check.status === 'corroborates' || check.status === 'contradicts' ? (
+          <p>
+            Progesterone on Day {check.day} was {check.valueNgMl.toFixed(1)} ng/mL,{' '}
+            {corroborates ? 'above' : 'below'} the {OVULATORY_PROGESTERONE_NG_ML} ng/mL that indicates ovulation. The
+            temperature rise starts on Day {shiftDay}.
+          </p>
+        ) : check.status === 'unknown_unit' ? (
+          <p>
+            The progesterone result on Day {check.day} is in {check.unit}, which can&apos;t be compared with the{' '}
+            {OVULATORY_PROGESTERONE_NG_ML} ng/mL threshold. Enter it in ng/mL or nmol/L.
+          </p>
+        ) : check.status === 'no_sample' && (
+          <p>
+            With the temperature rise on Day {shiftDay}, a mid-luteal progesterone test belongs on Days{' '}
+            {check.window.from}–{check.window.to}. The progesterone{' '}
+            {check.outsideWindow.length === 1 ? 'result' : 'results'} on Day{check.outsideWindow.length === 1 ? '' : 's'}{' '}
+            {check.outsideWindow.join(', ')} {check.outsideWindow.length === 1 ? 'falls' : 'fall'} outside that window.
+          </p>
+        )}
+        {check.status === 'contradicts' && (
+          <p className="text-xs text-gray-500">
+            The rise may not have followed ovulation, or the test may have been taken too early or too late. Discuss the
+            result with your doctor. The interpretation itself is based on temperature and mucus only.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
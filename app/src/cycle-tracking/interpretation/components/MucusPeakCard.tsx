@@ -0,0 +1,164 @@
+// app/src/cycle-tracking/interpretation/components/MucusPeakCard.tsx
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import type { CycleInterpretation } from 'wasp/entities';
+import type { MucusPeakResult, UserOverrides } from '../types';
+import { card, header, footer, btn } from './cardStyles';
+
+type Props = {
+  /** The engine's current mucus peak evaluation */
+  peak: MucusPeakResult;
+  /** The persisted CERVICAL_MUCUS_PEAK row, null until one is written */
+  interpretation: CycleInterpretation | null;
+  actions: {
+    confirm: () => Promise<void>;
+    adjust: (peakDay: number) => Promise<void>;
+    revert: () => Promise<void>;
+    dismiss: () => Promise<void>;
+    resolveReview: (action: 'keep_mine' | 'accept_new' | 'reject') => Promise<void>;
+  };
+  maxDayNumber: number;
+};
+
+function peakLabel(peak: MucusPeakResult | null): string {
+  return peak && peak.status !== 'none' ? `Day ${peak.peakDay} (${peak.peakQuality})` : 'No peak';
+}
+
+/**
+ * Lifecycle card for the cervical mucus peak row. It follows the thermal
+ * shift's states: a suggestion to confirm, adjust or dismiss; the user's
+ * confirmed or adjusted peak; and a review when new entries move the peak.
+ */
+export function MucusPeakCard({ peak, interpretation, actions, maxDayNumber }: Props) {
+  const [adjusting, setAdjusting] = useState(false);
+  const overrides = interpretation?.userOverrides as UserOverrides | null;
+  const enginePeakDay = peak.status !== 'none' ? peak.peakDay : null;
+  const activePeakDay = overrides?.peakDay ?? enginePeakDay;
+  const [peakDay, setPeakDay] = useState(activePeakDay ?? 1);
+
+  if (!interpretation || interpretation.state === 'DISMISSED') return null;
+
+  if (interpretation.needsReview) {
+    const previous = interpretation.previousEngineResult as MucusPeakResult | null;
+    return (
+      <div className={`${card.base} ${card.needsReview}`}>
+        <div className={`${header.base} ${header.needsReview}`}>
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-red-500" />
+            <span className="font-semibold text-sm">Mucus Peak — Needs Review</span>
+          </div>
+        </div>
+        <div className="px-4 py-3 text-sm space-y-2 leading-relaxed">
+          <p className="text-gray-700">New mucus entries moved the peak.</p>
+          <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+            <span className="text-gray-500">Yours:</span>
+            <span className="font-medium">
+              {overrides?.peakDay != null ? `Day ${overrides.peakDay}` : peakLabel(previous)}
+            </span>
+            <span className="text-gray-500">Now:</span>
+            <span className="font-medium">{peakLabel(peak)}</span>
+          </div>
+        </div>
+        <div className={`${footer.base} bg-red-50 border-red-200`}>
+          <button onClick={() => actions.resolveReview('keep_mine')} className={`${btn.base} ${btn.keepMine}`}>Keep Mine</button>
+          <button onClick={() => actions.resolveReview('accept_new')} className={`${btn.base} ${btn.acceptNew}`}>Accept New</button>
+          <button onClick={() => actions.resolveReview('reject')} className={`${btn.base} ${btn.reject}`}>Reject</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (peak.status === 'none' || activePeakDay == null) return null;
+
+  const state = interpretation.state;
+  const tone =
+    state === 'ADJUSTED'
+      ? { card: card.adjusted, header: header.adjusted, dot: 'bg-amber-600', footer: 'bg-amber-50 border-amber-200' }
+      : state === 'CONFIRMED'
+        ? { card: card.confirmed, header: header.confirmed, dot: 'bg-emerald-600', footer: 'bg-green-50 border-green-200' }
+        : { card: card.suggested, header: header.suggested, dot: 'bg-violet-500', footer: 'bg-violet-50 border-violet-200' };
+  const title =
+    state === 'ADJUSTED' ? 'Adjusted' : state === 'CONFIRMED' ? 'Confirmed' : peak.status === 'confirmed' ? 'Suggested' : 'Pending';
+
+  const startAdjust = () => {
+    setPeakDay(activePeakDay);
+    setAdjusting(true);
+  };
+
+  const saveAdjust = async () => {
+    try {
+      await actions.adjust(peakDay);
+      setAdjusting(false);
+    } catch (e: any) {
+      toast.error(e.message || 'Could not save the peak day. Try again.');
+    }
+  };
+
+  return (
+    <div className={`${card.base} ${tone.card}`}>
+      <div className={`${header.base} ${tone.header}`}>
+        <div className="flex items-center gap-2">
+          <div className={`w-2 h-2 rounded-full ${tone.dot}`} />
+          <span className="font-semibold text-sm">Mucus Peak — {title}</span>
+        </div>
+      </div>
+      <div className="px-4 py-3 text-sm space-y-2 leading-relaxed">
+        <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+          <span className="text-gray-500">Peak day:</span>
+          <span className="font-medium">
+            Day {activePeakDay}
+            {activePeakDay !== enginePeakDay && (
+              <span className="text-gray-400 text-xs ml-1">(Cycle Path suggested Day {enginePeakDay})</span>
+            )}
+          </span>
+          <span className="text-gray-500">Peak quality:</span>
+          <span className="font-medium">{peak.peakQuality}</span>
+          <span className="text-gray-500">Days after peak:</span>
+          <span className="font-medium">{peak.postPeakDays.length} of 3</span>
+        </div>
+        {adjusting && (
+          <div className="flex items-center gap-3 pt-1">
+            <label className="text-xs text-gray-500 font-medium">Peak day</label>
+            <input
+              type="number"
+              min={1}
+              max={maxDayNumber}
+              value={peakDay}
+              onChange={(e) => setPeakDay(Number(e.target.value))}
+              className="w-20 px-3 py-2 rounded-md border-2 border-violet-500 bg-violet-50 font-medium text-sm"
+            />
+          </div>
+        )}
+      </div>
+      <div className={`${footer.base} ${tone.footer}`}>
+        {adjusting ? (
+          <>
+            <button
+              onClick={saveAdjust}
+              disabled={peakDay < 1 || peakDay > maxDayNumber}
+              className={`${btn.base} ${btn.saveAdjust} disabled:opacity-50`}
+            >
+              Save
+            </button>
+            <button onClick={() => setAdjusting(false)} className={`${btn.base} ${btn.secondary}`}>Cancel</button>
+          </>
+        ) : (
+          <>
+            {state === 'SUGGESTED' && (
+              <button onClick={actions.confirm} className={`${btn.base} ${btn.confirm}`}>Confirm</button>
+            )}
+            <button onClick={startAdjust} className={`${btn.base} ${btn.adjust}`}>
+              {state === 'ADJUSTED' ? 'Re-Adjust' : 'Adjust'}
+            </button>
+            {state === 'ADJUSTED' && (
+              <button onClick={actions.revert} className={`${btn.base} ${btn.secondary}`}>Revert</button>
+            )}
+            {state === 'SUGGESTED' && (
+              <button onClick={actions.dismiss} className={`${btn.base} ${btn.reject}`}>Dismiss</button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,38 @@
 // app/src/cycle-tracking/interpretation/components/PendingCard.tsx
-import type { ThermalShiftPending } from '../types';
+import type { NextReadingBand, ThermalShiftPending } from '../types';
+import { formatTemperature, type TemperatureUnit } from '../../utils';
 import { card, header, footer, btn } from './cardStyles';
 
 type Props = {
   result: ThermalShiftPending;
+  temperatureUnit: TemperatureUnit;
   onKeepWatching: () => void;
   onReject: () => Promise<void>;
 };
 
-export function PendingCard({ result, onKeepWatching, onReject }: Props) {
+const OUTCOME_STYLES: Record<NextReadingBand['outcome'], string> = {
+  confirms: 'bg-emerald-500',
+  pending: 'bg-violet-500',
+  fails: 'bg-rose-500',
+};
+
+function describeRange(band: NextReadingBand, unit: TemperatureUnit): string {
+  const fmt = (tempC: number) => formatTemperature(tempC, unit);
+  if (band.minC === null) return `${fmt(band.maxC!)} or lower`;
+  const from = band.includesMin ? fmt(band.minC) : `above ${fmt(band.minC)}`;
+  if (band.maxC === null) return band.includesMin ? `${from} or higher` : from;
+  return `${from}, below ${fmt(band.maxC)}`;
+}
+
+function describeOutcome(band: NextReadingBand): string {
+  if (band.outcome === 'confirms') return 'confirms the shift';
+  if (band.outcome === 'fails') return 'the shift fails';
+  if (band.via === 'fourth_day') return 'still pending — a 4th temperature above the coverline is then needed';
+  if (band.via === 'second_exception') return 'set aside once (second exception), still pending';
+  return 'counts as the next higher temperature, still pending';
+}
+
+export function PendingCard({ result, temperatureUnit, onKeepWatching, onReject }: Props) {
   return (
     <div className={`${card.base} ${card.suggested}`}>
       <div className={`${header.base} ${header.suggested}`}>
@@ -22,7 +46,7 @@ export function PendingCard({ result, onKeepWatching, onReject }: Props) {
           <span className="text-gray-500">Possible shift day:</span>
           <span className="font-medium">Day {result.shiftDay}</span>
           <span className="text-gray-500">Coverline:</span>
-          <span className="font-medium">{result.coverlineTemp.toFixed(2)}°C</span>
+          <span className="font-medium">{formatTemperature(result.coverlineTemp, temperatureUnit)}</span>
           <span className="text-gray-500">Reference temps:</span>
           <span className="font-medium">Days {result.referenceDays[0]}–{result.referenceDays[result.referenceDays.length - 1]} ({result.referenceDays.length} valid)</span>
           <span className="text-gray-500">Status:</span>
@@ -30,6 +54,28 @@ export function PendingCard({ result, onKeepWatching, onReject }: Props) {
             <span className="text-violet-600">{result.confirmingDays.length} of 3</span> confirming temps recorded
           </span>
         </div>
+        {result.confidenceReasons.length > 0 && (
+          <div className="p-2 bg-amber-50 rounded-md border border-amber-200 text-xs text-amber-800 space-y-1">
+            {result.confidenceReasons.map((reason) => <p key={reason}>⚠️ {reason}</p>)}
+          </div>
+        )}
+        {/* Absent on pending results stored before next-reading targets existed. */}
+        {result.nextReading && (
+          <div className="mt-3">
+            <div className="text-xs font-medium text-gray-500 mb-1">Your next temperature:</div>
+            <ul className="space-y-1">
+              {result.nextReading.map((band, i) => (
+                <li key={i} className="flex items-start gap-2 text-xs">
+                  <span className={`mt-1 w-2 h-2 shrink-0 rounded-sm ${OUTCOME_STYLES[band.outcome]}`} />
+                  <span>
+                    <span className="font-medium">{describeRange(band, temperatureUnit)}</span>
+                    {' — '}{describeOutcome(band)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         <div className="mt-3 p-3 bg-gray-50 rounded-md text-xs text-gray-500">
           Awaiting {3 - result.confirmingDays.length} more elevated temperature{3 - result.confirmingDays.length > 1 ? 's' : ''} to confirm. Keep recording.
         </div>
@@ -0,0 +1,96 @@
+// app/src/cycle-tracking/interpretation/components/PregnancyCard.tsx
+import { useState } from 'react';
+import { PREGNANCY_HIGH_TEMPS } from '../sensiplan/postShiftMonitoring';
+import { formatDateLong } from '../../utils';
+import { btn, card, footer, header } from './cardStyles';
+
+type Props = {
+  /** Set while the cycle is in pregnancy mode. */
+  pregnancyModeAt: Date | null;
+  highTemps: number;
+  shiftDay: number | null;
+  onSetPregnancyMode: (enabled: boolean) => Promise<void>;
+  onDismiss: () => Promise<void>;
+};
+
+/**
+ * Possible-pregnancy prompt after a sustained high phase, and the pregnancy
+ * mode banner once the user switches. The indication never changes the
+ * cycle by itself.
+ */
+export function PregnancyCard({ pregnancyModeAt, highTemps, shiftDay, onSetPregnancyMode, onDismiss }: Props) {
+  const [busy, setBusy] = useState(false);
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await fn();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (pregnancyModeAt) {
+    return (
+      <div className={`${card.base} border-pink-200 mb-3`}>
+        <div className={`${header.base} bg-pink-50 border-pink-200`}>
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-pink-500" />
+            <span className="font-semibold text-sm">Pregnancy mode</span>
+          </div>
+          <span className="text-xs text-gray-500">since {formatDateLong(pregnancyModeAt)}</span>
+        </div>
+        <div className="px-4 py-3 text-sm text-gray-700 leading-relaxed">
+          New-cycle prompts are hidden and the chart keeps extending past the usual cycle length.
+          Keep recording temperatures if you like; {highTemps} higher temperatures so far.
+        </div>
+        <div className={footer.base}>
+          <button
+            className={`${btn.base} ${btn.secondary}`}
+            disabled={busy}
+            onClick={() => run(() => onSetPregnancyMode(false))}
+          >
+            Leave pregnancy mode
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${card.base} border-pink-200 mb-3`}>
+      <div className={`${header.base} bg-pink-50 border-pink-200`}>
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full bg-pink-500" />
+          <span className="font-semibold text-sm">Possible pregnancy</span>
+        </div>
+      </div>
+      <div className="px-4 py-3 text-sm space-y-2 text-gray-700 leading-relaxed">
+        <p>
+          {highTemps} higher temperatures{shiftDay !== null && <> since the shift on Day {shiftDay}</>}.
+          With Sensiplan, more than {PREGNANCY_HIGH_TEMPS} higher temperatures are a strong indication of
+          pregnancy.
+        </p>
+        <p className="text-xs text-gray-500">
+          A pregnancy test can confirm it. In pregnancy mode, Cycle Path stops prompting for a new cycle.
+        </p>
+      </div>
+      <div className={footer.base}>
+        <button
+          className={`${btn.base} ${btn.confirm}`}
+          disabled={busy}
+          onClick={() => run(() => onSetPregnancyMode(true))}
+        >
+          Switch to pregnancy mode
+        </button>
+        <button
+          className={`${btn.base} ${btn.secondary}`}
+          disabled={busy}
+          onClick={() => run(onDismiss)}
+        >
+          Not pregnant
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,9 @@ import { AdjustFlow } from './AdjustFlow';
 import { DismissedCard } from './DismissedCard';
 import { NoShiftCard } from './NoShiftCard';
 import { InfoCard } from './InfoCard';
+import { EngineExplanationPanel } from './EngineExplanationPanel';
+import type { InterpretationEngine } from '../engines';
+import type { TemperatureUnit } from '../../utils';
 
 type PropositionCardProps = {
   engineResult: InterpretationResult;
@@ -37,6 +40,8 @@ type PropositionCardProps = {
   onMarkUninterpretable: () => void;
   days: CycleDayInput[];
   cycleStartDate: Date;
+  engine: InterpretationEngine;
+  temperatureUnit: TemperatureUnit;
 };
 
 export function PropositionCard({
@@ -44,7 +49,7 @@ export function PropositionCard({
   changeNotice, keepWatchingDismissed, onKeepWatching, actions,
   cycleIsActive, maxDayNumber,
   onReEvaluate, onMarkAnovulatory, onMarkUninterpretable,
-  days, cycleStartDate,
+  days, cycleStartDate, engine, temperatureUnit,
 }: PropositionCardProps) {
   const { thermalShift } = engineResult;
   const state = interpretation?.state;
@@ -56,13 +61,16 @@ export function PropositionCard({
   // Both mark buttons gated by DismissedCard on engine's current result per §5.3.4.
   if (state === 'DISMISSED') {
     return (
-      <DismissedCard
-        engineResult={thermalShift}
-        cycleIsActive={cycleIsActive}
-        onReEvaluate={onReEvaluate}
-        onMarkAnovulatory={onMarkAnovulatory}
-        onMarkUninterpretable={onMarkUninterpretable}
-      />
+      <div className="space-y-3">
+        <DismissedCard
+          engineResult={thermalShift}
+          cycleIsActive={cycleIsActive}
+          onReEvaluate={onReEvaluate}
+          onMarkAnovulatory={onMarkAnovulatory}
+          onMarkUninterpretable={onMarkUninterpretable}
+        />
+        <EngineExplanationPanel days={days} engine={engine} />
+      </div>
     );
   }
 
@@ -74,15 +82,23 @@ export function PropositionCard({
   if (!interpretation && engineNoShift) {
     if (!cycleIsActive) {
       return (
-        <NoShiftCard
-          onMarkAnovulatory={onMarkAnovulatory}
-          onMarkUninterpretable={onMarkUninterpretable}
-        />
+        <div className="space-y-3">
+          <NoShiftCard
+            onMarkAnovulatory={onMarkAnovulatory}
+            onMarkUninterpretable={onMarkUninterpretable}
+          />
+          <EngineExplanationPanel days={days} engine={engine} />
+        </div>
       );
     }
     // Active cycle + engine says no shift: silent until day 7, InfoCard thereafter
     if (maxDayNumber >= 7) {
-      return <InfoCard onMarkUninterpretable={onMarkUninterpretable} />;
+      return (
+        <div className="space-y-3">
+          <InfoCard onMarkUninterpretable={onMarkUninterpretable} />
+          <EngineExplanationPanel days={days} engine={engine} />
+        </div>
+      );
     }
     return null;
   }
@@ -101,6 +117,7 @@ export function PropositionCard({
           days={days}
           cycleStartDate={cycleStartDate}
           existingOverrides={userOverrides ?? undefined}
+          thermalRules={engine.thermalRules}
           onSave={async (overrides) => {
             await actions.adjust(overrides);
             setAdjustFlowOpen(false);
@@ -129,6 +146,7 @@ export function PropositionCard({
       {!needsReview && thermalShift.status === 'pending' && state === 'SUGGESTED' && !keepWatchingDismissed && (
         <PendingCard
           result={thermalShift}
+          temperatureUnit={temperatureUnit}
           onKeepWatching={onKeepWatching}
           onReject={actions.dismiss}
         />
@@ -173,6 +191,8 @@ export function PropositionCard({
         <FailedAttemptsSection attempts={thermalShift.failedAttempts} />
       )}
 
+      <EngineExplanationPanel days={days} engine={engine} />
+
       {postShiftMonitoring?.falseRiseWarning === 'active' && (
         <FalseRiseWarningCard
           monitoring={postShiftMonitoring}
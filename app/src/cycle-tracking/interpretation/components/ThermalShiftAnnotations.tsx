@@ -1,5 +1,5 @@
 // app/src/cycle-tracking/interpretation/components/ThermalShiftAnnotations.tsx
-import type { CycleDayInput } from '../types';
+import type { CycleDayInput, NextReadingBand } from '../types';
 import type { ChartAnnotationData } from '../getChartAnnotations';
 import { toDisplayTemperature } from '../../utils';
 
@@ -54,6 +54,24 @@ const CHEVRON_NUMBER_FONT_WEIGHT = 700;
 // dot's top edge (dot radius is 7).
 const CHEVRON_OFFSET_ABOVE_DOT = 26;
 
+// Second-exception day: a dashed ring around the dot marks the temperature
+// that was set aside, and a dash takes the place of its chevron number so
+// the count reads 1, 2, –, 3.
+const SET_ASIDE_RING_COLOR = '#d97706';
+const SET_ASIDE_RING_RADIUS = HALO_RADIUS;
+const SET_ASIDE_RING_DASH = '3 2';
+const SET_ASIDE_LABEL_COLOR = '#92400e';
+
+// Next-reading targets of a pending shift: the column after the last
+// temperature, split into the ranges that would confirm, keep pending or
+// fail the shift. Same hues as the bullets in PendingCard.
+const TARGET_COLORS: Record<NextReadingBand['outcome'], string> = {
+  confirms: '#10b981', // emerald-500
+  pending: '#8b5cf6',  // violet-500
+  fails: '#f43f5e',    // rose-500
+};
+const TARGET_OPACITY = 0.18;
+
 /**
  * Build the day→x and temp→y projection plus a `dotPosition` lookup for the
  * given props. Used by both the background and foreground layer components.
@@ -117,6 +135,41 @@ function useChartProjection(props: ThermalShiftLayerProps) {
   return { cellWidth, dayToX, tempToY, dotPosition, columnRect };
 }
 
+function NextReadingTargets(props: ThermalShiftLayerProps) {
+  const { data, temperatureUnit, plotAreaOffset, plotAreaTop, plotAreaHeight, minDay, maxDay } = props;
+  const { cellWidth, tempToY } = useChartProjection(props);
+  const target = data.nextReading;
+  if (!target || target.dayNumber < minDay || target.dayNumber > maxDay) return null;
+
+  const plotBottom = plotAreaTop + plotAreaHeight;
+  const yOf = (tempC: number | null, fallback: number) =>
+    tempC === null
+      ? fallback
+      : Math.min(plotBottom, Math.max(plotAreaTop, tempToY(toDisplayTemperature(tempC, temperatureUnit))));
+  const x = plotAreaOffset + (target.dayNumber - minDay) * cellWidth;
+
+  return (
+    <g>
+      {target.bands.map((band, i) => {
+        const top = yOf(band.maxC, plotAreaTop);
+        const bottom = yOf(band.minC, plotBottom);
+        if (bottom - top <= 0) return null;
+        return (
+          <rect
+            key={`target-${i}`}
+            x={x}
+            y={top}
+            width={cellWidth}
+            height={bottom - top}
+            fill={TARGET_COLORS[band.outcome]}
+            opacity={TARGET_OPACITY}
+          />
+        );
+      })}
+    </g>
+  );
+}
+
 /**
  * Background layer: band + halos. Render this BEFORE <ReactApexChart /> in DOM
  * order so the chart's temperature line paints on top of it.
@@ -159,7 +212,11 @@ export function ThermalShiftBackgroundLayer(props: ThermalShiftLayerProps) {
     );
   })();
 
-  const lighterBand = data.confirmingDays.map((dayNumber) =>
+  // The set-aside day sits inside the shift, so the band covers it too.
+  const bandDays = data.secondExceptionDay !== null
+    ? [...data.confirmingDays, data.secondExceptionDay]
+    : data.confirmingDays;
+  const lighterBand = bandDays.map((dayNumber) =>
     columnRect(dayNumber, BAND_LIGHT_COLOR, BAND_LIGHT_OPACITY, `band-light-${dayNumber}`),
   );
   const darkerStripe = columnRect(
@@ -187,6 +244,8 @@ export function ThermalShiftBackgroundLayer(props: ThermalShiftLayerProps) {
       <g>{referenceLowHalos}</g>
       {/* Layer 2: coverline-anchor halo (purple) */}
       <g>{anchorHalo}</g>
+      {/* Layer 4: next-reading targets of a pending shift */}
+      <NextReadingTargets {...props} />
     </svg>
   );
 }
@@ -228,6 +287,36 @@ export function ThermalShiftForegroundLayer(props: ThermalShiftLayerProps) {
     );
   });
 
+  const setAsideMarker = (() => {
+    if (data.secondExceptionDay === null) return null;
+    const pos = dotPosition(data.secondExceptionDay);
+    if (!pos) return null;
+    return (
+      <g key="set-aside">
+        <circle
+          cx={pos.x}
+          cy={pos.y}
+          r={SET_ASIDE_RING_RADIUS}
+          fill="none"
+          stroke={SET_ASIDE_RING_COLOR}
+          strokeWidth={1.5}
+          strokeDasharray={SET_ASIDE_RING_DASH}
+        />
+        <text
+          x={pos.x}
+          y={pos.y - CHEVRON_OFFSET_ABOVE_DOT + 15}
+          textAnchor="middle"
+          fontFamily="Satoshi, ui-sans-serif, system-ui"
+          fontSize={CHEVRON_NUMBER_FONT_SIZE}
+          fontWeight={CHEVRON_NUMBER_FONT_WEIGHT}
+          fill={SET_ASIDE_LABEL_COLOR}
+        >
+          –
+        </text>
+      </g>
+    );
+  })();
+
   return (
     <svg
       className="absolute pointer-events-none"
@@ -241,6 +330,7 @@ export function ThermalShiftForegroundLayer(props: ThermalShiftLayerProps) {
       }}
     >
       <g>{chevrons}</g>
+      {setAsideMarker}
     </svg>
   );
 }
@@ -25,6 +25,23 @@ export function computeCycleDataFingerprint(days: CycleDayInput[]): string {
   return djb2(JSON.stringify(normalized));
 }
 
+/**
+ * Fingerprint of the cervical observations that drive the mucus peak engine.
+ * Counterpart of computeCycleDataFingerprint for CERVICAL_MUCUS_PEAK rows —
+ * BBT edits must not un-dismiss a mucus peak, and vice versa.
+ */
+export function computeMucusDataFingerprint(days: CycleDayInput[]): string {
+  const normalized = days
+    .slice()
+    .sort((a, b) => a.dayNumber - b.dayNumber)
+    .map((d) => ({
+      n: d.dayNumber,
+      a: d.cervicalAppearance ?? null,
+      s: d.cervicalSensation ?? null,
+    }));
+  return djb2(JSON.stringify(normalized));
+}
+
 function djb2(str: string): string {
   let hash = 5381;
   for (let i = 0; i < str.length; i++) {
@@ -6,6 +6,15 @@ export type DismissedAction =
   | { kind: 'reset_to_suggested' }  // Data changed OR different shift day
   | { kind: 'refresh_engine_result' };  // Stay DISMISSED, keep engineResult current
 
+/**
+ * The day a result is anchored on: shiftDay for thermal shift results,
+ * peakDay for mucus peak results. `dismissedShiftDay` stores this value for
+ * both interpretation types.
+ */
+function anchorDay(engineResult: any): number | null {
+  return engineResult?.shiftDay ?? engineResult?.peakDay ?? null;
+}
+
 export function decideDismissedAction(
   existingEngineResult: any,
   dismissedShiftDay: number | null,
@@ -13,13 +22,13 @@ export function decideDismissedAction(
   incomingEngineResult: any,
   incomingFingerprint: string,
 ): DismissedAction {
-  const oldShiftDay = dismissedShiftDay ?? (existingEngineResult?.shiftDay ?? null);
+  const oldShiftDay = dismissedShiftDay ?? anchorDay(existingEngineResult);
 
   // Different shift day always resets (existing logic)
   if (
     incomingEngineResult?.status !== 'none' &&
     oldShiftDay !== null &&
-    incomingEngineResult?.shiftDay !== oldShiftDay
+    anchorDay(incomingEngineResult) !== oldShiftDay
   ) {
     return { kind: 'reset_to_suggested' };
   }
@@ -0,0 +1,41 @@
+import type { CycleDayInput } from './types';
+import { correctForMeasurementTime } from './sensiplan/measurementTime';
+import { getEngineForCycle, type InterpretationEngine } from './engines';
+import type { SpecialSituation } from './specialSituations';
+import { takesProgesterone } from '../medications';
+
+type EngineSettings = {
+  bbtTimeCorrection: boolean;
+  bbtCorrectionPerHour: number;
+  interpretationEngine: string;
+} | null;
+
+/**
+ * Server-side engine input for a stored cycle: the days with the user's
+ * measurement-time correction applied when it is on — the same days the
+ * chart interprets — and the cycle's rule set: its special situation's, or
+ * the user's selected one.
+ */
+export function buildEngineInput(
+  rawDays: any[],
+  settings: EngineSettings,
+  situation: SpecialSituation | null = null,
+): { days: CycleDayInput[]; engine: InterpretationEngine } {
+  const days: CycleDayInput[] = rawDays.map((d) => ({
+    dayNumber: d.dayNumber,
+    bbt: d.bbt,
+    bbtTime: d.bbtTime,
+    excludeFromInterpretation: d.excludeFromInterpretation,
+    disturbanceFactors: d.disturbanceFactors ?? [],
+    travelTimeDiff: d.travelTimeDiff,
+    cervicalAppearance: d.cervicalAppearance,
+    cervicalSensation: d.cervicalSensation,
+    progesterone: takesProgesterone(d.medications),
+  }));
+  return {
+    days: settings?.bbtTimeCorrection
+      ? correctForMeasurementTime(days, settings.bbtCorrectionPerHour).days
+      : days,
+    engine: getEngineForCycle(settings?.interpretationEngine, situation),
+  };
+}
@@ -0,0 +1,167 @@
+import type { CycleDayInput, InterpretationResult, ThermalShiftRules } from './types';
+import { runInterpretation } from './sensiplan';
+import { SENSIPLAN_THERMAL_RULES } from './sensiplan/thermalShift';
+import type { SpecialSituation } from './specialSituations';
+
+/** Rule sets the user can select in Settings. */
+export const ENGINE_IDS = ['sensiplan', 'three_over_six', 'temperature_only'] as const;
+
+/** Rule sets a cycle's special situation switches to; never selectable. */
+export const SITUATION_ENGINE_IDS = ['sensiplan_postpartum', 'sensiplan_breastfeeding', 'sensiplan_perimenopause'] as const;
+
+export type EngineId = (typeof ENGINE_IDS)[number] | (typeof SITUATION_ENGINE_IDS)[number];
+
+/**
+ * An interpretation rule set. Every engine returns the same
+ * InterpretationResult; they differ in how the thermal shift is confirmed.
+ * Mucus peak, double-check and nudges are shared.
+ *
+ * Bump `version` whenever a change can alter a stored engineResult — the
+ * stamp on CycleInterpretation records which rules produced it.
+ */
+export type InterpretationEngine = {
+  id: EngineId;
+  version: number;
+  name: string;
+  description: string;
+  thermalRules: ThermalShiftRules;
+  /** Whether the 5-day and minus-8 rules may open the cycle infertile. */
+  startOfCycleRules: boolean;
+  run: (days: CycleDayInput[]) => InterpretationResult;
+};
+
+export const DEFAULT_ENGINE_ID: EngineId = 'sensiplan';
+
+function defineEngine(engine: Omit<InterpretationEngine, 'run'>): InterpretationEngine {
+  return { ...engine, run: (days) => runInterpretation(days, engine.thermalRules) };
+}
+
+/**
+ * What after childbirth and breastfeeding fall back to: the strictest
+ * temperature reading, with nothing opening the cycle infertile early.
+ */
+const CONSERVATIVE_FALLBACK = {
+  name: 'Conservative fallback',
+  description: 'Sensiplan\'s own rules for this situation are not built in. Instead: 3 over 6, the 3rd higher temperature must reach the coverline +0.2 °C, with no exception rules. The 5-day and minus-8 rules do not apply. Mucus is read as in other cycles.',
+  thermalRules: { ...SENSIPLAN_THERMAL_RULES, fourthDayException: false, secondException: false },
+  startOfCycleRules: false,
+};
+
+/** Situations read with CONSERVATIVE_FALLBACK rather than rules of their own. */
+const FALLBACK_SITUATIONS: readonly SpecialSituation[] = ['POSTPARTUM', 'BREASTFEEDING'];
+
+const ENGINES: Record<EngineId, InterpretationEngine> = {
+  sensiplan: defineEngine({
+    id: 'sensiplan',
+    // v2 (2026-04-26): coverline always derived from the reference days.
+    // v3 (2026-10-19): second exception rule.
+    // v4 (2026-10-19): progesterone lowers confidence; pending shifts carry
+    //   the next-reading thresholds.
+    version: 4,
+    name: 'Sensiplan',
+    description: '3 over 6; the 3rd higher temperature must reach the coverline +0.2 °C, otherwise a 4th above the coverline confirms. One of the 2nd and 3rd may fall to or below the coverline and is not counted; the exceptions are never combined.',
+    thermalRules: SENSIPLAN_THERMAL_RULES,
+    startOfCycleRules: true,
+  }),
+  three_over_six: defineEngine({
+    id: 'three_over_six',
+    // v2 (2026-10-19): progesterone lowers confidence; pending shifts carry
+    //   the next-reading thresholds.
+    version: 2,
+    name: '3 over 6 (no +0.2)',
+    description: 'Marquette/TCOYF style: three consecutive temperatures above the coverline, no minimum rise and no 4th-day exception.',
+    thermalRules: { higherByC: 0, thirdHigherByC: 0, fourthDayException: false, secondException: false },
+    startOfCycleRules: true,
+  }),
+  temperature_only: defineEngine({
+    id: 'temperature_only',
+    // v2 (2026-10-19): progesterone lowers confidence; pending shifts carry
+    //   the next-reading thresholds.
+    version: 2,
+    name: '3 over 6 with 0.3 °F',
+    description: 'Temperature-only rule: each of three consecutive temperatures at least 0.3 °F (0.17 °C) above the coverline.',
+    thermalRules: { higherByC: 0.3 / 1.8, thirdHigherByC: 0.3 / 1.8, fourthDayException: false, secondException: false },
+    startOfCycleRules: true,
+  }),
+  // Special situations: long cycles with unsettled temperatures, where the
+  // history-based start-of-cycle rules say nothing about the current cycle.
+  //
+  // Sensiplan's own rules for after childbirth and breastfeeding (the
+  // infertile weeks after a birth, the basic infertile mucus pattern) are
+  // not implemented. Both situations get the same conservative fallback
+  // instead, and say so; see CONSERVATIVE_FALLBACK. They keep separate ids
+  // so each stored result records the situation it was read under.
+  // Perimenopause is Sensiplan without the start-of-cycle rules.
+  sensiplan_postpartum: defineEngine({
+    id: 'sensiplan_postpartum',
+    // v2 (2026-10-19): progesterone lowers confidence; pending shifts carry
+    //   the next-reading thresholds.
+    version: 2,
+    ...CONSERVATIVE_FALLBACK,
+  }),
+  sensiplan_breastfeeding: defineEngine({
+    id: 'sensiplan_breastfeeding',
+    // v2 (2026-10-19): progesterone lowers confidence; pending shifts carry
+    //   the next-reading thresholds.
+    version: 2,
+    ...CONSERVATIVE_FALLBACK,
+  }),
+  sensiplan_perimenopause: defineEngine({
+    id: 'sensiplan_perimenopause',
+    // v2 (2026-10-19): second exception rule, with Sensiplan.
+    // v3 (2026-10-19): progesterone lowers confidence; pending shifts carry
+    //   the next-reading thresholds.
+    version: 3,
+    name: 'Sensiplan without start-of-cycle rules (perimenopause)',
+    description: 'Standard Sensiplan shift rules, whose exceptions allow for the slower rise of these cycles. The 5-day and minus-8 rules do not apply.',
+    thermalRules: SENSIPLAN_THERMAL_RULES,
+    startOfCycleRules: false,
+  }),
+};
+
+const SITUATION_ENGINES: Record<SpecialSituation, EngineId> = {
+  POSTPARTUM: 'sensiplan_postpartum',
+  BREASTFEEDING: 'sensiplan_breastfeeding',
+  PERIMENOPAUSE: 'sensiplan_perimenopause',
+};
+
+/** True when a situation has no rules of its own and uses the conservative fallback. */
+export function usesConservativeFallback(situation: SpecialSituation | null): boolean {
+  return situation !== null && FALLBACK_SITUATIONS.includes(situation);
+}
+
+/** The selectable rule sets, in Settings order. */
+export function listEngines(): InterpretationEngine[] {
+  return ENGINE_IDS.map((id) => ENGINES[id]);
+}
+
+/** Every rule set, including the special-situation ones. */
+export function listAllEngines(): InterpretationEngine[] {
+  return [...ENGINE_IDS, ...SITUATION_ENGINE_IDS].map((id) => ENGINES[id]);
+}
+
+/** True for any rule set that may stamp a stored result. */
+export function isEngineId(value: unknown): value is EngineId {
+  return isSelectableEngineId(value) || (typeof value === 'string' && (SITUATION_ENGINE_IDS as readonly string[]).includes(value));
+}
+
+/** True for a rule set the user may select in Settings. */
+export function isSelectableEngineId(value: unknown): value is (typeof ENGINE_IDS)[number] {
+  return typeof value === 'string' && (ENGINE_IDS as readonly string[]).includes(value);
+}
+
+/** Look up an engine; unknown or missing ids fall back to Sensiplan. */
+export function getEngine(id: string | null | undefined): InterpretationEngine {
+  return isEngineId(id) ? ENGINES[id] : ENGINES[DEFAULT_ENGINE_ID];
+}
+
+/**
+ * The rule set for one cycle: its special situation's rules when it has
+ * one, otherwise the user's selected rule set.
+ */
+export function getEngineForCycle(
+  selectedId: string | null | undefined,
+  situation: SpecialSituation | null | undefined,
+): InterpretationEngine {
+  return situation ? ENGINES[SITUATION_ENGINES[situation]] : getEngine(selectedId);
+}
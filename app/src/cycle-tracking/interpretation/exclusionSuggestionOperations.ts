@@ -0,0 +1,93 @@
+// app/src/cycle-tracking/interpretation/exclusionSuggestionOperations.ts
+import { HttpError, prisma } from 'wasp/server';
+import type {
+  GetExclusionDecisions,
+  ResolveExclusionSuggestions,
+} from 'wasp/server/operations';
+import type { ExclusionDecision } from 'wasp/entities';
+import type { ExclusionDecisionKind } from './sensiplan/exclusionSuggestions';
+
+async function assertOwnedCycle(cycleId: string, userId: string, entities: any) {
+  const cycle = await entities.Cycle.findUnique({ where: { id: cycleId } });
+  if (!cycle) throw new HttpError(404, 'Cycle not found');
+  if (cycle.userId !== userId) throw new HttpError(403, 'Not authorized to access this cycle');
+}
+
+// ===== QUERY =====
+
+type GetDecisionsInput = { cycleId: string };
+
+export const getExclusionDecisions: GetExclusionDecisions<
+  GetDecisionsInput,
+  ExclusionDecision[]
+> = async (args, context) => {
+  if (!context.user) throw new HttpError(401, 'Not authorized');
+  await assertOwnedCycle(args.cycleId, context.user.id, context.entities);
+
+  return context.entities.ExclusionDecision.findMany({
+    where: { cycleId: args.cycleId },
+    orderBy: { dayNumber: 'asc' },
+  });
+};
+
+// ===== ACTION =====
+
+type ResolveInput = {
+  cycleId: string;
+  decisions: { dayNumber: number; decision: ExclusionDecisionKind }[];
+};
+
+/**
+ * Record the user's answers to exclusion suggestions in one go.
+ *
+ * Accepting sets excludeFromInterpretation on the day — the same flag a manual
+ * exclusion sets, so the engine, the data fingerprint and review triggers
+ * react exactly as they would to an exclusion made on the day form.
+ * Rejecting only records the answer. Either way the day's current factors and
+ * temperature are snapshotted so the suggestion comes back if the day changes.
+ */
+export const resolveExclusionSuggestions: ResolveExclusionSuggestions<
+  ResolveInput,
+  ExclusionDecision[]
+> = async (args, context) => {
+  if (!context.user) throw new HttpError(401, 'Not authorized');
+  if (!Array.isArray(args.decisions) || args.decisions.length === 0) {
+    throw new HttpError(400, 'No decisions provided');
+  }
+  for (const d of args.decisions) {
+    if (d.decision !== 'ACCEPTED' && d.decision !== 'REJECTED') {
+      throw new HttpError(400, `Invalid decision for day ${d.dayNumber}`);
+    }
+  }
+  await assertOwnedCycle(args.cycleId, context.user.id, context.entities);
+
+  const dayNumbers = args.decisions.map((d) => d.dayNumber);
+  const days = await context.entities.CycleDay.findMany({
+    where: { cycleId: args.cycleId, dayNumber: { in: dayNumbers } },
+  });
+  const dayByNumber = new Map(days.map((d: any) => [d.dayNumber, d]));
+  const missing = dayNumbers.filter((n) => !dayByNumber.has(n));
+  if (missing.length > 0) {
+    throw new HttpError(404, `Cycle has no entry for day ${missing.join(', ')}`);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const saved: ExclusionDecision[] = [];
+    for (const { dayNumber, decision } of args.decisions) {
+      const day: any = dayByNumber.get(dayNumber);
+      if (decision === 'ACCEPTED') {
+        await tx.cycleDay.update({
+          where: { id: day.id },
+          data: { excludeFromInterpretation: true },
+        });
+      }
+      const snapshot = { decision, factors: day.disturbanceFactors ?? [], bbt: day.bbt, decidedAt: new Date() };
+      saved.push(await tx.exclusionDecision.upsert({
+        where: { cycleId_dayNumber: { cycleId: args.cycleId, dayNumber } },
+        create: { cycleId: args.cycleId, dayNumber, ...snapshot },
+        update: snapshot,
+      }));
+    }
+    return saved;
+  });
+};
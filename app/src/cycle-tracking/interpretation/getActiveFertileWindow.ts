@@ -0,0 +1,68 @@
+import type {
+  CycleDayInput,
+  FertileWindowClosure,
+  InterpretationResult,
+  ThermalShiftRules,
+  UserOverrides,
+} from './types';
+import { validateAdjustment } from './sensiplan/validateAdjustment';
+import { SENSIPLAN_THERMAL_RULES } from './sensiplan/thermalShift';
+import { validatePeakAdjustment } from './sensiplan/mucusPeak';
+import { closeFertileWindow, mucusCompleteDay, temperatureCompleteDay } from './sensiplan/doubleCheck';
+
+type PersistedRow = { state: string; userOverrides: UserOverrides | null } | null;
+
+/**
+ * Compute the double-check closure against the ACTIVE values of both
+ * interpretation rows, mirroring getActiveCoverline. Pure function.
+ *
+ * Per sign:
+ * - DISMISSED: the user rejected the evaluation — treat it as incomplete.
+ * - ADJUSTED: re-validate the user's picked day against raw days under the
+ *   engine's thermal rules; the sign counts as complete only if that pick is
+ *   valid AND confirmed.
+ * - SUGGESTED/CONFIRMED/no row: use the engine's result.
+ */
+export function getActiveFertileWindow(
+  days: CycleDayInput[],
+  engineResult: InterpretationResult,
+  thermalRow: PersistedRow,
+  mucusRow: PersistedRow,
+  thermalRules: ThermalShiftRules = SENSIPLAN_THERMAL_RULES,
+): FertileWindowClosure {
+  return closeFertileWindow(
+    activeTemperatureDay(days, engineResult, thermalRow, thermalRules),
+    activeMucusDay(days, engineResult, mucusRow),
+  );
+}
+
+function activeTemperatureDay(
+  days: CycleDayInput[],
+  engineResult: InterpretationResult,
+  row: PersistedRow,
+  thermalRules: ThermalShiftRules,
+): number | null {
+  if (row?.state === 'DISMISSED') return null;
+  if (row?.state === 'ADJUSTED') {
+    const shiftDay = row.userOverrides?.shiftDay;
+    if (shiftDay == null) return null;
+    const v = validateAdjustment(days, shiftDay, thermalRules);
+    return v.kind === 'valid' && v.status === 'confirmed' ? Math.max(...v.confirmingDays) : null;
+  }
+  return temperatureCompleteDay(engineResult.thermalShift);
+}
+
+function activeMucusDay(
+  days: CycleDayInput[],
+  engineResult: InterpretationResult,
+  row: PersistedRow,
+): number | null {
+  if (row?.state === 'DISMISSED') return null;
+  if (row?.state === 'ADJUSTED') {
+    const peakDay = row.userOverrides?.peakDay;
+    if (peakDay == null) return null;
+    const v = validatePeakAdjustment(days, peakDay);
+    return v.kind === 'valid' && v.status === 'confirmed' ? Math.max(...v.postPeakDays) : null;
+  }
+  return mucusCompleteDay(engineResult.mucusPeak);
+}
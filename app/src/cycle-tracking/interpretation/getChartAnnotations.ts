@@ -1,5 +1,6 @@
-import type { CycleDayInput, ThermalShiftResult, UserOverrides } from './types';
+import type { CycleDayInput, NextReadingBand, ThermalShiftResult, ThermalShiftRules, UserOverrides } from './types';
 import { validateAdjustment } from './sensiplan/validateAdjustment';
+import { SENSIPLAN_THERMAL_RULES } from './sensiplan/thermalShift';
 
 export type ChartAnnotationData = {
   referenceDays: number[];        // length 6, ascending
@@ -7,6 +8,14 @@ export type ChartAnnotationData = {
   confirmingDays: number[];       // length 1-4, ascending; index 0 is the shift day
   coverlineTemp: number;          // °C, full precision
   usedFourthDayException: boolean; // true if the engine fired the 4th-day exception path
+  secondExceptionDay: number | null; // higher temp set aside by the second exception
+  nextReading: NextReadingTarget | null; // pending shifts only
+};
+
+/** Target bands for the day after the last recorded temperature. */
+export type NextReadingTarget = {
+  dayNumber: number;
+  bands: NextReadingBand[];
 };
 
 /**
@@ -49,13 +58,16 @@ export function pickAnchorDay(
  *   - SUGGESTED / CONFIRMED with engine shift → engine's referenceDays,
  *       confirmingDays, coverlineTemp
  *   - SUGGESTED / CONFIRMED with engine status='none' → no annotations
- *   - ADJUSTED → derived from validateAdjustment(days, userOverrides.shiftDay)
+ *   - ADJUSTED → derived from validateAdjustment(days, userOverrides.shiftDay,
+ *       thermalRules)
  *       so the chart reflects the user's pick even when it differs from the
  *       engine's shift (or when the engine reports 'none')
  *
  * Returns ChartAnnotationData with referenceDays, anchorDay (the latest
  * matching reference low), confirmingDays (length 1-4, including shiftDay
- * at index 0), and coverlineTemp.
+ * at index 0), and coverlineTemp. A pending engine shift also carries the
+ * next-reading target bands, placed on the day after the last recorded
+ * temperature.
  *
  * Returns null when no annotations should render.
  */
@@ -63,6 +75,7 @@ export function getChartAnnotations(
   days: CycleDayInput[],
   interpretation: { state: string; userOverrides: UserOverrides | null } | null,
   engineResult: ThermalShiftResult | null | undefined,
+  thermalRules: ThermalShiftRules = SENSIPLAN_THERMAL_RULES,
 ): ChartAnnotationData | null {
   if (!interpretation) return null;
   if (interpretation.state === 'DISMISSED') return null;
@@ -70,7 +83,7 @@ export function getChartAnnotations(
   if (interpretation.state === 'ADJUSTED') {
     const shiftDay = interpretation.userOverrides?.shiftDay;
     if (shiftDay == null) return null;
-    const result = validateAdjustment(days, shiftDay);
+    const result = validateAdjustment(days, shiftDay, thermalRules);
     if (result.kind !== 'valid') return null;
     return {
       referenceDays: result.referenceDays,
@@ -78,6 +91,8 @@ export function getChartAnnotations(
       confirmingDays: result.confirmingDays,
       coverlineTemp: result.coverlineTemp,
       usedFourthDayException: result.usedFourthDayException,
+      secondExceptionDay: result.secondExceptionDay,
+      nextReading: null,
     };
   }
 
@@ -91,5 +106,15 @@ export function getChartAnnotations(
     confirmingDays: engineResult.confirmingDays,
     coverlineTemp: engineResult.coverlineTemp,
     usedFourthDayException: engineResult.usedFourthDayException,
+    // Absent on results stored before the second exception existed.
+    secondExceptionDay: engineResult.secondExceptionDay ?? null,
+    // Absent on pending results stored before next-reading targets existed.
+    nextReading: engineResult.status === 'pending' && engineResult.nextReading
+      ? { dayNumber: lastTemperatureDay(days) + 1, bands: engineResult.nextReading }
+      : null,
   };
 }
+
+function lastTemperatureDay(days: CycleDayInput[]): number {
+  return Math.max(0, ...days.filter((d) => d.bbt !== null).map((d) => d.dayNumber));
+}
@@ -0,0 +1,61 @@
+import type { UserOverrides } from './types';
+
+type ThermalShiftRow = {
+  type: string;
+  state: string;
+  engineResult: unknown;
+  userOverrides: unknown;
+};
+
+type HistoryCycle = {
+  id: string;
+  startDate: Date | string;
+  markedAnovulatoryAt?: Date | string | null;
+  markedUninterpretableAt?: Date | string | null;
+  interpretations?: ThermalShiftRow[];
+};
+
+/**
+ * Shift day of a persisted THERMAL_SHIFT row the user stood behind:
+ * the override for ADJUSTED, the engine's confirmed shift for CONFIRMED.
+ * SUGGESTED rows are unreviewed and DISMISSED rows were rejected → null.
+ */
+export function getStandingShiftDay(interp: ThermalShiftRow | null | undefined): number | null {
+  if (!interp) return null;
+  if (interp.state === 'ADJUSTED') {
+    return (interp.userOverrides as UserOverrides | null)?.shiftDay ?? null;
+  }
+  if (interp.state === 'CONFIRMED') {
+    const engine = interp.engineResult as { status?: string; shiftDay?: number } | null;
+    return engine?.status === 'confirmed' ? engine.shiftDay ?? null : null;
+  }
+  return null;
+}
+
+/**
+ * First-higher-temperature days of every cycle that started before
+ * `currentCycle`, for the start-of-cycle infertile rules. Pure function.
+ *
+ * Only shifts the user stood behind count (see getStandingShiftDay), matching
+ * getPreviousCycleSummary; marked cycles have no usable shift.
+ */
+export function collectHistoricalShiftDays(
+  cycles: HistoryCycle[],
+  currentCycle: { id: string; startDate: Date | string },
+): number[] {
+  const currentStart = new Date(currentCycle.startDate).getTime();
+  const result: number[] = [];
+
+  for (const cycle of cycles) {
+    if (cycle.id === currentCycle.id) continue;
+    if (new Date(cycle.startDate).getTime() >= currentStart) continue;
+    if (cycle.markedAnovulatoryAt || cycle.markedUninterpretableAt) continue;
+
+    const shiftDay = getStandingShiftDay(
+      cycle.interpretations?.find((i) => i.type === 'THERMAL_SHIFT'),
+    );
+    if (shiftDay != null) result.push(shiftDay);
+  }
+
+  return result;
+}
@@ -1,15 +1,19 @@
 import { useMemo, useEffect, useRef, useCallback, useState } from 'react';
 import { useQuery } from 'wasp/client/operations';
 import { getCycleInterpretation } from 'wasp/client/operations';
-import { runInterpretation } from '../sensiplan/index';
+import type { CycleInterpretation } from 'wasp/entities';
+import type { InterpretationEngine } from '../engines';
 import { monitorPostShift } from '../sensiplan/postShiftMonitoring';
-import { computeCycleDataFingerprint } from '../dataFingerprint';
+import { computeCycleDataFingerprint, computeMucusDataFingerprint } from '../dataFingerprint';
 import { getActiveCoverline } from '../getActiveCoverline';
+import { getActiveFertileWindow } from '../getActiveFertileWindow';
 import type {
   CycleDayInput,
   ThermalShiftResult,
   InterpretationResult,
+  FertileWindowClosure,
   PostShiftMonitoring,
+  MucusPeakResult,
   UserOverrides,
   Nudge,
 } from '../types';
@@ -20,6 +24,8 @@ type UseInterpretationArgs = {
   cycleIsActive: boolean;
   markedAnovulatoryAt: Date | null;
   markedUninterpretableAt: Date | null;
+  /** Rule set selected in UserSettings */
+  engine: InterpretationEngine;
 };
 
 type UseInterpretationReturn = {
@@ -49,6 +55,18 @@ type UseInterpretationReturn = {
     markUninterpretable: () => Promise<void>;
     unmarkClassification: () => Promise<void>;
   };
+  /** Double-check closure computed against the active values of both rows */
+  fertileWindow: FertileWindowClosure | null;
+  /** The persisted CERVICAL_MUCUS_PEAK interpretation (null if no peak proposition) */
+  mucusInterpretation: CycleInterpretation | null;
+  /** Lifecycle handlers for the mucus peak row */
+  mucusActions: {
+    confirm: () => Promise<void>;
+    adjust: (peakDay: number) => Promise<void>;
+    revert: () => Promise<void>;
+    dismiss: () => Promise<void>;
+    resolveReview: (action: 'keep_mine' | 'accept_new' | 'reject') => Promise<void>;
+  };
 };
 
 /**
@@ -60,7 +78,7 @@ type UseInterpretationReturn = {
  * 5. Exposes user action handlers
  */
 export function useInterpretation(args: UseInterpretationArgs): UseInterpretationReturn {
-  const { cycleId, days, cycleIsActive, markedAnovulatoryAt, markedUninterpretableAt } = args;
+  const { cycleId, days, cycleIsActive, markedAnovulatoryAt, markedUninterpretableAt, engine } = args;
 
   const { data: interpretation, isLoading } = useQuery(
     getCycleInterpretation,
@@ -68,19 +86,26 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
     { enabled: !!cycleId }
   );
 
+  const { data: mucusInterpretation } = useQuery(
+    getCycleInterpretation,
+    { cycleId: cycleId ?? '', type: 'CERVICAL_MUCUS_PEAK' as const },
+    { enabled: !!cycleId }
+  );
+
   // When a cycle is marked anovulatory or uninterpretable, skip engine + persistence
   const isMarked = !!markedAnovulatoryAt || !!markedUninterpretableAt;
 
   // Run engine whenever days change, but not when cycle is marked
   const engineResult = useMemo(() => {
     if (days.length === 0 || isMarked) return null;
-    return runInterpretation(days);
-  }, [days, isMarked]);
+    return engine.run(days);
+  }, [days, isMarked, engine]);
 
   // Stable fingerprint of the BBT/exclusion data that affects the engine.
   // Used by upsertCycleInterpretation to detect data changes for DISMISSED
   // auto-recovery (fingerprint-aware dismissal reset).
   const dataFingerprint = useMemo(() => computeCycleDataFingerprint(days), [days]);
+  const mucusFingerprint = useMemo(() => computeMucusDataFingerprint(days), [days]);
 
   // Keep Watching: local-only state. Collapses the pending card without
   // persisting anything. Resets when the engine result changes (new data
@@ -146,6 +171,17 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
     );
   }, [engineResult, interpretation, days]);
 
+  const fertileWindow = useMemo((): FertileWindowClosure | null => {
+    if (!engineResult) return null;
+    return getActiveFertileWindow(
+      days,
+      engineResult,
+      interpretation ? { state: interpretation.state, userOverrides: interpretation.userOverrides as UserOverrides | null } : null,
+      mucusInterpretation ? { state: mucusInterpretation.state, userOverrides: mucusInterpretation.userOverrides as UserOverrides | null } : null,
+      engine.thermalRules,
+    );
+  }, [days, engineResult, interpretation, mucusInterpretation, engine]);
+
   // Persist engine results when they change.
   // The server-side upsertCycleInterpretation handles ALL state-aware
   // persistence logic (needsReview, delete for none+SUGGESTED, no-op for
@@ -156,12 +192,14 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
     if (!cycleId || !engineResult || isMarked) return;
 
     // Dedupe key covers the full persisted payload — thermalShift, monitoring,
-    // nudges, and data fingerprint — so changes to any of them trigger a write.
+    // nudges, data fingerprint and engine stamp — so changes to any of them
+    // trigger a write.
     const payload = {
       ts: engineResult.thermalShift,
       psm: postShiftMonitoring,
       n: engineResult.nudges,
       fp: dataFingerprint,
+      e: [engine.id, engine.version],
     };
     const payloadJson = JSON.stringify(payload);
     if (payloadJson === lastPersistedRef.current) return;
@@ -177,12 +215,42 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
           postShiftMonitoring: postShiftMonitoring ?? undefined,
           pendingNudges: engineResult.nudges,
           dataFingerprint,
+          engineId: engine.id,
+          engineVersion: engine.version,
         });
       } catch (err) {
         console.error('Failed to persist interpretation:', err);
       }
     })();
-  }, [cycleId, engineResult, postShiftMonitoring, dataFingerprint, isMarked]);
+  }, [cycleId, engineResult, postShiftMonitoring, dataFingerprint, isMarked, engine]);
+
+  // The mucus peak row follows the same server-side lifecycle rules; it has
+  // no monitoring or nudges, so its payload is the result + fingerprint only.
+  const lastPersistedMucusRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!cycleId || !engineResult || isMarked) return;
+
+    const payloadJson = JSON.stringify({ mp: engineResult.mucusPeak, fp: mucusFingerprint, e: [engine.id, engine.version] });
+    if (payloadJson === lastPersistedMucusRef.current) return;
+    lastPersistedMucusRef.current = payloadJson;
+
+    (async () => {
+      try {
+        const { upsertCycleInterpretation } = await import('wasp/client/operations');
+        await upsertCycleInterpretation({
+          cycleId,
+          type: 'CERVICAL_MUCUS_PEAK',
+          engineResult: engineResult.mucusPeak,
+          dataFingerprint: mucusFingerprint,
+          engineId: engine.id,
+          engineVersion: engine.version,
+        });
+      } catch (err) {
+        console.error('Failed to persist mucus peak interpretation:', err);
+      }
+    })();
+  }, [cycleId, engineResult, mucusFingerprint, isMarked, engine]);
 
   // Action handlers
   const confirm = useCallback(async () => {
@@ -246,8 +314,10 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
       keptValues: keptValues as { shiftDay: number } | undefined,
       dismissedShiftDay,
       dataFingerprint,
+      engineId: engine.id,
+      engineVersion: engine.version,
     });
-  }, [interpretation, engineResult, dataFingerprint]);
+  }, [interpretation, engineResult, dataFingerprint, engine]);
 
   const resolveFalseRise = useCallback(async (action: 'reject_shift' | 'keep_shift') => {
     if (!interpretation || !engineResult) return;
@@ -280,11 +350,69 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
     lastPersistedRef.current = null;
   }, [cycleId]);
 
+  // ---- Mucus peak action handlers ----
+
+  const mucusPeakDay = useCallback((): number => {
+    const overrides = mucusInterpretation?.userOverrides as UserOverrides | null;
+    const peak = engineResult?.mucusPeak;
+    return overrides?.peakDay ?? (peak && peak.status !== 'none' ? peak.peakDay : 0);
+  }, [mucusInterpretation, engineResult]);
+
+  const confirmMucus = useCallback(async () => {
+    if (!mucusInterpretation) return;
+    const { confirmInterpretation } = await import('wasp/client/operations');
+    await confirmInterpretation({ interpretationId: mucusInterpretation.id });
+  }, [mucusInterpretation]);
+
+  const adjustMucus = useCallback(async (peakDay: number) => {
+    if (!mucusInterpretation) return;
+    const { adjustInterpretation } = await import('wasp/client/operations');
+    await adjustInterpretation({ interpretationId: mucusInterpretation.id, userOverrides: { peakDay } });
+  }, [mucusInterpretation]);
+
+  const revertMucus = useCallback(async () => {
+    if (!mucusInterpretation) return;
+    const { revertInterpretation } = await import('wasp/client/operations');
+    await revertInterpretation({ interpretationId: mucusInterpretation.id });
+  }, [mucusInterpretation]);
+
+  const dismissMucus = useCallback(async () => {
+    if (!mucusInterpretation) return;
+    const { dismissInterpretation } = await import('wasp/client/operations');
+    await dismissInterpretation({
+      interpretationId: mucusInterpretation.id,
+      dismissedShiftDay: mucusPeakDay(),
+      dataFingerprint: mucusFingerprint,
+    });
+  }, [mucusInterpretation, mucusPeakDay, mucusFingerprint]);
+
+  const resolveMucusReview = useCallback(async (action: 'keep_mine' | 'accept_new' | 'reject') => {
+    if (!mucusInterpretation || !engineResult) return;
+    const { resolveReview } = await import('wasp/client/operations');
+
+    const prev = mucusInterpretation.previousEngineResult as MucusPeakResult | null;
+    const overrides = mucusInterpretation.userOverrides as UserOverrides | null;
+    const keptPeakDay = overrides?.peakDay
+      ?? (prev && prev.status !== 'none' ? prev.peakDay : undefined);
+
+    await resolveReview({
+      interpretationId: mucusInterpretation.id,
+      action,
+      latestEngineResult: engineResult.mucusPeak,
+      keptValues: action === 'keep_mine' && keptPeakDay != null ? { peakDay: keptPeakDay } : undefined,
+      dismissedShiftDay: action === 'reject' ? keptPeakDay ?? 0 : undefined,
+      dataFingerprint: mucusFingerprint,
+      engineId: engine.id,
+      engineVersion: engine.version,
+    });
+  }, [mucusInterpretation, engineResult, mucusFingerprint, engine]);
+
   const markAnovulatory = useCallback(async () => {
     if (!cycleId) return;
     const { markCycleAnovulatory } = await import('wasp/client/operations');
     await markCycleAnovulatory({ cycleId });
     lastPersistedRef.current = null;
+    lastPersistedMucusRef.current = null;
   }, [cycleId]);
 
   const markUninterpretable = useCallback(async () => {
@@ -292,6 +420,7 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
     const { markCycleUninterpretable } = await import('wasp/client/operations');
     await markCycleUninterpretable({ cycleId });
     lastPersistedRef.current = null;
+    lastPersistedMucusRef.current = null;
   }, [cycleId]);
 
   const unmarkClassification = useCallback(async () => {
@@ -299,6 +428,7 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
     const { unmarkCycleClassification } = await import('wasp/client/operations');
     await unmarkCycleClassification({ cycleId });
     lastPersistedRef.current = null;
+    lastPersistedMucusRef.current = null;
   }, [cycleId]);
 
   return {
@@ -321,5 +451,14 @@ export function useInterpretation(args: UseInterpretationArgs): UseInterpretatio
       markUninterpretable,
       unmarkClassification,
     },
+    fertileWindow,
+    mucusInterpretation: mucusInterpretation ?? null,
+    mucusActions: {
+      confirm: confirmMucus,
+      adjust: adjustMucus,
+      revert: revertMucus,
+      dismiss: dismissMucus,
+      resolveReview: resolveMucusReview,
+    },
   };
 }
@@ -15,8 +15,13 @@ import type {
 } from 'wasp/server/operations';
 import type { CycleInterpretation } from 'wasp/entities';
 import { hasMaterialChange } from './materialChange';
-import { shouldTriggerReviewForAdjusted } from './adjustReviewTrigger';
+import { shouldTriggerReviewForAdjusted, shouldTriggerReviewForAdjustedPeak } from './adjustReviewTrigger';
 import { decideDismissedAction } from './dismissedDecision';
+import type { InterpretationTypeName } from './types';
+import { getEngineForCycle } from './engines';
+import type { SpecialSituation } from './specialSituations';
+import { buildEngineInput } from './engineInput';
+import { classifyMucus } from './sensiplan/mucusPeak';
 
 // ===== OWNERSHIP HELPER =====
 
@@ -28,23 +33,41 @@ async function getOwnedInterpretation(
   interpretationId: string,
   userId: string,
   entities: any
-): Promise<CycleInterpretation> {
+): Promise<CycleInterpretation & { cycle: { userId: string; specialSituation: SpecialSituation | null } }> {
   const interp = await entities.CycleInterpretation.findUnique({
     where: { id: interpretationId },
-    include: { cycle: { select: { userId: true } } },
+    include: { cycle: { select: { userId: true, specialSituation: true } } },
   });
   if (!interp) throw new HttpError(404, 'Interpretation not found');
-  if ((interp as any).cycle.userId !== userId) {
+  if (interp.cycle.userId !== userId) {
     throw new HttpError(403, 'Not authorized to access this interpretation');
   }
   return interp;
 }
 
+/**
+ * Every write of engineResult records the rule set and version that produced
+ * it. The client runs the engine, so its claim is checked against the rule
+ * set the server picks for the cycle (engines.ts) and refused on a mismatch,
+ * e.g. a tab still open from before the rules changed.
+ */
+function engineStamp(
+  args: { engineId: string; engineVersion: number },
+  settings: { interpretationEngine: string } | null,
+  situation: SpecialSituation | null,
+) {
+  const engine = getEngineForCycle(settings?.interpretationEngine, situation);
+  if (args.engineId !== engine.id || args.engineVersion !== engine.version) {
+    throw new HttpError(400, 'This cycle is interpreted with different rules now. Reload the page and try again.');
+  }
+  return { engine, stamp: { engineId: engine.id, engineVersion: engine.version } };
+}
+
 // ===== QUERY =====
 
 type GetInterpretationInput = {
   cycleId: string;
-  type: 'THERMAL_SHIFT';
+  type: InterpretationTypeName;
 };
 
 export const getCycleInterpretation: GetCycleInterpretation<
@@ -72,11 +95,13 @@ export const getCycleInterpretation: GetCycleInterpretation<
 
 type UpsertInput = {
   cycleId: string;
-  type: 'THERMAL_SHIFT';
+  type: InterpretationTypeName;
   engineResult: any;
   postShiftMonitoring?: any;
   pendingNudges?: any;
   dataFingerprint: string;  // NEW — required for DISMISSED auto-recovery
+  engineId: string;         // rule set that produced engineResult (engines.ts)
+  engineVersion: number;
 };
 
 /**
@@ -110,6 +135,11 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
     throw new HttpError(403, 'Not authorized to access this cycle');
   }
 
+  const settings = await context.entities.UserSettings.findUnique({
+    where: { userId: context.user.id },
+  });
+  const { engine, stamp } = engineStamp(args, settings, cycle.specialSituation);
+
   // If the cycle is classified (anovulatory or uninterpretable), the engine
   // result is irrelevant. Defensive cleanup: delete any orphan interpretation row.
   if (cycle.markedAnovulatoryAt || cycle.markedUninterpretableAt) {
@@ -149,10 +179,12 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
           where: { id: existing.id },
           data: {
             needsReview: true,
-            reviewReason:
-              'The data no longer supports a thermal shift. The engine cannot detect a valid pattern with the current readings.',
+            reviewReason: args.type === 'CERVICAL_MUCUS_PEAK'
+              ? 'The observations no longer support a mucus peak. The engine cannot detect a valid peak with the current entries.'
+              : 'The data no longer supports a thermal shift. The engine cannot detect a valid pattern with the current readings.',
             previousEngineResult: existing.engineResult as Prisma.InputJsonValue,
             engineResult: args.engineResult,
+            ...stamp,
             pendingNudges: args.pendingNudges ?? undefined,
           },
         });
@@ -166,6 +198,7 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
           where: { id: existing.id },
           data: {
             engineResult: args.engineResult,
+            ...stamp,
           },
         });
 
@@ -183,6 +216,7 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
         type: args.type,
         state: 'SUGGESTED',
         engineResult: args.engineResult,
+        ...stamp,
         postShiftMonitoring: args.postShiftMonitoring ?? null,
         pendingNudges: args.pendingNudges ?? null,
       },
@@ -190,7 +224,7 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
   }
 
   // Did the core interpretation change in a way the user should review?
-  // Only shiftDay, coverlineTemp, status, and usedFourthDayException are
+  // Only shiftDay, coverlineTemp, status, and the exception flags are
   // "material." Metadata changes (referenceDays, confidence, etc.) update
   // the stored result silently without triggering a review notification.
   const materialChange = hasMaterialChange(existing.engineResult, args.engineResult);
@@ -202,6 +236,7 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
         where: { id: existing.id },
         data: {
           engineResult: args.engineResult,
+          ...stamp,
           postShiftMonitoring: args.postShiftMonitoring ?? undefined,
           pendingNudges: args.pendingNudges ?? undefined,
         },
@@ -213,6 +248,7 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
           where: { id: existing.id },
           data: {
             engineResult: args.engineResult,
+            ...stamp,
             postShiftMonitoring: args.postShiftMonitoring ?? undefined,
             pendingNudges: args.pendingNudges ?? undefined,
           },
@@ -222,9 +258,12 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
         where: { id: existing.id },
         data: {
           needsReview: true,
-          reviewReason: 'A data edit changed the engine\'s evaluation. Review the new result.',
+          reviewReason: existing.engineId && existing.engineId !== args.engineId
+            ? `Your interpretation rules changed to ${engine.name}, which reads this cycle differently. Review the new result.`
+            : 'A data edit changed the engine\'s evaluation. Review the new result.',
           previousEngineResult: existing.engineResult as Prisma.InputJsonValue,
           engineResult: args.engineResult,
+          ...stamp,
           postShiftMonitoring: args.postShiftMonitoring ?? undefined,
           pendingNudges: args.pendingNudges ?? undefined,
         },
@@ -233,37 +272,34 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
     case 'ADJUSTED': {
       // P1.1 + P1.2: new review-trigger rule for ADJUSTED state.
       // Validates the user's override against current days; only triggers
-      // review if their pick is invalid OR engine has lost the shift.
-      const overrides = existing.userOverrides as { shiftDay?: number } | null;
-      const userShiftDay = overrides?.shiftDay;
-      if (userShiftDay == null) {
-        // Defensive: ADJUSTED row without shiftDay is malformed. Just refresh.
+      // review if their pick is invalid OR engine has lost the shift/peak.
+      const overrides = existing.userOverrides as { shiftDay?: number; peakDay?: number } | null;
+      const userPickedDay = args.type === 'CERVICAL_MUCUS_PEAK'
+        ? overrides?.peakDay
+        : overrides?.shiftDay;
+      if (userPickedDay == null) {
+        // Defensive: ADJUSTED row without a picked day is malformed. Just refresh.
         return context.entities.CycleInterpretation.update({
           where: { id: existing.id },
-          data: { engineResult: args.engineResult },
+          data: { engineResult: args.engineResult, ...stamp },
         });
       }
-      // Re-fetch days for validation (server-trusted source of truth)
+      // Re-fetch days for validation (server-trusted source of truth), with
+      // the same measurement-time correction the chart and the engine see.
       const cycleDays = await context.entities.CycleDay.findMany({
         where: { cycleId: args.cycleId },
         orderBy: { dayNumber: 'asc' },
       });
-      const cycleDayInputs = cycleDays.map((d: any) => ({
-        dayNumber: d.dayNumber,
-        bbt: d.bbt,
-        bbtTime: d.bbtTime,
-        excludeFromInterpretation: d.excludeFromInterpretation,
-        disturbanceFactors: d.disturbanceFactors ?? [],
-        travelTimeDiff: d.travelTimeDiff,
-      }));
-      const decision = shouldTriggerReviewForAdjusted(
-        cycleDayInputs, userShiftDay, args.engineResult,
-      );
+      const { days: cycleDayInputs } = buildEngineInput(cycleDays, settings, cycle.specialSituation);
+      const decision = args.type === 'CERVICAL_MUCUS_PEAK'
+        ? shouldTriggerReviewForAdjustedPeak(cycleDayInputs, userPickedDay, args.engineResult)
+        : shouldTriggerReviewForAdjusted(cycleDayInputs, userPickedDay, args.engineResult, engine.thermalRules);
       if (!decision.trigger) {
         return context.entities.CycleInterpretation.update({
           where: { id: existing.id },
           data: {
             engineResult: args.engineResult,
+            ...stamp,
             postShiftMonitoring: args.postShiftMonitoring ?? undefined,
             pendingNudges: args.pendingNudges ?? undefined,
           },
@@ -276,6 +312,7 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
           reviewReason: decision.reason,
           previousEngineResult: existing.engineResult as Prisma.InputJsonValue,
           engineResult: args.engineResult,
+          ...stamp,
           postShiftMonitoring: args.postShiftMonitoring ?? undefined,
           pendingNudges: args.pendingNudges ?? undefined,
         },
@@ -297,6 +334,7 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
           data: {
             state: 'SUGGESTED',
             engineResult: args.engineResult,
+            ...stamp,
             userOverrides: Prisma.DbNull,
             dismissedShiftDay: null,
             dismissedDataFingerprint: null,
@@ -315,6 +353,7 @@ export const upsertCycleInterpretation: UpsertCycleInterpretation<
         where: { id: existing.id },
         data: {
           engineResult: args.engineResult,
+          ...stamp,
           // postShiftMonitoring and pendingNudges are not persisted for DISMISSED
         },
       });
@@ -360,9 +399,10 @@ export const confirmInterpretation: ConfirmInterpretation<
 
 type AdjustInput = {
   interpretationId: string;
-  // v2: only shiftDay is meaningful. Coverline is derived from raw days.
-  // Backward-compat: clients may still send coverlineTemp; it's silently dropped.
-  userOverrides: { shiftDay?: number; coverlineTemp?: number };
+  // v2: only shiftDay (thermal shift) or peakDay (mucus peak) is meaningful.
+  // Coverline is derived from raw days. Backward-compat: clients may still
+  // send coverlineTemp; it's silently dropped.
+  userOverrides: { shiftDay?: number; peakDay?: number; coverlineTemp?: number };
 };
 
 export const adjustInterpretation: AdjustInterpretation<
@@ -371,12 +411,25 @@ export const adjustInterpretation: AdjustInterpretation<
 > = async (args, context) => {
   if (!context.user) throw new HttpError(401, 'Not authorized');
 
-  await getOwnedInterpretation(args.interpretationId, context.user.id, context.entities);
+  const interp = await getOwnedInterpretation(
+    args.interpretationId, context.user.id, context.entities,
+  );
+
+  // Strip any stale coverlineTemp; persist only the picked day for this type.
+  const pickedKey = interp.type === 'CERVICAL_MUCUS_PEAK' ? 'peakDay' : 'shiftDay';
+  const pickedDay = args.userOverrides?.[pickedKey];
+  const sanitizedOverrides = pickedDay != null ? { [pickedKey]: pickedDay } : null;
 
-  // Strip any stale coverlineTemp; persist only shiftDay.
-  const sanitizedOverrides = args.userOverrides?.shiftDay != null
-    ? { shiftDay: args.userOverrides.shiftDay }
-    : null;
+  // A peak can only sit on a recorded day with a mucus observation; the card
+  // only checks that the number is within the cycle.
+  if (interp.type === 'CERVICAL_MUCUS_PEAK' && pickedDay != null) {
+    const day = await context.entities.CycleDay.findFirst({
+      where: { cycleId: interp.cycleId, dayNumber: pickedDay },
+    });
+    if (!day || classifyMucus(day.cervicalAppearance, day.cervicalSensation) === null) {
+      throw new HttpError(400, `Day ${pickedDay} has no mucus observation to be the peak.`);
+    }
+  }
 
   return context.entities.CycleInterpretation.update({
     where: { id: args.interpretationId },
@@ -395,8 +448,8 @@ type RevertInput = { interpretationId: string };
  * Server-side preconditions (P1 — defense in depth, the UI also gates):
  * - The row's state MUST be 'ADJUSTED'. Calling revert on SUGGESTED, CONFIRMED,
  *   or DISMISSED is a 409 Conflict — there is nothing to revert.
- * - userOverrides.shiftDay MUST exist. An ADJUSTED row without a shiftDay
- *   override is malformed; treating it as revertable would silently destroy
+ * - userOverrides.shiftDay (peakDay for mucus peak rows) MUST exist. An
+ *   ADJUSTED row without that override is malformed; treating it as revertable would silently destroy
  *   data the user did not intend to modify.
  *
  * Defensive (P1.B): if engineResult.status === 'none' at revert time AND
@@ -423,12 +476,13 @@ export const revertInterpretation: RevertInterpretation<
     );
   }
 
-  // Precondition 2: userOverrides.shiftDay must exist
-  const overrides = interp.userOverrides as { shiftDay?: number } | null;
-  if (overrides?.shiftDay == null) {
+  // Precondition 2: the picked-day override must exist
+  const overrides = interp.userOverrides as { shiftDay?: number; peakDay?: number } | null;
+  const pickedKey = interp.type === 'CERVICAL_MUCUS_PEAK' ? 'peakDay' : 'shiftDay';
+  if (overrides?.[pickedKey] == null) {
     throw new HttpError(
       409,
-      'Cannot revert: ADJUSTED interpretation has no saved shiftDay override.',
+      `Cannot revert: ADJUSTED interpretation has no saved ${pickedKey} override.`,
     );
   }
 
@@ -475,9 +529,11 @@ type ResolveReviewInput = {
   interpretationId: string;
   action: 'keep_mine' | 'accept_new' | 'reject';
   latestEngineResult: any;
-  keptValues?: { shiftDay: number };
+  keptValues?: { shiftDay: number } | { peakDay: number };
   dismissedShiftDay?: number;
   dataFingerprint: string;  // NEW
+  engineId: string;
+  engineVersion: number;
 };
 
 export const resolveReview: ResolveReview<
@@ -489,6 +545,10 @@ export const resolveReview: ResolveReview<
   const interp = await getOwnedInterpretation(
     args.interpretationId, context.user.id, context.entities
   );
+  const settings = await context.entities.UserSettings.findUnique({
+    where: { userId: context.user.id },
+  });
+  const { stamp } = engineStamp(args, settings, interp.cycle.specialSituation);
 
   switch (args.action) {
     case 'keep_mine': {
@@ -502,6 +562,7 @@ export const resolveReview: ResolveReview<
         data: {
           state: 'ADJUSTED',
           engineResult: args.latestEngineResult,
+          ...stamp,
           userOverrides,
           needsReview: false,
           reviewReason: null,
@@ -516,6 +577,7 @@ export const resolveReview: ResolveReview<
         data: {
           state: 'CONFIRMED',
           engineResult: args.latestEngineResult,
+          ...stamp,
           userOverrides: Prisma.DbNull,
           needsReview: false,
           reviewReason: null,
@@ -529,6 +591,7 @@ export const resolveReview: ResolveReview<
         data: {
           state: 'DISMISSED',
           engineResult: args.latestEngineResult,
+          ...stamp,
           dismissedShiftDay: args.dismissedShiftDay,
           dismissedDataFingerprint: args.dataFingerprint,
           userOverrides: Prisma.DbNull,
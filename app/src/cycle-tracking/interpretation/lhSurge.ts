@@ -0,0 +1,106 @@
+/** CycleDay.opkStatus values. */
+export type OpkStatus = 'low' | 'rising' | 'peak' | 'declining';
+
+export type OpkDay = {
+  dayNumber: number;
+  opkStatus: OpkStatus | null;
+};
+
+/**
+ * A run of peak (positive) ovulation tests. peakDay is the last positive
+ * test — the one closest to ovulation, which usually follows within a day
+ * or two.
+ */
+export type LhSurge = {
+  startDay: number;
+  peakDay: number;
+  days: number[];
+};
+
+/**
+ * How the thermal shift day sits relative to the surge:
+ *   typical            rise from the surge start up to MAX_TYPICAL_LAG_DAYS
+ *                      after the peak
+ *   late_rise          rise more than MAX_TYPICAL_LAG_DAYS after the peak
+ *   rise_before_surge  rise before the first positive test
+ * lagDays is shiftDay − peakDay.
+ */
+export type SurgeShiftRelation = {
+  kind: 'typical' | 'late_rise' | 'rise_before_surge';
+  lagDays: number;
+};
+
+export type LhSurgeResult =
+  | { status: 'none'; reason: 'no_tests' | 'no_peak' }
+  | {
+      status: 'detected';
+      surge: LhSurge;
+      surgeCount: number;                    // all surges found this cycle
+      relation: SurgeShiftRelation | null;   // null without a shift day
+    };
+
+/** The first higher temperature usually comes 1–3 days after the LH peak. */
+export const MAX_TYPICAL_LAG_DAYS = 3;
+
+/**
+ * Untested days tolerated inside a surge: a peak, a day without a test,
+ * then another peak is one surge, not two.
+ */
+const MAX_GAP_DAYS = 1;
+
+/**
+ * Find the LH surge from daily ovulation tests and relate it to the thermal
+ * shift. Pure function; OPKs are a third signal alongside temperature and
+ * mucus and never feed the Sensiplan engine.
+ *
+ * Consecutive peak tests form a surge; any other test result ends it. When a
+ * cycle has several surges (common with PCOS or a delayed ovulation), the
+ * ovulatory one is taken to be the latest surge starting on or before the
+ * shift day, or the first surge when every surge comes after the shift.
+ * Without a shift day the latest surge is taken.
+ */
+export function detectLhSurge(days: OpkDay[], shiftDay: number | null = null): LhSurgeResult {
+  const tested = days
+    .filter((d) => d.opkStatus !== null)
+    .sort((a, b) => a.dayNumber - b.dayNumber);
+  if (tested.length === 0) return { status: 'none', reason: 'no_tests' };
+
+  const surges: LhSurge[] = [];
+  let current: number[] = [];
+  const close = () => {
+    if (current.length > 0) {
+      surges.push({ startDay: current[0], peakDay: current[current.length - 1], days: current });
+      current = [];
+    }
+  };
+  for (const day of tested) {
+    if (day.opkStatus !== 'peak') {
+      close();
+      continue;
+    }
+    const last = current[current.length - 1];
+    if (last !== undefined && day.dayNumber - last > MAX_GAP_DAYS + 1) close();
+    current.push(day.dayNumber);
+  }
+  close();
+
+  if (surges.length === 0) return { status: 'none', reason: 'no_peak' };
+
+  const surge = shiftDay === null
+    ? surges[surges.length - 1]
+    : [...surges].reverse().find((s) => s.startDay <= shiftDay) ?? surges[0];
+
+  return {
+    status: 'detected',
+    surge,
+    surgeCount: surges.length,
+    relation: shiftDay === null ? null : relateSurgeToShift(surge, shiftDay),
+  };
+}
+
+export function relateSurgeToShift(surge: LhSurge, shiftDay: number): SurgeShiftRelation {
+  const lagDays = shiftDay - surge.peakDay;
+  if (shiftDay < surge.startDay) return { kind: 'rise_before_surge', lagDays };
+  if (lagDays > MAX_TYPICAL_LAG_DAYS) return { kind: 'late_rise', lagDays };
+  return { kind: 'typical', lagDays };
+}
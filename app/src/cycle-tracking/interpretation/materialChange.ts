@@ -2,7 +2,11 @@
  * Compare only the fields that constitute a materially different interpretation
  * from the user's perspective — the core Sensiplan result.
  *
- * Material fields: status, shiftDay, coverlineTemp, usedFourthDayException.
+ * Material fields: status, shiftDay, coverlineTemp, usedFourthDayException,
+ * usedSecondException, and for mucus peak results peakDay and peakQuality.
+ * Fields absent on both sides compare equal, so one list serves both
+ * interpretation types. Results stored before the second exception existed
+ * lack usedSecondException; absent reads as false.
  *
  * Metadata fields that do NOT warrant a review notification:
  * referenceDays, skippedDays, failedAttempts, confidence, confidenceReasons,
@@ -13,9 +17,12 @@
  * internal engine bookkeeping but leaves the actual interpretation intact.
  */
 export function hasMaterialChange(existing: any, incoming: any): boolean {
-  const fields = ['status', 'shiftDay', 'coverlineTemp', 'usedFourthDayException'] as const;
+  const fields = [
+    'status', 'shiftDay', 'coverlineTemp', 'usedFourthDayException',
+    'peakDay', 'peakQuality',
+  ] as const;
   for (const field of fields) {
     if (existing?.[field] !== incoming?.[field]) return true;
   }
-  return false;
+  return (existing?.usedSecondException ?? false) !== (incoming?.usedSecondException ?? false);
 }
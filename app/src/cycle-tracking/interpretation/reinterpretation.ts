@@ -0,0 +1,100 @@
+import type {
+  CycleDayInput,
+  InterpretationResult,
+  InterpretationTypeName,
+  MucusPeakResult,
+  ThermalShiftResult,
+} from './types';
+import type { InterpretationEngine } from './engines';
+import { hasMaterialChange } from './materialChange';
+import { shouldTriggerReviewForAdjusted, shouldTriggerReviewForAdjustedPeak } from './adjustReviewTrigger';
+
+/** The stored fields the re-run decision reads. */
+export type StampedInterpretation = {
+  type: InterpretationTypeName;
+  state: 'SUGGESTED' | 'CONFIRMED' | 'ADJUSTED' | 'DISMISSED';
+  engineResult: unknown;
+  engineId: string | null;
+  engineVersion: number | null;
+  userOverrides: unknown;
+};
+
+export type ReinterpretationDecision =
+  | { kind: 'delete' }
+  | { kind: 'refresh'; engineResult: ThermalShiftResult | MucusPeakResult }
+  | { kind: 'review'; engineResult: ThermalShiftResult | MucusPeakResult; reviewReason: string };
+
+/**
+ * True when a stored engineResult was not produced by the given engine at its
+ * current version. Rows written before stamping (null stamp) are outdated.
+ */
+export function isOutdated(row: Pick<StampedInterpretation, 'engineId' | 'engineVersion'>, engine: InterpretationEngine): boolean {
+  return row.engineId !== engine.id || row.engineVersion !== engine.version;
+}
+
+/** Why the stored result is being replaced, for the needsReview reason. */
+export function ruleChangeReason(row: Pick<StampedInterpretation, 'engineId' | 'engineVersion'>, engine: InterpretationEngine): string {
+  if (row.engineId && row.engineId !== engine.id) {
+    return `Your interpretation rules changed to ${engine.name}, which reads this cycle differently.`;
+  }
+  if (row.engineVersion === null) {
+    return `This result predates the current ${engine.name} rules (v${engine.version}), which read this cycle differently.`;
+  }
+  return `The ${engine.name} rules were updated (v${row.engineVersion} → v${engine.version}) and read this cycle differently.`;
+}
+
+/**
+ * Decide what re-running the engine does to an outdated row. Mirrors the
+ * state handling of upsertCycleInterpretation, with the review reason citing
+ * the rule change instead of a data edit:
+ *
+ *   SUGGESTED  refreshed silently, deleted when the engine now finds nothing
+ *   CONFIRMED  review when hasMaterialChange, otherwise refreshed silently
+ *   ADJUSTED   review when the engine now finds nothing or the user's pick
+ *              no longer holds, otherwise refreshed silently
+ *   DISMISSED  refreshed silently; the dismissal stands
+ *
+ * postShiftMonitoring and pendingNudges are left alone; the chart recomputes
+ * them from active values the next time the cycle is opened.
+ */
+export function decideReinterpretation(
+  row: StampedInterpretation,
+  days: CycleDayInput[],
+  result: InterpretationResult,
+  engine: InterpretationEngine,
+): ReinterpretationDecision {
+  const engineResult = row.type === 'CERVICAL_MUCUS_PEAK' ? result.mucusPeak : result.thermalShift;
+  const isNone = engineResult.status === 'none';
+
+  switch (row.state) {
+    case 'SUGGESTED':
+      return isNone ? { kind: 'delete' } : { kind: 'refresh', engineResult };
+
+    case 'CONFIRMED':
+      if (!hasMaterialChange(row.engineResult, engineResult)) return { kind: 'refresh', engineResult };
+      return {
+        kind: 'review',
+        engineResult,
+        reviewReason: `${ruleChangeReason(row, engine)} Review the new result.`,
+      };
+
+    case 'ADJUSTED': {
+      if (!hasMaterialChange(row.engineResult, engineResult)) return { kind: 'refresh', engineResult };
+      const overrides = row.userOverrides as { shiftDay?: number; peakDay?: number } | null;
+      const picked = row.type === 'CERVICAL_MUCUS_PEAK' ? overrides?.peakDay : overrides?.shiftDay;
+      if (picked == null) return { kind: 'refresh', engineResult };
+      const trigger = row.type === 'CERVICAL_MUCUS_PEAK'
+        ? shouldTriggerReviewForAdjustedPeak(days, picked, engineResult as MucusPeakResult)
+        : shouldTriggerReviewForAdjusted(days, picked, engineResult as ThermalShiftResult, engine.thermalRules);
+      if (!trigger.trigger) return { kind: 'refresh', engineResult };
+      return {
+        kind: 'review',
+        engineResult,
+        reviewReason: `${ruleChangeReason(row, engine)} ${trigger.reason}`,
+      };
+    }
+
+    case 'DISMISSED':
+      return { kind: 'refresh', engineResult };
+  }
+}
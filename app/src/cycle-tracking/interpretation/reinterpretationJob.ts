@@ -0,0 +1,127 @@
+// app/src/cycle-tracking/interpretation/reinterpretationJob.ts
+import { type ReinterpretationJob } from 'wasp/server/jobs';
+import { type CycleInterpretation, type UserSettings } from 'wasp/entities';
+import { type Prisma } from '@prisma/client';
+import { listAllEngines, type InterpretationEngine } from './engines';
+import { buildEngineInput } from './engineInput';
+import { decideReinterpretation, isOutdated, type ReinterpretationDecision } from './reinterpretation';
+import type { CycleDayInput } from './types';
+
+const BATCH_SIZE = 200;
+
+type OutdatedRow = Prisma.CycleInterpretationGetPayload<{
+  include: { cycle: { include: { days: true } } };
+}>;
+
+/**
+ * Re-run the engine on interpretations whose stamp is older than the current
+ * rules: rows written before stamping, rows from an engine version that has
+ * since been bumped, and rows from an engine that no longer exists. Each row
+ * is re-run with its cycle's rule set (see buildEngineInput) on the same
+ * input the chart uses. Material changes to confirmed or adjusted results are sent to review
+ * with a reason citing the rule change; see decideReinterpretation.
+ *
+ * Classified cycles are skipped — they carry no engine result. Pages through
+ * every outdated row by id, BATCH_SIZE at a time, so a row that fails is
+ * logged and passed over instead of holding up the rows behind it; it is
+ * tried again on the next run.
+ */
+export const reinterpretOutdatedCycles: ReinterpretationJob<never, void> = async (_args, context) => {
+  const settingsByUser = new Map<string, UserSettings | null>();
+  let refreshed = 0;
+  let sentToReview = 0;
+  let failed = 0;
+  let cursor: string | null = null;
+
+  while (true) {
+    // Processed rows leave the filter (re-stamped or deleted), so page on
+    // id > last id; a Prisma cursor needs the last row to still match.
+    const rows: OutdatedRow[] = await context.entities.CycleInterpretation.findMany({
+      where: {
+        ...(cursor ? { id: { gt: cursor } } : {}),
+        cycle: { markedAnovulatoryAt: null, markedUninterpretableAt: null },
+        OR: [
+          { engineId: null },
+          { engineVersion: null },
+          { engineId: { notIn: listAllEngines().map((e) => e.id) } },
+          ...listAllEngines().map((e) => ({ engineId: e.id, engineVersion: { lt: e.version } })),
+        ],
+      },
+      include: { cycle: { include: { days: { orderBy: { dayNumber: 'asc' } } } } },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    for (const row of rows) {
+      try {
+        const userId = row.cycle.userId;
+        if (!settingsByUser.has(userId)) {
+          settingsByUser.set(userId, await context.entities.UserSettings.findUnique({ where: { userId } }));
+        }
+        const { days, engine } = buildEngineInput(row.cycle.days, settingsByUser.get(userId) ?? null, row.cycle.specialSituation);
+        if (!isOutdated(row, engine)) continue;
+
+        const kind = await reinterpretRow(row, days, engine, context.entities);
+        if (kind === 'review') sentToReview++;
+        refreshed++;
+      } catch (error: any) {
+        failed++;
+        console.error(`Error re-interpreting ${row.id}: `, error);
+        await context.entities.Logs.create({
+          data: {
+            message: `Error re-interpreting ${row.id}: ${error?.message}`,
+            level: 'job-error',
+          },
+        });
+      }
+    }
+
+    if (rows.length < BATCH_SIZE) break;
+    cursor = rows[rows.length - 1].id;
+  }
+
+  if (refreshed > 0 || failed > 0) {
+    await context.entities.Logs.create({
+      data: {
+        message: `Re-interpreted ${refreshed} outdated interpretation(s), ${sentToReview} sent to review, ${failed} failed`,
+        level: 'job-info',
+      },
+    });
+  }
+};
+
+/**
+ * Re-run `engine` for one stored row and write the outcome of
+ * decideReinterpretation, stamped with that engine. Shared by the job and by
+ * setSpecialSituation, which switches a cycle's rules on the spot.
+ */
+export async function reinterpretRow(
+  row: CycleInterpretation,
+  days: CycleDayInput[],
+  engine: InterpretationEngine,
+  entities: { CycleInterpretation: Prisma.CycleInterpretationDelegate },
+): Promise<ReinterpretationDecision['kind']> {
+  const decision = decideReinterpretation(row, days, engine.run(days), engine);
+  const stamp = { engineId: engine.id, engineVersion: engine.version };
+
+  if (decision.kind === 'delete') {
+    await entities.CycleInterpretation.delete({ where: { id: row.id } });
+  } else if (decision.kind === 'refresh') {
+    await entities.CycleInterpretation.update({
+      where: { id: row.id },
+      data: { engineResult: decision.engineResult, ...stamp },
+    });
+  } else {
+    await entities.CycleInterpretation.update({
+      where: { id: row.id },
+      data: {
+        needsReview: true,
+        reviewReason: decision.reviewReason,
+        previousEngineResult: row.engineResult as Prisma.InputJsonValue,
+        engineResult: decision.engineResult,
+        ...stamp,
+      },
+    });
+  }
+  return decision.kind;
+}
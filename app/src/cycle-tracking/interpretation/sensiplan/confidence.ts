@@ -5,16 +5,38 @@ export type ConfidenceResult = {
   reasons: string[];
 };
 
-export function calculateConfidence(excludedCount: number): ConfidenceResult {
-  if (excludedCount <= 2) {
-    return { confidence: 'high', reasons: [] };
-  }
+/**
+ * Data-quality confidence in a shift. Progesterone supplementation switches
+ * to caution: it raises waking temperature by itself, so a rise on those
+ * days cannot be told apart from the one ovulation causes.
+ */
+export function calculateConfidence(excludedCount: number, progesteroneDays: number[] = []): ConfidenceResult {
+  const reasons: string[] = [];
 
-  return {
-    confidence: 'low',
-    reasons: [
+  if (excludedCount > 2) {
+    reasons.push(
       `${excludedCount} temperatures were excluded from the reference window. ` +
       `The engine had to reach further back, which may reduce relevance to the current cycle.`,
-    ],
-  };
+    );
+  }
+  if (progesteroneDays.length > 0) {
+    reasons.push(
+      `Progesterone was taken on ${formatDays(progesteroneDays)}. Supplemental progesterone raises ` +
+      `waking temperature, so the rise may come from the medication rather than from ovulation.`,
+    );
+  }
+
+  return { confidence: reasons.length > 0 ? 'low' : 'high', reasons };
+}
+
+/** "Day 3", "Days 14–16, 19" — ascending day numbers, runs collapsed. */
+function formatDays(days: number[]): string {
+  const runs: string[] = [];
+  for (let i = 0; i < days.length; i++) {
+    let j = i;
+    while (j + 1 < days.length && days[j + 1] === days[j] + 1) j++;
+    runs.push(j > i ? `${days[i]}–${days[j]}` : `${days[i]}`);
+    i = j;
+  }
+  return `${days.length === 1 ? 'Day' : 'Days'} ${runs.join(', ')}`;
 }
@@ -0,0 +1,66 @@
+import type {
+  FertileWindowClosure,
+  FertileWindowSign,
+  MucusPeakResult,
+  ThermalShiftResult,
+} from '../types';
+
+/**
+ * Day on whose evening the temperature evaluation completes: the last
+ * confirming higher temp (3rd, or 4th with the exception). Null until the
+ * thermal shift is confirmed.
+ */
+export function temperatureCompleteDay(result: ThermalShiftResult): number | null {
+  if (result.status !== 'confirmed') return null;
+  return Math.max(...result.confirmingDays);
+}
+
+/**
+ * Day on whose evening the mucus evaluation completes: the 3rd post-peak
+ * day. Null until the mucus peak is confirmed.
+ */
+export function mucusCompleteDay(result: MucusPeakResult): number | null {
+  if (result.status !== 'confirmed') return null;
+  return Math.max(...result.postPeakDays);
+}
+
+/**
+ * Combine the two evaluation days into the Sensiplan double-check result.
+ * The fertile window closes only when BOTH signs are complete, on the
+ * evening of whichever completes later. On a tie the temperature is named
+ * as the deciding sign.
+ */
+export function closeFertileWindow(
+  temperatureDay: number | null,
+  mucusDay: number | null,
+): FertileWindowClosure {
+  if (temperatureDay == null || mucusDay == null) {
+    const awaiting: FertileWindowSign[] = [];
+    if (temperatureDay == null) awaiting.push('temperature');
+    if (mucusDay == null) awaiting.push('mucus');
+    return {
+      status: 'open',
+      awaiting,
+      temperatureCompleteDay: temperatureDay,
+      mucusCompleteDay: mucusDay,
+    };
+  }
+
+  return {
+    status: 'closed',
+    infertileFromDay: Math.max(temperatureDay, mucusDay),
+    decidedBy: mucusDay > temperatureDay ? 'mucus' : 'temperature',
+    temperatureCompleteDay: temperatureDay,
+    mucusCompleteDay: mucusDay,
+  };
+}
+
+/**
+ * Double-check over the engine's own results. Pure function.
+ */
+export function evaluateDoubleCheck(
+  thermalShift: ThermalShiftResult,
+  mucusPeak: MucusPeakResult,
+): FertileWindowClosure {
+  return closeFertileWindow(temperatureCompleteDay(thermalShift), mucusCompleteDay(mucusPeak));
+}
@@ -0,0 +1,51 @@
+import type { CycleDayInput, EarlyInfertileResult } from '../types';
+import { classifyMucus, mucusRank } from './mucusPeak';
+
+/** Cycles of history needed before the minus-8 rule replaces the 5-day rule. */
+export const MINUS_8_MIN_CYCLES = 12;
+
+const FIVE_DAY_RULE_LAST_DAY = 5;
+const MINUS_8_OFFSET = 8;
+
+/**
+ * Sensiplan start-of-cycle infertile days.
+ *
+ * - Fewer than 12 past cycles: the 5-day rule (days 1–5 infertile). If any
+ *   past cycle already had its first higher temperature so early that
+ *   minus-8 gives fewer days, minus-8 applies instead.
+ * - 12 or more past cycles: the earliest first higher temperature minus 8.
+ *
+ * Either way the phase ends the day before mucus (≥ m) is first observed in
+ * the current cycle. `historicalShiftDays` are the first-higher-temperature
+ * days of the user's past cycles. Pure function.
+ */
+export function calculateEarlyInfertilePhase(
+  historicalShiftDays: number[],
+  days: CycleDayInput[],
+): EarlyInfertileResult {
+  const earliestShiftDay = historicalShiftDays.length > 0 ? Math.min(...historicalShiftDays) : null;
+  const minus8 = earliestShiftDay != null ? Math.max(0, earliestShiftDay - MINUS_8_OFFSET) : null;
+
+  const useMinus8 = minus8 != null && (
+    historicalShiftDays.length >= MINUS_8_MIN_CYCLES || minus8 < FIVE_DAY_RULE_LAST_DAY
+  );
+  const ruleLastDay = useMinus8 ? minus8 : FIVE_DAY_RULE_LAST_DAY;
+
+  const firstMucusDay = days
+    .filter((d) => {
+      const quality = classifyMucus(d.cervicalAppearance, d.cervicalSensation);
+      return quality !== null && mucusRank(quality) >= mucusRank('m');
+    })
+    .reduce<number | null>((min, d) => (min == null || d.dayNumber < min ? d.dayNumber : min), null);
+
+  const endedByMucus = firstMucusDay != null && firstMucusDay <= ruleLastDay;
+
+  return {
+    rule: useMinus8 ? 'minus_8' : 'five_day',
+    ruleLastDay,
+    lastInfertileDay: endedByMucus ? firstMucusDay - 1 : ruleLastDay,
+    endedByMucusOnDay: endedByMucus ? firstMucusDay : null,
+    cyclesConsidered: historicalShiftDays.length,
+    earliestShiftDay,
+  };
+}
@@ -0,0 +1,181 @@
+import type { CycleDayInput } from '../types';
+import {
+  DISTURBANCE_FACTORS,
+  type DisturbanceFactor,
+} from '../../disturbanceFactors';
+
+/**
+ * Per-factor rule: a day tagged with the factor is proposed for exclusion
+ * when its temperature deviates from its neighbours by at least minDeviationC.
+ */
+export type ExclusionRule = {
+  enabled: boolean;
+  minDeviationC: number;
+};
+
+export type ExclusionRules = Record<DisturbanceFactor, ExclusionRule>;
+
+/**
+ * Defaults follow how strongly each factor tends to move a waking
+ * temperature: fever always disqualifies, alcohol and room temperature
+ * usually show, sleep and timing effects need a clearer deviation.
+ */
+export const DEFAULT_EXCLUSION_RULES: ExclusionRules = {
+  ILLNESS_FEVER: { enabled: true, minDeviationC: 0 },
+  ALCOHOL: { enabled: true, minDeviationC: 0.1 },
+  HOT_COLD_ROOM: { enabled: true, minDeviationC: 0.1 },
+  POOR_SLEEP: { enabled: true, minDeviationC: 0.15 },
+  DIFFERENT_WAKE_TIME: { enabled: true, minDeviationC: 0.15 },
+  TRAVEL: { enabled: true, minDeviationC: 0.15 },
+  MEDICATION: { enabled: true, minDeviationC: 0.15 },
+  STRESS: { enabled: true, minDeviationC: 0.2 },
+};
+
+export const MAX_RULE_DEVIATION_C = 1;
+
+const NEIGHBOR_RANGE = 3;   // days on each side
+const MIN_NEIGHBORS = 2;
+
+export type ExclusionDecisionKind = 'ACCEPTED' | 'REJECTED';
+
+/**
+ * A stored accept/reject answer. factors and bbt record what the day looked
+ * like when the user answered, so an edited day is asked about again.
+ */
+export type ExclusionDecisionRecord = {
+  dayNumber: number;
+  decision: ExclusionDecisionKind;
+  factors: string[];
+  bbt: number | null;
+};
+
+export type ExclusionSuggestion = {
+  dayNumber: number;
+  bbt: number;
+  neighborMedian: number;    // °C
+  deviation: number;         // °C, signed (bbt − neighbour median)
+  factors: DisturbanceFactor[];  // the factors whose rule fired
+};
+
+/**
+ * Merge stored rules (UserSettings.exclusionRules, free-form JSON) over the
+ * defaults. Unknown factors and malformed entries fall back to the default.
+ */
+export function resolveExclusionRules(stored: unknown): ExclusionRules {
+  const rules = { ...DEFAULT_EXCLUSION_RULES };
+  if (!stored || typeof stored !== 'object') return rules;
+
+  for (const factor of DISTURBANCE_FACTORS) {
+    const entry = (stored as Record<string, unknown>)[factor];
+    if (!entry || typeof entry !== 'object') continue;
+    const { enabled, minDeviationC } = entry as Record<string, unknown>;
+    if (typeof enabled !== 'boolean') continue;
+    if (typeof minDeviationC !== 'number' || !isValidDeviation(minDeviationC)) continue;
+    rules[factor] = { enabled, minDeviationC };
+  }
+  return rules;
+}
+
+/**
+ * Strict counterpart of resolveExclusionRules for writes: every entry must
+ * name a known factor and carry a boolean and an in-range threshold.
+ */
+export function parseExclusionRules(
+  raw: unknown,
+): { kind: 'ok'; rules: Partial<ExclusionRules> } | { kind: 'error'; message: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { kind: 'error', message: 'Exclusion rules must be an object keyed by disturbance factor' };
+  }
+  const rules: Partial<ExclusionRules> = {};
+  for (const [factor, entry] of Object.entries(raw)) {
+    if (!(DISTURBANCE_FACTORS as readonly string[]).includes(factor)) {
+      return { kind: 'error', message: `Unknown disturbance factor: ${factor}` };
+    }
+    const { enabled, minDeviationC } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof enabled !== 'boolean' || typeof minDeviationC !== 'number' || !isValidDeviation(minDeviationC)) {
+      return { kind: 'error', message: `${factor}: threshold must be between 0 and ${MAX_RULE_DEVIATION_C} °C` };
+    }
+    rules[factor as DisturbanceFactor] = { enabled, minDeviationC };
+  }
+  return { kind: 'ok', rules };
+}
+
+export function isValidDeviation(value: number): boolean {
+  return Number.isFinite(value) && value >= 0 && value <= MAX_RULE_DEVIATION_C;
+}
+
+/** True when a stored decision still describes the day as it is now. */
+export function decisionMatchesDay(decision: ExclusionDecisionRecord, day: CycleDayInput): boolean {
+  return decision.bbt === day.bbt && sameFactors(decision.factors, day.disturbanceFactors);
+}
+
+/**
+ * Propose days to exclude from interpretation.
+ *
+ * A day is proposed when it has a temperature, is not already excluded,
+ * carries at least one disturbance factor whose rule is enabled, and its
+ * temperature sits at least that rule's minDeviationC away from the median of
+ * the valid temperatures within three days on either side. Days with fewer
+ * than two such neighbours are not judged.
+ *
+ * Days the user already answered are left out while the answer still matches
+ * the day (same temperature and factors). Pending and rejected suggestions
+ * never touch engine input; accepting one sets excludeFromInterpretation, so
+ * the engine and computeCycleDataFingerprint see it exactly like a manual
+ * exclusion.
+ */
+export function suggestExclusions(
+  days: CycleDayInput[],
+  rules: ExclusionRules,
+  decisions: ExclusionDecisionRecord[],
+): ExclusionSuggestion[] {
+  const sorted = [...days].sort((a, b) => a.dayNumber - b.dayNumber);
+  const decisionByDay = new Map(decisions.map((d) => [d.dayNumber, d]));
+  const suggestions: ExclusionSuggestion[] = [];
+
+  for (const day of sorted) {
+    if (day.bbt === null || day.excludeFromInterpretation) continue;
+
+    const decision = decisionByDay.get(day.dayNumber);
+    if (decision && decisionMatchesDay(decision, day)) continue;
+
+    const candidates = day.disturbanceFactors.filter(
+      (f): f is DisturbanceFactor => f in rules && rules[f as DisturbanceFactor].enabled,
+    );
+    if (candidates.length === 0) continue;
+
+    const neighbors = sorted
+      .filter((d) =>
+        d.dayNumber !== day.dayNumber &&
+        Math.abs(d.dayNumber - day.dayNumber) <= NEIGHBOR_RANGE &&
+        d.bbt !== null &&
+        !d.excludeFromInterpretation)
+      .map((d) => d.bbt!);
+    if (neighbors.length < MIN_NEIGHBORS) continue;
+
+    const neighborMedian = median(neighbors);
+    const deviation = day.bbt - neighborMedian;
+    // Round away float noise so a 0.1 rule fires on a 0.1 deviation.
+    const size = Math.round(Math.abs(deviation) * 1000) / 1000;
+
+    const fired = candidates.filter((f) => size >= rules[f].minDeviationC);
+    if (fired.length === 0) continue;
+
+    suggestions.push({ dayNumber: day.dayNumber, bbt: day.bbt, neighborMedian, deviation, factors: fired });
+  }
+
+  return suggestions;
+}
+
+function median(values: number[]): number {
+  const s = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 === 1 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+}
+
+function sameFactors(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const sa = [...a].sort();
+  const sb = [...b].sort();
+  return sa.every((f, i) => f === sb[i]);
+}
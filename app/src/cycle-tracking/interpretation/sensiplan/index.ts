@@ -1,23 +1,36 @@
-import type { CycleDayInput, InterpretationResult } from '../types';
-import { detectThermalShift } from './thermalShift';
+import type { CycleDayInput, InterpretationResult, ThermalShiftRules } from '../types';
+import { detectThermalShift, SENSIPLAN_THERMAL_RULES } from './thermalShift';
 import { calculateTimeWindow } from './measurementTime';
 import { generateNudges } from './nudges';
+import { detectMucusPeak } from './mucusPeak';
+import { evaluateDoubleCheck } from './doubleCheck';
 
 /**
  * Run the full Sensiplan interpretation engine over cycle day data.
  *
  * This is a pure function — no side effects, no persistence.
  * The caller (useInterpretation hook) handles persistence and state.
+ * Alternative rule sets (../engines.ts) reuse this pipeline with their own
+ * thermal shift rules.
  */
-export function runInterpretation(days: CycleDayInput[]): InterpretationResult {
+export function runInterpretation(
+  days: CycleDayInput[],
+  thermalRules: ThermalShiftRules = SENSIPLAN_THERMAL_RULES,
+): InterpretationResult {
   // Step 1: Calculate measurement time window
   const timeWindow = calculateTimeWindow(days);
 
   // Step 2: Detect thermal shift
-  const thermalShift = detectThermalShift(days);
+  const thermalShift = detectThermalShift(days, thermalRules);
 
   // Step 3: Generate nudges
   const nudges = generateNudges(days, thermalShift, timeWindow);
 
-  return { thermalShift, nudges, timeWindow };
+  // Step 4: Detect cervical mucus peak (independent of temperatures)
+  const mucusPeak = detectMucusPeak(days);
+
+  // Step 5: Double-check — fertile window closes when both signs agree
+  const fertileWindow = evaluateDoubleCheck(thermalShift, mucusPeak);
+
+  return { thermalShift, mucusPeak, fertileWindow, nudges, timeWindow };
 }
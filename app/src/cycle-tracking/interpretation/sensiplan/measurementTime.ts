@@ -1,4 +1,10 @@
-import type { CycleDayInput, TimeWindow, TimeWindowResult, TimeWindowSegment } from '../types';
+import type {
+  CycleDayInput,
+  MeasurementTimeCorrection,
+  TimeWindow,
+  TimeWindowResult,
+  TimeWindowSegment,
+} from '../types';
 
 const MINUTES_PER_DAY = 1440;
 const WINDOW_HALF_WIDTH = 60;
@@ -37,14 +43,29 @@ function buildWindow(meanMinutes: number): TimeWindow {
   return { meanMinutes, windowStart, windowEnd };
 }
 
+/**
+ * Minutes each day's clock runs ahead of the home clock, for days sorted by
+ * dayNumber. A travel day's `travelTimeDiff` is the difference from home time
+ * on that day, not a change from the day before; the days after it stay on
+ * that clock until another travel day records a new difference (0 once home).
+ */
+function clockOffsets(sorted: CycleDayInput[]): number[] {
+  let offset = 0;
+  return sorted.map((d) => {
+    if (d.travelTimeDiff != null) offset = d.travelTimeDiff * 60;
+    return offset;
+  });
+}
+
 export function calculateTimeWindow(days: CycleDayInput[]): TimeWindowResult {
   const sorted = [...days].sort((a, b) => a.dayNumber - b.dayNumber);
+  const offsets = clockOffsets(sorted);
 
   const segments: { from: number; to: number; days: CycleDayInput[] }[] = [];
   let currentSegmentStart = 0;
 
   for (let i = 0; i < sorted.length; i++) {
-    if (sorted[i].travelTimeDiff != null && sorted[i].travelTimeDiff !== 0 && i > 0) {
+    if (i > 0 && offsets[i] !== offsets[i - 1]) {
       segments.push({
         from: sorted[currentSegmentStart].dayNumber,
         to: sorted[i - 1].dayNumber,
@@ -94,3 +115,70 @@ export function isWithinWindow(time: string, window: TimeWindow): boolean {
 
   return minutes >= window.windowStart || minutes <= window.windowEnd;
 }
+
+/** Readings within this many minutes of the usual time are left as measured. */
+const CORRECTION_TOLERANCE_MINUTES = 30;
+
+/** Default late-reading offset: BBT rises roughly 0.1 °C per hour of extra sleep. */
+export const DEFAULT_CORRECTION_C_PER_HOUR = 0.1;
+export const MAX_CORRECTION_C_PER_HOUR = 0.5;
+
+/**
+ * Signed distance from `usual` to `minutes` on the 24-hour clock, in
+ * [-720, 720): positive when the reading was taken later than usual.
+ */
+function signedMinutesFrom(usual: number, minutes: number): number {
+  const diff = (((minutes - usual) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return diff >= MINUTES_PER_DAY / 2 ? diff - MINUTES_PER_DAY : diff;
+}
+
+/**
+ * Normalise BBT readings taken earlier or later than usual.
+ *
+ * Reading times are first moved back onto the home clock (see clockOffsets):
+ * +3 entered on every day of a trip is three hours ahead each day, and 0 on
+ * the way back ends on the home clock again. The usual time is the circular
+ * mean of those home-clock times.
+ * Readings more than CORRECTION_TOLERANCE_MINUTES away from it are moved by
+ * `celsiusPerHour` per hour — late readings down, early readings up.
+ *
+ * Returns the days with corrected `bbt` (ready for detectThermalShift) and a
+ * record of every change. With fewer than MIN_DATA_POINTS timed readings
+ * there is no usual time to correct against, and the days come back as-is.
+ */
+export function correctForMeasurementTime(
+  days: CycleDayInput[],
+  celsiusPerHour: number,
+): { days: CycleDayInput[]; corrections: MeasurementTimeCorrection[]; usualMinutes: number | null } {
+  const sorted = [...days].sort((a, b) => a.dayNumber - b.dayNumber);
+
+  const offsets = clockOffsets(sorted);
+  const homeMinutes = new Map<number, number>();
+  sorted.forEach((d, i) => {
+    if (d.bbt != null && d.bbtTime) {
+      homeMinutes.set(d.dayNumber, ((parseTimeToMinutes(d.bbtTime) - offsets[i]) % MINUTES_PER_DAY + MINUTES_PER_DAY) % MINUTES_PER_DAY);
+    }
+  });
+
+  if (homeMinutes.size < MIN_DATA_POINTS) {
+    return { days, corrections: [], usualMinutes: null };
+  }
+
+  const usualMinutes = circularMean([...homeMinutes.values()]);
+  const corrections: MeasurementTimeCorrection[] = [];
+
+  const corrected = days.map((d) => {
+    const minutes = homeMinutes.get(d.dayNumber);
+    if (minutes === undefined || d.bbt == null) return d;
+
+    const minutesOff = signedMinutesFrom(usualMinutes, minutes);
+    if (Math.abs(minutesOff) <= CORRECTION_TOLERANCE_MINUTES) return d;
+
+    const correctedBbt = d.bbt - (celsiusPerHour * minutesOff) / 60;
+    corrections.push({ dayNumber: d.dayNumber, rawBbt: d.bbt, correctedBbt, minutesOff });
+    return { ...d, bbt: correctedBbt };
+  });
+
+  corrections.sort((a, b) => a.dayNumber - b.dayNumber);
+  return { days: corrected, corrections, usualMinutes };
+}
@@ -0,0 +1,168 @@
+import type { CycleDayInput, MucusPeakResult, MucusQuality } from '../types';
+
+/**
+ * Sensiplan mucus quality scale, lowest to highest. The index is the rank
+ * used for all comparisons below.
+ */
+export const MUCUS_QUALITY_SCALE: readonly MucusQuality[] = ['d', '∅', 'm', 'm+', 'S', 'S+'];
+
+/** Number of lower-quality days that must follow the peak to confirm it. */
+const POST_PEAK_DAYS = 3;
+
+/** The peak must reach at least 'm' — a cycle of only d/∅ has no mucus peak. */
+const MIN_PEAK_RANK = MUCUS_QUALITY_SCALE.indexOf('m');
+
+/**
+ * Rank a single day's cervical observation on the Sensiplan scale.
+ *
+ * Sensation and appearance are ranked independently and the higher one wins:
+ *   - sensation: DRY → d, DAMP → m, WET → m+, SLIPPERY → S+
+ *   - appearance: NONE → ∅, STICKY/CREAMY → S, WATERY/EGGWHITE → S+
+ *
+ * Returns null when neither field was recorded (no observation that day).
+ */
+export function classifyMucus(
+  appearance: string | null | undefined,
+  sensation: string | null | undefined,
+): MucusQuality | null {
+  if (!appearance && !sensation) return null;
+
+  const sensationRank = (() => {
+    switch (sensation) {
+      case 'DRY': return 0;
+      case 'DAMP': return 2;
+      case 'WET': return 3;
+      case 'SLIPPERY': return 5;
+      default: return 1;
+    }
+  })();
+
+  const appearanceRank = (() => {
+    switch (appearance) {
+      case 'STICKY':
+      case 'CREAMY': return 4;
+      case 'WATERY':
+      case 'EGGWHITE': return 5;
+      // NONE (nothing seen) only lifts an unrecorded sensation to ∅; it must
+      // not override an explicit DRY.
+      default: return sensation ? 0 : 1;
+    }
+  })();
+
+  return MUCUS_QUALITY_SCALE[Math.max(sensationRank, appearanceRank)];
+}
+
+/** Position of a quality on the Sensiplan scale (d = 0 … S+ = 5). */
+export function mucusRank(quality: MucusQuality): number {
+  return MUCUS_QUALITY_SCALE.indexOf(quality);
+}
+
+/**
+ * Detect the Sensiplan mucus peak day.
+ *
+ * The peak is the LAST day of the highest-quality mucus observed in the
+ * cycle. It is confirmed once the next 3 days have all been observed and are
+ * of lower quality (the infertile phase by mucus begins on the evening of the
+ * 3rd post-peak day). A return to peak quality moves the peak forward.
+ *
+ * Pure function — no side effects, no persistence.
+ */
+export function detectMucusPeak(days: CycleDayInput[]): MucusPeakResult {
+  const observed = days
+    .map((d) => ({
+      dayNumber: d.dayNumber,
+      quality: classifyMucus(d.cervicalAppearance, d.cervicalSensation),
+    }))
+    .filter((o): o is { dayNumber: number; quality: MucusQuality } => o.quality !== null)
+    .sort((a, b) => a.dayNumber - b.dayNumber);
+
+  if (observed.length === 0) {
+    return { status: 'none', reason: 'insufficient_data' };
+  }
+
+  const peakRank = Math.max(...observed.map((o) => mucusRank(o.quality)));
+  if (peakRank < MIN_PEAK_RANK) {
+    return { status: 'none', reason: 'no_peak_detected' };
+  }
+
+  let peakDay = 0;
+  for (const o of observed) {
+    if (mucusRank(o.quality) === peakRank) peakDay = o.dayNumber;
+  }
+
+  const postPeakDays = collectPostPeakDays(observed, peakDay);
+  // A peak on the last observed day is indistinguishable from a build-up
+  // still in progress — wait for at least one lower day.
+  if (postPeakDays.length === 0) {
+    return { status: 'none', reason: 'no_peak_detected' };
+  }
+
+  const peakQuality = MUCUS_QUALITY_SCALE[peakRank];
+  if (postPeakDays.length < POST_PEAK_DAYS) {
+    return { status: 'pending', peakDay, peakQuality, postPeakDays };
+  }
+  return { status: 'confirmed', peakDay, peakQuality, postPeakDays };
+}
+
+export type PeakAdjustValidation =
+  | { kind: 'valid'; status: 'confirmed' | 'pending'; peakQuality: MucusQuality; postPeakDays: number[] }
+  | { kind: 'invalid'; reason: 'picked_day_no_observation' }
+  | { kind: 'invalid'; reason: 'no_mucus_on_picked_day' }
+  | { kind: 'invalid'; reason: 'not_followed_by_lower_quality'; failedOnDay: number };
+
+/**
+ * Validate a user-proposed peak day against the observations. The picked day
+ * must carry mucus (≥ m) and every observed day in the 3-day window after it
+ * must be of lower quality. Mirrors validateAdjustment for the thermal shift.
+ */
+export function validatePeakAdjustment(
+  days: CycleDayInput[],
+  pickedDay: number,
+): PeakAdjustValidation {
+  const picked = days.find((d) => d.dayNumber === pickedDay);
+  const pickedQuality = picked
+    ? classifyMucus(picked.cervicalAppearance, picked.cervicalSensation)
+    : null;
+  if (pickedQuality === null) {
+    return { kind: 'invalid', reason: 'picked_day_no_observation' };
+  }
+  const pickedRank = mucusRank(pickedQuality);
+  if (pickedRank < MIN_PEAK_RANK) {
+    return { kind: 'invalid', reason: 'no_mucus_on_picked_day' };
+  }
+
+  const postPeakDays: number[] = [];
+  for (let dayNumber = pickedDay + 1; dayNumber <= pickedDay + POST_PEAK_DAYS; dayNumber++) {
+    const d = days.find((x) => x.dayNumber === dayNumber);
+    const quality = d ? classifyMucus(d.cervicalAppearance, d.cervicalSensation) : null;
+    if (quality === null) break;
+    if (mucusRank(quality) >= pickedRank) {
+      return { kind: 'invalid', reason: 'not_followed_by_lower_quality', failedOnDay: dayNumber };
+    }
+    postPeakDays.push(dayNumber);
+  }
+
+  return {
+    kind: 'valid',
+    status: postPeakDays.length === POST_PEAK_DAYS ? 'confirmed' : 'pending',
+    peakQuality: pickedQuality,
+    postPeakDays,
+  };
+}
+
+/**
+ * Consecutive observed days immediately after the peak, up to 3. A day with
+ * no observation interrupts the count — Sensiplan requires a daily check.
+ */
+function collectPostPeakDays(
+  observed: { dayNumber: number; quality: MucusQuality }[],
+  peakDay: number,
+): number[] {
+  const observedDays = new Set(observed.map((o) => o.dayNumber));
+  const result: number[] = [];
+  for (let dayNumber = peakDay + 1; dayNumber <= peakDay + POST_PEAK_DAYS; dayNumber++) {
+    if (!observedDays.has(dayNumber)) break;
+    result.push(dayNumber);
+  }
+  return result;
+}
@@ -3,7 +3,13 @@ import type { CycleDayInput, PostShiftMonitoring, DipBelow, Nudge } from '../typ
 const FALSE_RISE_THRESHOLD = 3;
 
 /**
- * Post-shift monitoring — false rise detection.
+ * Sensiplan: more than 18 higher temperatures after the shift are a strong
+ * indication of pregnancy (a luteal phase rarely lasts longer).
+ */
+export const PREGNANCY_HIGH_TEMPS = 18;
+
+/**
+ * Post-shift monitoring — false rise detection and high-phase length.
  *
  * [CyclePath Enhancement]
  * Runs against the ACTIVE interpretation values (coverline from engine
@@ -88,6 +94,12 @@ export function monitorPostShift(
     falseRiseWarning = 'active';
   }
 
+  // High-phase length counts from the shift day itself: it is the 1st higher
+  // temperature. A false rise puts the whole high phase in doubt.
+  const highTemps = sorted.filter(
+    (d) => d.dayNumber >= shiftDay && d.bbt !== null && !d.excludeFromInterpretation && d.bbt > coverlineC
+  ).length;
+
   return {
     isActive: true,
     falseRiseWarning,
@@ -97,5 +109,7 @@ export function monitorPostShift(
     // the peak count, not the running count (which may have been reset by
     // an above-coverline day)
     consecutiveUnexplainedDips: maxConsecutiveUnexplained,
+    highTemps,
+    pregnancyIndication: highTemps > PREGNANCY_HIGH_TEMPS && falseRiseWarning !== 'active',
   };
 }
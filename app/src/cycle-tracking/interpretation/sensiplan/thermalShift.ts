@@ -2,21 +2,65 @@ import type {
   CycleDayInput,
   ThermalShiftResult,
   FailedAttempt,
+  ThermalShiftTrace,
+  CandidateTrace,
+  ConfirmingCheck,
+  ThermalShiftRules,
+  NextReadingBand,
 } from '../types';
 import { collectReferenceDays } from './excludedDays';
 import { checkFourthDayException } from './fourthDayException';
 import { calculateConfidence } from './confidence';
 
-const THRESHOLD_C = 0.2;
+/** Sensiplan: 3 over 6, the 3rd at least +0.2 °C, both exception rules. */
+export const SENSIPLAN_THERMAL_RULES: ThermalShiftRules = {
+  higherByC: 0,
+  thirdHigherByC: 0.2,
+  fourthDayException: true,
+  secondException: true,
+};
+
+// Absorbs float noise from °F → °C conversion at a rule's exact margin.
+const MARGIN_EPSILON_C = 1e-9;
 
 /**
- * Sensiplan sequential thermal shift detection.
+ * Sequential thermal shift detection, Sensiplan rules by default.
  *
  * Scans forward through cycle days. For each candidate first higher
  * temperature, checks 3-over-6 rule with +0.2°C on the 3rd.
- * Finds the FIRST valid shift and stops.
+ * Finds the FIRST valid shift and stops. Other rule sets (see
+ * ../engines.ts) change the margins and which exceptions exist.
+ */
+export function detectThermalShift(
+  days: CycleDayInput[],
+  rules: ThermalShiftRules = SENSIPLAN_THERMAL_RULES,
+): ThermalShiftResult {
+  return evaluateThermalShift(days, rules, null);
+}
+
+/**
+ * detectThermalShift plus the reasoning behind it: every candidate day with
+ * its reference lows, coverline and confirming-day checks, in scan order.
  */
-export function detectThermalShift(days: CycleDayInput[]): ThermalShiftResult {
+export function explainThermalShift(
+  days: CycleDayInput[],
+  rules: ThermalShiftRules = SENSIPLAN_THERMAL_RULES,
+): ThermalShiftTrace {
+  const candidates: CandidateTrace[] = [];
+  const result = evaluateThermalShift(days, rules, candidates);
+  return { result, candidates };
+}
+
+/** Strictly above the coverline and, when the rule asks, by at least `byC`. */
+export function clears(tempC: number, coverlineC: number, byC: number): boolean {
+  return tempC > coverlineC && tempC - coverlineC >= byC - MARGIN_EPSILON_C;
+}
+
+function evaluateThermalShift(
+  days: CycleDayInput[],
+  rules: ThermalShiftRules,
+  trace: CandidateTrace[] | null,
+): ThermalShiftResult {
   const sorted = [...days].sort((a, b) => a.dayNumber - b.dayNumber);
   const failedAttempts: FailedAttempt[] = [];
 
@@ -33,6 +77,17 @@ export function detectThermalShift(days: CycleDayInput[]): ThermalShiftResult {
 
     const refResult = collectReferenceDays(sorted, candidateDay.dayNumber);
     if (!refResult) {
+      trace?.push({
+        dayNumber: candidateDay.dayNumber,
+        tempC: candidateDay.bbt,
+        outcome: 'no_reference',
+        referenceDays: [],
+        skippedDays: [],
+        coverlineTemp: null,
+        checks: [],
+        usedFourthDayException: false,
+        usedSecondException: false,
+      });
       i++;
       continue;
     }
@@ -40,18 +95,41 @@ export function detectThermalShift(days: CycleDayInput[]): ThermalShiftResult {
     hadEnoughData = true;
     const { coverlineTemp, referenceDays, skippedDays } = refResult;
     const candidateTempC = candidateDay.bbt;
+    const candidateTrace: CandidateTrace = {
+      dayNumber: candidateDay.dayNumber,
+      tempC: candidateTempC,
+      outcome: 'not_above_coverline',
+      referenceDays: referenceDays.map((n) => ({
+        dayNumber: n,
+        tempC: sorted.find((d) => d.dayNumber === n)!.bbt!,
+      })),
+      skippedDays,
+      coverlineTemp,
+      checks: [],
+      usedFourthDayException: false,
+      usedSecondException: false,
+    };
+    trace?.push(candidateTrace);
 
-    if (candidateTempC <= coverlineTemp) {
+    if (!clears(candidateTempC, coverlineTemp, rules.higherByC)) {
       i++;
       continue;
     }
 
     const confirmResult = checkConfirmingTemps(
-      sorted, i, coverlineTemp, candidateDay.dayNumber
+      sorted, i, coverlineTemp, rules, candidateTrace.checks
     );
+    candidateTrace.outcome = confirmResult.outcome;
+    candidateTrace.usedFourthDayException =
+      confirmResult.outcome === 'confirmed' && confirmResult.usedFourthDay;
+    candidateTrace.usedSecondException =
+      confirmResult.outcome !== 'failed' && confirmResult.setAsideDay !== null;
 
     if (confirmResult.outcome === 'confirmed') {
-      const { confidence, reasons } = calculateConfidence(skippedDays.length);
+      const { confidence, reasons } = calculateConfidence(
+        skippedDays.length,
+        progesteroneDaysThrough(sorted, confirmResult.confirmingDays[confirmResult.confirmingDays.length - 1]),
+      );
       return {
         status: 'confirmed',
         shiftDay: candidateDay.dayNumber,
@@ -60,6 +138,8 @@ export function detectThermalShift(days: CycleDayInput[]): ThermalShiftResult {
         confirmingDays: [candidateDay.dayNumber, ...confirmResult.confirmingDays],
         skippedDays,
         usedFourthDayException: confirmResult.usedFourthDay,
+        usedSecondException: confirmResult.setAsideDay !== null,
+        secondExceptionDay: confirmResult.setAsideDay,
         confidence,
         confidenceReasons: reasons,
         failedAttempts,
@@ -67,7 +147,10 @@ export function detectThermalShift(days: CycleDayInput[]): ThermalShiftResult {
     }
 
     if (confirmResult.outcome === 'pending') {
-      const { confidence, reasons } = calculateConfidence(skippedDays.length);
+      const { confidence, reasons } = calculateConfidence(
+        skippedDays.length,
+        progesteroneDaysThrough(sorted, sorted[sorted.length - 1].dayNumber),
+      );
       return {
         status: 'pending',
         shiftDay: candidateDay.dayNumber,
@@ -76,6 +159,9 @@ export function detectThermalShift(days: CycleDayInput[]): ThermalShiftResult {
         confirmingDays: [candidateDay.dayNumber, ...confirmResult.confirmingDays],
         skippedDays,
         usedFourthDayException: false,
+        usedSecondException: confirmResult.setAsideDay !== null,
+        secondExceptionDay: confirmResult.setAsideDay,
+        nextReading: nextReadingBands(coverlineTemp, rules, confirmResult),
         confidence,
         confidenceReasons: reasons,
         failedAttempts,
@@ -87,7 +173,9 @@ export function detectThermalShift(days: CycleDayInput[]): ThermalShiftResult {
         attemptedShiftDay: candidateDay.dayNumber,
         coverlineTemp,
         referenceDays,
-        failureReason: `Temperature on Day ${confirmResult.failedOnDay} dropped below coverline`,
+        failureReason: confirmResult.missedMarginC === null
+          ? `Temperature on Day ${confirmResult.failedOnDay} dropped below coverline`
+          : `Temperature on Day ${confirmResult.failedOnDay} did not reach coverline +${confirmResult.missedMarginC.toFixed(2)}°C`,
         failedOnDay: confirmResult.failedOnDay,
       });
 
@@ -107,18 +195,25 @@ export function detectThermalShift(days: CycleDayInput[]): ThermalShiftResult {
 }
 
 type ConfirmOutcome =
-  | { outcome: 'confirmed'; confirmingDays: number[]; usedFourthDay: boolean }
-  | { outcome: 'pending'; confirmingDays: number[] }
-  | { outcome: 'failed'; failedOnDay: number };
+  | { outcome: 'confirmed'; confirmingDays: number[]; usedFourthDay: boolean; setAsideDay: number | null }
+  | { outcome: 'pending'; confirmingDays: number[]; setAsideDay: number | null; needFourthDay: boolean }
+  // missedMarginC: the margin the day was above the coverline but short of;
+  // null when it was not above the coverline at all.
+  | { outcome: 'failed'; failedOnDay: number; missedMarginC: number | null };
 
+/** Appends one ConfirmingCheck per temperature tested to `checks`. */
 function checkConfirmingTemps(
   sorted: CycleDayInput[],
   candidateIdx: number,
   coverlineC: number,
-  _candidateDayNumber: number,
+  rules: ThermalShiftRules,
+  checks: ConfirmingCheck[],
 ): ConfirmOutcome {
   const confirmingDays: number[] = [];
   let needFourthDay = false;
+  // Day the second exception set aside; once used, neither exception is
+  // available again.
+  let setAsideDay: number | null = null;
 
   let j = candidateIdx + 1;
 
@@ -132,32 +227,120 @@ function checkConfirmingTemps(
 
     const tempC = d.bbt;
     const positionInConfirm = confirmingDays.length + 1;
+    const higher = clears(tempC, coverlineC, rules.higherByC);
+    const notHigher = (): ConfirmOutcome => ({
+      outcome: 'failed',
+      failedOnDay: d.dayNumber,
+      missedMarginC: tempC > coverlineC ? rules.higherByC : null,
+    });
+    // Second exception: the 2nd or 3rd higher temp may fall to or below the
+    // coverline once, and is then not counted.
+    const canSetAside = rules.secondException && setAsideDay === null && !needFourthDay && tempC <= coverlineC;
 
     if (positionInConfirm === 1) {
-      if (tempC <= coverlineC) {
-        return { outcome: 'failed', failedOnDay: d.dayNumber };
+      checks.push({ dayNumber: d.dayNumber, tempC, position: 2, aboveCoverline: higher, plusThreshold: null, setAside: canSetAside });
+      if (canSetAside) {
+        setAsideDay = d.dayNumber;
+      } else if (!higher) {
+        return notHigher();
+      } else {
+        confirmingDays.push(d.dayNumber);
       }
-      confirmingDays.push(d.dayNumber);
     } else if (positionInConfirm === 2 && !needFourthDay) {
-      if (tempC <= coverlineC) {
-        return { outcome: 'failed', failedOnDay: d.dayNumber };
-      }
-      if (tempC >= coverlineC + THRESHOLD_C) {
-        confirmingDays.push(d.dayNumber);
-        return { outcome: 'confirmed', confirmingDays, usedFourthDay: false };
+      const extraMargin = rules.thirdHigherByC > rules.higherByC;
+      const met = clears(tempC, coverlineC, rules.thirdHigherByC);
+      checks.push({
+        dayNumber: d.dayNumber,
+        tempC,
+        position: 3,
+        aboveCoverline: higher,
+        plusThreshold: extraMargin ? { requiredC: coverlineC + rules.thirdHigherByC, met } : null,
+        setAside: canSetAside,
+      });
+      if (canSetAside) {
+        setAsideDay = d.dayNumber;
+        j++;
+        continue;
       }
+      if (!higher) return notHigher();
       confirmingDays.push(d.dayNumber);
+      if (met) {
+        return { outcome: 'confirmed', confirmingDays, usedFourthDay: false, setAsideDay };
+      }
+      // After a set-aside temp the 3rd counted must reach the margin itself:
+      // the 4th-day exception is not available on top.
+      if (!rules.fourthDayException || setAsideDay !== null) {
+        return { outcome: 'failed', failedOnDay: d.dayNumber, missedMarginC: rules.thirdHigherByC };
+      }
       needFourthDay = true;
     } else if (needFourthDay && positionInConfirm === 3) {
+      checks.push({ dayNumber: d.dayNumber, tempC, position: 4, aboveCoverline: tempC > coverlineC, plusThreshold: null, setAside: false });
       if (checkFourthDayException(tempC, coverlineC)) {
         confirmingDays.push(d.dayNumber);
-        return { outcome: 'confirmed', confirmingDays, usedFourthDay: true };
+        return { outcome: 'confirmed', confirmingDays, usedFourthDay: true, setAsideDay: null };
       }
-      return { outcome: 'failed', failedOnDay: d.dayNumber };
+      return { outcome: 'failed', failedOnDay: d.dayNumber, missedMarginC: null };
     }
 
     j++;
   }
 
-  return { outcome: 'pending', confirmingDays };
+  return { outcome: 'pending', confirmingDays, setAsideDay, needFourthDay };
+}
+
+/**
+ * What the next valid temperature would do to a pending shift, by range.
+ * Mirrors the branches of checkConfirmingTemps for the state it stopped in;
+ * the two must change together.
+ */
+function nextReadingBands(
+  coverlineC: number,
+  rules: ThermalShiftRules,
+  state: { confirmingDays: number[]; setAsideDay: number | null; needFourthDay: boolean },
+): NextReadingBand[] {
+  const counted = state.confirmingDays.length; // higher temps after the candidate
+  const canSetAside = rules.secondException && state.setAsideDay === null && !state.needFourthDay;
+  const third = Math.max(rules.thirdHigherByC, rules.higherByC);
+
+  type Band = Omit<NextReadingBand, 'includesMin'>;
+  const notAbove: Band = state.needFourthDay || !canSetAside
+    ? { outcome: 'fails', minC: null, maxC: coverlineC, via: null }
+    : { outcome: 'pending', minC: null, maxC: coverlineC, via: 'second_exception' };
+
+  // Above the coverline, cut at each margin that applies.
+  const cuts = [0, rules.higherByC, third].filter((m, i, all) => i === 0 || m > all[i - 1]);
+  const above: Band[] = cuts.map((margin, i) => {
+    const minC = roundC(coverlineC + margin);
+    const maxC = i + 1 < cuts.length ? roundC(coverlineC + cuts[i + 1]) : null;
+    const reachesHigher = margin >= rules.higherByC;
+    const reachesThird = margin >= third;
+    if (state.needFourthDay) return { outcome: 'confirms', minC, maxC, via: null };
+    if (!reachesHigher) return { outcome: 'fails', minC, maxC, via: null };
+    if (counted === 0) return { outcome: 'pending', minC, maxC, via: null };
+    if (reachesThird) return { outcome: 'confirms', minC, maxC, via: null };
+    return rules.fourthDayException && state.setAsideDay === null
+      ? { outcome: 'pending', minC, maxC, via: 'fourth_day' }
+      : { outcome: 'fails', minC, maxC, via: null };
+  });
+
+  const bands: NextReadingBand[] = [];
+  for (const [i, band] of [notAbove, ...above].entries()) {
+    const previous = bands[bands.length - 1];
+    if (previous && previous.outcome === band.outcome && previous.via === band.via) {
+      previous.maxC = band.maxC;
+    } else {
+      // The coverline starts "above" strictly; margins are reached inclusively.
+      bands.push({ ...band, includesMin: i > 1 });
+    }
+  }
+  return bands;
+}
+
+/** Days up to lastDay with progesterone supplementation recorded. */
+function progesteroneDaysThrough(sorted: CycleDayInput[], lastDay: number): number[] {
+  return sorted.filter((d) => d.progesterone && d.dayNumber <= lastDay).map((d) => d.dayNumber);
+}
+
+function roundC(tempC: number): number {
+  return Math.round(tempC * 1000) / 1000;
 }
@@ -1,10 +1,8 @@
-import type { CycleDayInput } from '../types';
+import type { CycleDayInput, ThermalShiftRules } from '../types';
 import { collectReferenceDays } from './excludedDays';
-import { detectThermalShift } from './thermalShift';
+import { clears, detectThermalShift, SENSIPLAN_THERMAL_RULES } from './thermalShift';
 import { checkFourthDayException } from './fourthDayException';
 
-const THRESHOLD_C = 0.2;
-
 /**
  * Sensiplan flags shifts before CD8 as suspicious — early shifts are often
  * an artifact of post-menstrual elevation rather than true ovulation.
@@ -21,6 +19,8 @@ export type AdjustValidation =
       skippedDays: number[];
       confirmingDays: number[];
       usedFourthDayException: boolean;
+      usedSecondException: boolean;
+      secondExceptionDay: number | null;
       softWarning: 'early_shift' | null;
     }
   | { kind: 'invalid'; reason: 'picked_day_no_temp' }
@@ -50,8 +50,9 @@ export type AdjustValidation =
     };
 
 /**
- * Validate a user-proposed thermal shift day against Sensiplan rules using
- * raw cycle days. Pure function — no side effects, no I/O.
+ * Validate a user-proposed thermal shift day against a rule set (Sensiplan
+ * by default; pass the selected engine's thermalRules) using raw cycle days.
+ * Pure function — no side effects, no I/O.
  *
  * Returns a tagged union: 'valid' (confirmed or pending) or 'invalid' with a
  * specific reason code. Used by AdjustFlow (live validation as user picks)
@@ -60,6 +61,7 @@ export type AdjustValidation =
 export function validateAdjustment(
   days: CycleDayInput[],
   pickedShiftDay: number,
+  rules: ThermalShiftRules = SENSIPLAN_THERMAL_RULES,
 ): AdjustValidation {
   const sorted = [...days].sort((a, b) => a.dayNumber - b.dayNumber);
 
@@ -80,7 +82,7 @@ export function validateAdjustment(
   // first. This block is run BEFORE the reference window / not_above_coverline
   // check because the user's late pick may produce a contaminated reference
   // window that masks the real Sensiplan violation.
-  const autoDetected = detectThermalShift(sorted);
+  const autoDetected = detectThermalShift(sorted, rules);
   if (autoDetected.status === 'confirmed' && autoDetected.shiftDay < pickedShiftDay) {
     return {
       kind: 'invalid',
@@ -111,14 +113,13 @@ export function validateAdjustment(
   }
   const { coverlineTemp, referenceDays, skippedDays } = refResult;
 
-  // 4. Picked day above coverline
-  const pickedTempC = pickedDay.bbt;
-  if (pickedTempC <= coverlineTemp) {
+  // 4. Picked day above coverline (by the rule set's margin, if any)
+  if (!clears(pickedDay.bbt, coverlineTemp, rules.higherByC)) {
     return { kind: 'invalid', reason: 'not_above_coverline' };
   }
 
   // 5. 3-over-6 confirmation from picked day
-  const confirmResult = checkConfirmingFromPicked(sorted, pickedShiftDay, coverlineTemp);
+  const confirmResult = checkConfirmingFromPicked(sorted, pickedShiftDay, coverlineTemp, rules);
 
   if (confirmResult.outcome === 'rule_broken') {
     return { kind: 'invalid', reason: 'rule_broken', failedOnDay: confirmResult.failedOnDay };
@@ -142,13 +143,15 @@ export function validateAdjustment(
     confirmingDays: [pickedShiftDay, ...confirmResult.confirmingDays],
     usedFourthDayException:
       confirmResult.outcome === 'confirmed' ? confirmResult.usedFourthDay : false,
+    usedSecondException: confirmResult.setAsideDay !== null,
+    secondExceptionDay: confirmResult.setAsideDay,
     softWarning,
   };
 }
 
 type ConfirmFromPickedOutcome =
-  | { outcome: 'confirmed'; confirmingDays: number[]; usedFourthDay: boolean }
-  | { outcome: 'pending'; confirmingDays: number[] }
+  | { outcome: 'confirmed'; confirmingDays: number[]; usedFourthDay: boolean; setAsideDay: number | null }
+  | { outcome: 'pending'; confirmingDays: number[]; setAsideDay: number | null }
   | { outcome: 'rule_broken'; failedOnDay: number; confirmingDays: number[] }
   | { outcome: 'fourth_day_failed'; failedOnDay: number; confirmingDays: number[] };
 
@@ -168,9 +171,11 @@ function checkConfirmingFromPicked(
   sorted: CycleDayInput[],
   pickedShiftDay: number,
   coverlineC: number,
+  rules: ThermalShiftRules,
 ): ConfirmFromPickedOutcome {
   const confirmingDays: number[] = [];
   let needFourthDay = false;
+  let setAsideDay: number | null = null;
   let i = sorted.findIndex((d) => d.dayNumber === pickedShiftDay) + 1;
 
   while (i < sorted.length) {
@@ -181,31 +186,35 @@ function checkConfirmingFromPicked(
     }
     const tempC = d.bbt;
     const positionInConfirm = confirmingDays.length + 1;
-
-    if (positionInConfirm === 1) {
-      if (tempC <= coverlineC) {
-        return { outcome: 'rule_broken', failedOnDay: d.dayNumber, confirmingDays };
-      }
+    const higher = clears(tempC, coverlineC, rules.higherByC);
+
+    if (positionInConfirm <= 2 && !needFourthDay && tempC <= coverlineC && rules.secondException && setAsideDay === null) {
+      // Second exception: one of the 2nd and 3rd may drop and is not counted.
+      setAsideDay = d.dayNumber;
+    } else if (positionInConfirm <= 2 && !needFourthDay && !higher) {
+      return { outcome: 'rule_broken', failedOnDay: d.dayNumber, confirmingDays };
+    } else if (positionInConfirm === 1) {
       confirmingDays.push(d.dayNumber);
     } else if (positionInConfirm === 2) {
-      if (tempC <= coverlineC) {
-        return { outcome: 'rule_broken', failedOnDay: d.dayNumber, confirmingDays };
-      }
-      if (tempC >= coverlineC + THRESHOLD_C) {
+      if (clears(tempC, coverlineC, rules.thirdHigherByC)) {
         confirmingDays.push(d.dayNumber);
-        return { outcome: 'confirmed', confirmingDays, usedFourthDay: false };
+        return { outcome: 'confirmed', confirmingDays, usedFourthDay: false, setAsideDay };
+      }
+      // The exceptions are never combined.
+      if (!rules.fourthDayException || setAsideDay !== null) {
+        return { outcome: 'rule_broken', failedOnDay: d.dayNumber, confirmingDays };
       }
       confirmingDays.push(d.dayNumber);
       needFourthDay = true;
     } else if (positionInConfirm === 3 && needFourthDay) {
       if (checkFourthDayException(tempC, coverlineC)) {
         confirmingDays.push(d.dayNumber);
-        return { outcome: 'confirmed', confirmingDays, usedFourthDay: true };
+        return { outcome: 'confirmed', confirmingDays, usedFourthDay: true, setAsideDay: null };
       }
       return { outcome: 'fourth_day_failed', failedOnDay: d.dayNumber, confirmingDays };
     }
     i++;
   }
 
-  return { outcome: 'pending', confirmingDays };
+  return { outcome: 'pending', confirmingDays, setAsideDay };
 }
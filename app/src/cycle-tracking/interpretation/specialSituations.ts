@@ -0,0 +1,20 @@
+/**
+ * Per-cycle special situations, each switching the cycle away from the
+ * user's selected rules (see the situation engines in engines.ts): after
+ * childbirth and breastfeeding to a conservative fallback, perimenopause to
+ * Sensiplan without the start-of-cycle rules. Mirrors the SpecialSituation
+ * enum on Cycle.
+ */
+export const SPECIAL_SITUATIONS = ['POSTPARTUM', 'BREASTFEEDING', 'PERIMENOPAUSE'] as const;
+
+export type SpecialSituation = (typeof SPECIAL_SITUATIONS)[number];
+
+export const SPECIAL_SITUATION_LABELS: Record<SpecialSituation, string> = {
+  POSTPARTUM: 'After childbirth',
+  BREASTFEEDING: 'Breastfeeding',
+  PERIMENOPAUSE: 'Perimenopause',
+};
+
+export function isSpecialSituation(value: unknown): value is SpecialSituation {
+  return typeof value === 'string' && (SPECIAL_SITUATIONS as readonly string[]).includes(value);
+}
@@ -9,7 +9,10 @@ export type CycleDayInput = {
   bbtTime: string | null;         // "HH:MM" or null
   excludeFromInterpretation: boolean;
   disturbanceFactors: string[];
-  travelTimeDiff: number | null;  // minutes offset if travel event
+  travelTimeDiff: number | null;  // hours ahead of home time on a travel day
+  cervicalAppearance?: string | null;  // CervicalAppearance enum value
+  cervicalSensation?: string | null;   // CervicalSensation enum value
+  progesterone?: boolean;              // progesterone supplementation recorded
 };
 
 // ============================================================
@@ -35,19 +38,39 @@ export type ThermalShiftPending = {
   confirmingDays: number[];         // 1-3 recorded so far
   skippedDays: number[];
   usedFourthDayException: boolean;  // false while pending
+  usedSecondException: boolean;     // a higher temp has already been set aside
+  secondExceptionDay: number | null;
+  nextReading: NextReadingBand[];   // what the next valid temperature would do
   confidence: Confidence;
   confidenceReasons: string[];
   failedAttempts: FailedAttempt[];
 };
 
+/**
+ * One range of the next valid temperature and what it does to a pending
+ * shift. Bands are contiguous and ordered from low to high; minC/maxC are
+ * °C, null when unbounded. A margin boundary (coverline + x) belongs to the
+ * band above it, the coverline itself to the band below it — includesMin
+ * says which. `via` names the exception a pending band relies on.
+ */
+export type NextReadingBand = {
+  outcome: 'confirms' | 'pending' | 'fails';
+  minC: number | null;
+  maxC: number | null;
+  includesMin: boolean;
+  via: 'fourth_day' | 'second_exception' | null;
+};
+
 export type ThermalShiftConfirmed = {
   status: 'confirmed';
   shiftDay: number;
   coverlineTemp: number;            // °C, full precision
   referenceDays: number[];
-  confirmingDays: number[];         // 3 or 4 days
+  confirmingDays: number[];         // 3 or 4 days; never the set-aside day
   skippedDays: number[];
   usedFourthDayException: boolean;
+  usedSecondException: boolean;
+  secondExceptionDay: number | null; // the higher temp set aside, when used
   confidence: Confidence;
   confidenceReasons: string[];
   failedAttempts: FailedAttempt[];
@@ -55,6 +78,23 @@ export type ThermalShiftConfirmed = {
 
 export type Confidence = 'high' | 'low';
 
+/**
+ * Margins a rule set applies to the 3-over-6 scan, in °C above the coverline.
+ * Every higher temperature must be strictly above the coverline and at least
+ * higherByC above it; the 3rd must reach thirdHigherByC, failing which the
+ * 4th-day exception (if the rule set has one) asks for a 4th higher temp.
+ * The second exception (if the rule set has one) sets aside one of the 2nd
+ * and 3rd higher temps that falls to or below the coverline; the next temp
+ * then stands in for it, and the 3rd counted must reach thirdHigherByC. The
+ * two exceptions are never combined.
+ */
+export type ThermalShiftRules = {
+  higherByC: number;
+  thirdHigherByC: number;
+  fourthDayException: boolean;
+  secondException: boolean;
+};
+
 export type FailedAttempt = {
   attemptedShiftDay: number;
   coverlineTemp: number;
@@ -63,6 +103,124 @@ export type FailedAttempt = {
   failedOnDay: number;
 };
 
+// ============================================================
+// Thermal shift explanation trace
+// ============================================================
+
+/** Step-by-step record of how detectThermalShift reached its result. */
+export type ThermalShiftTrace = {
+  result: ThermalShiftResult;
+  candidates: CandidateTrace[];
+};
+
+/**
+ * One valid temperature considered as the first higher temperature.
+ *
+ * - no_reference: fewer than 6 valid temperatures before it
+ * - not_above_coverline: not higher than the 6 before it
+ * - failed / pending / confirmed: outcome of the confirming-day checks
+ */
+export type CandidateTrace = {
+  dayNumber: number;
+  tempC: number;
+  outcome: 'no_reference' | 'not_above_coverline' | 'failed' | 'pending' | 'confirmed';
+  referenceDays: { dayNumber: number; tempC: number }[];  // the 6 lows; [] for no_reference
+  skippedDays: number[];                                   // excluded days passed over
+  coverlineTemp: number | null;                            // °C; null for no_reference
+  checks: ConfirmingCheck[];
+  usedFourthDayException: boolean;
+  usedSecondException: boolean;
+};
+
+/**
+ * One confirming-day test. position counts higher temperatures from the
+ * candidate (1): the 2nd must be above the coverline, the 3rd must also
+ * reach coverline +0.2 °C, and the 4th (exception) only above the coverline.
+ * Under other rule sets aboveCoverline includes the rule's margin, and
+ * plusThreshold is null when the 3rd day needs no more than the others.
+ * setAside marks the temp the second exception did not count; position is
+ * the one it failed to fill.
+ */
+export type ConfirmingCheck = {
+  dayNumber: number;
+  tempC: number;
+  position: 2 | 3 | 4;
+  aboveCoverline: boolean;
+  plusThreshold: { requiredC: number; met: boolean } | null;  // 3rd day only
+  setAside: boolean;
+};
+
+// ============================================================
+// Cervical mucus peak result — discriminated union
+// ============================================================
+
+/** Sensiplan mucus quality scale, lowest to highest. */
+export type MucusQuality = 'd' | '∅' | 'm' | 'm+' | 'S' | 'S+';
+
+export type MucusPeakResult =
+  | MucusPeakNone
+  | MucusPeakPending
+  | MucusPeakConfirmed;
+
+export type MucusPeakNone = {
+  status: 'none';
+  reason: 'insufficient_data' | 'no_peak_detected';
+};
+
+export type MucusPeakPending = {
+  status: 'pending';
+  peakDay: number;
+  peakQuality: MucusQuality;
+  postPeakDays: number[];           // 1-2 lower-quality days recorded so far
+};
+
+export type MucusPeakConfirmed = {
+  status: 'confirmed';
+  peakDay: number;
+  peakQuality: MucusQuality;
+  postPeakDays: number[];           // exactly 3 days
+};
+
+// ============================================================
+// Double-check (symptothermal) fertile-window closure
+// ============================================================
+
+export type FertileWindowSign = 'temperature' | 'mucus';
+
+export type FertileWindowClosure =
+  | FertileWindowOpen
+  | FertileWindowClosed;
+
+export type FertileWindowOpen = {
+  status: 'open';
+  awaiting: FertileWindowSign[];    // signs whose evaluation is not yet complete
+  temperatureCompleteDay: number | null;
+  mucusCompleteDay: number | null;
+};
+
+export type FertileWindowClosed = {
+  status: 'closed';
+  infertileFromDay: number;         // infertile from the EVENING of this day
+  decidedBy: FertileWindowSign;     // the sign that finished later
+  temperatureCompleteDay: number;
+  mucusCompleteDay: number;
+};
+
+// ============================================================
+// Start-of-cycle infertile days (5-day / minus-8 rule)
+// ============================================================
+
+export type EarlyInfertileRule = 'five_day' | 'minus_8';
+
+export type EarlyInfertileResult = {
+  rule: EarlyInfertileRule;
+  ruleLastDay: number;              // last infertile day by the rule alone
+  lastInfertileDay: number;         // after the mucus limit; 0 = no infertile days
+  endedByMucusOnDay: number | null; // first day with mucus (≥ m), if it cut the phase short
+  cyclesConsidered: number;         // past cycles with a known first higher temp
+  earliestShiftDay: number | null;
+};
+
 // ============================================================
 // Post-shift monitoring
 // ============================================================
@@ -73,6 +231,8 @@ export type PostShiftMonitoring = {
   daysMonitored: number;
   dipsBelow: DipBelow[];
   consecutiveUnexplainedDips: number;
+  highTemps: number;              // valid temps above the coverline from the shift day on
+  pregnancyIndication: boolean;   // highTemps > PREGNANCY_HIGH_TEMPS, no active false-rise warning
 };
 
 export type DipBelow = {
@@ -117,23 +277,38 @@ export type TimeWindowSegment = {
   window: TimeWindow;
 };
 
+/** A reading moved by correctForMeasurementTime. */
+export type MeasurementTimeCorrection = {
+  dayNumber: number;
+  rawBbt: number;             // °C as recorded
+  correctedBbt: number;       // °C as fed to the engine
+  minutesOff: number;         // vs the usual time on the home clock; positive = late
+};
+
 // ============================================================
 // User overrides (stored in DB)
 // ============================================================
 
 export type UserOverrides = {
   shiftDay?: number;
+  peakDay?: number;                 // CERVICAL_MUCUS_PEAK rows only
   // Note: coverlineTemp was removed in v2 (2026-04-26). The coverline is
   // now always derived from raw days via collectReferenceDays(days, shiftDay).
-  // Stored values from before this change are silently ignored.
+  // Stored values from before this change are silently ignored. Results
+  // stamped with an older engine version are re-run by reinterpretationJob.
 };
 
+/** Persisted `CycleInterpretation.type` values. */
+export type InterpretationTypeName = 'THERMAL_SHIFT' | 'CERVICAL_MUCUS_PEAK';
+
 // ============================================================
 // Full interpretation result (returned by orchestrator)
 // ============================================================
 
 export type InterpretationResult = {
   thermalShift: ThermalShiftResult;
+  mucusPeak: MucusPeakResult;
+  fertileWindow: FertileWindowClosure;
   nudges: Nudge[];
   timeWindow: TimeWindowResult;
 };
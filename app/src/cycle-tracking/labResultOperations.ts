@@ -0,0 +1,74 @@
+import { HttpError } from 'wasp/server';
+import type { GetCycleLabResults, SaveLabResult, DeleteLabResult } from 'wasp/server/operations';
+import type { LabResult } from 'wasp/entities';
+import type { Prisma } from '@prisma/client';
+import { validateLabResult, type LabResultInput, type LabResultPoint } from './labResults';
+
+async function getOwnedCycleDay(
+  cycleDayId: string,
+  userId: string,
+  entities: { CycleDay: Prisma.CycleDayDelegate },
+) {
+  const cycleDay = await entities.CycleDay.findUnique({
+    where: { id: cycleDayId },
+    include: { cycle: true },
+  });
+  if (!cycleDay) throw new HttpError(404, 'Cycle day not found');
+  if (cycleDay.cycle.userId !== userId) throw new HttpError(403, 'Not authorized');
+  return cycleDay;
+}
+
+/** Every lab result of a cycle, with the day number it was taken on. */
+export const getCycleLabResults: GetCycleLabResults<{ cycleId: string }, (LabResultPoint & { id: string; cycleDayId: string })[]> =
+  async (args, context) => {
+    if (!context.user) throw new HttpError(401, 'Not authorized');
+    const cycle = await context.entities.Cycle.findUnique({ where: { id: args.cycleId } });
+    if (!cycle) throw new HttpError(404, 'Cycle not found');
+    if (cycle.userId !== context.user.id) throw new HttpError(403, 'Not authorized');
+
+    const results = await context.entities.LabResult.findMany({
+      where: { cycleDay: { cycleId: args.cycleId } },
+      include: { cycleDay: { select: { dayNumber: true } } },
+    });
+    return results
+      .map((r) => ({
+        id: r.id,
+        cycleDayId: r.cycleDayId,
+        dayNumber: r.cycleDay.dayNumber,
+        hormone: r.hormone,
+        value: r.value,
+        unit: r.unit,
+        referenceLow: r.referenceLow,
+        referenceHigh: r.referenceHigh,
+      }))
+      .sort((a, b) => a.dayNumber - b.dayNumber);
+  };
+
+/**
+ * Record a lab result on a cycle day. A day holds one result per hormone;
+ * saving the same hormone again replaces it.
+ */
+export const saveLabResult: SaveLabResult<LabResultInput & { cycleDayId: string }, LabResult> =
+  async (args, context) => {
+    if (!context.user) throw new HttpError(401, 'Not authorized');
+    const validated = validateLabResult(args);
+    if (validated.kind === 'error') throw new HttpError(400, validated.message);
+    await getOwnedCycleDay(args.cycleDayId, context.user.id, context.entities);
+
+    const { hormone, ...values } = validated.values;
+    return context.entities.LabResult.upsert({
+      where: { cycleDayId_hormone: { cycleDayId: args.cycleDayId, hormone } },
+      create: { cycleDayId: args.cycleDayId, hormone, ...values },
+      update: values,
+    });
+  };
+
+export const deleteLabResult: DeleteLabResult<{ labResultId: string }, void> =
+  async (args, context) => {
+    if (!context.user) throw new HttpError(401, 'Not authorized');
+    const result = await context.entities.LabResult.findUnique({ where: { id: args.labResultId } });
+    if (!result) throw new HttpError(404, 'Lab result not found');
+    await getOwnedCycleDay(result.cycleDayId, context.user.id, context.entities);
+
+    await context.entities.LabResult.delete({ where: { id: args.labResultId } });
+  };
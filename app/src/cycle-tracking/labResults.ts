@@ -0,0 +1,153 @@
+/** Hormones a lab result can report (LabResult.hormone). */
+export const LAB_HORMONES = ['LH', 'FSH', 'PROLACTIN', 'PROGESTERONE', 'HCG'] as const;
+
+export type LabHormone = (typeof LAB_HORMONES)[number];
+
+export const LAB_HORMONE_LABELS: Record<LabHormone, string> = {
+  LH: 'LH',
+  FSH: 'FSH',
+  PROLACTIN: 'Prolactin',
+  PROGESTERONE: 'Progesterone',
+  HCG: 'hCG',
+};
+
+/** Unit the entry form suggests; labs differ, so any unit is accepted. */
+export const LAB_DEFAULT_UNITS: Record<LabHormone, string> = {
+  LH: 'mIU/mL',
+  FSH: 'mIU/mL',
+  PROLACTIN: 'ng/mL',
+  PROGESTERONE: 'ng/mL',
+  HCG: 'mIU/mL',
+};
+
+export const LAB_UNIT_MAX_LENGTH = 20;
+
+export type LabResultInput = {
+  hormone: string;
+  value: number;
+  unit: string;
+  referenceLow?: number | null;
+  referenceHigh?: number | null;
+};
+
+export type LabResultValues = {
+  hormone: LabHormone;
+  value: number;
+  unit: string;
+  referenceLow: number | null;
+  referenceHigh: number | null;
+};
+
+/** A stored result with the cycle day it belongs to. */
+export type LabResultPoint = LabResultValues & { dayNumber: number };
+
+export function isLabHormone(value: unknown): value is LabHormone {
+  return typeof value === 'string' && (LAB_HORMONES as readonly string[]).includes(value);
+}
+
+/**
+ * Check a lab result before it is stored: a known hormone, a value of zero
+ * or more, a unit, and a reference range whose ends are in order.
+ */
+export function validateLabResult(
+  input: LabResultInput,
+): { kind: 'ok'; values: LabResultValues } | { kind: 'error'; message: string } {
+  if (!isLabHormone(input.hormone)) {
+    return { kind: 'error', message: `Unknown hormone: ${String(input.hormone)}` };
+  }
+  const isAmount = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+  if (!isAmount(input.value)) {
+    return { kind: 'error', message: 'Value must be a number of 0 or more' };
+  }
+  const unit = typeof input.unit === 'string' ? input.unit.trim() : '';
+  if (unit === '' || unit.length > LAB_UNIT_MAX_LENGTH) {
+    return { kind: 'error', message: `Unit must be 1 to ${LAB_UNIT_MAX_LENGTH} characters` };
+  }
+  const referenceLow = input.referenceLow ?? null;
+  const referenceHigh = input.referenceHigh ?? null;
+  if ((referenceLow !== null && !isAmount(referenceLow)) || (referenceHigh !== null && !isAmount(referenceHigh))) {
+    return { kind: 'error', message: 'Reference range ends must be numbers of 0 or more' };
+  }
+  if (referenceLow !== null && referenceHigh !== null && referenceLow > referenceHigh) {
+    return { kind: 'error', message: 'Reference range must run from low to high' };
+  }
+  return { kind: 'ok', values: { hormone: input.hormone, value: input.value, unit, referenceLow, referenceHigh } };
+}
+
+/** Where a result falls against its own reference range, when it has one. */
+export function rangeFlag(result: LabResultValues): 'low' | 'high' | null {
+  if (result.referenceLow !== null && result.value < result.referenceLow) return 'low';
+  if (result.referenceHigh !== null && result.value > result.referenceHigh) return 'high';
+  return null;
+}
+
+/** Hormones that have at least one result, in LAB_HORMONES order. */
+export function hormonesWithResults(results: Pick<LabResultPoint, 'hormone'>[]): LabHormone[] {
+  return LAB_HORMONES.filter((h) => results.some((r) => r.hormone === h));
+}
+
+// ===== MID-LUTEAL PROGESTERONE =====
+
+/**
+ * Serum progesterone above this (ng/mL) in the mid-luteal phase indicates
+ * that ovulation took place.
+ */
+export const OVULATORY_PROGESTERONE_NG_ML = 3;
+
+/** 1 ng/mL of progesterone is 3.18 nmol/L. */
+const NMOL_PER_NG_ML = 3.18;
+
+// Mid-luteal is about a week after ovulation. Ovulation is taken as the day
+// before the first higher temperature, so the window is 6–10 days after it.
+const WINDOW_FROM_OVULATION = { from: 6, to: 10 };
+
+export type MidLutealCheck =
+  | { status: 'no_shift' }
+  | { status: 'supplemented' }
+  | { status: 'no_sample'; window: { from: number; to: number }; outsideWindow: number[] }
+  | { status: 'unknown_unit'; day: number; unit: string }
+  | { status: 'corroborates' | 'contradicts'; day: number; valueNgMl: number; window: { from: number; to: number } };
+
+/**
+ * Does a mid-luteal progesterone result support the thermal shift? Looks at
+ * progesterone results within the mid-luteal window of `shiftDay` (the first
+ * higher temperature) and uses the latest one there. Progesterone
+ * supplementation makes the lab value meaningless for this, so a
+ * supplemented cycle is reported as such.
+ */
+export function checkMidLutealProgesterone(
+  results: LabResultPoint[],
+  shiftDay: number | null,
+  options: { supplemented?: boolean } = {},
+): MidLutealCheck {
+  if (shiftDay === null) return { status: 'no_shift' };
+  if (options.supplemented) return { status: 'supplemented' };
+
+  const ovulationDay = shiftDay - 1;
+  const window = { from: ovulationDay + WINDOW_FROM_OVULATION.from, to: ovulationDay + WINDOW_FROM_OVULATION.to };
+  const progesterone = results.filter((r) => r.hormone === 'PROGESTERONE');
+  const inWindow = progesterone
+    .filter((r) => r.dayNumber >= window.from && r.dayNumber <= window.to)
+    .sort((a, b) => a.dayNumber - b.dayNumber);
+
+  const sample = inWindow[inWindow.length - 1];
+  if (!sample) {
+    return { status: 'no_sample', window, outsideWindow: progesterone.map((r) => r.dayNumber).sort((a, b) => a - b) };
+  }
+  const valueNgMl = progesteroneInNgMl(sample.value, sample.unit);
+  if (valueNgMl === null) return { status: 'unknown_unit', day: sample.dayNumber, unit: sample.unit };
+
+  return {
+    status: valueNgMl >= OVULATORY_PROGESTERONE_NG_ML ? 'corroborates' : 'contradicts',
+    day: sample.dayNumber,
+    valueNgMl,
+    window,
+  };
+}
+
+function progesteroneInNgMl(value: number, unit: string): number | null {
+  const key = unit.trim().toLowerCase().replace(/\s+/g, '');
+  if (key === 'ng/ml' || key === 'µg/l' || key === 'ug/l') return value;
+  if (key === 'nmol/l') return value / NMOL_PER_NG_ML;
+  return null;
+}
@@ -0,0 +1,154 @@
+/** Medications a day can record (CycleDay.medications). */
+export const MEDICATION_TYPES = [
+  'PROGESTERONE',
+  'ESTROGEN',
+  'FSH',
+  'IVF_STIMULATION',
+  'HCG_TRIGGER',
+  'CLOMIPHENE',
+  'LETROZOLE',
+  'OTHER_SUPPLEMENTS',
+  'OTHER',
+] as const;
+
+export type MedicationType = (typeof MEDICATION_TYPES)[number];
+
+export const MEDICATION_LABELS: Record<MedicationType, string> = {
+  PROGESTERONE: 'Progesterone',
+  ESTROGEN: 'Estrogen',
+  FSH: 'FSH',
+  IVF_STIMULATION: 'IVF stimulation',
+  HCG_TRIGGER: 'hCG trigger',
+  CLOMIPHENE: 'Clomiphene',
+  LETROZOLE: 'Letrozole',
+  OTHER_SUPPLEMENTS: 'Other supplements',
+  OTHER: 'Other medication',
+};
+
+/** Compact labels for the chart's Treatment row. */
+export const MEDICATION_SHORT_LABELS: Record<MedicationType, string> = {
+  PROGESTERONE: 'P4',
+  ESTROGEN: 'E2',
+  FSH: 'FSH',
+  IVF_STIMULATION: 'Stim',
+  HCG_TRIGGER: 'hCG',
+  CLOMIPHENE: 'Clo',
+  LETROZOLE: 'Let',
+  OTHER_SUPPLEMENTS: 'Sup',
+  OTHER: 'Rx',
+};
+
+/** Treatments and tests a day can record (CycleDay.treatments). */
+export const TREATMENT_TYPES = [
+  'ULTRASOUND',
+  'BLOOD_WORK',
+  'EGG_RETRIEVAL',
+  'EMBRYO_TRANSFER',
+  'INSEMINATION',
+  'PAP_TEST',
+  'OTHER_TESTS',
+] as const;
+
+export type TreatmentType = (typeof TREATMENT_TYPES)[number];
+
+export const TREATMENT_LABELS: Record<TreatmentType, string> = {
+  ULTRASOUND: 'Ultrasound',
+  BLOOD_WORK: 'Blood work',
+  EGG_RETRIEVAL: 'Egg retrieval',
+  EMBRYO_TRANSFER: 'Embryo transfer',
+  INSEMINATION: 'Insemination',
+  PAP_TEST: 'Pap test',
+  OTHER_TESTS: 'Other tests',
+};
+
+/** Longest dose or detail text kept with an entry ("200 mg vaginal"). */
+export const ENTRY_DETAIL_MAX_LENGTH = 60;
+
+export type MedicationEntry = { type: MedicationType; dose: string | null };
+export type TreatmentEntry = { type: TreatmentType; detail: string | null };
+
+export type EntriesParseResult<T> =
+  | { kind: 'ok'; entries: T[] }
+  | { kind: 'error'; message: string };
+
+/**
+ * Validate and normalise a day's medications: a list of `{ type, dose }`
+ * with at most one entry per type. Doses are trimmed; a blank dose is null.
+ * A missing value (null/undefined, as on days recorded before medications
+ * existed) is an empty list.
+ */
+export function parseMedications(value: unknown): EntriesParseResult<MedicationEntry> {
+  return parseEntries(value, MEDICATION_TYPES, 'dose', 'Medication') as EntriesParseResult<MedicationEntry>;
+}
+
+/** Validate and normalise a day's treatments and tests; see parseMedications. */
+export function parseTreatments(value: unknown): EntriesParseResult<TreatmentEntry> {
+  return parseEntries(value, TREATMENT_TYPES, 'detail', 'Treatment') as EntriesParseResult<TreatmentEntry>;
+}
+
+/** Stored medications for display; anything unreadable shows as none. */
+export function readMedications(value: unknown): MedicationEntry[] {
+  const parsed = parseMedications(value);
+  return parsed.kind === 'ok' ? parsed.entries : [];
+}
+
+/** Stored treatments for display; anything unreadable shows as none. */
+export function readTreatments(value: unknown): TreatmentEntry[] {
+  const parsed = parseTreatments(value);
+  return parsed.kind === 'ok' ? parsed.entries : [];
+}
+
+/**
+ * Whether the day's medications include progesterone. Supplemental
+ * progesterone raises waking temperature, so the engine reads such days
+ * with caution.
+ */
+export function takesProgesterone(medications: unknown): boolean {
+  return readMedications(medications).some((m) => m.type === 'PROGESTERONE');
+}
+
+/** "Progesterone 200 mg" — one entry in running text. */
+export function describeMedication(entry: MedicationEntry): string {
+  return entry.dose ? `${MEDICATION_LABELS[entry.type]} ${entry.dose}` : MEDICATION_LABELS[entry.type];
+}
+
+/** "Ultrasound (left ovary 18 mm)" — one entry in running text. */
+export function describeTreatment(entry: TreatmentEntry): string {
+  return entry.detail ? `${TREATMENT_LABELS[entry.type]} (${entry.detail})` : TREATMENT_LABELS[entry.type];
+}
+
+function parseEntries(
+  value: unknown,
+  types: readonly string[],
+  detailKey: 'dose' | 'detail',
+  what: string,
+): EntriesParseResult<Record<string, string | null>> {
+  if (value == null) return { kind: 'ok', entries: [] };
+  if (!Array.isArray(value)) return { kind: 'error', message: `${what} entries must be a list` };
+
+  const entries: Record<string, string | null>[] = [];
+  const seen = new Set<string>();
+  for (const item of value) {
+    if (typeof item !== 'object' || item === null) {
+      return { kind: 'error', message: `${what} entries must be objects` };
+    }
+    const { type } = item as Record<string, unknown>;
+    const detail = (item as Record<string, unknown>)[detailKey] ?? null;
+    if (typeof type !== 'string' || !types.includes(type)) {
+      return { kind: 'error', message: `Unknown ${what.toLowerCase()} type: ${String(type)}` };
+    }
+    if (seen.has(type)) {
+      return { kind: 'error', message: `${what} ${type} is listed twice` };
+    }
+    if (detail !== null && typeof detail !== 'string') {
+      return { kind: 'error', message: `${what} ${detailKey} must be text` };
+    }
+    const trimmed = detail?.trim() || null;
+    if (trimmed !== null && trimmed.length > ENTRY_DETAIL_MAX_LENGTH) {
+      return { kind: 'error', message: `${what} ${detailKey} must be at most ${ENTRY_DETAIL_MAX_LENGTH} characters` };
+    }
+    seen.add(type);
+    entries.push({ type, [detailKey]: trimmed });
+  }
+  return { kind: 'ok', entries };
+}
@@ -1,5 +1,4 @@
-import { HttpError } from 'wasp/server';
-import { parse } from 'csv-parse/sync';
+import { HttpError, prisma } from 'wasp/server';
 import type {
   GetUserCycles,
   GetCycleById,
@@ -13,17 +12,39 @@ import type {
   DeleteCycle,
   UpdateCycle,
   DeleteCycleDay,
-  ImportCycleCsv
+  ImportCycleCsv,
+  ImportCycleCsvBulk,
+  PreviewCycleCsv,
+  RestoreUserData
 } from 'wasp/server/operations';
-import type { Cycle, CycleDay, UserSettings } from 'wasp/entities';
+import type { Cycle, CycleDay, CycleInterpretation, UserSettings } from 'wasp/entities';
 import { Prisma } from '@prisma/client';
-import { computeCycleStartDate, convertToCelsiusForStorage, getDayOfWeek } from './utils';
+import { getDayOfWeek } from './utils';
 import { isNoteTooLong, NOTE_MAX_LENGTH } from './notesValidation';
+import { parseMedications, parseTreatments } from './medications';
 import {
   buildCycleDayUpdateData,
   buildCycleDayCreateData,
   type CycleDayPartialArgs,
 } from './cycleDayDataBuilders';
+import type { CsvColumnReport } from './csvColumnMapping';
+import { buildImportDayData, parseCsvImport, type PreparedCsvImport } from './csvImport';
+import type { CsvLocaleOverrides } from './csvLocale';
+import { orderBulkImport, type BulkImportCandidate, type BulkImportFileSummary } from './csvBulkImport';
+import type { CsvFile } from './csvFiles';
+import { diffImportDay, type CsvImportPreview } from './csvImportPreview';
+import { MAX_CORRECTION_C_PER_HOUR } from './interpretation/sensiplan/measurementTime';
+import { parseExclusionRules, type ExclusionRules } from './interpretation/sensiplan/exclusionSuggestions';
+import { isSelectableEngineId } from './interpretation/engines';
+import { isValidPostPillCycles, MAX_POST_PILL_CYCLES, nextPostPillTag } from './postPill';
+import type { ExportArchiveDay, ExportArchiveExclusionDecision, ExportArchiveInterpretation } from './dataExport';
+import {
+  planRestore,
+  RESTORE_MODES,
+  validateExportArchive,
+  type RestoreMode,
+  type RestoreSummary,
+} from './dataRestore';
 
 // TemperatureUnit type - matches Prisma enum
 // Will be available from '@prisma/client' after running migration
@@ -62,13 +83,23 @@ async function recalculateCycleNumbers(userId: string, context: any): Promise<vo
  */
 type CycleWithDays = Cycle & { days: CycleDay[] };
 
+/**
+ * Thermal-shift interpretation fields the client needs for cross-cycle
+ * rules (e.g. the minus-8 start-of-cycle rule).
+ */
+type CycleInterpretationSummary = Pick<
+  CycleInterpretation,
+  'type' | 'state' | 'engineResult' | 'userOverrides'
+>;
+type CycleWithHistory = CycleWithDays & { interpretations: CycleInterpretationSummary[] };
+
 /**
  * Ensure an inactive cycle's endDate matches the last recorded day, and return the normalized cycle.
  */
-async function ensureCycleEndDate(
-  cycle: CycleWithDays,
+async function ensureCycleEndDate<T extends CycleWithDays>(
+  cycle: T,
   context: any // Wasp context type not re-exported here
-): Promise<CycleWithDays> {
+): Promise<T> {
   if (cycle.isActive) {
     return cycle;
   }
@@ -91,13 +122,14 @@ async function ensureCycleEndDate(
         }
       }
     });
-    return updated as CycleWithDays;
+    // Spread over the input so extra includes (e.g. interpretations) survive.
+    return { ...cycle, ...(updated as CycleWithDays) };
   }
 
   return cycle;
 }
 
-export const getUserCycles: GetUserCycles<void, CycleWithDays[]> = async (_args, context) => {
+export const getUserCycles: GetUserCycles<void, CycleWithHistory[]> = async (_args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
@@ -111,9 +143,13 @@ export const getUserCycles: GetUserCycles<void, CycleWithDays[]> = async (_args,
     include: {
       days: {
         orderBy: { dayNumber: 'asc' }
+      },
+      interpretations: {
+        where: { type: 'THERMAL_SHIFT' },
+        select: { type: true, state: true, engineResult: true, userOverrides: true }
       }
     }
-  }) as CycleWithDays[];
+  }) as CycleWithHistory[];
 
   // Normalize past cycles so endDate reflects the last recorded day
   const normalizedCycles = await Promise.all(
@@ -215,6 +251,7 @@ type PreviousCycleSummary = {
   cycleNumber: number;
   isMarked: boolean;
   hasConfirmedShift: boolean;
+  specialSituation: string | null;
 } | null;
 
 export const getPreviousCycleSummary: GetPreviousCycleSummary<
@@ -249,19 +286,30 @@ export const getPreviousCycleSummary: GetPreviousCycleSummary<
     cycleNumber: prev.cycleNumber,
     isMarked,
     hasConfirmedShift,
+    specialSituation: prev.specialSituation ?? null,
   };
 };
 
 // ===== ACTIONS =====
 
 /**
- * Create a new cycle
+ * Create a new cycle. `postPillCycles` starts a wash-out after stopping
+ * hormonal contraception: this cycle and the following ones up to that
+ * count are tagged post-pill (see nextPostPillTag).
  */
-type CreateCycleArgs = { startDate: string };
+type CreateCycleArgs = {
+  startDate: string;
+  postPillCycles?: number;
+  /** Required to end an active cycle that is in pregnancy mode. */
+  newPeriodStarted?: boolean;
+};
 export const createCycle: CreateCycle<CreateCycleArgs, CycleWithDays> = async (args, context) => {
   if (!context.user) {
     throw new HttpError(401, 'Not authorized');
   }
+  if (args.postPillCycles != null && !isValidPostPillCycles(args.postPillCycles)) {
+    throw new HttpError(400, `Post-pill cycles must be a whole number from 1 to ${MAX_POST_PILL_CYCLES}`);
+  }
 
   // Get all active cycles to potentially deactivate them
   const activeCycles = await context.entities.Cycle.findMany({
@@ -278,8 +326,24 @@ export const createCycle: CreateCycle<CreateCycleArgs, CycleWithDays> = async (a
     }
   });
 
+  // A cycle in pregnancy mode has no period to end it; only a new period
+  // the user confirms does.
+  const pregnantCycle = activeCycles.find((cycle: Cycle) => cycle.pregnancyModeAt);
+  if (pregnantCycle && !args.newPeriodStarted) {
+    throw new HttpError(
+      400,
+      `Cycle #${pregnantCycle.cycleNumber} is in pregnancy mode. Confirm that a new period has started to begin a new cycle.`,
+    );
+  }
+
   const newCycleStartDate = new Date(args.startDate);
 
+  const previousCycle = await context.entities.Cycle.findFirst({
+    where: { userId: context.user.id, startDate: { lt: newCycleStartDate } },
+    orderBy: { startDate: 'desc' },
+  });
+  const postPill = nextPostPillTag(previousCycle, args.postPillCycles ?? null);
+
   // Set existing active cycles to inactive with proper endDate
   await Promise.all(
     activeCycles.map(async (cycle) => {
@@ -304,7 +368,9 @@ export const createCycle: CreateCycle<CreateCycleArgs, CycleWithDays> = async (a
       userId: context.user.id,
       startDate: new Date(args.startDate),
       cycleNumber: 1, // Temporary, will be recalculated
-      isActive: true
+      isActive: true,
+      postPillCycle: postPill?.cycle ?? null,
+      postPillCycles: postPill?.of ?? null,
     },
     include: {
       days: true
@@ -361,6 +427,18 @@ export const createOrUpdateCycleDay: CreateOrUpdateCycleDay<CreateOrUpdateCycleD
     throw new HttpError(400, `Note must be at most ${NOTE_MAX_LENGTH} characters`);
   }
 
+  const dayArgs: CycleDayPartialArgs = { ...args };
+  if ('medications' in args) {
+    const parsed = parseMedications(args.medications);
+    if (parsed.kind === 'error') throw new HttpError(400, parsed.message);
+    dayArgs.medications = parsed.entries;
+  }
+  if ('treatments' in args) {
+    const parsed = parseTreatments(args.treatments);
+    if (parsed.kind === 'error') throw new HttpError(400, parsed.message);
+    dayArgs.treatments = parsed.entries;
+  }
+
   const entryDate = new Date(args.date);
   const dayOfWeek = getDayOfWeek(entryDate);
 
@@ -386,11 +464,11 @@ export const createOrUpdateCycleDay: CreateOrUpdateCycleDay<CreateOrUpdateCycleD
   if (existingDay) {
     updatedDay = await context.entities.CycleDay.update({
       where: { id: existingDay.id },
-      data: buildCycleDayUpdateData(args, entryDate, dayOfWeek),
+      data: buildCycleDayUpdateData(dayArgs, entryDate, dayOfWeek),
     });
   } else {
     updatedDay = await context.entities.CycleDay.create({
-      data: buildCycleDayCreateData(args, {
+      data: buildCycleDayCreateData(dayArgs, {
         cycleId: args.cycleId,
         dayNumber,
         entryDate,
@@ -419,125 +497,14 @@ export const createOrUpdateCycleDay: CreateOrUpdateCycleDay<CreateOrUpdateCycleD
 
 // ===== CSV IMPORT =====
 
-type ImportCycleCsvArgs = { csvText: string };
-
-const appearanceValueMap: Record<string, 'NONE' | 'STICKY' | 'CREAMY' | 'WATERY' | 'EGGWHITE'> = {
-  '0': 'NONE',
-  'none': 'NONE',
-  '1': 'STICKY',
-  'sticky': 'STICKY',
-  '2': 'CREAMY',
-  'creamy': 'CREAMY',
-  '3': 'WATERY',
-  'watery': 'WATERY',
-  '4': 'EGGWHITE',
-  'eggwhite': 'EGGWHITE',
-  'egg white': 'EGGWHITE'
-};
+type ImportCycleCsvArgs = { csvText: string; locale?: CsvLocaleOverrides };
 
-const sensationValueMap: Record<string, 'DRY' | 'DAMP' | 'WET' | 'SLIPPERY'> = {
-  '0': 'DRY',
-  'dry': 'DRY',
-  '1': 'DAMP',
-  'damp': 'DAMP',
-  '2': 'WET',
-  'wet': 'WET',
-  '3': 'SLIPPERY',
-  'slippery': 'SLIPPERY'
-};
-
-function normalizeAppearance(value?: unknown) {
-  if (!value) return undefined;
-  const key = String(value).trim().toLowerCase();
-  return appearanceValueMap[key];
-}
-
-function normalizeSensation(value?: unknown) {
-  if (!value) return undefined;
-  const key = String(value).trim().toLowerCase();
-  return sensationValueMap[key];
-}
-
-function normalizeBoolean(value?: unknown): boolean {
-  if (value === undefined || value === null) return false;
-  const key = String(value).trim().toLowerCase();
-  if (!key) return false;
-  return ['1', 'true', 'yes', 'y', 'on'].includes(key);
-}
-
-function normalizeExclude(value?: unknown): boolean {
-  if (value === undefined || value === null) return false;
-  const key = String(value).trim().toLowerCase();
-  if (!key) return false;
-
-  const num = Number(key);
-  if (!Number.isNaN(num)) {
-    return num < 0;
+function prepareCsvImport(csvText: string, locale?: CsvLocaleOverrides, fileName?: string): PreparedCsvImport {
+  const parsed = parseCsvImport(csvText, locale);
+  if (parsed.kind === 'error') {
+    throw new HttpError(400, fileName ? `${fileName}: ${parsed.message}` : parsed.message);
   }
-
-  return ['-1', 'exclude', 'x', 'skip'].includes(key);
-}
-
-function inferTemperatureUnit(temps: number[]): TemperatureUnit {
-  if (!temps.length) return 'FAHRENHEIT';
-  const average = temps.reduce((sum, val) => sum + val, 0) / temps.length;
-  return average < 60 ? 'CELSIUS' : 'FAHRENHEIT';
-}
-
-function parseDateSafe(value?: unknown): Date | null {
-  if (!value) return null;
-  const raw = String(value).trim();
-  if (!raw) return null;
-
-  // ISO-like: yyyy-mm-dd or yyyy/mm/dd
-  const isoMatch = raw.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
-  if (isoMatch) {
-    const [, y, m, d] = isoMatch;
-    const year = Number(y);
-    const month = Number(m);
-    const day = Number(d);
-    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-      return new Date(year, month - 1, day);
-    }
-    return null;
-  }
-
-  // Day-first or month-first with slashes (e.g., 20/09/2025 or 09/20/2025)
-  const slash = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-  if (slash) {
-    const [, a, b, c] = slash;
-    const first = Number(a);
-    const second = Number(b);
-    const year = Number(c);
-
-    // Heuristic: if first > 12, treat as day-first; if second > 12, treat as month-first; otherwise prefer day-first (common in exports)
-    let day: number;
-    let month: number;
-    if (first > 12 && second <= 12) {
-      day = first;
-      month = second;
-    } else if (second > 12 && first <= 12) {
-      day = second;
-      month = first;
-    } else {
-      day = first;
-      month = second;
-    }
-
-    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-      return new Date(year, month - 1, day);
-    }
-    return null;
-  }
-
-  // Fallback to native parsing
-  const date = new Date(raw);
-  return Number.isNaN(date.getTime()) ? null : date;
-}
-
-function daysBetween(start: Date, current: Date): number {
-  const diff = current.getTime() - start.getTime();
-  return Math.floor(diff / (1000 * 60 * 60 * 24));
+  return parsed.prepared;
 }
 
 type ImportSummary = {
@@ -545,83 +512,30 @@ type ImportSummary = {
   createdCycle: boolean;
   updatedDays: number;
   detectedUnit: TemperatureUnit;
+  columnReport: CsvColumnReport;
 };
 
-export const importCycleCsv: ImportCycleCsv<ImportCycleCsvArgs, ImportSummary> = async (args, context) => {
-  if (!context.user) {
-    throw new HttpError(401, 'Not authorized');
-  }
-
-  const rows = parse(args.csvText, {
-    columns: true,
-    skip_empty_lines: true,
-    trim: true
-  }) as Record<string, string>[];
-
-  if (!rows.length) {
-    throw new HttpError(400, 'CSV is empty or has no data rows.');
-  }
-
-  // Parse and sort rows by date to ensure day numbers align even if the CSV is unordered.
-  const parsedRows = rows
-    .map((row) => {
-      const parsedDate = parseDateSafe(row.d ?? row.date);
-      return {
-        raw: row,
-        parsedDate
-      };
-    })
-    .filter((row) => row.parsedDate !== null)
-    .sort((a, b) => (a.parsedDate as Date).getTime() - (b.parsedDate as Date).getTime());
-
-  if (!parsedRows.length) {
-    throw new HttpError(400, 'No valid dates found in CSV.');
-  }
-
-  // BBT is in `bf` (e.g., 98.15), time is in `bt` (e.g., 09:41)
-  const parsedTemps = parsedRows
-    .map(({ raw }) => Number.parseFloat(raw.bf ?? raw.BF ?? raw.temp ?? ''))
-    .filter((t) => Number.isFinite(t)) as number[];
-
-  const detectedUnit = inferTemperatureUnit(parsedTemps);
-  const convertTemperature = (value: number | null | undefined) => {
-    if (value === null || value === undefined || Number.isNaN(value)) {
-      return null;
-    }
-    return convertToCelsiusForStorage(value, detectedUnit);
-  };
-
-  const firstRow = parsedRows[0];
-  const firstDate = firstRow.parsedDate as Date;
-  if (!firstDate) {
-    throw new HttpError(400, 'First row is missing a valid date.');
-  }
-
-  // Determine the last date from parsed rows (used for endDate hints)
-  const lastDate = parsedRows[parsedRows.length - 1].parsedDate as Date;
-
-  // Back-compute the cycle's true start date (== day 1's calendar date).
-  // The CSV's first row may not be cycle-day-1 (e.g. a partial-cycle import
-  // starting at cd=16). The rest of the app relies on the invariant
-  // `cycleDay.date === cycle.startDate + (dayNumber - 1) days`, so the
-  // cycle's startDate must be the day-1 date, not the first row's date.
-  const firstDayNumberRaw = firstRow.raw.cd ?? firstRow.raw.CD ?? firstRow.raw.cycleDay;
-  const firstDayNumber = firstDayNumberRaw
-    ? Number.parseInt(String(firstDayNumberRaw), 10)
-    : 1;
-  const cycleStartDate = Number.isFinite(firstDayNumber) && firstDayNumber >= 1
-    ? computeCycleStartDate(firstDate, firstDayNumber)
-    : firstDate;
+/**
+ * The cycle a prepared CSV belongs to, if it already exists. `legacy` marks
+ * a match on the pre-fix start date that the import will repair.
+ */
+async function findImportTargetCycle(
+  prepared: PreparedCsvImport,
+  userId: string,
+  entities: any
+): Promise<{ cycle: Cycle; legacy: boolean } | null> {
+  const { firstDate, cycleStartDate } = prepared;
 
   // Find cycle by matching startDate to the back-computed cycle start date.
   // Re-imports of a CSV that was already imported with the fixed code land
   // on the same cycle because the back-computation is deterministic.
-  let cycle = await context.entities.Cycle.findFirst({
+  const cycle = await entities.Cycle.findFirst({
     where: {
-      userId: context.user.id,
+      userId,
       startDate: cycleStartDate
     }
   });
+  if (cycle) return { cycle, legacy: false };
 
   // Repair path: a CSV imported BEFORE this fix produced a cycle whose
   // `startDate` equals the CSV's first row date (the pre-fix buggy value),
@@ -629,26 +543,46 @@ export const importCycleCsv: ImportCycleCsv<ImportCycleCsvArgs, ImportSummary> =
   // lookup misses, fall back to the old key so the user can repair their
   // existing cycle by simply re-importing the same CSV (instead of getting
   // a duplicate cycle).
-  if (!cycle && cycleStartDate.getTime() !== firstDate.getTime()) {
-    const legacyCycle = await context.entities.Cycle.findFirst({
+  if (cycleStartDate.getTime() !== firstDate.getTime()) {
+    const legacyCycle = await entities.Cycle.findFirst({
       where: {
-        userId: context.user.id,
+        userId,
         startDate: firstDate
       }
     });
-    if (legacyCycle) {
-      cycle = await context.entities.Cycle.update({
-        where: { id: legacyCycle.id },
-        data: { startDate: cycleStartDate }
-      });
-    }
+    if (legacyCycle) return { cycle: legacyCycle, legacy: true };
+  }
+
+  return null;
+}
+
+/**
+ * Write one prepared CSV into its cycle: find (or repair, or create) the
+ * cycle by start date, upsert every row as a CycleDay and set the cycle's
+ * endDate. `entities` is either `context.entities` or the delegates of an
+ * open transaction.
+ */
+async function writeCsvImport(
+  prepared: PreparedCsvImport,
+  userId: string,
+  entities: any
+): Promise<{ cycleId: string; createdCycle: boolean; updatedDays: number }> {
+  const { rows, lastDate, cycleStartDate } = prepared;
+
+  const target = await findImportTargetCycle(prepared, userId, entities);
+  let cycle = target?.cycle;
+  if (target?.legacy) {
+    cycle = await entities.Cycle.update({
+      where: { id: target.cycle.id },
+      data: { startDate: cycleStartDate }
+    });
   }
 
   let createdCycle = false;
   if (!cycle) {
-    cycle = await context.entities.Cycle.create({
+    cycle = await entities.Cycle.create({
       data: {
-        userId: context.user.id,
+        userId,
         startDate: cycleStartDate,
         endDate: null, // Will be set after importing days
         isActive: true, // Will be adjusted based on date comparison
@@ -658,53 +592,27 @@ export const importCycleCsv: ImportCycleCsv<ImportCycleCsvArgs, ImportSummary> =
 
     createdCycle = true;
   }
+  const cycleId: string = cycle.id;
 
   let updatedDays = 0;
 
-  for (const { raw, parsedDate } of parsedRows) {
-    const entryDate = parsedDate as Date;
-
-    const dayNumberFromCsv = raw.cd ?? raw.CD ?? raw.cycleDay;
-    const computedDayNumber = dayNumberFromCsv
-      ? Number.parseInt(String(dayNumberFromCsv), 10)
-      : daysBetween(cycleStartDate, entryDate) + 1;
-
-    const temperatureRaw = Number.parseFloat(raw.bf ?? raw.BF ?? raw.temp ?? '');
-    const temperature = convertTemperature(Number.isFinite(temperatureRaw) ? temperatureRaw : null);
-
-    const bbtTime = (raw.bt ?? raw.BT ?? raw.time ?? raw.bbtTime ?? '').toString().trim() || null;
-    const excludeFromInterpretation = normalizeExclude(raw.ok);
-    const hadIntercourse = normalizeBoolean(raw.it);
-    const cervicalAppearance = normalizeAppearance(raw.cf);
-    const cervicalSensation = normalizeSensation(raw.cf ?? raw.cp);
-
-    const existingDay = await context.entities.CycleDay.findFirst({
+  for (const row of rows) {
+    const existingDay = await entities.CycleDay.findFirst({
       where: {
-        cycleId: cycle.id,
-        date: entryDate
+        cycleId,
+        date: row.parsedDate
       }
     });
 
-    const commonData = {
-      cycleId: cycle.id,
-      dayNumber: computedDayNumber,
-      date: entryDate,
-      dayOfWeek: getDayOfWeek(entryDate),
-      bbt: temperature,
-      bbtTime: bbtTime || null,
-      hadIntercourse,
-      excludeFromInterpretation,
-      cervicalAppearance,
-      cervicalSensation
-    };
+    const commonData = { cycleId, ...buildImportDayData(prepared, row) };
 
     if (existingDay) {
-      await context.entities.CycleDay.update({
+      await entities.CycleDay.update({
         where: { id: existingDay.id },
         data: commonData
       });
     } else {
-      await context.entities.CycleDay.create({
+      await entities.CycleDay.create({
         data: commonData
       });
     }
@@ -717,17 +625,24 @@ export const importCycleCsv: ImportCycleCsv<ImportCycleCsvArgs, ImportSummary> =
   }
 
   // Set endDate to the last imported day's date
-  await context.entities.Cycle.update({
-    where: { id: cycle.id },
+  await entities.Cycle.update({
+    where: { id: cycleId },
     data: {
       endDate: lastDate,
       isActive: false // Will be adjusted if this is the latest cycle
     }
   });
 
-  // Ensure only one cycle is active: the one with the latest dates
-  const allUserCycles = await context.entities.Cycle.findMany({
-    where: { userId: context.user.id },
+  return { cycleId, createdCycle, updatedDays };
+}
+
+/**
+ * After an import, make the cycle with the latest recorded date the only
+ * active one and give every other cycle an endDate.
+ */
+async function reconcileActiveCycle(userId: string, entities: any): Promise<void> {
+  const allUserCycles = await entities.Cycle.findMany({
+    where: { userId },
     include: {
       days: {
         orderBy: { date: 'desc' },
@@ -755,12 +670,12 @@ export const importCycleCsv: ImportCycleCsv<ImportCycleCsvArgs, ImportSummary> =
   // Set the latest cycle as active, all others as inactive
   if (latestCycle) {
     await Promise.all(
-      allUserCycles.map(async (c) => {
+      allUserCycles.map(async (c: CycleWithDays) => {
         const shouldBeActive = c.id === latestCycle.id;
         const lastRecordedDay = c.days[0];
         const computedEndDate = lastRecordedDay ? new Date(lastRecordedDay.date) : c.endDate;
 
-        await context.entities.Cycle.update({
+        await entities.Cycle.update({
           where: { id: c.id },
           data: {
             isActive: shouldBeActive,
@@ -770,24 +685,398 @@ export const importCycleCsv: ImportCycleCsv<ImportCycleCsvArgs, ImportSummary> =
       })
     );
   }
+}
+
+export const importCycleCsv: ImportCycleCsv<ImportCycleCsvArgs, ImportSummary> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const prepared = prepareCsvImport(args.csvText, args.locale);
+  const written = await writeCsvImport(prepared, context.user.id, context.entities);
+
+  await reconcileActiveCycle(context.user.id, context.entities);
 
   // Recalculate all cycle numbers based on chronological order
   await recalculateCycleNumbers(context.user.id, context);
 
   return {
-    cycleId: cycle.id,
-    createdCycle,
-    updatedDays,
-    detectedUnit
+    ...written,
+    detectedUnit: prepared.detectedUnit,
+    columnReport: prepared.columns.report
   };
 };
 
+type PreviewCycleCsvArgs = { csvText: string; locale?: CsvLocaleOverrides };
+
+/**
+ * Dry run of importCycleCsv: parse the CSV, find the cycle it would land on
+ * and diff every row against the stored day, without writing anything.
+ */
+export const previewCycleCsv: PreviewCycleCsv<PreviewCycleCsvArgs, CsvImportPreview> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+
+  const prepared = prepareCsvImport(args.csvText, args.locale);
+  const target = await findImportTargetCycle(prepared, context.user.id, context.entities);
+
+  const existingDays: CycleDay[] = target
+    ? await context.entities.CycleDay.findMany({ where: { cycleId: target.cycle.id } })
+    : [];
+  const existingByDate = new Map(existingDays.map((d) => [new Date(d.date).getTime(), d]));
+
+  const days = prepared.rows.map((row) => {
+    const incoming = buildImportDayData(prepared, row);
+    const existing = existingByDate.get(row.parsedDate.getTime()) ?? null;
+    return {
+      dayNumber: incoming.dayNumber,
+      date: incoming.date,
+      ...diffImportDay(existing, incoming)
+    };
+  });
+
+  return {
+    detectedUnit: prepared.detectedUnit,
+    locale: prepared.locale,
+    cycleStartDate: prepared.cycleStartDate,
+    firstDate: prepared.firstDate,
+    lastDate: prepared.lastDate,
+    target: target
+      ? {
+          cycleId: target.cycle.id,
+          cycleNumber: target.cycle.cycleNumber,
+          startDate: target.cycle.startDate,
+          repairsStartDate: target.legacy
+        }
+      : null,
+    days,
+    columnReport: prepared.columns.report
+  };
+};
+
+type ImportCycleCsvBulkArgs = { files: CsvFile[]; locale?: CsvLocaleOverrides };
+
+/** Keeps a single request (and its transaction) to a sensible size. */
+const MAX_BULK_IMPORT_FILES = 60;
+
+/**
+ * Import several cycle CSVs at once (the client unpacks zips before calling).
+ * Every file is parsed and validated first; overlapping cycles abort the
+ * whole import before anything is written. All writes then run in a single
+ * transaction so a failure part-way leaves the database untouched, and cycle
+ * numbers are recalculated once at the end instead of once per file.
+ */
+export const importCycleCsvBulk: ImportCycleCsvBulk<ImportCycleCsvBulkArgs, { files: BulkImportFileSummary[] }> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+  const userId = context.user.id;
+
+  if (!args.files?.length) {
+    throw new HttpError(400, 'No files to import.');
+  }
+  if (args.files.length > MAX_BULK_IMPORT_FILES) {
+    throw new HttpError(400, `At most ${MAX_BULK_IMPORT_FILES} files can be imported at once.`);
+  }
+
+  const prepared: (BulkImportCandidate & { prepared: PreparedCsvImport })[] = args.files.map(({ fileName, csvText }: CsvFile) => {
+    const result = prepareCsvImport(csvText, args.locale, fileName);
+    return { fileName, cycleStartDate: result.cycleStartDate, lastDate: result.lastDate, prepared: result };
+  });
+
+  const { files, overlaps } = orderBulkImport(prepared);
+  if (overlaps.length > 0) {
+    const list = overlaps.map((o) => `${o.fileName} overlaps ${o.overlapsWith}`).join('; ');
+    throw new HttpError(400, `Cycles overlap, nothing was imported: ${list}.`, { overlaps });
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const entities = { Cycle: tx.cycle, CycleDay: tx.cycleDay };
+    const summaries: BulkImportFileSummary[] = [];
+
+    for (const file of files) {
+      const written = await writeCsvImport(file.prepared, userId, entities);
+      summaries.push({
+        ...written,
+        fileName: file.fileName,
+        cycleStartDate: file.cycleStartDate,
+        lastDate: file.lastDate,
+        gapDaysBefore: file.gapDaysBefore,
+        detectedUnit: file.prepared.detectedUnit,
+        columnReport: file.prepared.columns.report
+      });
+    }
+
+    await reconcileActiveCycle(userId, entities);
+    await recalculateCycleNumbers(userId, { entities });
+
+    return { files: summaries };
+  }, { timeout: 120_000 });
+};
+
+/** Validation errors returned to the client; the total is reported separately. */
+const MAX_REPORTED_RESTORE_ERRORS = 50;
+
+function dateOrNull(value: string | null): Date | null {
+  return value ? new Date(value) : null;
+}
+
+function jsonOrDbNull(value: unknown): any {
+  return value == null ? Prisma.DbNull : value;
+}
+
+/**
+ * Write archive days and their lab results into a cycle; archive values win
+ * over stored ones.
+ */
+async function restoreDays(tx: any, cycleId: string, days: ExportArchiveDay[]): Promise<number> {
+  for (const day of days) {
+    const data = {
+      date: new Date(day.date),
+      dayOfWeek: day.dayOfWeek,
+      bbt: day.bbt,
+      bbtTime: day.bbtTime,
+      excludeFromInterpretation: day.excludeFromInterpretation,
+      hadIntercourse: day.hadIntercourse,
+      cervicalAppearance: day.cervicalAppearance,
+      cervicalSensation: day.cervicalSensation,
+      opkStatus: day.opkStatus,
+      menstrualFlow: day.menstrualFlow,
+      disturbanceFactors: day.disturbanceFactors,
+      travelTimeDiff: day.travelTimeDiff,
+      notes: day.notes,
+      medications: jsonOrDbNull(day.medications),
+      treatments: jsonOrDbNull(day.treatments)
+    };
+    const saved = await tx.cycleDay.upsert({
+      where: { cycleId_dayNumber: { cycleId, dayNumber: day.dayNumber } },
+      create: { cycleId, dayNumber: day.dayNumber, ...data },
+      update: data
+    });
+    for (const { hormone, ...values } of day.labResults) {
+      await tx.labResult.upsert({
+        where: { cycleDayId_hormone: { cycleDayId: saved.id, hormone } },
+        create: { cycleDayId: saved.id, hormone, ...values },
+        update: values
+      });
+    }
+  }
+  return days.length;
+}
+
+/**
+ * Write archive interpretations into a cycle, including the user's review
+ * state (overrides, dismissals, pending nudges) so nothing has to be
+ * re-confirmed after a restore.
+ */
+async function restoreInterpretations(
+  tx: any,
+  cycleId: string,
+  interpretations: ExportArchiveInterpretation[]
+): Promise<number> {
+  for (const interp of interpretations) {
+    const data = {
+      state: interp.state,
+      engineResult: interp.engineResult,
+      userOverrides: jsonOrDbNull(interp.userOverrides),
+      dismissedShiftDay: interp.dismissedShiftDay,
+      needsReview: interp.needsReview,
+      reviewReason: interp.reviewReason,
+      previousEngineResult: jsonOrDbNull(interp.previousEngineResult),
+      postShiftMonitoring: jsonOrDbNull(interp.postShiftMonitoring),
+      pendingNudges: jsonOrDbNull(interp.pendingNudges),
+      dismissedDataFingerprint: interp.dismissedDataFingerprint,
+      engineId: interp.engineId,
+      engineVersion: interp.engineVersion
+    };
+    await tx.cycleInterpretation.upsert({
+      where: { cycleId_type: { cycleId, type: interp.type } },
+      create: { cycleId, type: interp.type, createdAt: new Date(interp.createdAt), ...data },
+      update: data
+    });
+  }
+  return interpretations.length;
+}
+
+/**
+ * Write archive exclusion decisions into a cycle, so suggestions the user
+ * already answered are not asked again after a restore.
+ */
+async function restoreExclusionDecisions(
+  tx: any,
+  cycleId: string,
+  decisions: ExportArchiveExclusionDecision[]
+): Promise<void> {
+  for (const decision of decisions) {
+    const data = {
+      decision: decision.decision,
+      factors: decision.factors,
+      bbt: decision.bbt,
+      decidedAt: new Date(decision.decidedAt)
+    };
+    await tx.exclusionDecision.upsert({
+      where: { cycleId_dayNumber: { cycleId, dayNumber: decision.dayNumber } },
+      create: { cycleId, dayNumber: decision.dayNumber, ...data },
+      update: data
+    });
+  }
+}
+
+type RestoreUserDataArgs = { archive: unknown; mode: RestoreMode };
+
+/**
+ * Restore a JSON archive from exportUserData. The whole archive is validated
+ * up front and every problem is reported per record; only a clean archive is
+ * written, in a single transaction, so a failure leaves the account as it was.
+ * How archive cycles meet stored ones is decided by `mode` (see planRestore).
+ */
+export const restoreUserData: RestoreUserData<RestoreUserDataArgs, RestoreSummary> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, 'Not authorized');
+  }
+  const userId = context.user.id;
+
+  if (!RESTORE_MODES.includes(args.mode)) {
+    throw new HttpError(400, `Unknown restore mode: ${args.mode}`);
+  }
+
+  const validation = validateExportArchive(args.archive);
+  if (validation.kind === 'error') {
+    const count = validation.errors.length;
+    throw new HttpError(
+      400,
+      `The archive has ${count} invalid ${count === 1 ? 'value' : 'values'}; nothing was restored.`,
+      { errors: validation.errors.slice(0, MAX_REPORTED_RESTORE_ERRORS), errorCount: count }
+    );
+  }
+  const { archive } = validation;
+
+  return prisma.$transaction(async (tx) => {
+    const entities = { Cycle: tx.cycle, CycleDay: tx.cycleDay };
+
+    const existing = await tx.cycle.findMany({
+      where: { userId },
+      include: { days: { orderBy: { date: 'desc' }, take: 1 } }
+    });
+    const plan = planRestore(
+      archive,
+      existing.map((c) => ({
+        id: c.id,
+        startDate: c.startDate,
+        lastDate: new Date(Math.max(
+          c.startDate.getTime(),
+          c.endDate?.getTime() ?? 0,
+          c.days[0]?.date.getTime() ?? 0
+        ))
+      })),
+      args.mode
+    );
+
+    if (plan.deleteCycleIds.length > 0) {
+      await tx.cycle.deleteMany({ where: { userId, id: { in: plan.deleteCycleIds } } });
+    }
+
+    let daysWritten = 0;
+    let interpretationsWritten = 0;
+
+    for (const cycle of plan.create) {
+      const created = await tx.cycle.create({
+        data: {
+          userId,
+          cycleNumber: cycle.cycleNumber,
+          createdAt: new Date(cycle.createdAt),
+          startDate: new Date(cycle.startDate),
+          endDate: dateOrNull(cycle.endDate),
+          isActive: cycle.isActive,
+          markedAnovulatoryAt: dateOrNull(cycle.markedAnovulatoryAt),
+          markedUninterpretableAt: dateOrNull(cycle.markedUninterpretableAt),
+          pregnancyModeAt: dateOrNull(cycle.pregnancyModeAt),
+          pregnancyIndicationDismissedAt: dateOrNull(cycle.pregnancyIndicationDismissedAt),
+          specialSituation: cycle.specialSituation,
+          postPillCycle: cycle.postPillCycle,
+          postPillCycles: cycle.postPillCycles
+        }
+      });
+      daysWritten += await restoreDays(tx, created.id, cycle.days);
+      interpretationsWritten += await restoreInterpretations(tx, created.id, cycle.interpretations);
+      await restoreExclusionDecisions(tx, created.id, cycle.exclusionDecisions);
+    }
+
+    for (const { cycle, targetCycleId } of plan.merge) {
+      // Classification marks, pregnancy mode, the special situation and the
+      // post-pill tag only ever get added by a merge, never cleared.
+      await tx.cycle.update({
+        where: { id: targetCycleId },
+        data: {
+          ...(cycle.markedAnovulatoryAt && { markedAnovulatoryAt: new Date(cycle.markedAnovulatoryAt) }),
+          ...(cycle.markedUninterpretableAt && { markedUninterpretableAt: new Date(cycle.markedUninterpretableAt) }),
+          ...(cycle.pregnancyModeAt && { pregnancyModeAt: new Date(cycle.pregnancyModeAt) }),
+          ...(cycle.pregnancyIndicationDismissedAt && {
+            pregnancyIndicationDismissedAt: new Date(cycle.pregnancyIndicationDismissedAt)
+          }),
+          ...(cycle.specialSituation && { specialSituation: cycle.specialSituation }),
+          ...(cycle.postPillCycles != null && {
+            postPillCycle: cycle.postPillCycle,
+            postPillCycles: cycle.postPillCycles
+          })
+        }
+      });
+      daysWritten += await restoreDays(tx, targetCycleId, cycle.days);
+      interpretationsWritten += await restoreInterpretations(tx, targetCycleId, cycle.interpretations);
+      await restoreExclusionDecisions(tx, targetCycleId, cycle.exclusionDecisions);
+    }
+
+    // Settings follow the archive, except in skip mode where existing
+    // settings count as a conflict and are kept.
+    let settingsRestored = false;
+    if (archive.settings) {
+      const current = await tx.userSettings.findUnique({ where: { userId } });
+      if (!current || args.mode !== 'skip') {
+        // Field by field, so nothing but validated settings reaches the row.
+        const data = {
+          temperatureUnit: archive.settings.temperatureUnit,
+          notesRowExpanded: archive.settings.notesRowExpanded,
+          bbtTimeCorrection: archive.settings.bbtTimeCorrection,
+          bbtCorrectionPerHour: archive.settings.bbtCorrectionPerHour,
+          exclusionRules: jsonOrDbNull(archive.settings.exclusionRules),
+          interpretationEngine: archive.settings.interpretationEngine
+        };
+        await tx.userSettings.upsert({
+          where: { userId },
+          create: { ...data, userId },
+          update: data
+        });
+        settingsRestored = true;
+      }
+    }
+
+    await reconcileActiveCycle(userId, entities);
+    await recalculateCycleNumbers(userId, { entities });
+
+    return {
+      mode: args.mode,
+      cyclesCreated: plan.create.length,
+      cyclesMerged: plan.merge.length,
+      cyclesDeleted: plan.deleteCycleIds.length,
+      skipped: plan.skipped,
+      daysWritten,
+      interpretationsWritten,
+      settingsRestored
+    };
+  }, { timeout: 120_000 });
+};
+
 /**
  * Update user settings (temperature unit, notes row expanded state, etc.)
  */
 type UpdateUserSettingsArgs = {
   temperatureUnit?: TemperatureUnit;
   notesRowExpanded?: boolean;
+  bbtTimeCorrection?: boolean;
+  bbtCorrectionPerHour?: number;
+  exclusionRules?: Partial<ExclusionRules> | null;
+  interpretationEngine?: string;
 };
 
 export const updateUserSettings: UpdateUserSettings<UpdateUserSettingsArgs, UserSettings> = async (args, context) => {
@@ -799,6 +1088,29 @@ export const updateUserSettings: UpdateUserSettings<UpdateUserSettingsArgs, User
   const data: Prisma.UserSettingsUncheckedUpdateInput = {};
   if ('temperatureUnit' in args)  data.temperatureUnit = args.temperatureUnit;
   if ('notesRowExpanded' in args) data.notesRowExpanded = args.notesRowExpanded;
+  if ('bbtTimeCorrection' in args) data.bbtTimeCorrection = args.bbtTimeCorrection;
+  if ('bbtCorrectionPerHour' in args) {
+    const perHour = args.bbtCorrectionPerHour;
+    if (typeof perHour !== 'number' || !(perHour > 0 && perHour <= MAX_CORRECTION_C_PER_HOUR)) {
+      throw new HttpError(400, `Correction must be more than 0 and at most ${MAX_CORRECTION_C_PER_HOUR} °C per hour`);
+    }
+    data.bbtCorrectionPerHour = perHour;
+  }
+  if ('exclusionRules' in args) {
+    if (args.exclusionRules === null) {
+      data.exclusionRules = Prisma.DbNull;
+    } else {
+      const parsed = parseExclusionRules(args.exclusionRules);
+      if (parsed.kind === 'error') throw new HttpError(400, parsed.message);
+      data.exclusionRules = parsed.rules;
+    }
+  }
+  if ('interpretationEngine' in args) {
+    if (!isSelectableEngineId(args.interpretationEngine)) {
+      throw new HttpError(400, `Unknown interpretation rule set: ${args.interpretationEngine}`);
+    }
+    data.interpretationEngine = args.interpretationEngine;
+  }
 
   // Reject empty calls — every call should change at least one field.
   if (Object.keys(data).length === 0) {
@@ -0,0 +1,191 @@
+/**
+ * Minimal PDF 1.4 writer for vector pages: lines, rectangles, circles and
+ * text in the built-in Helvetica fonts. No dependencies and no network — the
+ * standard 14 fonts ship with every PDF viewer, so nothing is embedded.
+ *
+ * Layout code works in points with the origin at the TOP-left (like SVG);
+ * the writer flips y when emitting PDF operators.
+ */
+
+export type PdfTextAlign = 'left' | 'center' | 'right';
+
+export type PdfPrimitive =
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; color: string; width: number; dash?: number }
+  | { kind: 'polyline'; points: [number, number][]; color: string; width: number }
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill: string }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill: string | null; stroke: string | null }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; color: string; align?: PdfTextAlign; bold?: boolean };
+
+export type PdfPage = {
+  width: number;
+  height: number;
+  items: PdfPrimitive[];
+};
+
+// Helvetica advance widths (1/1000 em) for printable ASCII, from the
+// standard AFM. Helvetica-Bold is a little wider; the regular table is close
+// enough for centring and truncation.
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, '!': 278, '"': 355, '#': 556, '$': 556, '%': 889, '&': 667, "'": 191,
+  '(': 333, ')': 333, '*': 389, '+': 584, ',': 278, '-': 333, '.': 278, '/': 278,
+  ':': 278, ';': 278, '<': 584, '=': 584, '>': 584, '?': 556, '@': 1015,
+  A: 667, B: 667, C: 722, D: 722, E: 667, F: 611, G: 778, H: 722, I: 278, J: 500,
+  K: 667, L: 556, M: 833, N: 722, O: 778, P: 667, Q: 778, R: 722, S: 667, T: 611,
+  U: 722, V: 667, W: 944, X: 667, Y: 667, Z: 611, '[': 278, '\\': 278, ']': 278,
+  '^': 469, _: 556, '`': 333, a: 556, b: 556, c: 500, d: 556, e: 556, f: 278,
+  g: 556, h: 556, i: 222, j: 222, k: 500, l: 222, m: 833, n: 556, o: 556, p: 556,
+  q: 556, r: 333, s: 500, t: 278, u: 556, v: 500, w: 722, x: 500, y: 500, z: 500,
+  '{': 334, '|': 260, '}': 334, '~': 584,
+};
+const DEFAULT_WIDTH = 556;
+
+/** Approximate rendered width of `text` in points. */
+export function measureText(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const ch of text) units += HELVETICA_WIDTHS[ch] ?? DEFAULT_WIDTH;
+  return (units / 1000) * size * (bold ? 1.05 : 1);
+}
+
+/** Cut `text` to fit `maxWidth`, ending in an ellipsis when shortened. */
+export function truncateText(text: string, size: number, maxWidth: number): string {
+  if (measureText(text, size) <= maxWidth) return text;
+  let result = text;
+  while (result.length > 0 && measureText(`${result}…`, size) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result.trimEnd()}…`;
+}
+
+// WinAnsiEncoding code points for the non-Latin-1 characters we print.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '∅': 0xd8,
+};
+
+function encodeText(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = WIN_ANSI_EXTRAS[ch] ?? ch.charCodeAt(0);
+    const safe = code < 0x20 || code > 0xff || (code >= 0x80 && code < 0xa0 && !(ch in WIN_ANSI_EXTRAS))
+      ? 0x3f // '?'
+      : code;
+    const c = String.fromCharCode(safe);
+    out += c === '(' || c === ')' || c === '\\' ? `\\${c}` : c;
+  }
+  return out;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function rgb(hex: string): string {
+  const value = hex.replace('#', '');
+  const r = parseInt(value.slice(0, 2), 16) / 255;
+  const g = parseInt(value.slice(2, 4), 16) / 255;
+  const b = parseInt(value.slice(4, 6), 16) / 255;
+  return `${num(r)} ${num(g)} ${num(b)}`;
+}
+
+// Control-point factor for approximating a quarter circle with a Bézier curve.
+const KAPPA = 0.5523;
+
+function circlePath(cx: number, cy: number, r: number): string {
+  const k = r * KAPPA;
+  return [
+    `${num(cx + r)} ${num(cy)} m`,
+    `${num(cx + r)} ${num(cy + k)} ${num(cx + k)} ${num(cy + r)} ${num(cx)} ${num(cy + r)} c`,
+    `${num(cx - k)} ${num(cy + r)} ${num(cx - r)} ${num(cy + k)} ${num(cx - r)} ${num(cy)} c`,
+    `${num(cx - r)} ${num(cy - k)} ${num(cx - k)} ${num(cy - r)} ${num(cx)} ${num(cy - r)} c`,
+    `${num(cx + k)} ${num(cy - r)} ${num(cx + r)} ${num(cy - k)} ${num(cx + r)} ${num(cy)} c`,
+  ].join('\n');
+}
+
+function contentStream(page: PdfPage): string {
+  const y = (top: number) => page.height - top;
+  const ops: string[] = [];
+
+  for (const item of page.items) {
+    switch (item.kind) {
+      case 'line':
+        ops.push(
+          `${rgb(item.color)} RG ${num(item.width)} w ${item.dash ? `[${num(item.dash)}] 0 d` : '[] 0 d'}`,
+          `${num(item.x1)} ${num(y(item.y1))} m ${num(item.x2)} ${num(y(item.y2))} l S`,
+        );
+        break;
+      case 'polyline': {
+        if (item.points.length < 2) break;
+        const [first, ...rest] = item.points;
+        ops.push(
+          `${rgb(item.color)} RG ${num(item.width)} w [] 0 d`,
+          `${num(first[0])} ${num(y(first[1]))} m ${rest.map(([px, py]) => `${num(px)} ${num(y(py))} l`).join(' ')} S`,
+        );
+        break;
+      }
+      case 'rect':
+        ops.push(`${rgb(item.fill)} rg ${num(item.x)} ${num(y(item.y + item.height))} ${num(item.width)} ${num(item.height)} re f`);
+        break;
+      case 'circle': {
+        const paint = item.fill && item.stroke ? 'B' : item.fill ? 'f' : 'S';
+        if (item.fill) ops.push(`${rgb(item.fill)} rg`);
+        if (item.stroke) ops.push(`${rgb(item.stroke)} RG 0.75 w [] 0 d`);
+        ops.push(`${circlePath(item.cx, y(item.cy), item.r)} ${paint}`);
+        break;
+      }
+      case 'text': {
+        const width = measureText(item.text, item.size, item.bold);
+        const x = item.align === 'center' ? item.x - width / 2 : item.align === 'right' ? item.x - width : item.x;
+        ops.push(
+          `BT /${item.bold ? 'F2' : 'F1'} ${num(item.size)} Tf ${rgb(item.color)} rg ${num(x)} ${num(y(item.y))} Td (${encodeText(item.text)}) Tj ET`,
+        );
+        break;
+      }
+    }
+  }
+
+  return ops.join('\n');
+}
+
+/**
+ * Serialise pages into a complete PDF file. All strings are built from
+ * single-byte characters, so string length equals byte length and the xref
+ * offsets can be taken directly from it.
+ */
+export function renderPdf(pages: PdfPage[], title: string): Uint8Array {
+  // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a
+  // (page, content) pair per page.
+  const objects: string[] = [];
+  const pageObjectNumber = (i: number) => 6 + i * 2;
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObjectNumber(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title (${encodeText(title)}) /Producer (Cycle Path) >>`;
+
+  pages.forEach((page, i) => {
+    const stream = contentStream(page);
+    objects[pageObjectNumber(i)] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObjectNumber(i) + 1} 0 R >>`;
+    objects[pageObjectNumber(i) + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (let n = 1; n < objects.length; n++) {
+    offsets[n] = out.length;
+    out += `${n} 0 obj\n${objects[n]}\nendobj\n`;
+  }
+
+  const xrefOffset = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let n = 1; n < objects.length; n++) {
+    out += `${String(offsets[n]).padStart(10, '0')} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,34 @@
+/** Cycles tagged post-pill when the user does not say how many. */
+export const DEFAULT_POST_PILL_CYCLES = 3;
+
+/** Upper bound for the tag; Sensiplan's wash-out guidance covers a year. */
+export const MAX_POST_PILL_CYCLES = 12;
+
+/**
+ * A cycle's place in the wash-out after stopping hormonal contraception:
+ * cycle `cycle` of `of` (1-based).
+ */
+export type PostPillTag = { cycle: number; of: number };
+
+type TaggedCycle = { postPillCycle?: number | null; postPillCycles?: number | null };
+
+export function isValidPostPillCycles(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_POST_PILL_CYCLES;
+}
+
+export function getPostPillTag(cycle: TaggedCycle): PostPillTag | null {
+  if (cycle.postPillCycle == null || cycle.postPillCycles == null) return null;
+  return { cycle: cycle.postPillCycle, of: cycle.postPillCycles };
+}
+
+/**
+ * Tag for a new cycle. `requested` is the count chosen on NewCyclePage,
+ * which starts a fresh wash-out; otherwise the tag carries on from the
+ * previous cycle until its count runs out.
+ */
+export function nextPostPillTag(previous: TaggedCycle | null, requested: number | null): PostPillTag | null {
+  if (requested != null) return { cycle: 1, of: requested };
+  const tag = previous ? getPostPillTag(previous) : null;
+  if (!tag || tag.cycle >= tag.of) return null;
+  return { cycle: tag.cycle + 1, of: tag.of };
+}